@@ -0,0 +1,49 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import GeometryCorrection from '@/components/projector/GeometryCorrection';
+
+/**
+ * Test grid for geometry calibration. Opened by the desktop app on the display
+ * being adjusted (?display=<id>) and warped live as corners are dragged.
+ */
+export default function CalibratePage() {
+    const [displayId, setDisplayId] = useState<string | null>(null);
+
+    useEffect(() => {
+        setDisplayId(new URLSearchParams(window.location.search).get('display'));
+    }, []);
+
+    const lines = Array.from({ length: 9 }, (_, i) => (i + 1) * 10);
+
+    return (
+        <GeometryCorrection displayId={displayId}>
+            <div className="fixed inset-0 bg-black cursor-none select-none">
+                <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+                    {lines.map(pos => (
+                        <g key={pos} stroke={pos === 50 ? '#818cf8' : '#3f3f46'} strokeWidth={pos === 50 ? 3 : 1}>
+                            <line x1={pos} y1={0} x2={pos} y2={100} vectorEffect="non-scaling-stroke" />
+                            <line x1={0} y1={pos} x2={100} y2={pos} vectorEffect="non-scaling-stroke" />
+                        </g>
+                    ))}
+                    <line x1={0} y1={0} x2={100} y2={100} stroke="#27272a" vectorEffect="non-scaling-stroke" />
+                    <line x1={100} y1={0} x2={0} y2={100} stroke="#27272a" vectorEffect="non-scaling-stroke" />
+                    <rect x={0} y={0} width={100} height={100} fill="none" stroke="#ffffff" strokeWidth={4} vectorEffect="non-scaling-stroke" />
+                </svg>
+
+                {/* Circle stays round only when the geometry is right */}
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 h-[60vh] w-[60vh] rounded-full border-4 border-white/80" />
+
+                {(['top-4 left-4', 'top-4 right-4', 'bottom-4 right-4', 'bottom-4 left-4'] as const).map((position, idx) => (
+                    <span key={position} className={`absolute ${position} text-white text-2xl font-black font-mono`}>
+                        {['TL', 'TR', 'BR', 'BL'][idx]}
+                    </span>
+                ))}
+
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 translate-y-[32vh] text-center text-white/70 text-sm font-bold uppercase tracking-[0.3em]">
+                    Geometry Test Grid
+                </div>
+            </div>
+        </GeometryCorrection>
+    );
+}
@@ -1,12 +1,15 @@
 "use client";
 
 import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { Play, Pause, Square, SkipBack, SkipForward, Maximize2, Maximize, Mic, MicOff, Search, Settings, Monitor, CheckCircle, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Key, Download, X, Tv2, Music, Clock, PanelLeftOpen, PanelLeftClose, Sun, Moon, Book, User, Library } from 'lucide-react';
+import { Play, Pause, Square, SkipBack, SkipForward, Maximize2, Maximize, Mic, MicOff, Search, Settings, Monitor, CheckCircle, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Key, Download, X, Tv2, Music, Clock, PanelLeftOpen, PanelLeftClose, Sun, Moon, Book, User, Library, Smartphone, Layers, ClipboardList, Timer, CircleDot } from 'lucide-react';
 import Fuse from 'fuse.js';
 
 import LicenseModal from '@/components/LicenseModal';
 import MIDISettingsModal from '@/components/MIDISettingsModal';
 import DisplaySettingsModal from '@/components/DisplaySettingsModal';
+import RemoteControlModal from '@/components/RemoteControlModal';
+import AsRunLogModal from '@/components/AsRunLogModal';
+import EditHistoryMenu from '@/components/EditHistoryMenu';
 import { useMIDI, MidiAction } from '@/hooks/useMIDI';
 import { useBroadcastChannel } from '@/hooks/useBroadcast';
 import { useSmartDetection, type DetectionSignal } from '@/hooks/useSmartDetection';
@@ -17,17 +20,32 @@ import TranscriptMonitor from '@/components/TranscriptMonitor';
 import { detectVersesInText, lookupVerseAsync, SUPPORTED_VERSIONS } from '@/utils/bible';
 import { DEFAULT_THEMES, ProjectorTheme } from '@/utils/themes';
 import { parseLyrics } from '@/utils/lyricsParser';
+import { chordPayload } from '@/utils/chordpro';
 import Link from 'next/link';
-import OmniSearch from '@/components/OmniSearch';
+import OmniSearch, { OmniTarget } from '@/components/OmniSearch';
 import ServiceSchedulePanel from '@/components/ServiceSchedulePanel';
 import ResourceLibraryPanel from '@/components/ResourceLibraryPanel';
 import AudioModePrompt from '@/components/AudioModePrompt';
 import MediaControls from '@/components/MediaControls';
 import LiveFeedStream from '@/components/projector/LiveFeedStream';
-import { ScheduleItem, ServiceSchedule, createBlankSchedule, loadSchedule, saveSchedule } from '@/utils/scheduleManager';
-import { getThemes, ResourceItem } from '@/utils/resourceLibrary';
+import { ScheduleItem, ServiceSchedule, createBlankSchedule, loadSchedule, saveSchedule, fillPlaceholder } from '@/utils/scheduleManager';
+import { getThemes, listResources, ResourceItem } from '@/utils/resourceLibrary';
 import { loadPastorProfile, PastorProfile, savePastorProfile } from '@/lib/pastorProfile';
 import { useBibleOfflineSync } from '@/hooks/useBibleOfflineSync';
+import { LayerTransitions, DEFAULT_TRANSITIONS, loadGlobalTransitions, saveGlobalTransitions, resolveTransitions } from '@/utils/transitions';
+import TransitionSettings from '@/components/TransitionSettings';
+import { LiveState, createLiveSession, createLiveState, reduceLiveState } from '@/utils/liveState';
+import { entryFromMessage, logAsRunEntry, songCredits } from '@/utils/asRunLog';
+import { recordEdit, applyScheduleCommand, clearScheduleHistory } from '@/utils/editHistory';
+import { useEditHistory } from '@/hooks/useEditHistory';
+import { useAutoAdvance } from '@/hooks/useAutoAdvance';
+import { findNextScheduleItem } from '@/utils/autoAdvance';
+import { useRehearsal } from '@/hooks/useRehearsal';
+import { saveRehearsalToLibrary, slideGuideSeconds } from '@/utils/rehearsal';
+import { sectionStarts, sectionShortName } from '@/utils/arrangements';
+import { useItemCues } from '@/hooks/useItemCues';
+import { usePlanValidation } from '@/hooks/usePlanValidation';
+import PlanValidationModal from '@/components/PlanValidationModal';
 
 /**
  * Render formatted text with allowed HTML tags (b, i, font/span with color)
@@ -202,6 +220,10 @@ export default function DashboardPage() {
     const [announcement, setAnnouncement] = useState({ text: '', isActive: false, bgColor: '#ef4444', textColor: '#ffffff', speed: 20 });
     const [isMidiSettingsOpen, setIsMidiSettingsOpen] = useState(false);
     const [isDisplaySettingsOpen, setIsDisplaySettingsOpen] = useState(false);
+    const [isRemoteSettingsOpen, setIsRemoteSettingsOpen] = useState(false);
+    const [isAsRunLogOpen, setIsAsRunLogOpen] = useState(false);
+    const [isPlanCheckOpen, setIsPlanCheckOpen] = useState(false);
+    const [pendingPlanGoLive, setPendingPlanGoLive] = useState<{ item: ScheduleItem, slideIndex: number } | null>(null);
     const [isSourceLibraryOpen, setIsSourceLibraryOpen] = useState(false);
     const [theme, setTheme] = useState<'dark' | 'light'>('dark'); // Always start dark
 
@@ -237,62 +259,44 @@ export default function DashboardPage() {
     // Initialize Fuse for Song Detection
     const fuseRef = useRef<Fuse<any> | null>(null);
 
-    const { broadcast, subscribe } = useBroadcastChannel('projector_channel', (message: any) => {
+    // Authoritative live state for output windows (see utils/liveState)
+    const liveStateRef = useRef<LiveState>(createLiveState(createLiveSession()));
+
+    const { broadcast: broadcastLocal, subscribe } = useBroadcastChannel('projector_channel', (message: any) => {
         if (message.type === 'REQUEST_STATE') {
             console.log('[Dashboard] Received REQUEST_STATE from new window');
-            // Resend current theme
-            if (currentTheme) {
-                broadcast({ type: 'APPLY_THEME', payload: currentTheme });
-            }
-            // Resend current active item if it exists
-            if (activeItemRef.current) {
-                const item = activeItemRef.current;
-                if (item.version === 'SONG' || item.version === 'MEDIA') {
-                    // It's a persistent presentation (song/media)
-                    if (livePresentationRef.current) {
-                        const lp = livePresentationRef.current;
-                        broadcast({
-                            type: 'SHOW_CONTENT',
-                            payload: {
-                                type: lp.item.type === 'media' ? 'media' : 'song',
-                                title: lp.item.title,
-                                body: lp.item.slides[lp.slideIndex].content,
-                                meta: lp.item.type === 'media' ? 'Image' : lp.item.meta?.author,
-                                background: lp.item.meta?.background,
-                                options: lp.item.type === 'media' ? { imageMode: lp.item.meta?.imageMode } : undefined,
-                                slideIndex: lp.slideIndex,
-                                totalSlides: lp.item.slides.length,
-                                nextSlide: lp.item.slides[lp.slideIndex + 1]?.content
-                            }
-                        });
-                    }
-                } else {
-                    // It's a verse
-                    const allVerses = item.additionalVerses || [];
-                    const allTexts = [item.text, ...allVerses.map(v => v.text)];
-                    const lastVerse = allVerses.length > 0
-                        ? allVerses[allVerses.length - 1].verseNum
-                        : item.verseNum;
-                    const displayReference = allVerses.length > 0
-                        ? `${item.book} ${item.chapter}:${item.verseNum}-${lastVerse}`
-                        : item.reference;
-
-                    broadcast({
-                        type: 'SHOW_VERSE',
-                        payload: {
-                            reference: displayReference,
-                            text: allTexts.join(' '),
-                            version: item.version,
-                            verses: [{ verseNum: item.verseNum, text: item.text }, ...allVerses]
-                        }
-                    });
-                }
-            }
-            // Resend current announcement state
-            broadcast({ type: 'UPDATE_ANNOUNCEMENT', payload: announcementRef.current });
+            // Answer with the full snapshot; it carries the current seq so newer messages still apply
+            const state = liveStateRef.current;
+            broadcastLocal({ type: 'LIVE_STATE', session: state.session, seq: state.seq, payload: state });
         }
     });
 
+    // Transitions cascade item > theme > global; outputs receive the resolved result
+    const [globalTransitions, setGlobalTransitions] = useState<LayerTransitions>(DEFAULT_TRANSITIONS);
+    const transitionLevelsRef = useRef<{ global: LayerTransitions; theme?: LayerTransitions }>({ global: globalTransitions });
+
+    // Every outgoing message is stamped and folded into the live state snapshot.
+    // Outputs outside this browser profile (OBS browser sources) get the same messages via the LAN server
+    const broadcast = useCallback((message: any) => {
+        if (['SHOW_VERSE', 'SHOW_CONTENT', 'CLEAR', 'BLACKOUT'].includes(message.type)) {
+            const { global, theme } = transitionLevelsRef.current;
+            message = {
+                ...message,
+                payload: { ...message.payload, transitions: resolveTransitions(global, theme, message.payload?.transitions) }
+            };
+        }
+        const state = liveStateRef.current;
+        message = { ...message, session: state.session, seq: state.seq + 1 };
+        liveStateRef.current = reduceLiveState(state, message);
+
+        // Every go-live lands in the as-run log (CCLI reporting, media team review)
+        const asRunEntry = entryFromMessage(message);
+        if (asRunEntry) logAsRunEntry(asRunEntry);
+
+        broadcastLocal(message);
+        window.electronAPI?.relayOutputMessage?.(message, liveStateRef.current);
+    }, [broadcastLocal]);
+
     // Sync Timer Status
     useEffect(() => {
         const unsubscribe = subscribe((msg: any) => {
@@ -306,6 +310,11 @@ export default function DashboardPage() {
         return unsubscribe;
     }, [subscribe]);
 
+    // Song detection only needs the songs, not the media files
+    const handleLibraryChanged = useCallback(() => {
+        listResources({ categories: ['song'] }).then(page => setLibraryResources(page.items));
+    }, []);
+
     // Re-initialize Fuse when libraryResources changes
     useEffect(() => {
         fuseRef.current = new Fuse(libraryResources.filter(r => r.type === 'song'), {
@@ -400,6 +409,8 @@ export default function DashboardPage() {
             setPastorProfile(profile);
             console.log('[Dashboard] Loaded Pastor Profile:', profile.name);
 
+            setGlobalTransitions(loadGlobalTransitions());
+
             // Restore Active Theme
             const savedThemeId = localStorage.getItem('activeThemeId');
             if (savedThemeId) {
@@ -417,16 +428,29 @@ export default function DashboardPage() {
         if (currentTheme.id) {
             localStorage.setItem('activeThemeId', currentTheme.id);
         }
+        transitionLevelsRef.current.theme = currentTheme.transitions;
     }, [currentTheme]);
 
+    useEffect(() => {
+        transitionLevelsRef.current.global = globalTransitions;
+    }, [globalTransitions]);
+
+    const scheduleRef = useRef(schedule);
+    const planCheckedRef = useRef<string | null>(null); // Schedule id whose check report was already shown before going live
+
+    const planValidation = usePlanValidation(schedule, currentTheme);
+    const planReportRef = useRef(planValidation.report);
+    planReportRef.current = planValidation.report;
+
     // Save Schedule
     useEffect(() => {
         saveSchedule(schedule);
+        scheduleRef.current = schedule;
     }, [schedule]);
 
     const handleAddToSchedule = (resource: ResourceItem) => {
         const newItem: ScheduleItem = {
-            id: `sch-res - ${Date.now()} `,
+            id: `sch-res - ${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
             type: resource.type,
             title: resource.title,
             slides: resource.slides,
@@ -434,12 +458,31 @@ export default function DashboardPage() {
             meta: resource.meta
         };
 
+        // Fill the next empty template slot of this type before appending
+        const { slot } = fillPlaceholder(schedule.items, newItem);
+        if (slot) {
+            setSchedule(prev => ({ ...prev, items: fillPlaceholder(prev.items, newItem).items }));
+            recordEdit(`Fill ${slot.title} slot with "${newItem.title}"`, { kind: 'schedule_replace', before: slot, after: newItem });
+            return;
+        }
+
         setSchedule(prev => ({
             ...prev,
             items: [...prev.items, newItem]
         }));
+        recordEdit(`Add "${newItem.title}"`, { kind: 'schedule_insert', index: schedule.items.length, item: newItem });
     };
 
+    // Undo/Redo (schedule, song edits, themes, library deletes)
+    const editHistory = useEditHistory({
+        onScheduleCommand: (command) => setSchedule(prev => ({ ...prev, items: applyScheduleCommand(prev.items, command) })),
+        onThemeCommand: (command) => {
+            // Keep the active theme in step when its own edit is undone
+            const themeId = command.before?.id || command.after?.id;
+            if (themeId && themeId === currentTheme.id) setCurrentTheme(command.after || DEFAULT_THEMES[0]);
+        }
+    });
+
     const transcriptRef = useRef(transcript);
     const detectedQueueRef = useRef(detectedQueue);
     const autoModeRef = useRef(autoMode);
@@ -499,11 +542,21 @@ export default function DashboardPage() {
         return results.filter(r => r.text !== null) as { verseNum: number; text: string; reference: string }[];
     }, []);
 
-    const handleSlideNavigation = useCallback((direction: 'next' | 'prev') => {
+    // Per-item cues (ATEM, MIDI, timer, theme, announcement, clear)
+    const { fireCues } = useItemCues({
+        broadcast,
+        applyTheme: setCurrentTheme,
+        setAnnouncement: (isActive, text) => setAnnouncement(prev => ({ ...prev, isActive, text: text || prev.text })),
+        clear: () => clearProjector()
+    });
+
+    // Step through the live item, or jump straight to a slide index (section jump bar)
+    const handleSlideNavigation = useCallback((direction: 'next' | 'prev' | 'first' | number) => {
         if (!livePresentation) return;
 
         const { item, slideIndex } = livePresentation;
-        const newIndex = direction === 'next' ? slideIndex + 1 : slideIndex - 1;
+        const newIndex = typeof direction === 'number' ? direction
+            : direction === 'first' ? 0 : direction === 'next' ? slideIndex + 1 : slideIndex - 1;
 
         if (newIndex >= 0 && newIndex < item.slides.length) {
             const slide = item.slides[newIndex];
@@ -521,7 +574,11 @@ export default function DashboardPage() {
                     options: item.type === 'media' ? { imageMode: item.meta?.imageMode } : undefined,
                     slideIndex: newIndex,
                     totalSlides: item.slides.length,
-                    nextSlide: item.slides[newIndex + 1]?.content
+                    nextSlide: item.slides[newIndex + 1]?.content,
+                    guide: item.type === 'song' ? slideGuideSeconds(item, newIndex) : undefined,
+                    transitions: item.meta?.transitions,
+                    credits: item.type === 'song' ? songCredits(item.meta) : undefined,
+                    ...chordPayload(item, newIndex)
                 }
             });
 
@@ -532,8 +589,10 @@ export default function DashboardPage() {
                 // Ensure version is set to preserve context
                 version: item.type === 'media' ? 'MEDIA' : 'SONG'
             }) : null);
+
+            fireCues(item, newIndex, false);
         }
-    }, [livePresentation, broadcast]);
+    }, [livePresentation, broadcast, fireCues]);
 
     // Re-fetch current verse(s) when version, verseCount, or the active item itself changes
     useEffect(() => {
@@ -631,9 +690,9 @@ export default function DashboardPage() {
             const initialSlideIndex = 0;
             const initialSlide = songToUse.slides[initialSlideIndex];
 
-            // Set state for navigation
+            // Set state for navigation; typed as a song so later slides keep their credits
             setLivePresentation({
-                item: songToUse,
+                item: { ...songToUse, type: 'song', activeSlideIndex: initialSlideIndex },
                 slideIndex: initialSlideIndex
             });
 
@@ -654,7 +713,9 @@ export default function DashboardPage() {
                     slideIndex: initialSlideIndex,
                     totalSlides: songToUse.slides.length,
                     meta: songToUse.author,
-                    nextSlide: songToUse.slides[initialSlideIndex + 1]?.content
+                    nextSlide: songToUse.slides[initialSlideIndex + 1]?.content,
+                    credits: songCredits(songToUse.meta),
+                    ...chordPayload(songToUse, initialSlideIndex)
                 }
             });
             return;
@@ -688,6 +749,8 @@ export default function DashboardPage() {
         };
 
         setActiveItem(updatedItem);
+        // A verse replaces any live song/media, so its auto-advance timer must stop too
+        setLivePresentation(null);
 
         // Build combined text for broadcast
         const allTexts = [mainText, ...additionalVerses.map(v => v.text)];
@@ -715,6 +778,206 @@ export default function DashboardPage() {
         broadcast({ type: 'CLEAR' });
     }, [broadcast]);
 
+    // Go live on a schedule item at a given slide (schedule panel, LAN remote).
+    // `fromOperator` is false for auto-advance and the remote, which never get the plan check.
+    const handleScheduleGoLive = useCallback((item: ScheduleItem, slideIndex: number, fromOperator = true) => {
+        if (item.placeholder) return;
+
+        // Show the plan check once per plan, at the operator's first go-live; issues found later
+        // don't interrupt the service. Auto-advance and the remote leave it for the operator to see.
+        const scheduleId = scheduleRef.current.id;
+        const report = planReportRef.current;
+        if (fromOperator && planCheckedRef.current !== scheduleId && report && report.scheduleId === scheduleId && report.issues.length > 0) {
+            setPendingPlanGoLive({ item, slideIndex });
+            setIsPlanCheckOpen(true);
+            return;
+        }
+        if (fromOperator) planCheckedRef.current = scheduleId;
+
+        const slide = item.slides[slideIndex];
+        const content = slide?.content || '';
+
+        // Check if this is actually a video (not an image)
+        const isVideo = item.type === 'live_feed' ||
+            content.startsWith('data:video') ||
+            content.match(/\.(mp4|webm|mov|ogg)(\?|$)/i) !== null;
+
+        // Intercept ONLY Live Feed and Video items for Audio Mode Selection
+        if (isVideo) {
+            setPendingLiveItem({ item, slideIndex });
+            setShowAudioPrompt(true);
+            return;
+        }
+
+        if (item.type === 'song') {
+            // Safety: Enforce 6-line limit even for items in schedule
+            const needsReParsing = item.slides.some(s => s.content.split('\n').filter(l => l.trim()).length > 6);
+            let songToUse = item;
+            let activeSlide = slide;
+            let activeIdx = slideIndex;
+
+            if (needsReParsing) {
+                console.log('[Safety] Re-parsing schedule song to enforce 6-line limit');
+                const fullText = item.slides.map(s => s.content).join('\n\n');
+                const newSlides = parseLyrics(fullText);
+                songToUse = { ...item, slides: newSlides };
+
+                // Try to find the closest slide index if possible, otherwise reset to 0
+                // For simplicity and since user usually clicks the first slide or a specific slide, 
+                // we'll use activeIdx but pin it to the new slide count.
+                activeIdx = Math.min(activeIdx, newSlides.length - 1);
+                activeSlide = newSlides[activeIdx];
+            }
+
+            // Update Live Presentation State with re-parsed item
+            setLivePresentation({ item: songToUse, slideIndex: activeIdx });
+
+            // Set active item for Dashboard preview too
+            setActiveItem({
+                id: item.id,
+                reference: item.title,
+                text: activeSlide.content,
+                version: 'SONG',
+                book: 'Song',
+                chapter: 0,
+                verseNum: 0,
+                timestamp: new Date(),
+                songData: {
+                    id: songToUse.id,
+                    title: songToUse.title,
+                    author: songToUse.meta?.author || 'Unknown',
+                    slides: songToUse.slides,
+                    meta: songToUse.meta
+                }
+            });
+
+            broadcast({
+                type: 'SHOW_CONTENT',
+                payload: {
+                    type: 'song',
+                    title: songToUse.title,
+                    body: activeSlide.content,
+                    meta: songToUse.meta?.author,
+                    background: typeof songToUse.meta?.background === 'object' ? (songToUse.meta?.background as any)?.value : songToUse.meta?.background,
+                    slideIndex: activeIdx,
+                    totalSlides: songToUse.slides.length,
+                    nextSlide: songToUse.slides[activeIdx + 1]?.content,
+                    guide: slideGuideSeconds(songToUse, activeIdx),
+                    transitions: songToUse.meta?.transitions,
+                    credits: songCredits(songToUse.meta),
+                    ...chordPayload(songToUse, activeIdx)
+                }
+            });
+        }
+        else if (item.type === 'scripture') {
+            setLivePresentation(null);
+
+            // Update local preview immediately so handshake works
+            setActiveItem({
+                id: item.id,
+                reference: item.title,
+                text: slide.content,
+                version: item.meta?.version || 'KJV',
+                book: item.title.split(' ')[0],
+                chapter: parseInt(item.title.split(' ')[1]?.split(':')[0]) || 0,
+                verseNum: parseInt(item.title.split(':')[1]) || 0,
+                timestamp: new Date()
+            });
+
+            broadcast({
+                type: 'SHOW_CONTENT',
+                payload: {
+                    type: 'verse',
+                    title: item.title,
+                    body: slide.content,
+                    meta: item.meta?.version,
+                    transitions: item.meta?.transitions
+                }
+            });
+        } else if (item.type === 'media') {
+            // Update Live Presentation State for media navigation
+            setLivePresentation({ item, slideIndex });
+
+            // Handle Media/Image
+            broadcast({
+                type: 'SHOW_CONTENT',
+                payload: {
+                    type: 'media',
+                    title: item.title,
+                    body: slide.content, // Data URL
+                    meta: 'Image',
+                    options: {
+                        imageMode: item.meta?.imageMode
+                    },
+                    transitions: item.meta?.transitions
+                }
+            });
+
+            // Update local preview
+            setActiveItem({
+                id: item.id,
+                reference: item.title,
+                text: slide.content, // Store Data URL in text
+                version: 'MEDIA',    // Use version as flag
+                book: 'Media',
+                chapter: 0,
+                verseNum: 0,
+                timestamp: new Date()
+            });
+        }
+
+        fireCues(item, slideIndex, true);
+    }, [broadcast, fireCues]);
+
+    // Timed slides: runs through the same navigation as the operator's buttons
+    const autoAdvance = useAutoAdvance(livePresentation, (step, item) => {
+        if (step.kind === 'slide') {
+            handleSlideNavigation(step.direction);
+        } else if (step.kind === 'item') {
+            const next = findNextScheduleItem(scheduleRef.current.items, item.id);
+            if (next) handleScheduleGoLive(next, 0, false);
+        }
+    });
+
+    // Rehearsal: the operator steps through a song and the slide timings are kept on it
+    const rehearsal = useRehearsal(livePresentation);
+
+    const stopRehearsal = async () => {
+        const result = rehearsal.stop();
+        if (!result) return;
+        const { item, timings } = result;
+
+        const before = scheduleRef.current.items.find(i => i.id === item.id);
+        if (before) {
+            const after: ScheduleItem = { ...before, meta: { ...before.meta, rehearsal: timings } };
+            setSchedule(prev => ({ ...prev, items: prev.items.map(i => i.id === item.id ? after : i) }));
+            recordEdit(`Rehearse "${item.title}"`, { kind: 'schedule_replace', before, after });
+        }
+        setLivePresentation(prev => prev && prev.item.id === item.id
+            ? { ...prev, item: { ...prev.item, meta: { ...prev.item.meta, rehearsal: timings } } }
+            : prev);
+
+        try {
+            const result = await saveRehearsalToLibrary(item, timings);
+            if (result === 'not_found') console.warn(`[Rehearsal] "${item.title}" is not in the library; timings kept on the schedule item only`);
+            if (result === 'slides_differ') alert(`Rehearsal timings for "${item.title}" were kept on this schedule item only: its slides no longer match the library song.`);
+        } catch (e) {
+            console.error('[Rehearsal] Failed to save timings to library', e);
+        }
+    };
+
+    // Manual navigation takes over from the timer until the operator resumes it
+    const navigateSlidesManually = (direction: 'next' | 'prev' | number) => {
+        autoAdvance.pause();
+        handleSlideNavigation(direction);
+    };
+
+    // Section jump bar for the live song (one button per section as arranged)
+    const liveSections = livePresentation?.item.type === 'song' ? sectionStarts(livePresentation.item.slides) : [];
+    const currentSectionStart = livePresentation
+        ? liveSections.filter(section => section.index <= livePresentation.slideIndex).pop()?.index
+        : undefined;
+
     // Helper to add detected scripture/song to queue
     const addToQueue = useCallback((data: {
         book: string;
@@ -886,6 +1149,95 @@ export default function DashboardPage() {
 
     const midi = useMIDI(handleMidiAction);
 
+    // LAN Remote Control: mirror schedule + live item to the main process
+    useEffect(() => {
+        if (!window.electronAPI?.updateRemoteState) return;
+
+        const lp = livePresentation;
+        const live = lp
+            ? {
+                itemId: lp.item.id,
+                type: lp.item.type,
+                title: lp.item.title,
+                // Media slides are data URLs; phones only need to know something is up
+                body: lp.item.type === 'media' ? '' : lp.item.slides[lp.slideIndex]?.content || '',
+                slideIndex: lp.slideIndex,
+                totalSlides: lp.item.slides.length
+            }
+            : activeItem
+                ? { itemId: activeItem.id, type: 'scripture', title: activeItem.reference, body: activeItem.text, slideIndex: 0, totalSlides: 1 }
+                : null;
+
+        window.electronAPI.updateRemoteState({
+            schedule: {
+                id: schedule.id,
+                name: schedule.name,
+                items: schedule.items.map(item => ({
+                    id: item.id,
+                    type: item.type,
+                    title: item.title,
+                    slideCount: item.slides.length
+                }))
+            },
+            live
+        });
+    }, [schedule, livePresentation, activeItem]);
+
+    // Remote commands arrive through IPC; keep the handler fresh without resubscribing
+    const remoteCommandRef = useRef<(command: RemoteCommand) => void>(() => { });
+    remoteCommandRef.current = (command: RemoteCommand) => {
+        switch (command.type) {
+            case 'NEXT_SLIDE':
+            case 'PREV_SLIDE': {
+                const direction = command.type === 'NEXT_SLIDE' ? 'next' : 'prev';
+                if (livePresentationRef.current) navigateSlidesManually(direction);
+                else if (activeItemRef.current) navigateVerse(direction);
+                break;
+            }
+            case 'GO_LIVE': {
+                const item = schedule.items.find(i => i.id === command.payload?.itemId);
+                if (!item || item.slides.length === 0) break;
+                const slideIndex = Math.max(0, Math.min(Math.floor(Number(command.payload?.slideIndex) || 0), item.slides.length - 1));
+                handleScheduleGoLive(item, slideIndex, false);
+                break;
+            }
+            case 'SHOW_CONTENT': {
+                // Same path as the library's Go Live, so the preview follows the screen
+                const { type, title, body } = command.payload || {};
+                if (!['song', 'media', 'scripture'].includes(type) || typeof body !== 'string' || !body) break;
+                handleLibraryGoLive({
+                    id: `remote-${Date.now()}`,
+                    type,
+                    title: typeof title === 'string' && title ? title : 'Remote',
+                    slides: [{ id: '1', content: body }],
+                    activeSlideIndex: 0
+                });
+                break;
+            }
+            case 'CLEAR':
+                clearProjector();
+                break;
+            case 'BLACKOUT':
+                setActiveItem(null);
+                setLivePresentation(null);
+                broadcast({ type: 'BLACKOUT' });
+                break;
+            default:
+                // ALERT, MEDIA_ACTION, TIMER_ACTION pass straight through (shapes checked in the main process)
+                if (command.payload && typeof command.payload === 'object') {
+                    broadcast({ type: command.type, payload: command.payload });
+                }
+        }
+    };
+
+    useEffect(() => {
+        if (!window.electronAPI?.onRemoteCommand) return;
+        if (localStorage.getItem('remoteServerEnabled') === 'true') {
+            window.electronAPI.startRemoteServer();
+        }
+        return window.electronAPI.onRemoteCommand(command => remoteCommandRef.current(command));
+    }, []);
+
     // Smart AI-based scripture detection (PersonaPlex-style)
     const { addText: addToSmartDetection, reset: resetSmartDetection, updateSermonContext } = useSmartDetection(
         useCallback((scriptures, commands, signal, detectedVerseCount) => {
@@ -1160,6 +1512,173 @@ export default function DashboardPage() {
         }
     };
 
+    const handleLibraryGoLive = (item: ScheduleItem) => {
+        console.log('[Dashboard] onGoLive for library item:', item.type, item.title);
+
+        const slide = item.slides?.[0];
+        const content = slide?.content || '';
+
+        // Check if this is actually a video (not an image)
+        const isVideo = item.type === 'live_feed' ||
+            content.startsWith('data:video') ||
+            content.match(/\.(mp4|webm|mov|ogg)(\?|$)/i) !== null;
+
+        // Intercept ONLY Live Feed and Video items for Audio Mode Selection
+        if (isVideo) {
+            setPendingLiveItem({ item, slideIndex: 0 });
+            setShowAudioPrompt(true);
+            return;
+        }
+
+        if (!slide) return;
+
+        const meta = (item as any).meta || {};
+
+        // Handle incoming broadcast messages (from other windows if needed)
+        // Handle Media/Image directly if not intercepted above
+        if (item.type === 'media') {
+            setLivePresentation(null);
+            broadcast({
+                type: 'SHOW_CONTENT',
+                payload: {
+                    type: 'media',
+                    title: item.title,
+                    body: slide.content,
+                    options: {
+                        imageMode: meta.imageMode || 'contain',
+                        scale: meta.scale || 1
+                    }
+                }
+            });
+            setActiveItem({
+                id: item.id,
+                reference: item.title,
+                text: slide.content,
+                version: 'MEDIA',
+                book: 'Media',
+                chapter: 0,
+                verseNum: 0,
+                timestamp: new Date()
+            } as any);
+            return;
+        }
+
+        // Handle Scripture Items
+        if (item.type === 'scripture') {
+            // Parse "Book Chapter:Verse" from title
+            // Default fallback
+            let book = item.title.split(' ')[0];
+            let chapter = 1;
+            let verse = 1;
+
+            // Try robust regex match "1 John 1:9" or "John 3:16"
+            const match = item.title.match(/(.+) (\d+):(\d+)/);
+            if (match) {
+                book = match[1];
+                chapter = parseInt(match[2]);
+                verse = parseInt(match[3]);
+            }
+
+            goLive({
+                id: item.id,
+                reference: item.title,
+                text: slide.content,
+                version: item.meta?.version || 'KJV',
+                book: book,
+                chapter: chapter,
+                verseNum: verse,
+                timestamp: new Date()
+            });
+            return;
+        }
+
+        // Fallback for songs and other existing types
+        goLive({
+            id: item.id,
+            reference: item.title,
+            text: slide.content,
+            version: 'SONG',
+            book: 'Song',
+            chapter: 0,
+            verseNum: 0,
+            timestamp: new Date(),
+            songData: item.type === 'song' ? {
+                id: item.id,
+                title: item.title,
+                author: item.meta?.author || 'Unknown',
+                slides: item.slides,
+                meta: item.meta
+            } : undefined
+        });
+    };
+
+    // Ctrl+K palette: verses go through the detection queue like spoken references,
+    // library resources through the same paths as the library panel
+    const handleOmniGoLive = (target: OmniTarget) => {
+        if (target.kind === 'resource') {
+            const { resource } = target;
+            handleLibraryGoLive({
+                id: `live - ${Date.now()} -${resource.id} `,
+                type: resource.type,
+                title: resource.title,
+                slides: resource.slides,
+                activeSlideIndex: 0,
+                meta: resource.meta
+            });
+            return;
+        }
+        const { verse } = target;
+        const bibleItem: DetectedItem = {
+            id: Date.now().toString(),
+            reference: verse.reference,
+            text: verse.text,
+            version: selectedVersionRef.current,
+            book: verse.book,
+            chapter: verse.chapter,
+            verseNum: verse.verse,
+            timestamp: new Date()
+        };
+        setDetectedQueue(prev => [bibleItem, ...prev].slice(0, 50));
+        goLive(bibleItem);
+    };
+
+    // Another plan replaces the schedule: undo steps from the old plan no longer apply.
+    // Asks first, like loading from the plan manager.
+    const handleOpenPlan = (plan: ServiceSchedule) => {
+        if (plan.id !== schedule.id && !confirm(`Load "${plan.name}"? This will replace your current schedule.`)) return;
+        clearScheduleHistory();
+        setSchedule(plan);
+    };
+
+    const handleOmniAddToSchedule = async (target: OmniTarget) => {
+        if (target.kind === 'resource') {
+            handleAddToSchedule(target.resource);
+            return;
+        }
+        // Search results carry KJV text; fetch the verses in the version the operator has selected
+        const { verse } = target;
+        const version = selectedVersionRef.current;
+        let text = verse.text;
+        let textVersion = 'KJV';
+        if (version !== 'KJV') {
+            const verses = await fetchMultipleVerses(verse.book, verse.chapter, verse.verse, (verse.verseEnd || verse.verse) - verse.verse + 1, version);
+            if (verses.length > 0) {
+                text = verses.map(v => v.text).join(' ');
+                textVersion = version;
+            }
+        }
+        handleAddToSchedule({
+            id: `bible-${Date.now()}`,
+            type: 'scripture',
+            title: verse.reference,
+            category: 'scripture',
+            slides: [{ id: 'slide-1', content: text, label: 'Verse' }],
+            dateAdded: Date.now(),
+            activeSlideIndex: 0,
+            meta: { version: textVersion, author: textVersion }
+        });
+    };
+
     return (
         <main className="min-h-screen bg-[#F8F9FA] dark:bg-zinc-950 text-zinc-900 dark:text-zinc-100 font-sans selection:bg-indigo-500/30">
             <div
@@ -1281,6 +1800,49 @@ export default function DashboardPage() {
                                             <span>MIDI Configuration</span>
                                         </button>
 
+                                        {/* LAN Remote */}
+                                        <button
+                                            onClick={() => {
+                                                setIsRemoteSettingsOpen(true);
+                                                setIsSettingsOpen(false);
+                                            }}
+                                            className="w-full text-left px-4 py-2.5 text-xs font-medium hover:bg-zinc-100 dark:hover:bg-white/5 transition-colors flex items-center gap-3 text-zinc-600 dark:text-zinc-300"
+                                        >
+                                            <div className="w-6 h-6 rounded bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center">
+                                                <Smartphone size={14} className="text-zinc-500" />
+                                            </div>
+                                            <span>Remote Control (Phone)</span>
+                                        </button>
+
+                                        {/* As-Run Log */}
+                                        <button
+                                            onClick={() => {
+                                                setIsAsRunLogOpen(true);
+                                                setIsSettingsOpen(false);
+                                            }}
+                                            className="w-full text-left px-4 py-2.5 text-xs font-medium hover:bg-zinc-100 dark:hover:bg-white/5 transition-colors flex items-center gap-3 text-zinc-600 dark:text-zinc-300"
+                                        >
+                                            <div className="w-6 h-6 rounded bg-zinc-100 dark:bg-zinc-800 flex items-center justify-center">
+                                                <ClipboardList size={14} className="text-zinc-500" />
+                                            </div>
+                                            <span>As-Run Log & CCLI Report</span>
+                                        </button>
+
+                                        <div className="mx-2 my-2 border-t border-zinc-100 dark:border-white/5 pt-2" onClick={e => e.stopPropagation()}>
+                                            <div className="px-2 py-1 flex items-center gap-2 mb-2">
+                                                <Layers size={12} className="text-zinc-500" />
+                                                <span className="text-[10px] font-black text-zinc-400 uppercase tracking-widest">Transitions</span>
+                                            </div>
+                                            <div className="px-2">
+                                                <TransitionSettings
+                                                    value={globalTransitions}
+                                                    onChange={t => {
+                                                        setGlobalTransitions(t);
+                                                        saveGlobalTransitions(t);
+                                                    }}
+                                                />
+                                            </div>
+                                        </div>
 
                                         <div className="mx-2 my-2 border-t border-zinc-100 dark:border-white/5 pt-2">
                                             <div className="px-2 py-1 flex items-center gap-2 mb-2">
@@ -1354,6 +1916,18 @@ export default function DashboardPage() {
 
                         <div className="w-px h-3 bg-zinc-300 dark:bg-white/10 mx-1" />
 
+                        <EditHistoryMenu
+                            entries={editHistory.entries}
+                            cursor={editHistory.cursor}
+                            canUndo={editHistory.canUndo}
+                            canRedo={editHistory.canRedo}
+                            onUndo={editHistory.undo}
+                            onRedo={editHistory.redo}
+                            onJumpTo={editHistory.jumpTo}
+                        />
+
+                        <div className="w-px h-3 bg-zinc-300 dark:bg-white/10 mx-1" />
+
                         <button
                             onClick={() => setIsScheduleCollapsed(!isScheduleCollapsed)}
                             className="p-1 hover:bg-zinc-100 dark:hover:bg-white/10 rounded transition-colors"
@@ -1371,132 +1945,9 @@ export default function DashboardPage() {
                             <ServiceSchedulePanel
                                 schedule={schedule}
                                 onScheduleChange={setSchedule}
-                                onGoLive={(item: ScheduleItem, slideIndex: number) => {
-                                    const slide = item.slides[slideIndex];
-                                    const content = slide?.content || '';
-
-                                    // Check if this is actually a video (not an image)
-                                    const isVideo = item.type === 'live_feed' ||
-                                        content.startsWith('data:video') ||
-                                        content.match(/\.(mp4|webm|mov|ogg)(\?|$)/i) !== null;
-
-                                    // Intercept ONLY Live Feed and Video items for Audio Mode Selection
-                                    if (isVideo) {
-                                        setPendingLiveItem({ item, slideIndex });
-                                        setShowAudioPrompt(true);
-                                        return;
-                                    }
-
-
-
-                                    if (item.type === 'song') {
-                                        // Safety: Enforce 6-line limit even for items in schedule
-                                        const needsReParsing = item.slides.some(s => s.content.split('\n').filter(l => l.trim()).length > 6);
-                                        let songToUse = item;
-                                        let activeSlide = slide;
-                                        let activeIdx = slideIndex;
-
-                                        if (needsReParsing) {
-                                            console.log('[Safety] Re-parsing schedule song to enforce 6-line limit');
-                                            const fullText = item.slides.map(s => s.content).join('\n\n');
-                                            const newSlides = parseLyrics(fullText);
-                                            songToUse = { ...item, slides: newSlides };
-
-                                            // Try to find the closest slide index if possible, otherwise reset to 0
-                                            // For simplicity and since user usually clicks the first slide or a specific slide, 
-                                            // we'll use activeIdx but pin it to the new slide count.
-                                            activeIdx = Math.min(activeIdx, newSlides.length - 1);
-                                            activeSlide = newSlides[activeIdx];
-                                        }
-
-                                        // Update Live Presentation State with re-parsed item
-                                        setLivePresentation({ item: songToUse, slideIndex: activeIdx });
-
-                                        // Set active item for Dashboard preview too
-                                        setActiveItem({
-                                            id: item.id,
-                                            reference: item.title,
-                                            text: activeSlide.content,
-                                            version: 'SONG',
-                                            book: 'Song',
-                                            chapter: 0,
-                                            verseNum: 0,
-                                            timestamp: new Date(),
-                                            songData: {
-                                                id: songToUse.id,
-                                                title: songToUse.title,
-                                                author: songToUse.meta?.author || 'Unknown',
-                                                slides: songToUse.slides
-                                            }
-                                        });
-
-                                        broadcast({
-                                            type: 'SHOW_CONTENT',
-                                            payload: {
-                                                type: 'song',
-                                                title: songToUse.title,
-                                                body: activeSlide.content,
-                                                meta: songToUse.meta?.author,
-                                                background: typeof songToUse.meta?.background === 'object' ? (songToUse.meta?.background as any)?.value : songToUse.meta?.background,
-                                                slideIndex: activeIdx,
-                                                totalSlides: songToUse.slides.length,
-                                                nextSlide: songToUse.slides[activeIdx + 1]?.content
-                                            }
-                                        });
-                                    }
-                                    else if (item.type === 'scripture') {
-                                        // Update local preview immediately so handshake works
-                                        setActiveItem({
-                                            id: item.id,
-                                            reference: item.title,
-                                            text: slide.content,
-                                            version: item.meta?.version || 'KJV',
-                                            book: item.title.split(' ')[0],
-                                            chapter: parseInt(item.title.split(' ')[1]?.split(':')[0]) || 0,
-                                            verseNum: parseInt(item.title.split(':')[1]) || 0,
-                                            timestamp: new Date()
-                                        });
-
-                                        broadcast({
-                                            type: 'SHOW_CONTENT',
-                                            payload: {
-                                                type: 'verse',
-                                                title: item.title,
-                                                body: slide.content,
-                                                meta: item.meta?.version
-                                            }
-                                        });
-                                    } else if (item.type === 'media') {
-                                        // Update Live Presentation State for media navigation
-                                        setLivePresentation({ item, slideIndex });
-
-                                        // Handle Media/Image
-                                        broadcast({
-                                            type: 'SHOW_CONTENT',
-                                            payload: {
-                                                type: 'media',
-                                                title: item.title,
-                                                body: slide.content, // Data URL
-                                                meta: 'Image',
-                                                options: {
-                                                    imageMode: item.meta?.imageMode
-                                                }
-                                            }
-                                        });
-
-                                        // Update local preview
-                                        setActiveItem({
-                                            id: item.id,
-                                            reference: item.title,
-                                            text: slide.content, // Store Data URL in text
-                                            version: 'MEDIA',    // Use version as flag
-                                            book: 'Media',
-                                            chapter: 0,
-                                            verseNum: 0,
-                                            timestamp: new Date()
-                                        });
-                                    }
-                                }}
+                                onGoLive={handleScheduleGoLive}
+                                planIssueCount={planValidation.report?.issues.length || 0}
+                                onCheckPlan={() => setIsPlanCheckOpen(true)}
                             />
                         </div>
 
@@ -1783,6 +2234,22 @@ export default function DashboardPage() {
                                 </div>
                             </header>
 
+                            {/* SECTION JUMP BAR */}
+                            {liveSections.length > 1 && (
+                                <div className="flex items-center gap-1 px-3 py-1.5 border-b border-white/5 bg-zinc-950 overflow-x-auto no-scrollbar shrink-0">
+                                    {liveSections.map(section => (
+                                        <button
+                                            key={section.index}
+                                            onClick={() => navigateSlidesManually(section.index)}
+                                            className={`px-2 py-0.5 rounded text-[10px] font-black tracking-wider shrink-0 transition-colors ${section.index === currentSectionStart ? 'bg-indigo-600 text-white' : 'bg-white/5 text-zinc-400 hover:bg-white/10 hover:text-white'}`}
+                                            title={section.label}
+                                        >
+                                            {sectionShortName(section.label)}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+
                             {/* PREVIEW CONTAINER */}
                             <div
                                 className="flex-1 flex items-center justify-center p-4 relative group overflow-y-auto rounded-b-2xl"
@@ -1799,7 +2266,7 @@ export default function DashboardPage() {
                                 {/* Floating Nav Buttons - Left */}
                                 {(livePresentation || (activeItem && activeItem.version !== 'MEDIA' && activeItem.version !== 'SONG')) && (
                                     <button
-                                        onClick={() => livePresentation ? handleSlideNavigation('prev') : navigateVerse('prev')}
+                                        onClick={() => livePresentation ? navigateSlidesManually('prev') : navigateVerse('prev')}
                                         disabled={livePresentation ? livePresentation.slideIndex <= 0 : false}
                                         className="absolute left-2 top-1/2 -translate-y-1/2 z-50 p-2 bg-white/20 hover:bg-white/40 text-white rounded-full transition-all opacity-0 group-hover:opacity-100 disabled:opacity-30 disabled:cursor-not-allowed backdrop-blur-sm"
                                         title={livePresentation ? "Previous Slide" : "Previous Verse"}
@@ -1811,7 +2278,7 @@ export default function DashboardPage() {
                                 {/* Floating Nav Buttons - Right */}
                                 {(livePresentation || (activeItem && activeItem.version !== 'MEDIA' && activeItem.version !== 'SONG')) && (
                                     <button
-                                        onClick={() => livePresentation ? handleSlideNavigation('next') : navigateVerse('next')}
+                                        onClick={() => livePresentation ? navigateSlidesManually('next') : navigateVerse('next')}
                                         disabled={livePresentation ? livePresentation.slideIndex >= livePresentation.item.slides.length - 1 : false}
                                         className="absolute right-2 top-1/2 -translate-y-1/2 z-50 p-2 bg-white/20 hover:bg-white/40 text-white rounded-full transition-all opacity-0 group-hover:opacity-100 disabled:opacity-30 disabled:cursor-not-allowed backdrop-blur-sm"
                                         title={livePresentation ? "Next Slide" : "Next Verse"}
@@ -1819,6 +2286,40 @@ export default function DashboardPage() {
                                         <ChevronRight size={20} />
                                     </button>
                                 )}
+
+                                {/* Auto-Advance Progress */}
+                                {autoAdvance.isActive && (
+                                    <>
+                                        <div className="absolute inset-x-0 bottom-0 h-1 bg-black/40 z-50 pointer-events-none">
+                                            <div
+                                                className={`h-full transition-[width] duration-100 ease-linear ${autoAdvance.isPaused ? 'bg-amber-400' : 'bg-indigo-500'}`}
+                                                style={{ width: `${autoAdvance.progress * 100}%` }}
+                                            />
+                                        </div>
+                                        <button
+                                            onClick={autoAdvance.isPaused ? autoAdvance.resume : autoAdvance.pause}
+                                            className={`absolute bottom-3 right-3 z-50 px-2 py-1 rounded-full text-[10px] font-bold font-mono flex items-center gap-1.5 backdrop-blur-sm transition-colors ${autoAdvance.isPaused ? 'bg-amber-500/80 text-black' : 'bg-black/50 text-white hover:bg-black/70'}`}
+                                            title={autoAdvance.isPaused ? 'Resume auto-advance' : 'Pause auto-advance'}
+                                        >
+                                            {autoAdvance.isPaused ? <Play size={10} fill="currentColor" /> : <Pause size={10} fill="currentColor" />}
+                                            <Timer size={10} />
+                                            {autoAdvance.isPaused ? 'PAUSED' : `${Math.ceil(autoAdvance.remainingMs / 1000)}s`}
+                                        </button>
+                                    </>
+                                )}
+
+                                {/* Rehearsal Recording */}
+                                {livePresentation?.item.type === 'song' && (
+                                    <button
+                                        onClick={rehearsal.isRecording ? stopRehearsal : rehearsal.start}
+                                        className={`absolute bottom-3 left-3 z-50 px-2 py-1 rounded-full text-[10px] font-bold flex items-center gap-1.5 backdrop-blur-sm transition-all ${rehearsal.isRecording ? 'bg-red-500/80 text-white' : 'bg-black/50 text-white hover:bg-black/70 opacity-0 group-hover:opacity-100'}`}
+                                        title={rehearsal.isRecording ? 'Stop rehearsal and save slide timings' : 'Rehearse: record how long each slide stays up'}
+                                    >
+                                        <CircleDot size={10} className={rehearsal.isRecording ? 'animate-pulse' : ''} />
+                                        {rehearsal.isRecording ? 'STOP REHEARSAL' : 'REHEARSE'}
+                                    </button>
+                                )}
+
                                 {activeItem ? (
                                     activeItem.version === 'MEDIA' ? (
                                         <div className="text-center w-full h-full flex flex-col items-center justify-center relative z-10 overflow-hidden">
@@ -2103,108 +2604,12 @@ export default function DashboardPage() {
                 >
                     <div className="h-full bg-white dark:bg-zinc-950 rounded-3xl border border-zinc-200 dark:border-white/10 shadow-2xl overflow-hidden flex flex-col">
                         <ResourceLibraryPanel
-                            onResourcesChanged={setLibraryResources}
+                            onResourcesChanged={handleLibraryChanged}
                             onAddToSchedule={handleAddToSchedule}
                             onToggleLibrary={() => setIsLibraryOpen(false)}
                             onApplyTheme={setCurrentTheme}
                             activeThemeId={currentTheme?.id}
-                            onGoLive={(item: ScheduleItem) => {
-                                console.log('[Dashboard] onGoLive for library item:', item.type, item.title);
-
-                                const slide = item.slides?.[0];
-                                const content = slide?.content || '';
-
-                                // Check if this is actually a video (not an image)
-                                const isVideo = item.type === 'live_feed' ||
-                                    content.startsWith('data:video') ||
-                                    content.match(/\.(mp4|webm|mov|ogg)(\?|$)/i) !== null;
-
-                                // Intercept ONLY Live Feed and Video items for Audio Mode Selection
-                                if (isVideo) {
-                                    setPendingLiveItem({ item, slideIndex: 0 });
-                                    setShowAudioPrompt(true);
-                                    return;
-                                }
-
-                                if (!slide) return;
-
-                                const meta = (item as any).meta || {};
-
-                                // Handle incoming broadcast messages (from other windows if needed)
-                                // Handle Media/Image directly if not intercepted above
-                                if (item.type === 'media') {
-                                    broadcast({
-                                        type: 'SHOW_CONTENT',
-                                        payload: {
-                                            type: 'media',
-                                            title: item.title,
-                                            body: slide.content,
-                                            options: {
-                                                imageMode: meta.imageMode || 'contain',
-                                                scale: meta.scale || 1
-                                            }
-                                        }
-                                    });
-                                    setActiveItem({
-                                        id: item.id,
-                                        reference: item.title,
-                                        text: slide.content,
-                                        version: 'MEDIA',
-                                        book: 'Media',
-                                        chapter: 0,
-                                        verseNum: 0,
-                                        timestamp: new Date()
-                                    } as any);
-                                    return;
-                                }
-
-                                // Handle Scripture Items
-                                if (item.type === 'scripture') {
-                                    // Parse "Book Chapter:Verse" from title
-                                    // Default fallback
-                                    let book = item.title.split(' ')[0];
-                                    let chapter = 1;
-                                    let verse = 1;
-
-                                    // Try robust regex match "1 John 1:9" or "John 3:16"
-                                    const match = item.title.match(/(.+) (\d+):(\d+)/);
-                                    if (match) {
-                                        book = match[1];
-                                        chapter = parseInt(match[2]);
-                                        verse = parseInt(match[3]);
-                                    }
-
-                                    goLive({
-                                        id: item.id,
-                                        reference: item.title,
-                                        text: slide.content,
-                                        version: item.meta?.version || 'KJV',
-                                        book: book,
-                                        chapter: chapter,
-                                        verseNum: verse,
-                                        timestamp: new Date()
-                                    });
-                                    return;
-                                }
-
-                                // Fallback for songs and other existing types
-                                goLive({
-                                    id: item.id,
-                                    reference: item.title,
-                                    text: slide.content,
-                                    version: 'SONG',
-                                    book: 'Song',
-                                    chapter: 0,
-                                    verseNum: 0,
-                                    timestamp: new Date(),
-                                    songData: item.type === 'song' ? {
-                                        id: item.id,
-                                        title: item.title,
-                                        author: item.meta?.author || 'Unknown',
-                                        slides: item.slides
-                                    } : undefined
-                                });
-                            }}
+                            onGoLive={handleLibraryGoLive}
                             isLibraryOpen={isLibraryOpen}
                         />
                     </div>
@@ -2243,80 +2648,10 @@ export default function DashboardPage() {
             </div >
 
             <OmniSearch
-                onGoLive={(item: any) => {
-                    if (item.type === 'bible') {
-                        // Adapt to detected item format
-                        const bibleItem: DetectedItem = {
-                            id: Date.now().toString(),
-                            reference: item.content.reference,
-                            text: item.content.text,
-                            version: selectedVersionRef.current,
-                            book: item.content.book,
-                            chapter: item.content.chapter,
-                            verseNum: item.content.verse,
-                            timestamp: new Date()
-                        };
-                        setDetectedQueue(prev => [bibleItem, ...prev].slice(0, 50));
-                        goLive(bibleItem);
-                    } else if (item.type === 'song') {
-                        // Ensure lyrics are parsed correctly into 6-line segments
-                        // OmniSearch might return raw blocks in item.content.lyrics[0].content
-                        const rawLyrics = item.content.lyrics.map((l: any) => l.content).join('\n\n');
-                        const parsedSlides = parseLyrics(rawLyrics);
-                        const firstSlide = parsedSlides[0];
-
-                        // Set up presentation for navigation
-                        setLivePresentation({
-                            item: {
-                                ...item.content,
-                                slides: parsedSlides
-                            } as any,
-                            slideIndex: 0
-                        });
-
-                        broadcast({
-                            type: 'SHOW_CONTENT',
-                            payload: {
-                                type: 'song',
-                                title: item.title,
-                                body: firstSlide.content,
-                                meta: item.subtitle, // Author
-                                slideIndex: 0,
-                                totalSlides: parsedSlides.length,
-                                nextSlide: parsedSlides[1]?.content
-                            }
-                        });
-
-                        // Set active item locally for reference (allows "Clear" to work)
-                        setActiveItem({
-                            id: item.id,
-                            reference: item.title,
-                            text: firstSlide.content,
-                            version: 'SONG',
-                            book: 'SONG',
-                            chapter: 0,
-                            verseNum: 0,
-                            timestamp: new Date()
-                        });
-                    }
-                }}
-                onAddToSchedule={(item: any) => {
-                    if (item.type === 'bible') {
-                        const bibleItem: DetectedItem = {
-                            id: Date.now().toString(),
-                            reference: item.content.reference,
-                            text: item.content.text,
-                            version: selectedVersionRef.current,
-                            book: item.content.book,
-                            chapter: item.content.chapter,
-                            verseNum: item.content.verse,
-                            timestamp: new Date()
-                        };
-                        setDetectedQueue(prev => [bibleItem, ...prev].slice(0, 50));
-                    }
-                    // TODO: Handle Song Schedule Addition properly in Phase 2
-                    console.log("Added to schedule:", item);
-                }}
+                onGoLive={handleOmniGoLive}
+                onAddToSchedule={handleOmniAddToSchedule}
+                onApplyTheme={setCurrentTheme}
+                onOpenPlan={handleOpenPlan}
             />
 
             {/* License Modal */}
@@ -2329,6 +2664,35 @@ export default function DashboardPage() {
                 isOpen={isDisplaySettingsOpen}
                 onClose={() => setIsDisplaySettingsOpen(false)}
             />
+            {/* LAN Remote Control Modal */}
+            <RemoteControlModal
+                isOpen={isRemoteSettingsOpen}
+                onClose={() => setIsRemoteSettingsOpen(false)}
+            />
+            {/* As-Run Log Modal */}
+            <AsRunLogModal
+                isOpen={isAsRunLogOpen}
+                onClose={() => setIsAsRunLogOpen(false)}
+            />
+            {/* Plan Check Modal */}
+            {isPlanCheckOpen && (
+                <PlanValidationModal
+                    schedule={schedule}
+                    report={planValidation.report}
+                    onRecheck={planValidation.recheck}
+                    onClose={() => {
+                        planCheckedRef.current = schedule.id;
+                        setIsPlanCheckOpen(false);
+                        setPendingPlanGoLive(null);
+                    }}
+                    onGoLive={pendingPlanGoLive ? () => {
+                        planCheckedRef.current = schedule.id;
+                        setIsPlanCheckOpen(false);
+                        setPendingPlanGoLive(null);
+                        handleScheduleGoLive(pendingPlanGoLive.item, pendingPlanGoLive.slideIndex);
+                    } : undefined}
+                />
+            )}
             {/* MIDI Settings Modal */}
             <MIDISettingsModal
                 isOpen={isMidiSettingsOpen}
@@ -2435,6 +2799,7 @@ export default function DashboardPage() {
                         // If it's a schedule item (not library), update live presentation state
                         if (slideIndex !== undefined) {
                             setLivePresentation({ item, slideIndex });
+                            fireCues(item, slideIndex, true);
                         }
                     }
 
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useCallback, useEffect } from 'react';
+import { useLiveStateSync } from '@/hooks/useLiveState';
+import { ProjectorTheme, DEFAULT_THEMES, DEFAULT_LOWER_THIRD } from '@/utils/themes';
+import { stripChords } from '@/utils/chordpro';
+
+/**
+ * Transparent lower-third output for livestream browser sources (OBS, vMix).
+ * Listens on projector_channel like the projector; when loaded outside the app
+ * (from the LAN server) it follows the read-only /output-feed WebSocket instead.
+ */
+
+type LowerThirdContent = {
+    type: 'verse' | 'song' | 'media' | 'live_feed';
+    title: string;
+    body: string;
+    meta?: string;
+};
+
+/**
+ * Strip formatting tags; the bar renders plain text only
+ */
+function toPlainText(text: string): string {
+    return (text || '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .trim();
+}
+
+/**
+ * Fold a slide's lines into at most `maxLines` rows so long slides stay inside the bar
+ */
+function fitLines(text: string, maxLines: number): string[] {
+    const lines = toPlainText(text).split('\n').map(l => l.trim()).filter(Boolean);
+    if (lines.length <= maxLines) return lines;
+
+    const perRow = Math.ceil(lines.length / maxLines);
+    const rows: string[] = [];
+    for (let i = 0; i < lines.length; i += perRow) {
+        rows.push(lines.slice(i, i + perRow).join(' '));
+    }
+    return rows;
+}
+
+/**
+ * Convert a #rgb/#rrggbb color to rgba() (OBS ships an older Chromium without color-mix)
+ */
+function withOpacity(color: string, opacity: number): string {
+    const hex = color.replace('#', '');
+    if (!/^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(hex)) return color;
+    const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+    const r = parseInt(full.slice(0, 2), 16);
+    const g = parseInt(full.slice(2, 4), 16);
+    const b = parseInt(full.slice(4, 6), 16);
+    return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
+
+export default function LowerThirdPage() {
+    const [content, setContent] = useState<LowerThirdContent | null>(null);
+    const [theme, setTheme] = useState<ProjectorTheme>(DEFAULT_THEMES[0]);
+
+    const handleMessage = useCallback((msg: any) => {
+        if (msg.type === 'SHOW_VERSE') {
+            setContent({
+                type: 'verse',
+                title: msg.payload.reference,
+                body: msg.payload.text,
+                meta: msg.payload.version
+            });
+        }
+        else if (msg.type === 'SHOW_CONTENT') {
+            // Images and live feeds belong on the projector, not over the camera
+            if (msg.payload.type === 'media' || msg.payload.type === 'live_feed') {
+                setContent(null);
+            } else if (msg.payload.type === 'song') {
+                setContent({ ...msg.payload, body: stripChords(msg.payload.body || '') });
+            } else {
+                setContent(msg.payload);
+            }
+        }
+        else if (msg.type === 'CLEAR' || msg.type === 'BLACKOUT') {
+            setContent(null);
+        }
+        else if (msg.type === 'APPLY_THEME') {
+            setTheme(msg.payload as ProjectorTheme);
+        }
+    }, []);
+
+    // Both transports go through the same ordering check
+    const { receive } = useLiveStateSync(handleMessage);
+
+    // Browser sources run in their own browser, so follow the LAN output feed when available
+    useEffect(() => {
+        if (window.electronAPI || !window.location.protocol.startsWith('http')) return;
+
+        const explicitFeed = new URLSearchParams(window.location.search).get('feed');
+        const feedUrl = explicitFeed || `ws://${window.location.host}/output-feed`;
+        let socket: WebSocket | null = null;
+        let retryTimer: ReturnType<typeof setTimeout> | null = null;
+        let hasConnected = false;
+        let disposed = false;
+
+        const connect = () => {
+            socket = new WebSocket(feedUrl);
+            socket.onopen = () => {
+                hasConnected = true;
+                console.log('[LowerThird] Connected to output feed');
+            };
+            socket.onmessage = (event) => {
+                try {
+                    receive(JSON.parse(event.data));
+                } catch (e) {
+                    console.error('[LowerThird] Bad feed message:', e);
+                }
+            };
+            socket.onclose = () => {
+                // Only keep retrying a feed that exists (e.g. the app restarted)
+                if (!disposed && (hasConnected || explicitFeed)) {
+                    retryTimer = setTimeout(connect, 3000);
+                }
+            };
+        };
+        connect();
+
+        return () => {
+            disposed = true;
+            if (retryTimer) clearTimeout(retryTimer);
+            socket?.close();
+        };
+    }, [receive]);
+
+    // The page itself must be see-through for keying over video
+    useEffect(() => {
+        const html = document.documentElement;
+        const previous = { html: html.style.background, body: document.body.style.background };
+        html.style.background = 'transparent';
+        document.body.style.background = 'transparent';
+        return () => {
+            html.style.background = previous.html;
+            document.body.style.background = previous.body;
+        };
+    }, []);
+
+    const lowerThird = { ...DEFAULT_LOWER_THIRD, ...theme.lowerThird };
+    const textColor = lowerThird.textColor || theme.styles.color;
+    const referenceColor = lowerThird.referenceColor || theme.layout?.referenceColor || textColor;
+
+    const renderBar = () => {
+        if (!content || !content.body) return null;
+
+        const rows = fitLines(content.body, lowerThird.maxLines);
+        // Mirror the projector: song titles are not shown on the output
+        const reference = content.type === 'song' || lowerThird.referencePlacement === 'hidden'
+            ? null
+            : [content.title, content.meta].filter(Boolean).join(' · ');
+
+        const referenceEl = reference ? (
+            <div
+                className="font-bold uppercase tracking-wider"
+                style={{ color: referenceColor, fontSize: '0.6em', lineHeight: 1.2 }}
+            >
+                {reference}
+            </div>
+        ) : null;
+
+        return (
+            <div
+                key={content.title + content.body}
+                className="w-full px-[3vw] py-[1.2vw] flex items-center gap-[2vw] animate-in fade-in duration-300"
+                style={{
+                    // Opacity applies to the bar only, not the text on it
+                    backgroundColor: withOpacity(lowerThird.barColor, lowerThird.barOpacity),
+                    fontFamily: theme.styles.fontFamily,
+                    fontWeight: theme.styles.fontWeight as any,
+                    fontSize: lowerThird.fontSize,
+                    textTransform: theme.styles.textTransform || 'none',
+                    textShadow: theme.styles.textShadow
+                }}
+            >
+                {lowerThird.referencePlacement === 'left' && referenceEl && (
+                    <div className="shrink-0 max-w-[25%] pr-[2vw] border-r" style={{ borderColor: referenceColor }}>
+                        {referenceEl}
+                    </div>
+                )}
+                <div className="flex-1 min-w-0" style={{ textAlign: theme.styles.textAlign }}>
+                    {lowerThird.referencePlacement === 'above' && referenceEl && (
+                        <div className="mb-[0.4vw]">{referenceEl}</div>
+                    )}
+                    <div
+                        style={{
+                            color: textColor,
+                            lineHeight: 1.25,
+                            display: '-webkit-box',
+                            WebkitBoxOrient: 'vertical',
+                            WebkitLineClamp: lowerThird.maxLines,
+                            overflow: 'hidden'
+                        }}
+                    >
+                        {lowerThird.referencePlacement === 'inline' && reference && (
+                            <span className="font-bold mr-[0.5em]" style={{ color: referenceColor }}>{reference} —</span>
+                        )}
+                        {rows.map((row, idx) => (
+                            <span key={idx}>
+                                {row}
+                                {idx < rows.length - 1 && <br />}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div
+            className="fixed inset-0 flex flex-col pointer-events-none overflow-hidden"
+            style={{
+                background: 'transparent',
+                justifyContent: lowerThird.barPosition === 'top' ? 'flex-start' : 'flex-end',
+                paddingTop: lowerThird.barPosition === 'top' ? `${lowerThird.margin}vh` : 0,
+                paddingBottom: lowerThird.barPosition === 'bottom' ? `${lowerThird.margin}vh` : 0
+            }}
+        >
+            {renderBar()}
+        </div>
+    );
+}
@@ -1,13 +1,19 @@
 "use client";
 
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { useBroadcastChannel } from '@/hooks/useBroadcast';
+import { useLiveStateSync } from '@/hooks/useLiveState';
 import VisualStack from '@/components/projector/VisualStack';
-import { ProjectorTheme, DEFAULT_THEMES } from '@/utils/themes';
+import { ProjectorTheme, DEFAULT_THEMES, DEFAULT_LAYOUT, calculateFontScale } from '@/utils/themes';
 import { useLicense } from '@/hooks/useLicense';
 import DemoWatermark from '@/components/DemoWatermark';
 import LiveFeedStream from '@/components/projector/LiveFeedStream';
 import AnnouncementTicker from '@/components/AnnouncementTicker';
+import GeometryCorrection from '@/components/projector/GeometryCorrection';
+import { LayerTransitions } from '@/utils/transitions';
+import { stripChords } from '@/utils/chordpro';
+import { useOutputConfig } from '@/hooks/useOutputConfig';
+import { getThemes } from '@/utils/resourceLibrary';
+import { passesContentFilter, isMotionBackground } from '@/utils/outputs';
 
 /**
  * Sanitize and render formatted text (allows only safe tags: b, i, span with style)
@@ -47,47 +53,6 @@ function renderFormattedText(text: string): string {
 
 
 
-/**
- * Calculate optimal font size based on text length and verse count
- * Returns a multiplier to apply to the base font size
- */
-function calculateFontScale(text: string, verseCount: number = 1, textScale?: number): number {
-    const charCount = text.length;
-
-    // Base thresholds for single verse
-    // Short text (< 150 chars): full size
-    // Medium text (150-300 chars): scale down slightly
-    // Long text (300-500 chars): scale down more
-    // Very long text (500+ chars): scale down significantly
-
-    let scale = 1;
-
-    if (verseCount === 1) {
-        if (charCount < 150) scale = 1;
-        else if (charCount < 250) scale = 0.9;
-        else if (charCount < 350) scale = 0.8;
-        else if (charCount < 450) scale = 0.7;
-        else if (charCount < 600) scale = 0.6;
-        else if (charCount < 800) scale = 0.5;
-        else scale = 0.4;
-    } else if (verseCount === 2) {
-        if (charCount < 300) scale = 0.85;
-        else if (charCount < 450) scale = 0.75;
-        else if (charCount < 600) scale = 0.65;
-        else if (charCount < 800) scale = 0.55;
-        else scale = 0.45;
-    } else {
-        // 3+ verses
-        if (charCount < 400) scale = 0.7;
-        else if (charCount < 600) scale = 0.6;
-        else if (charCount < 800) scale = 0.5;
-        else if (charCount < 1000) scale = 0.45;
-        else scale = 0.38;
-    }
-
-    return scale * (textScale || 1);
-}
-
 // Generic Content Type
 type ProjectorContent = {
     type: 'verse' | 'song' | 'media' | 'live_feed';
@@ -102,6 +67,7 @@ type ProjectorContent = {
         scale?: number;
         isAudioOnly?: boolean;
     };
+    transitions?: LayerTransitions; // Resolved by the dashboard (item > theme > global)
 };
 
 export default function ProjectorPage() {
@@ -109,48 +75,59 @@ export default function ProjectorPage() {
     const { isDemo, isExpired, loading } = useLicense();
 
     // Separate State (The "Layers")
-    const [activeContent, setActiveContent] = useState<ProjectorContent | null>(null);
+    const [liveContent, setLiveContent] = useState<ProjectorContent | null>(null);
     const [activeBackground, setActiveBackground] = useState<string | null>(null);
-    const [activeTheme, setActiveTheme] = useState<ProjectorTheme>(DEFAULT_THEMES[0]);
+    const [liveTheme, setLiveTheme] = useState<ProjectorTheme>(DEFAULT_THEMES[0]);
     const [activeAlert, setActiveAlert] = useState<string | null>(null);
     const [announcement, setAnnouncement] = useState({ text: '', isActive: false, bgColor: '#ef4444', textColor: '#ffffff', speed: 20 });
+    const [transitions, setTransitions] = useState<LayerTransitions | undefined>(undefined);
 
     // Video References
-    const videoRef = useRef<HTMLVideoElement>(null);
+    const videoRef = useRef<HTMLVideoElement | null>(null);
     const liveFeedRef = useRef<HTMLVideoElement>(null);
 
     const handleMessage = useCallback((msg: any) => {
         // Handle Legacy SHOW_VERSE -> Convert to Layered Content
         if (msg.type === 'SHOW_VERSE') {
-            setActiveContent({
+            setLiveContent({
                 type: 'verse',
                 title: msg.payload.reference,
                 body: msg.payload.text,
                 meta: msg.payload.version,
                 verses: msg.payload.verses
             });
+            setTransitions(msg.payload.transitions);
+            // Only present when restoring a snapshot
+            if (msg.payload.background) {
+                setActiveBackground(msg.payload.background);
+            }
         }
         // Handle Generic SHOW_CONTENT
         else if (msg.type === 'SHOW_CONTENT') {
-            setActiveContent(msg.payload);
+            // Chords are for the band (stage display); lyrics typed in ChordPro style lose them here
+            setLiveContent(msg.payload.type === 'song' ? { ...msg.payload, body: stripChords(msg.payload.body || '') } : msg.payload);
+            setTransitions(msg.payload.transitions);
             if (msg.payload.background) {
                 setActiveBackground(msg.payload.background);
             }
         }
         // Clear Content Only (Keep BG running)
         else if (msg.type === 'CLEAR') {
-            setActiveContent(null);
+            setLiveContent(null);
+            if (msg.payload?.transitions) setTransitions(msg.payload.transitions);
+            if (msg.payload?.background) setActiveBackground(msg.payload.background);
         }
         // Blackout (Clear Everything)
         else if (msg.type === 'BLACKOUT') {
-            setActiveContent(null);
+            setLiveContent(null);
             setActiveBackground(null);
+            if (msg.payload?.transitions) setTransitions(msg.payload.transitions);
         }
         // Helper to apply theme background
         else if (msg.type === 'APPLY_THEME') {
             const newTheme = msg.payload as ProjectorTheme;
             console.log('[Projector] Applying theme:', newTheme.name, newTheme.layout);
-            setActiveTheme(newTheme);
+            setLiveTheme(newTheme);
             // Apply background if needed (ProjectorView usually layers Background separately)
             // VisualStack probably handles the background state??
             // Currently activeBackground is simple string.
@@ -199,7 +176,7 @@ export default function ProjectorPage() {
                         videoRef.current.playbackRate = value;
                         break;
                     case 'set_mode':
-                        setActiveContent(prev => {
+                        setLiveContent(prev => {
                             if (prev && prev.type === 'media') {
                                 return { ...prev, options: { ...prev.options, imageMode: value } };
                             }
@@ -207,7 +184,7 @@ export default function ProjectorPage() {
                         });
                         break;
                     case 'set_scale':
-                        setActiveContent(prev => {
+                        setLiveContent(prev => {
                             if (!prev) return null;
                             return {
                                 ...prev,
@@ -219,7 +196,7 @@ export default function ProjectorPage() {
                         });
                         break;
                     case 'set_audio_only':
-                        setActiveContent(prev => {
+                        setLiveContent(prev => {
                             if (!prev) return null;
                             return {
                                 ...prev,
@@ -236,11 +213,55 @@ export default function ProjectorPage() {
         }
     }, []);
 
-    const { broadcast } = useBroadcastChannel('projector_channel', handleMessage);
+    // Requests a full snapshot on load and ignores out-of-order messages
+    useLiveStateSync(handleMessage);
+
+    // Named outputs (?output=<id>) restyle and filter the live feed for their room
+    const outputConfig = useOutputConfig();
+    const [overrideTheme, setOverrideTheme] = useState<ProjectorTheme | null>(null);
 
     useEffect(() => {
-        broadcast({ type: 'REQUEST_STATE' });
-    }, [broadcast]);
+        const themeId = outputConfig?.themeId;
+        if (!themeId) {
+            setOverrideTheme(null);
+            return;
+        }
+        const loadOverride = async () => {
+            const allThemes = [...DEFAULT_THEMES, ...await getThemes()];
+            setOverrideTheme(allThemes.find(t => t.id === themeId) || null);
+        };
+        loadOverride();
+    }, [outputConfig?.themeId]);
+
+    const baseTheme = overrideTheme || liveTheme;
+    const activeTheme: ProjectorTheme = outputConfig && outputConfig.textScale !== 1
+        ? { ...baseTheme, layout: { ...DEFAULT_LAYOUT, ...baseTheme.layout, textScale: (baseTheme.layout?.textScale || 1) * outputConfig.textScale } }
+        : baseTheme;
+
+    const activeContent = liveContent && passesContentFilter(liveContent.type, outputConfig?.contentFilter) ? liveContent : null;
+
+    // Theme backgrounds follow the override theme; item backgrounds stay as sent
+    let outputBackground = activeBackground;
+    if (overrideTheme && activeBackground === liveTheme.background?.value) {
+        outputBackground = overrideTheme.background?.value || null;
+    }
+    if (outputConfig?.hideMotionBackground && isMotionBackground(outputBackground)) {
+        outputBackground = '#000000';
+    }
+
+    const stackHeight = announcement.isActive ? '(100vh - 5rem)' : '(100vh)';
+    const aspect = outputConfig && outputConfig.aspectRatio !== 'fill'
+        ? outputConfig.aspectRatio.split(':').map(Number)
+        : null;
+    // Letterbox inside the screen; inset-0 plus margin auto centers it
+    const stackStyle: React.CSSProperties = aspect
+        ? {
+            bottom: announcement.isActive ? '5rem' : 0,
+            width: `min(100vw, calc(${stackHeight} * ${aspect[0]} / ${aspect[1]}))`,
+            height: `min(calc${stackHeight}, calc(100vw * ${aspect[1]} / ${aspect[0]}))`,
+            margin: 'auto'
+        }
+        : { height: announcement.isActive ? 'calc(100% - 5rem)' : '100%' };
 
     // Render the Content Layer components
     const renderContent = () => {
@@ -271,13 +292,15 @@ export default function ProjectorPage() {
 
                     {isVideo ? (
                         <video
-                            ref={videoRef}
+                            // Callback ref: the outgoing copy unmounting after a transition must not null it
+                            ref={el => { if (el) videoRef.current = el; }}
                             src={activeContent.body}
                             className={`max-w-full max-h-full ${isFillMode ? 'w-full h-full' : ''} ${objectFitClass} transition-all duration-300 ${activeContent.options?.isAudioOnly ? 'opacity-0' : 'opacity-100'}`}
                             style={{ transform: `scale(${scale})` }}
                             autoPlay
                             loop
                             playsInline
+                            muted={!!outputConfig && !outputConfig.playAudio}
                         />
                     ) : (
                         <img
@@ -438,40 +461,46 @@ export default function ProjectorPage() {
     };
 
     return (
-        <div onDoubleClick={toggleFullscreen} className="h-full w-full">
-            <VisualStack
-                background={activeBackground}
-                theme={activeTheme}
-                content={renderContent()}
-                alert={activeAlert}
-                fullBleed={activeContent?.type === 'media' || activeContent?.type === 'live_feed'}
-                style={{ height: announcement.isActive ? 'calc(100% - 5rem)' : '100%' }}
-            />
-            {/* Show watermark for demo/unlicensed users */}
-            {(isDemo || isExpired) && !loading && <DemoWatermark />}
-
-            {/* Scrolling Announcement Ticker */}
-            {(() => {
-                const baseFontSize = Number(activeTheme.styles.fontSize) || 48;
-                let fontScale = 1;
-
-                if (activeContent && (activeContent.type === 'verse' || activeContent.type === 'song')) {
-                    fontScale = calculateFontScale(activeContent.body, 1, activeTheme.layout?.textScale);
-                }
-
-                const currentFontSize = (baseFontSize * fontScale) * 1.25; // 25% larger than before
-
-                return (
-                    <AnnouncementTicker
-                        text={announcement.text}
-                        isActive={announcement.isActive}
-                        bgColor={announcement.bgColor}
-                        textColor={announcement.textColor}
-                        speed={announcement.speed}
-                        fontSize={currentFontSize}
-                    />
-                );
-            })()}
-        </div>
+        <GeometryCorrection>
+            <div onDoubleClick={toggleFullscreen} className={aspect ? 'fixed inset-0 bg-black' : 'h-full w-full'}>
+                <VisualStack
+                    background={outputBackground}
+                    theme={activeTheme}
+                    content={renderContent()}
+                    contentKey={activeContent
+                        ? `${activeContent.type}:${activeContent.title}:${activeContent.body?.length}:${activeContent.body?.slice(0, 120)}`
+                        : 'empty'}
+                    transitions={transitions}
+                    alert={activeAlert}
+                    fullBleed={activeContent?.type === 'media' || activeContent?.type === 'live_feed'}
+                    style={stackStyle}
+                />
+                {/* Show watermark for demo/unlicensed users */}
+                {(isDemo || isExpired) && !loading && <DemoWatermark />}
+
+                {/* Scrolling Announcement Ticker */}
+                {(() => {
+                    const baseFontSize = Number(activeTheme.styles.fontSize) || 48;
+                    let fontScale = 1;
+
+                    if (activeContent && (activeContent.type === 'verse' || activeContent.type === 'song')) {
+                        fontScale = calculateFontScale(activeContent.body, 1, activeTheme.layout?.textScale);
+                    }
+
+                    const currentFontSize = (baseFontSize * fontScale) * 1.25; // 25% larger than before
+
+                    return (
+                        <AnnouncementTicker
+                            text={announcement.text}
+                            isActive={announcement.isActive}
+                            bgColor={announcement.bgColor}
+                            textColor={announcement.textColor}
+                            speed={announcement.speed}
+                            fontSize={currentFontSize}
+                        />
+                    );
+                })()}
+            </div>
+        </GeometryCorrection>
     );
 }
@@ -1,6 +1,6 @@
 'use client';
 import Link from 'next/link';
-import { Check, X, ArrowRight, Monitor, Laptop, Mic, Users, Zap, DollarSign, WifiOff } from 'lucide-react';
+import { Check, X, ArrowRight, Monitor, Laptop, Mic, Users, Zap, DollarSign, WifiOff, Database } from 'lucide-react';
 
 export default function ProPresenterAlternativePage() {
     return (
@@ -69,6 +69,7 @@ export default function ProPresenterAlternativePage() {
                                     { feature: 'Multiple Bible Versions', creenly: '15+', propresenter: '10+' },
                                     { feature: 'Cloud Song Library', creenly: true, propresenter: true },
                                     { feature: 'Volunteer Friendly', creenly: true, propresenter: false },
+                                    { feature: 'Import ProPresenter 6 Songs & Playlists', creenly: true, propresenter: 'N/A' },
                                 ].map((row, i) => (
                                     <tr key={i} className="border-b border-white/5 hover:bg-white/[0.02]">
                                         <td className="py-5 px-6 text-sm text-zinc-300">{row.feature}</td>
@@ -118,6 +119,11 @@ export default function ProPresenterAlternativePage() {
                                 title: 'Works Without Internet',
                                 desc: 'On-device Whisper AI, cached Bible verses, and semantic search all run locally. ProPresenter can\'t do that.'
                             },
+                            {
+                                icon: <Database size={28} />,
+                                title: 'Bring Your Library',
+                                desc: 'Import your ProPresenter 6 songs with their groups and arrangements, and your playlists as ready-made schedules.'
+                            },
                         ].map((item, i) => (
                             <div key={i} className="p-8 rounded-3xl bg-zinc-900/50 border border-white/5">
                                 <div className="w-12 h-12 rounded-2xl bg-indigo-500/20 text-indigo-400 flex items-center justify-center mb-6">
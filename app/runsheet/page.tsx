@@ -0,0 +1,192 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { Printer } from 'lucide-react';
+import { ServiceSchedule, ScheduleItem, loadSchedule, loadPlan } from '@/utils/scheduleManager';
+import { RunSheetPreset, RUN_SHEET_PRESETS, isRunSheetPreset, itemDurationMs, formatDuration, plainText, firstLines, cueLines, scriptureText } from '@/utils/runSheet';
+import { SUPPORTED_VERSIONS } from '@/utils/bible';
+
+/**
+ * Printable order of service. Opened from the schedule panel or the plan
+ * manager; shows ?plan=<id> or the current schedule, laid out for ?preset=.
+ */
+export default function RunSheetPage() {
+    const [schedule, setSchedule] = useState<ServiceSchedule | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [preset, setPreset] = useState<RunSheetPreset>('operator');
+    const [version, setVersion] = useState('');
+    const [startTime, setStartTime] = useState('');
+    const [scriptures, setScriptures] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        const requested = params.get('preset');
+        if (isRunSheetPreset(requested)) setPreset(requested);
+
+        const planId = params.get('plan');
+        (planId ? loadPlan(planId) : loadSchedule())
+            .then(setSchedule)
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const options = RUN_SHEET_PRESETS[preset];
+
+    // Scripture text in the chosen version (falls back to what was scheduled)
+    useEffect(() => {
+        if (!schedule || !options.scripture) return;
+        let cancelled = false;
+        const load = async () => {
+            const loaded: Record<string, string> = {};
+            for (const item of schedule.items.filter(i => i.type === 'scripture' && !i.placeholder)) {
+                loaded[item.id] = await scriptureText(item, version);
+            }
+            if (!cancelled) setScriptures(loaded);
+        };
+        load();
+        return () => { cancelled = true; };
+    }, [schedule, version, options.scripture]);
+
+    // Planned clock time for each item, from the service start and known durations
+    const startTimes: (string | null)[] = [];
+    if (schedule && startTime) {
+        const [hours, minutes] = startTime.split(':').map(Number);
+        let clock: number | null = (hours * 60 + minutes) * 60 * 1000;
+        for (const item of schedule.items) {
+            startTimes.push(clock === null ? null : new Date(2000, 0, 1, 0, 0, 0, clock).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }));
+            const duration = itemDurationMs(item);
+            clock = clock === null || duration === null ? null : clock + duration;
+        }
+    }
+
+    const totalMs = schedule?.items.reduce((sum, item) => sum + (itemDurationMs(item) || 0), 0) || 0;
+
+    const renderLyrics = (item: ScheduleItem) => {
+        if (options.lyrics === 'first_lines') {
+            return <p className="text-sm italic text-zinc-600">{firstLines(item)}</p>;
+        }
+        let lastLabel = '';
+        return (
+            <div className="text-sm text-zinc-800 space-y-2 columns-2 gap-8 print:columns-2">
+                {item.slides.map(slide => {
+                    const label = slide.label && slide.label !== lastLabel ? slide.label : null;
+                    if (slide.label) lastLabel = slide.label;
+                    return (
+                        <div key={slide.id} className="break-inside-avoid">
+                            {label && <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-500">{label}</p>}
+                            <p className="whitespace-pre-line">{plainText(slide.content)}</p>
+                        </div>
+                    );
+                })}
+            </div>
+        );
+    };
+
+    const renderItem = (item: ScheduleItem, index: number) => {
+        const duration = itemDurationMs(item);
+        const credits = [
+            item.meta?.author,
+            item.meta?.ccli && `CCLI #${item.meta.ccli}`,
+            item.meta?.copyright
+        ].filter(Boolean).join(' · ');
+
+        return (
+            <li key={item.id} className="py-3 border-b border-zinc-200 break-inside-avoid">
+                <div className="flex items-baseline gap-4">
+                    {preset !== 'bulletin' && <span className="w-6 text-right text-xs font-mono text-zinc-400">{index + 1}</span>}
+                    {startTimes.length > 0 && <span className="w-16 text-xs font-mono text-zinc-500">{startTimes[index] || ''}</span>}
+                    <div className="flex-1 min-w-0">
+                        <div className="flex items-baseline gap-3">
+                            <h2 className={`font-bold ${preset === 'bulletin' ? 'text-lg' : 'text-base'} ${item.placeholder ? 'text-zinc-400 italic' : 'text-black'}`}>
+                                {item.title}{item.placeholder && ' (empty slot)'}
+                            </h2>
+                            {preset !== 'bulletin' && <span className="text-[10px] uppercase tracking-wider text-zinc-400">{item.type}</span>}
+                            {options.songKey && item.meta?.key && (
+                                <span className="text-xs font-bold px-1.5 border border-black rounded">Key {item.meta.key}</span>
+                            )}
+                        </div>
+                        {options.credits && credits && <p className="text-xs text-zinc-500">{credits}</p>}
+                    </div>
+                    {options.durations && <span className="text-xs font-mono text-zinc-500">{duration !== null ? formatDuration(duration) : '—'}</span>}
+                </div>
+
+                <div className={`${preset !== 'bulletin' ? 'ml-10' : ''} mt-1 space-y-2`}>
+                    {item.type === 'song' && !item.placeholder && options.lyrics !== 'none' && renderLyrics(item)}
+                    {item.type === 'scripture' && options.scripture && scriptures[item.id] && (
+                        <p className="text-sm text-zinc-800 whitespace-pre-line border-l-2 border-zinc-300 pl-3">{scriptures[item.id]}</p>
+                    )}
+                    {options.notes && item.notes && (
+                        <p className="text-sm text-black whitespace-pre-line"><span className="font-bold">Notes: </span>{item.notes}</p>
+                    )}
+                    {options.cues && cueLines(item).length > 0 && (
+                        <ul className="text-xs font-mono text-zinc-600">
+                            {cueLines(item).map((line, i) => <li key={i}>▸ {line}</li>)}
+                        </ul>
+                    )}
+                </div>
+            </li>
+        );
+    };
+
+    return (
+        <div className="min-h-screen bg-zinc-100 print:bg-white text-black">
+            {/* Toolbar (screen only) */}
+            <div className="sticky top-0 z-10 bg-white border-b border-zinc-200 px-6 py-3 flex flex-wrap items-center gap-4 print:hidden">
+                <div className="flex bg-zinc-100 rounded-lg p-1">
+                    {(Object.keys(RUN_SHEET_PRESETS) as RunSheetPreset[]).map(p => (
+                        <button
+                            key={p}
+                            onClick={() => setPreset(p)}
+                            className={`px-3 py-1.5 rounded text-xs font-bold transition-all ${preset === p ? 'bg-white text-indigo-600 shadow-sm' : 'text-zinc-500 hover:text-black'}`}
+                            title={RUN_SHEET_PRESETS[p].description}
+                        >
+                            {RUN_SHEET_PRESETS[p].label}
+                        </button>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2 text-xs text-zinc-500">
+                    Start
+                    <input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} className="border border-zinc-300 rounded px-2 py-1 text-black" />
+                </label>
+                {options.scripture && (
+                    <label className="flex items-center gap-2 text-xs text-zinc-500">
+                        Bible
+                        <select value={version} onChange={e => setVersion(e.target.value)} className="border border-zinc-300 rounded px-2 py-1 text-black">
+                            <option value="">As scheduled</option>
+                            {SUPPORTED_VERSIONS.map(v => <option key={v} value={v}>{v}</option>)}
+                        </select>
+                    </label>
+                )}
+                <button
+                    onClick={() => window.print()}
+                    className="ml-auto flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-lg"
+                >
+                    <Printer size={14} /> Print / Save PDF
+                </button>
+            </div>
+
+            {/* Sheet */}
+            <div className="max-w-3xl mx-auto my-8 print:my-0 bg-white shadow-lg print:shadow-none p-10 print:p-0">
+                {isLoading ? (
+                    <p className="text-zinc-500">Loading schedule...</p>
+                ) : !schedule ? (
+                    <p className="text-zinc-500">Schedule not found.</p>
+                ) : (
+                    <>
+                        <header className={`mb-6 pb-4 border-b-2 border-black ${preset === 'bulletin' ? 'text-center' : ''}`}>
+                            <h1 className="text-2xl font-black">{schedule.name}</h1>
+                            <p className="text-sm text-zinc-600">
+                                {new Date(`${schedule.date}T00:00:00`).toLocaleDateString([], { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+                                {preset !== 'bulletin' && ` · ${options.label} run sheet`}
+                                {options.durations && totalMs > 0 && ` · ${formatDuration(totalMs)} timed`}
+                            </p>
+                        </header>
+                        <ol>
+                            {schedule.items.map(renderItem)}
+                        </ol>
+                        {schedule.items.length === 0 && <p className="text-zinc-500">This schedule is empty.</p>}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
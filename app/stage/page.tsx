@@ -1,13 +1,15 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback, useLayoutEffect } from 'react';
-import { useBroadcastChannel } from '@/hooks/useBroadcast';
-import { Clock, ChevronRight, Music, BookOpen, Image, AlertCircle } from 'lucide-react';
+import { useLiveStateSync } from '@/hooks/useLiveState';
+import { Clock, ChevronRight, Music, BookOpen, Image, AlertCircle, Minus, Plus } from 'lucide-react';
 import { useLicense } from '@/hooks/useLicense';
 import DemoWatermark from '@/components/DemoWatermark';
 import { ProjectorTheme, DEFAULT_THEMES } from '@/utils/themes';
 import LiveFeedStream from '@/components/projector/LiveFeedStream';
 import AnnouncementTicker from '@/components/AnnouncementTicker';
+import GeometryCorrection from '@/components/projector/GeometryCorrection';
+import { SlideChord, chordLines, transposeChord, transposeKey, keyUsesFlats } from '@/utils/chordpro';
 
 /**
  * Render formatted text with allowed HTML tags (b, i, font/span with color)
@@ -80,6 +82,39 @@ function calculateFontScale(text: string | undefined, verseCount: number = 1): n
     return scale;
 }
 
+/**
+ * Lyrics with chords drawn above the syllable they fall on
+ */
+function ChordedLyrics({ text, chords, semitones, flats, align }: {
+    text: string;
+    chords: SlideChord[];
+    semitones: number;
+    flats: boolean;
+    align?: string;
+}) {
+    const justify = align === 'left' ? 'flex-start' : align === 'right' ? 'flex-end' : 'center';
+    // Chord positions refer to the plain lyric text
+    const plain = text.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '');
+    return (
+        <div className="flex flex-col gap-[0.15em]">
+            {chordLines(plain, chords).map((segments, i) => (
+                <div key={i} className="flex flex-wrap items-end" style={{ justifyContent: justify }}>
+                    {segments.map((segment, j) => (
+                        <span key={j} className="inline-flex flex-col items-start">
+                            <span className="text-[0.6em] font-black leading-none text-amber-300 pr-[0.3em]">
+                                {segment.chord ? transposeChord(segment.chord, semitones, flats) : '\u00a0'}
+                            </span>
+                            <span className="whitespace-pre">{segment.text || '\u00a0'}</span>
+                        </span>
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+const TRANSPOSE_KEY = 'creenly-stage-transpose';
+
 interface StageContent {
     type: 'verse' | 'song' | 'media' | 'live_feed' | 'clear';
     reference?: string;
@@ -90,11 +125,16 @@ interface StageContent {
     nextSlide?: string;
     slideIndex?: number;
     totalSlides?: number;
+    guideUntil?: number; // When the next slide is due (auto-advance or rehearsed pace)
     scale?: number;
     imageMode?: 'contain' | 'cover' | 'stretch';
     verses?: { verseNum: number; text: string }[];
     background?: string;
     isAudioOnly?: boolean;
+    chords?: SlideChord[];      // Songs imported from ChordPro
+    nextChords?: SlideChord[];
+    songKey?: string;
+    capo?: number;
 }
 
 export default function StageDisplayPage() {
@@ -114,6 +154,7 @@ export default function StageDisplayPage() {
     const [isFullscreen, setIsFullscreen] = useState(false);
     const [activeTheme, setActiveTheme] = useState<ProjectorTheme>(DEFAULT_THEMES[0]);
     const [announcement, setAnnouncement] = useState({ text: '', isActive: false, bgColor: '#ef4444', textColor: '#ffffff', speed: 20 });
+    const [transposeBySong, setTransposeBySong] = useState<Record<string, number>>({}); // Semitones, keyed by song title
 
     // Video and Layout References
     const videoRef = useRef<HTMLVideoElement>(null);
@@ -121,12 +162,8 @@ export default function StageDisplayPage() {
     const contentRef = useRef<HTMLDivElement>(null);
     const [fitScale, setFitScale] = useState(1);
 
-    // Broadcast Subscription
-    const { broadcast } = useBroadcastChannel('projector_channel');
-    useEffect(() => {
-        broadcast({ type: 'REQUEST_STATE' });
-    }, [broadcast]);
-    const { subscribe } = useBroadcastChannel('projector_channel', (message: any) => {
+    // Broadcast Subscription (requests a full snapshot on load, ignores out-of-order messages)
+    const { broadcast } = useLiveStateSync((message: any) => {
         if (message.type === 'SHOW_VERSE') {
             setContent({
                 type: 'verse',
@@ -146,7 +183,12 @@ export default function StageDisplayPage() {
                     nextSlide: payload.nextSlide,
                     slideIndex: payload.slideIndex,
                     totalSlides: payload.totalSlides,
+                    guideUntil: payload.guide ? Date.now() + payload.guide * 1000 : undefined,
                     background: payload.background,
+                    chords: payload.chords,
+                    nextChords: payload.nextChords,
+                    songKey: payload.songKey,
+                    capo: payload.capo,
                 });
                 setFitScale(1); // Reset scale on new content
             } else if (payload.type === 'media') {
@@ -261,7 +303,21 @@ export default function StageDisplayPage() {
                     setIsRunning(false);
                     setPausedAt(Date.now());
                 }
-            } else if (action === 'reset') {
+            } else if (action === 'sync') {
+                // Restore from a live state snapshot (absolute times, so no drift)
+                const { mode: syncMode, targetSeconds: syncTarget, isRunning: syncRunning, startedAt, pausedAt: syncPausedAt } = message.payload;
+                setTimerMode(syncMode);
+                setTargetSeconds(syncTarget);
+                setTimerAlert(alert || null);
+                setStartTime(startedAt);
+                setPausedAt(syncPausedAt);
+                setIsRunning(syncRunning);
+                if (!syncRunning) {
+                    const elapsed = startedAt && syncPausedAt ? Math.floor((syncPausedAt - startedAt) / 1000) : 0;
+                    const display = syncMode === 'countdown' ? Math.max(0, syncTarget - elapsed) : elapsed;
+                    setElapsedTime(new Date(display * 1000).toISOString().substr(11, 8));
+                }
+            } else if (action === 'reset' || action === 'stop') {
                 setIsRunning(false);
                 setStartTime(null);
                 setPausedAt(null);
@@ -300,6 +356,45 @@ export default function StageDisplayPage() {
         return () => clearInterval(timer);
     }, []);
 
+    // Chord transposition for the band, remembered per song
+    useEffect(() => {
+        try {
+            setTransposeBySong(JSON.parse(localStorage.getItem(TRANSPOSE_KEY) || '{}'));
+        } catch {
+            // Ignore unreadable saved transpositions
+        }
+    }, []);
+
+    const hasChords = content?.type === 'song' && !!(content.chords?.length || content.nextChords?.length);
+    const songTitle = content?.type === 'song' ? content.title || '' : '';
+    const semitones = hasChords ? transposeBySong[songTitle] || 0 : 0;
+    const shapeShift = semitones - (content?.capo || 0);
+    const soundingKey = content?.songKey ? transposeKey(content.songKey, semitones) : '';
+    const shapeKey = content?.songKey ? transposeKey(content.songKey, shapeShift) : '';
+    const chordFlats = keyUsesFlats(shapeKey);
+
+    const shiftTranspose = useCallback((step: number) => {
+        setTransposeBySong(prev => {
+            const value = step === 0 ? 0 : ((prev[songTitle] || 0) + step + 18) % 12 - 6; // Stay within a tritone either way
+            const next = { ...prev, [songTitle]: value };
+            if (!value) delete next[songTitle];
+            localStorage.setItem(TRANSPOSE_KEY, JSON.stringify(next));
+            return next;
+        });
+    }, [songTitle]);
+
+    // +/- transpose, 0 resets
+    useEffect(() => {
+        if (!hasChords) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === '+' || e.key === '=') shiftTranspose(1);
+            else if (e.key === '-' || e.key === '_') shiftTranspose(-1);
+            else if (e.key === '0') shiftTranspose(0);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [hasChords, shiftTranspose]);
+
     // Auto-hide footer hint after 5 seconds
     useEffect(() => {
         const timer = setTimeout(() => setShowHint(false), 5000);
@@ -385,350 +480,394 @@ export default function StageDisplayPage() {
     }, [content, fitScale, activeTheme]);
 
     return (
-        <div
-            className="h-screen w-screen text-white font-sans overflow-hidden select-none relative"
-            onDoubleClick={toggleFullscreen}
-            style={{
-                backgroundColor: activeTheme.background?.type === 'color' ? activeTheme.background.value : 'black',
-                backgroundImage: activeTheme.background?.type === 'image' ? `url(${activeTheme.background.value})` :
-                    activeTheme.background?.type === 'gradient' ? activeTheme.background.value : 'none',
-                backgroundSize: 'cover',
-                backgroundPosition: 'center',
-                transition: 'all 0.5s ease-in-out'
-            }}
-        >
-            {/* Background Overlay */}
-            {activeTheme.background?.overlayOpacity > 0 && (
-                <div
-                    className="absolute inset-0 z-0"
-                    style={{
-                        backgroundColor: `rgba(0,0,0,${activeTheme.background.overlayOpacity})`,
-                        backdropFilter: activeTheme.background.blur ? `blur(${activeTheme.background.blur}px)` : 'none'
-                    }}
-                />
-            )}
-
-            {/* Media Content - Outside transform to allow full screen */}
-            {content?.type === 'media' && (
-                <div className="fixed left-0 right-0 bottom-0 top-[5rem] z-[40] bg-black flex items-center justify-center">
-                    {content.isAudioOnly ? (
-                        <div className="flex flex-col items-center justify-center text-zinc-500 gap-4">
-                            <div className="w-24 h-24 rounded-full bg-zinc-900 border border-zinc-800 flex items-center justify-center">
-                                <Music size={48} />
-                            </div>
-                            <div className="text-xl font-bold tracking-widest uppercase">Audio Only</div>
-                        </div>
-                    ) : (
-                        (() => {
-                            const mediaUrl = content.text || content.currentSlide;
-                            const isVideo = mediaUrl?.match(/\.(mp4|webm|mov|ogg)(\?|$)/i) ||
-                                mediaUrl?.startsWith('data:video/') ||
-                                mediaUrl?.startsWith('blob:');
-
-                            const mode = content.imageMode || 'contain';
-                            const objectFitClass = mode === 'cover' ? 'object-cover' : mode === 'stretch' ? 'object-fill' : 'object-contain';
-
-                            return isVideo ? (
-                                <video
-                                    key={mediaUrl}
-                                    ref={videoRef}
-                                    src={mediaUrl}
-                                    className={`w-full h-full ${objectFitClass} transition-all duration-300`}
-                                    style={{ transform: `scale(${content.scale || 1})` }}
-                                    autoPlay
-                                    muted
-                                    loop
-                                    playsInline
-                                />
-                            ) : (
-                                <img
-                                    src={mediaUrl}
-                                    alt={content.title}
-                                    className={`w-full h-full ${objectFitClass} transition-all duration-300`}
-                                    style={{ transform: `scale(${content.scale || 1})` }}
-                                />
-                            );
-                        })()
-                    )}
-                </div>
-            )}
-
-            {content?.type === 'live_feed' && (
-                <div className="fixed left-0 right-0 bottom-0 top-[5rem] z-[40] bg-black flex items-center justify-center">
-                    {content.isAudioOnly ? (
-                        <div className="flex flex-col items-center justify-center text-zinc-500 gap-4">
-                            <div className="w-24 h-24 rounded-full bg-zinc-900 border border-zinc-800 flex items-center justify-center">
-                                <Music size={48} />
+        <GeometryCorrection>
+            <div
+                className="h-screen w-screen text-white font-sans overflow-hidden select-none relative"
+                onDoubleClick={toggleFullscreen}
+                style={{
+                    backgroundColor: activeTheme.background?.type === 'color' ? activeTheme.background.value : 'black',
+                    backgroundImage: activeTheme.background?.type === 'image' ? `url(${activeTheme.background.value})` :
+                        activeTheme.background?.type === 'gradient' ? activeTheme.background.value : 'none',
+                    backgroundSize: 'cover',
+                    backgroundPosition: 'center',
+                    transition: 'all 0.5s ease-in-out'
+                }}
+            >
+                {/* Background Overlay */}
+                {activeTheme.background?.overlayOpacity > 0 && (
+                    <div
+                        className="absolute inset-0 z-0"
+                        style={{
+                            backgroundColor: `rgba(0,0,0,${activeTheme.background.overlayOpacity})`,
+                            backdropFilter: activeTheme.background.blur ? `blur(${activeTheme.background.blur}px)` : 'none'
+                        }}
+                    />
+                )}
+
+                {/* Media Content - Outside transform to allow full screen */}
+                {content?.type === 'media' && (
+                    <div className="fixed left-0 right-0 bottom-0 top-[5rem] z-[40] bg-black flex items-center justify-center">
+                        {content.isAudioOnly ? (
+                            <div className="flex flex-col items-center justify-center text-zinc-500 gap-4">
+                                <div className="w-24 h-24 rounded-full bg-zinc-900 border border-zinc-800 flex items-center justify-center">
+                                    <Music size={48} />
+                                </div>
+                                <div className="text-xl font-bold tracking-widest uppercase">Audio Only</div>
                             </div>
-                            <div className="text-xl font-bold tracking-widest uppercase">Audio Only</div>
-                        </div>
-                    ) : (
-                        <LiveFeedStream
-                            sourceId={content.currentSlide || ''}
-                            className={`w-full h-full ${content.imageMode === 'stretch' ? 'object-fill' : content.imageMode === 'cover' ? 'object-cover' : 'object-contain'}`}
-                        />
-                    )}
-                </div>
-            )}
-            {/* Top Bar - Clock & Timer */}
-            <div className="fixed top-0 left-0 right-0 bg-zinc-900/80 backdrop-blur-md border-b border-white/10 px-6 py-4 flex justify-between items-center z-50">
-                <div className="flex items-center gap-8">
-                    {/* Current Time */}
-                    <div className="text-center">
-                        <p className="text-xs text-zinc-500 uppercase tracking-wider">Current Time</p>
-                        <p className="text-3xl font-mono font-bold text-white">
-                            {currentTime ? formatTime(currentTime) : '--:----'}
-                        </p>
+                        ) : (
+                            (() => {
+                                const mediaUrl = content.text || content.currentSlide;
+                                const isVideo = mediaUrl?.match(/\.(mp4|webm|mov|ogg)(\?|$)/i) ||
+                                    mediaUrl?.startsWith('data:video/') ||
+                                    mediaUrl?.startsWith('blob:');
+
+                                const mode = content.imageMode || 'contain';
+                                const objectFitClass = mode === 'cover' ? 'object-cover' : mode === 'stretch' ? 'object-fill' : 'object-contain';
+
+                                return isVideo ? (
+                                    <video
+                                        key={mediaUrl}
+                                        ref={videoRef}
+                                        src={mediaUrl}
+                                        className={`w-full h-full ${objectFitClass} transition-all duration-300`}
+                                        style={{ transform: `scale(${content.scale || 1})` }}
+                                        autoPlay
+                                        muted
+                                        loop
+                                        playsInline
+                                    />
+                                ) : (
+                                    <img
+                                        src={mediaUrl}
+                                        alt={content.title}
+                                        className={`w-full h-full ${objectFitClass} transition-all duration-300`}
+                                        style={{ transform: `scale(${content.scale || 1})` }}
+                                    />
+                                );
+                            })()
+                        )}
                     </div>
+                )}
 
-                    {/* Service Timer */}
-                    <div className="text-center">
-                        <p className="text-xs text-zinc-500 uppercase tracking-wider">Service Timer</p>
-                        <p className={`text-3xl font-mono font-bold ${isRunning ? 'text-green-400' : pausedAt ? 'text-amber-400' : 'text-zinc-600'}`}>
-                            {elapsedTime}
-                        </p>
+                {content?.type === 'live_feed' && (
+                    <div className="fixed left-0 right-0 bottom-0 top-[5rem] z-[40] bg-black flex items-center justify-center">
+                        {content.isAudioOnly ? (
+                            <div className="flex flex-col items-center justify-center text-zinc-500 gap-4">
+                                <div className="w-24 h-24 rounded-full bg-zinc-900 border border-zinc-800 flex items-center justify-center">
+                                    <Music size={48} />
+                                </div>
+                                <div className="text-xl font-bold tracking-widest uppercase">Audio Only</div>
+                            </div>
+                        ) : (
+                            <LiveFeedStream
+                                sourceId={content.currentSlide || ''}
+                                className={`w-full h-full ${content.imageMode === 'stretch' ? 'object-fill' : content.imageMode === 'cover' ? 'object-cover' : 'object-contain'}`}
+                            />
+                        )}
                     </div>
-                </div>
-
-                {/* Content Type Indicator */}
-                <div className="flex items-center gap-3">
-                    {content?.type === 'verse' && (
-                        <div className="flex items-center gap-2 bg-blue-600/20 text-blue-400 px-4 py-2 rounded-full">
-                            <BookOpen size={18} />
-                            <span className="font-semibold">SCRIPTURE</span>
-                        </div>
-                    )}
-                    {content?.type === 'song' && (
-                        <div className="flex items-center gap-2 bg-purple-600/20 text-purple-400 px-4 py-2 rounded-full">
-                            <Music size={18} />
-                            <span className="font-semibold">LYRICS</span>
-                        </div>
-                    )}
-                    {content?.type === 'media' && (
-                        <div className="flex items-center gap-2 bg-amber-600/20 text-amber-400 px-4 py-2 rounded-full">
-                            <Image size={18} />
-                            <span className="font-semibold">MEDIA</span>
+                )}
+                {/* Top Bar - Clock & Timer */}
+                <div className="fixed top-0 left-0 right-0 bg-zinc-900/80 backdrop-blur-md border-b border-white/10 px-6 py-4 flex justify-between items-center z-50">
+                    <div className="flex items-center gap-8">
+                        {/* Current Time */}
+                        <div className="text-center">
+                            <p className="text-xs text-zinc-500 uppercase tracking-wider">Current Time</p>
+                            <p className="text-3xl font-mono font-bold text-white">
+                                {currentTime ? formatTime(currentTime) : '--:----'}
+                            </p>
                         </div>
-                    )}
-                    {(!content || content.type === 'clear') && (
-                        <div className="flex items-center gap-2 bg-zinc-800 text-zinc-500 px-4 py-2 rounded-full">
-                            <AlertCircle size={18} />
-                            <span className="font-semibold">STANDBY</span>
+
+                        {/* Service Timer */}
+                        <div className="text-center">
+                            <p className="text-xs text-zinc-500 uppercase tracking-wider">Service Timer</p>
+                            <p className={`text-3xl font-mono font-bold ${isRunning ? 'text-green-400' : pausedAt ? 'text-amber-400' : 'text-zinc-600'}`}>
+                                {elapsedTime}
+                            </p>
                         </div>
-                    )}
+                    </div>
+
+                    {/* Content Type Indicator */}
+                    <div className="flex items-center gap-3">
+                        {content?.type === 'verse' && (
+                            <div className="flex items-center gap-2 bg-blue-600/20 text-blue-400 px-4 py-2 rounded-full">
+                                <BookOpen size={18} />
+                                <span className="font-semibold">SCRIPTURE</span>
+                            </div>
+                        )}
+                        {hasChords && (
+                            <div className="flex items-center gap-2 bg-amber-500/15 text-amber-300 pl-2 pr-4 py-1 rounded-full" onDoubleClick={e => e.stopPropagation()}>
+                                <button onClick={() => shiftTranspose(-1)} className="p-1.5 rounded-full hover:bg-amber-500/20" title="Transpose down (-)">
+                                    <Minus size={14} />
+                                </button>
+                                <button onClick={() => shiftTranspose(1)} className="p-1.5 rounded-full hover:bg-amber-500/20" title="Transpose up (+)">
+                                    <Plus size={14} />
+                                </button>
+                                <span className="font-semibold">
+                                    {soundingKey ? `KEY ${soundingKey}` : 'CHORDS'}
+                                    {semitones !== 0 && <span className="opacity-60"> ({semitones > 0 ? '+' : ''}{semitones})</span>}
+                                    {content?.capo ? <span className="opacity-60"> · CAPO {content.capo}{shapeKey && ` (${shapeKey} shapes)`}</span> : null}
+                                </span>
+                            </div>
+                        )}
+                        {content?.type === 'song' && (
+                            <div className="flex items-center gap-2 bg-purple-600/20 text-purple-400 px-4 py-2 rounded-full">
+                                <Music size={18} />
+                                <span className="font-semibold">LYRICS</span>
+                            </div>
+                        )}
+                        {content?.type === 'media' && (
+                            <div className="flex items-center gap-2 bg-amber-600/20 text-amber-400 px-4 py-2 rounded-full">
+                                <Image size={18} />
+                                <span className="font-semibold">MEDIA</span>
+                            </div>
+                        )}
+                        {(!content || content.type === 'clear') && (
+                            <div className="flex items-center gap-2 bg-zinc-800 text-zinc-500 px-4 py-2 rounded-full">
+                                <AlertCircle size={18} />
+                                <span className="font-semibold">STANDBY</span>
+                            </div>
+                        )}
+                    </div>
                 </div>
-            </div>
 
-            {/* Main Content Area */}
-            <div
-                ref={containerRef}
-                className="flex-1 h-full flex flex-col overflow-hidden relative z-10 transition-all duration-300"
-                style={{
-                    paddingTop: activeTheme.layout?.contentPadding !== undefined ?
-                        (content?.type === 'media' || content?.type === 'live_feed' ? `${activeTheme.layout.contentPadding}px` : `${Math.max(activeTheme.layout.contentPadding, 96)}px`) : '6rem',
-                    paddingBottom: (activeTheme.layout?.contentPadding !== undefined ?
-                        (content?.type === 'media' || content?.type === 'live_feed' ? activeTheme.layout.contentPadding : Math.max(activeTheme.layout.contentPadding, 80)) : 80) + (announcement.isActive ? 120 : 0),
-                    paddingLeft: activeTheme.layout?.contentPadding !== undefined ? `${activeTheme.layout.contentPadding}px` : '2rem',
-                    paddingRight: activeTheme.layout?.contentPadding !== undefined ? `${activeTheme.layout.contentPadding}px` : '2rem',
-                }}
-            >
-                {/* Current Content - Large Display */}
+                {/* Main Content Area */}
                 <div
-                    ref={contentRef}
-                    className="flex-1 flex items-center justify-center w-full"
+                    ref={containerRef}
+                    className="flex-1 h-full flex flex-col overflow-hidden relative z-10 transition-all duration-300"
                     style={{
-                        fontSize: activeTheme.styles.fontSize,
-                        transform: `scale(${fitScale})`,
-                        transformOrigin: 'center center',
+                        paddingTop: activeTheme.layout?.contentPadding !== undefined ?
+                            (content?.type === 'media' || content?.type === 'live_feed' ? `${activeTheme.layout.contentPadding}px` : `${Math.max(activeTheme.layout.contentPadding, 96)}px`) : '6rem',
+                        paddingBottom: (activeTheme.layout?.contentPadding !== undefined ?
+                            (content?.type === 'media' || content?.type === 'live_feed' ? activeTheme.layout.contentPadding : Math.max(activeTheme.layout.contentPadding, 80)) : 80) + (announcement.isActive ? 120 : 0),
+                        paddingLeft: activeTheme.layout?.contentPadding !== undefined ? `${activeTheme.layout.contentPadding}px` : '2rem',
+                        paddingRight: activeTheme.layout?.contentPadding !== undefined ? `${activeTheme.layout.contentPadding}px` : '2rem',
                     }}
                 >
-                    {content?.type === 'verse' && (
-                        <div
-                            className="text-center w-full flex flex-col"
-                            style={{
-                                alignItems: activeTheme.styles.alignItems || 'center',
-                                justifyContent: activeTheme.styles.justifyContent || 'center',
-                            }}
-                        >
-                            <p
-                                className="font-bold mb-4 tracking-wide uppercase"
+                    {/* Current Content - Large Display */}
+                    <div
+                        ref={contentRef}
+                        className="flex-1 flex items-center justify-center w-full"
+                        style={{
+                            fontSize: activeTheme.styles.fontSize,
+                            transform: `scale(${fitScale})`,
+                            transformOrigin: 'center center',
+                        }}
+                    >
+                        {content?.type === 'verse' && (
+                            <div
+                                className="text-center w-full flex flex-col"
                                 style={{
-                                    fontFamily: activeTheme.styles.fontFamily,
-                                    color: activeTheme.layout?.referenceColor || activeTheme.styles.color,
-                                    fontSize: `${0.6 * (activeTheme.layout?.referenceScale || 1)}em`,
-                                    textAlign: activeTheme.styles.textAlign
+                                    alignItems: activeTheme.styles.alignItems || 'center',
+                                    justifyContent: activeTheme.styles.justifyContent || 'center',
                                 }}
                             >
-                                {content.reference}
-                                {content.version && (
-                                    <span className="ml-2 opacity-70" style={{ color: activeTheme.layout?.versionColor || activeTheme.layout?.referenceColor || activeTheme.styles.color }}>
-                                        [{content.version}]
-                                    </span>
-                                )}
-                            </p>
+                                <p
+                                    className="font-bold mb-4 tracking-wide uppercase"
+                                    style={{
+                                        fontFamily: activeTheme.styles.fontFamily,
+                                        color: activeTheme.layout?.referenceColor || activeTheme.styles.color,
+                                        fontSize: `${0.6 * (activeTheme.layout?.referenceScale || 1)}em`,
+                                        textAlign: activeTheme.styles.textAlign
+                                    }}
+                                >
+                                    {content.reference}
+                                    {content.version && (
+                                        <span className="ml-2 opacity-70" style={{ color: activeTheme.layout?.versionColor || activeTheme.layout?.referenceColor || activeTheme.styles.color }}>
+                                            [{content.version}]
+                                        </span>
+                                    )}
+                                </p>
+                                <div
+                                    className={`font-bold leading-tight transition-all duration-300 w-full`}
+                                    style={{
+                                        fontFamily: activeTheme.styles.fontFamily,
+                                        color: activeTheme.styles.color === '#ffffff' ? 'white' : activeTheme.styles.color,
+                                        textShadow: activeTheme.styles.textShadow || '0 2px 4px rgba(0,0,0,0.5)',
+                                        textTransform: activeTheme.styles.textTransform,
+                                        letterSpacing: activeTheme.styles.letterSpacing,
+                                    }}
+                                >
+                                    {content.verses && content.verses.length > 1 ? (
+                                        (() => {
+                                            const totalText = content.verses.map(v => v.text).join(' ');
+                                            const fontScale = calculateFontScale(totalText, content.verses.length);
+                                            const vnColor = activeTheme.layout?.verseNumberColor || activeTheme.styles.color;
+                                            const vnScale = (activeTheme.layout?.verseNumberScale || 0.65) * 100;
+                                            return (
+                                                <div className="space-y-4 w-full">
+                                                    {content.verses.map((v, idx) => (
+                                                        <div key={idx}
+                                                            className="transition-all duration-300"
+                                                            style={{ fontSize: `${fontScale}em`, textAlign: activeTheme.styles.textAlign || 'center' }}
+                                                            dangerouslySetInnerHTML={{
+                                                                __html:
+                                                                    (activeTheme.layout?.showVerseNumbers !== false
+                                                                        ? `<span style="opacity:0.5;font-size:${vnScale}%;color:${vnColor};margin-right:0.2em;vertical-align:super;font-weight:bold">${v.verseNum}</span>`
+                                                                        : '')
+                                                                    + renderFormattedText(v.text)
+                                                            }}
+                                                        />
+                                                    ))}
+                                                </div>
+                                            );
+                                        })()
+                                    ) : (
+                                        (() => {
+                                            const fontScale = calculateFontScale(content.text, 1);
+                                            const vnColor = activeTheme.layout?.verseNumberColor || activeTheme.styles.color;
+                                            const vnScale = (activeTheme.layout?.verseNumberScale || 0.65) * 100;
+                                            const singleVerseNum = content.verses?.[0]?.verseNum || content.reference?.split(':').pop()?.trim();
+                                            return (
+                                                <div
+                                                    className="transition-all duration-300"
+                                                    style={{ fontSize: `${fontScale}em`, textAlign: activeTheme.styles.textAlign || 'center' }}
+                                                    dangerouslySetInnerHTML={{
+                                                        __html:
+                                                            (activeTheme.layout?.showVerseNumbers !== false && singleVerseNum
+                                                                ? `<span style="opacity:0.5;font-size:${vnScale}%;color:${vnColor};margin-right:0.2em;vertical-align:super;font-weight:bold">${singleVerseNum}</span>`
+                                                                : '')
+                                                            + renderFormattedText(content.text)
+                                                    }}
+                                                />
+                                            );
+                                        })()
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
+                        {content?.type === 'song' && (
                             <div
-                                className={`font-bold leading-tight transition-all duration-300 w-full`}
+                                className="text-center w-full"
                                 style={{
-                                    fontFamily: activeTheme.styles.fontFamily,
-                                    color: activeTheme.styles.color === '#ffffff' ? 'white' : activeTheme.styles.color,
-                                    textShadow: activeTheme.styles.textShadow || '0 2px 4px rgba(0,0,0,0.5)',
-                                    textTransform: activeTheme.styles.textTransform,
-                                    letterSpacing: activeTheme.styles.letterSpacing,
+                                    alignItems: activeTheme.styles.alignItems || 'center',
+                                    justifyContent: activeTheme.styles.justifyContent || 'center',
                                 }}
                             >
-                                {content.verses && content.verses.length > 1 ? (
-                                    (() => {
-                                        const totalText = content.verses.map(v => v.text).join(' ');
-                                        const fontScale = calculateFontScale(totalText, content.verses.length);
-                                        const vnColor = activeTheme.layout?.verseNumberColor || activeTheme.styles.color;
-                                        const vnScale = (activeTheme.layout?.verseNumberScale || 0.65) * 100;
-                                        return (
-                                            <div className="space-y-4 w-full">
-                                                {content.verses.map((v, idx) => (
-                                                    <div key={idx}
-                                                        className="transition-all duration-300"
-                                                        style={{ fontSize: `${fontScale}em`, textAlign: activeTheme.styles.textAlign || 'center' }}
-                                                        dangerouslySetInnerHTML={{
-                                                            __html:
-                                                                (activeTheme.layout?.showVerseNumbers !== false
-                                                                    ? `<span style="opacity:0.5;font-size:${vnScale}%;color:${vnColor};margin-right:0.2em;vertical-align:super;font-weight:bold">${v.verseNum}</span>`
-                                                                    : '')
-                                                                + renderFormattedText(v.text)
-                                                        }}
-                                                    />
-                                                ))}
-                                            </div>
-                                        );
-                                    })()
+                                <p
+                                    className="font-semibold mb-4 tracking-wide uppercase"
+                                    style={{
+                                        color: activeTheme.layout?.referenceColor || 'rgb(192 132 252)' /* purple-400 fallback */,
+                                        fontSize: `${0.6 * (activeTheme.layout?.referenceScale || 1)}em`
+                                    }}
+                                >
+                                    {content.type === 'song' ? `Slide ${(content.slideIndex || 0) + 1}/${content.totalSlides || 1}` : `${content.title} • Slide ${(content.slideIndex || 0) + 1}/${content.totalSlides || 1}`}
+                                </p>
+                                {content.chords?.length ? (
+                                    <div
+                                        className="font-bold leading-tight transition-all duration-300"
+                                        style={{
+                                            fontFamily: activeTheme.styles.fontFamily,
+                                            color: activeTheme.styles.color === '#ffffff' ? 'white' : activeTheme.styles.color,
+                                            textShadow: activeTheme.styles.textShadow || '0 2px 4px rgba(0,0,0,0.5)',
+                                            textTransform: activeTheme.styles.textTransform,
+                                            letterSpacing: activeTheme.styles.letterSpacing,
+                                            fontSize: `${calculateFontScale(content.currentSlide, 1)}em`
+                                        }}
+                                    >
+                                        <ChordedLyrics text={content.currentSlide || ''} chords={content.chords} semitones={shapeShift} flats={chordFlats} align={activeTheme.styles.textAlign} />
+                                    </div>
                                 ) : (
-                                    (() => {
-                                        const fontScale = calculateFontScale(content.text, 1);
-                                        const vnColor = activeTheme.layout?.verseNumberColor || activeTheme.styles.color;
-                                        const vnScale = (activeTheme.layout?.verseNumberScale || 0.65) * 100;
-                                        const singleVerseNum = content.verses?.[0]?.verseNum || content.reference?.split(':').pop()?.trim();
-                                        return (
-                                            <div
-                                                className="transition-all duration-300"
-                                                style={{ fontSize: `${fontScale}em`, textAlign: activeTheme.styles.textAlign || 'center' }}
-                                                dangerouslySetInnerHTML={{
-                                                    __html:
-                                                        (activeTheme.layout?.showVerseNumbers !== false && singleVerseNum
-                                                            ? `<span style="opacity:0.5;font-size:${vnScale}%;color:${vnColor};margin-right:0.2em;vertical-align:super;font-weight:bold">${singleVerseNum}</span>`
-                                                            : '')
-                                                        + renderFormattedText(content.text)
-                                                }}
-                                            />
-                                        );
-                                    })()
+                                    <p
+                                        className={`font-bold leading-tight transition-all duration-300`}
+                                        style={{
+                                            fontFamily: activeTheme.styles.fontFamily,
+                                            color: activeTheme.styles.color === '#ffffff' ? 'white' : activeTheme.styles.color,
+                                            textShadow: activeTheme.styles.textShadow || '0 2px 4px rgba(0,0,0,0.5)',
+                                            textTransform: activeTheme.styles.textTransform,
+                                            letterSpacing: activeTheme.styles.letterSpacing,
+                                            textAlign: activeTheme.styles.textAlign,
+                                            fontSize: `${calculateFontScale(content.currentSlide, 1)}em`
+                                        }}
+                                        dangerouslySetInnerHTML={{ __html: renderFormattedText(content.currentSlide) }}
+                                    />
                                 )}
                             </div>
-                        </div>
-                    )}
+                        )}
 
-                    {content?.type === 'song' && (
-                        <div
-                            className="text-center w-full"
-                            style={{
-                                alignItems: activeTheme.styles.alignItems || 'center',
-                                justifyContent: activeTheme.styles.justifyContent || 'center',
-                            }}
-                        >
-                            <p
-                                className="font-semibold mb-4 tracking-wide uppercase"
-                                style={{
-                                    color: activeTheme.layout?.referenceColor || 'rgb(192 132 252)' /* purple-400 fallback */,
-                                    fontSize: `${0.6 * (activeTheme.layout?.referenceScale || 1)}em`
-                                }}
-                            >
-                                {content.type === 'song' ? `Slide ${(content.slideIndex || 0) + 1}/${content.totalSlides || 1}` : `${content.title} • Slide ${(content.slideIndex || 0) + 1}/${content.totalSlides || 1}`}
-                            </p>
-                            <p
-                                className={`font-bold leading-tight transition-all duration-300`}
-                                style={{
-                                    fontFamily: activeTheme.styles.fontFamily,
-                                    color: activeTheme.styles.color === '#ffffff' ? 'white' : activeTheme.styles.color,
-                                    textShadow: activeTheme.styles.textShadow || '0 2px 4px rgba(0,0,0,0.5)',
-                                    textTransform: activeTheme.styles.textTransform,
-                                    letterSpacing: activeTheme.styles.letterSpacing,
-                                    textAlign: activeTheme.styles.textAlign,
-                                    fontSize: `${calculateFontScale(content.currentSlide, 1)}em`
-                                }}
-                                dangerouslySetInnerHTML={{ __html: renderFormattedText(content.currentSlide) }}
-                            />
-                        </div>
-                    )}
 
 
-
-                    {(!content || content.type === 'clear') && (
-                        <div className="text-center">
-                            <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-zinc-800 flex items-center justify-center">
-                                <Clock size={48} className="text-zinc-600" />
+                        {(!content || content.type === 'clear') && (
+                            <div className="text-center">
+                                <div className="w-24 h-24 mx-auto mb-6 rounded-full bg-zinc-800 flex items-center justify-center">
+                                    <Clock size={48} className="text-zinc-600" />
+                                </div>
+                                <p className="text-3xl text-zinc-500 font-medium">Waiting for content...</p>
+                                <p className="text-zinc-600 mt-2">Content will appear here when projected</p>
                             </div>
-                            <p className="text-3xl text-zinc-500 font-medium">Waiting for content...</p>
-                            <p className="text-zinc-600 mt-2">Content will appear here when projected</p>
-                        </div>
-                    )}
+                        )}
+
 
+                    </div>
 
+                    {/* Pastor Notes Panel */}
+                    {notes && (
+                        <div className="mt-8 bg-amber-500/10 border border-amber-500/30 rounded-2xl p-6">
+                            <p className="text-xs text-amber-500 uppercase tracking-wider mb-2 font-semibold">
+                                📝 Pastor Notes
+                            </p>
+                            <p className="text-xl text-amber-100 whitespace-pre-line">{notes}</p>
+                        </div>
+                    )}
                 </div>
 
-                {/* Pastor Notes Panel */}
-                {notes && (
-                    <div className="mt-8 bg-amber-500/10 border border-amber-500/30 rounded-2xl p-6">
-                        <p className="text-xs text-amber-500 uppercase tracking-wider mb-2 font-semibold">
-                            📝 Pastor Notes
-                        </p>
-                        <p className="text-xl text-amber-100 whitespace-pre-line">{notes}</p>
+                {/* Next Slide Footer (For Songs) */}
+                {content?.type === 'song' && content.nextSlide && (
+                    <div className="fixed bottom-0 left-0 right-0 bg-black/60 backdrop-blur-xl border-t border-white/10 px-12 py-6 z-[60] animate-in slide-in-from-bottom-full duration-500">
+                        <div className="max-w-7xl mx-auto flex items-start gap-8">
+                            <div className="flex items-center gap-2 text-indigo-400 bg-indigo-500/10 px-3 py-1.5 rounded-full border border-indigo-500/20">
+                                <ChevronRight size={18} strokeWidth={3} />
+                                <span className="text-xs font-black uppercase tracking-[0.2em]">Next</span>
+                            </div>
+                            {content.nextChords?.length ? (
+                                <div className="flex-1 text-2xl text-zinc-400 font-medium leading-tight">
+                                    <ChordedLyrics text={content.nextSlide} chords={content.nextChords} semitones={shapeShift} flats={chordFlats} align="left" />
+                                </div>
+                            ) : (
+                                <p
+                                    className="flex-1 text-2xl text-zinc-400 font-medium line-clamp-2 leading-tight"
+                                    dangerouslySetInnerHTML={{ __html: renderFormattedText(content.nextSlide) }}
+                                />
+                            )}
+                            {content.guideUntil && currentTime && content.guideUntil > currentTime.getTime() && (
+                                <span className="shrink-0 text-sm font-mono font-bold text-zinc-300 bg-white/5 px-3 py-1.5 rounded-full border border-white/10">
+                                    Next slide in {Math.ceil((content.guideUntil - currentTime.getTime()) / 1000)}s
+                                </span>
+                            )}
+                        </div>
                     </div>
                 )}
-            </div>
 
-            {/* Next Slide Footer (For Songs) */}
-            {content?.type === 'song' && content.nextSlide && (
-                <div className="fixed bottom-0 left-0 right-0 bg-black/60 backdrop-blur-xl border-t border-white/10 px-12 py-6 z-[60] animate-in slide-in-from-bottom-full duration-500">
-                    <div className="max-w-7xl mx-auto flex items-start gap-8">
-                        <div className="flex items-center gap-2 text-indigo-400 bg-indigo-500/10 px-3 py-1.5 rounded-full border border-indigo-500/20">
-                            <ChevronRight size={18} strokeWidth={3} />
-                            <span className="text-xs font-black uppercase tracking-[0.2em]">Next</span>
-                        </div>
-                        <p
-                            className="text-2xl text-zinc-400 font-medium line-clamp-2 leading-tight"
-                            dangerouslySetInnerHTML={{ __html: renderFormattedText(content.nextSlide) }}
-                        />
-                    </div>
+                {/* Footer Hint - auto-hides after 5 seconds */}
+                <div className={`fixed bottom-4 left-1/2 -translate-x-1/2 text-zinc-600 text-sm transition-opacity duration-1000 ${showHint ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+                    Double-click to toggle fullscreen • Stage Display
                 </div>
-            )}
-
-            {/* Footer Hint - auto-hides after 5 seconds */}
-            <div className={`fixed bottom-4 left-1/2 -translate-x-1/2 text-zinc-600 text-sm transition-opacity duration-1000 ${showHint ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
-                Double-click to toggle fullscreen • Stage Display
-            </div>
 
-            {(isDemo || isExpired) && !loading && <DemoWatermark />}
+                {(isDemo || isExpired) && !loading && <DemoWatermark />}
 
-            {/* Scrolling Announcement Ticker */}
-            {(() => {
-                const baseFontSize = Number(activeTheme.styles.fontSize) || 48;
-                let fontScale = 1;
+                {/* Scrolling Announcement Ticker */}
+                {(() => {
+                    const baseFontSize = Number(activeTheme.styles.fontSize) || 48;
+                    let fontScale = 1;
 
-                // Reuse content logic or calculate scale based on text
-                const textToMeasure = content?.type === 'song' ? content.currentSlide : content?.text;
-                if (textToMeasure) {
-                    fontScale = calculateFontScale(textToMeasure, 1);
-                }
+                    // Reuse content logic or calculate scale based on text
+                    const textToMeasure = content?.type === 'song' ? content.currentSlide : content?.text;
+                    if (textToMeasure) {
+                        fontScale = calculateFontScale(textToMeasure, 1);
+                    }
 
-                return (
-                    <AnnouncementTicker
-                        text={announcement.text}
-                        isActive={announcement.isActive}
-                        bgColor={announcement.bgColor}
-                        textColor={announcement.textColor}
-                        speed={announcement.speed}
-                        fontSize={baseFontSize * fontScale * 1.25}
-                    />
-                );
-            })()}
-        </div>
+                    return (
+                        <AnnouncementTicker
+                            text={announcement.text}
+                            isActive={announcement.isActive}
+                            bgColor={announcement.bgColor}
+                            textColor={announcement.textColor}
+                            speed={announcement.speed}
+                            fontSize={baseFontSize * fontScale * 1.25}
+                        />
+                    );
+                })()}
+            </div>
+        </GeometryCorrection>
     );
 }
@@ -1,9 +1,11 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { X, Plus, Trash2, GripVertical, Type, Palette, Music, User, Layout, Eye, ChevronUp, ChevronDown, Check, Save, Bold, Italic, ArrowLeft } from 'lucide-react';
+import { X, Plus, Trash2, GripVertical, Type, Palette, Music, User, Layout, Eye, ChevronUp, ChevronDown, Check, Save, Bold, Italic, ArrowLeft, ListOrdered } from 'lucide-react';
 import { ResourceItem } from '@/utils/resourceLibrary';
 import { parseLyrics, splitBlockIntoSlides, MAX_LINES_PER_SLIDE } from '@/utils/lyricsParser';
+import { SongArrangement, applyArrangement, getSections, sectionLabel, sectionShortName, sourceSlides, writtenSequence } from '@/utils/arrangements';
+import { keepUnchangedChords } from '@/utils/chordpro';
 
 interface AdvancedSongEditorProps {
     resource: ResourceItem;
@@ -25,10 +27,19 @@ const SECTION_TEMPLATES = [
 export default function AdvancedSongEditor({ resource, onSave, onCancel }: AdvancedSongEditorProps) {
     const [title, setTitle] = useState(resource.title);
     const [author, setAuthor] = useState(resource.meta?.author || '');
-    const [slides, setSlides] = useState(resource.slides);
+    const [songKey, setSongKey] = useState(resource.meta?.key || '');
+    const [capo, setCapo] = useState(resource.meta?.capo ? String(resource.meta.capo) : '');
+    // Sections are edited once; arrangements only reorder them
+    const [slides, setSlides] = useState(sourceSlides(resource));
     const [activeSlideIndex, setActiveSlideIndex] = useState(0);
     const [selectedColor, setSelectedColor] = useState('#ffffff');
-    const [activeContent, setActiveContent] = useState(resource.slides[activeSlideIndex]?.content || '');
+    const [activeContent, setActiveContent] = useState(sourceSlides(resource)[activeSlideIndex]?.content || '');
+    const [arrangements, setArrangements] = useState<SongArrangement[]>(resource.meta?.arrangements || []);
+    const [arrangementId, setArrangementId] = useState<string | null>(resource.meta?.arrangementId || null);
+    const [dragChipIndex, setDragChipIndex] = useState<number | null>(null);
+
+    const sections = getSections(slides);
+    const activeArrangement = arrangements.find(a => a.id === arrangementId) || null;
 
     // We use a ref to track the editor's DOM elements to apply formatting
     const editorRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
@@ -73,8 +84,44 @@ export default function AdvancedSongEditor({ resource, onSave, onCancel }: Advan
 
     const updateSlideLabel = (index: number, label: string) => {
         const newSlides = [...slides];
+        const previous = sectionLabel(newSlides[index]);
         newSlides[index] = { ...newSlides[index], label };
         setSlides(newSlides);
+
+        // Renaming the last slide of a section renames it in every arrangement
+        const renamed = sectionLabel(newSlides[index]);
+        if (previous && renamed && !newSlides.some(s => sectionLabel(s) === previous)) {
+            setArrangements(prev => prev.map(a => ({ ...a, sequence: a.sequence.map(l => l === previous ? renamed : l) })));
+        }
+    };
+
+    const handleAddArrangement = () => {
+        const arrangement: SongArrangement = {
+            id: `arr-${Date.now()}`,
+            name: arrangements.length === 0 ? 'Sunday' : `Arrangement ${arrangements.length + 1}`,
+            sequence: writtenSequence(slides)
+        };
+        setArrangements([...arrangements, arrangement]);
+        setArrangementId(arrangement.id);
+    };
+
+    const updateArrangement = (changes: Partial<SongArrangement>) => {
+        if (!activeArrangement) return;
+        setArrangements(arrangements.map(a => a.id === activeArrangement.id ? { ...a, ...changes } : a));
+    };
+
+    const handleDeleteArrangement = () => {
+        if (!activeArrangement) return;
+        setArrangements(arrangements.filter(a => a.id !== activeArrangement.id));
+        setArrangementId(null);
+    };
+
+    const moveSequenceChip = (from: number, to: number) => {
+        if (!activeArrangement || from === to) return;
+        const sequence = [...activeArrangement.sequence];
+        const [moved] = sequence.splice(from, 1);
+        sequence.splice(to, 0, moved);
+        updateArrangement({ sequence });
     };
 
     const handleSave = () => {
@@ -97,8 +144,10 @@ export default function AdvancedSongEditor({ resource, onSave, onCancel }: Advan
                 const subSlides = splitBlockIntoSlides(plainContent, slide.label || 'Verse');
                 optimizedSlides.push(...subSlides);
             } else {
+                const original = sourceSlides(resource).find(s => s.id === slide.id);
                 optimizedSlides.push({
                     ...slide,
+                    chords: keepUnchangedChords(original?.content || '', plainContent, slide.chords),
                     content: plainContent // Store as cleaned text for consistency? 
                     // Actually, the app seems to expect some HTML for formatting (bold/italic)
                     // But the line limit must be respected.
@@ -112,11 +161,17 @@ export default function AdvancedSongEditor({ resource, onSave, onCancel }: Advan
             slides: optimizedSlides,
             meta: {
                 ...resource.meta,
-                author
+                author,
+                key: songKey.trim() || undefined,
+                capo: parseInt(capo) || undefined,
+                arrangements: arrangements.length > 0 ? arrangements : undefined,
+                sections: undefined,
+                arrangementId: undefined
             },
             dateAdded: Date.now()
         };
-        onSave(updatedResource);
+        // The selected arrangement is the one the song plays in
+        onSave(applyArrangement(updatedResource, arrangementId));
     };
 
     const applyFormat = (command: string, value?: string) => {
@@ -163,6 +218,24 @@ export default function AdvancedSongEditor({ resource, onSave, onCancel }: Advan
                                 className="bg-transparent text-[10px] uppercase font-bold tracking-widest focus:outline-none focus:border-b border-indigo-500/30"
                                 placeholder="AUTHOR / ARTIST"
                             />
+                            <input
+                                type="text"
+                                value={songKey}
+                                onChange={(e) => setSongKey(e.target.value)}
+                                className="w-12 bg-transparent text-[10px] uppercase font-bold tracking-widest focus:outline-none focus:border-b border-indigo-500/30"
+                                placeholder="KEY"
+                                title="Musical key (printed on band run sheets)"
+                            />
+                            <input
+                                type="number"
+                                min={0}
+                                max={11}
+                                value={capo}
+                                onChange={(e) => setCapo(e.target.value)}
+                                className="w-14 bg-transparent text-[10px] uppercase font-bold tracking-widest focus:outline-none focus:border-b border-indigo-500/30"
+                                placeholder="CAPO"
+                                title="Capo fret (the stage display shows chord shapes relative to it)"
+                            />
                         </div>
                     </div>
 
@@ -225,6 +298,99 @@ export default function AdvancedSongEditor({ resource, onSave, onCancel }: Advan
                 </div>
             </div>
 
+            {/* Arrangements */}
+            <div className="flex items-center gap-3 px-4 py-2 border-b border-zinc-200 dark:border-white/5 bg-white dark:bg-zinc-950/30 overflow-x-auto no-scrollbar">
+                <div className="flex items-center gap-2 text-zinc-500 shrink-0">
+                    <ListOrdered size={14} />
+                    <span className="text-[10px] font-black uppercase tracking-widest">Arrangement</span>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                    <button
+                        onClick={() => setArrangementId(null)}
+                        className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors ${!activeArrangement ? 'bg-indigo-600 text-white' : 'text-zinc-500 hover:bg-zinc-200 dark:hover:bg-white/5'}`}
+                    >
+                        As Written
+                    </button>
+                    {arrangements.map(a => (
+                        <button
+                            key={a.id}
+                            onClick={() => setArrangementId(a.id)}
+                            className={`px-3 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors ${a.id === arrangementId ? 'bg-indigo-600 text-white' : 'text-zinc-500 hover:bg-zinc-200 dark:hover:bg-white/5'}`}
+                        >
+                            {a.name || 'Untitled'}
+                        </button>
+                    ))}
+                    <button
+                        onClick={handleAddArrangement}
+                        className="p-1 rounded-lg text-zinc-500 hover:text-indigo-400 hover:bg-zinc-200 dark:hover:bg-white/5 transition-colors"
+                        title="New Arrangement"
+                    >
+                        <Plus size={14} />
+                    </button>
+                </div>
+
+                {activeArrangement && (
+                    <>
+                        <div className="w-px h-6 bg-zinc-200 dark:bg-zinc-800 shrink-0" />
+                        <input
+                            type="text"
+                            value={activeArrangement.name}
+                            onChange={(e) => updateArrangement({ name: e.target.value })}
+                            className="w-28 shrink-0 bg-transparent text-xs font-bold text-zinc-900 dark:text-white focus:outline-none border-b border-transparent focus:border-indigo-500/50"
+                            placeholder="Name"
+                        />
+
+                        {/* Play order: drag to reorder, click x to remove */}
+                        <div className="flex items-center gap-1 shrink-0">
+                            {activeArrangement.sequence.map((label, i) => {
+                                const missing = !sections.some(s => s.label === label);
+                                return (
+                                    <span
+                                        key={`${label}-${i}`}
+                                        draggable
+                                        onDragStart={() => setDragChipIndex(i)}
+                                        onDragOver={(e) => e.preventDefault()}
+                                        onDrop={() => { if (dragChipIndex !== null) moveSequenceChip(dragChipIndex, i); setDragChipIndex(null); }}
+                                        className={`flex items-center gap-1 pl-2 pr-1 py-0.5 rounded border text-[10px] font-black cursor-grab ${missing ? 'border-red-500/30 text-red-400 line-through' : 'border-indigo-500/30 bg-indigo-500/10 text-indigo-400'}`}
+                                        title={missing ? `No "${label}" section in this song` : label}
+                                    >
+                                        {sectionShortName(label)}
+                                        <button
+                                            onClick={() => updateArrangement({ sequence: activeArrangement.sequence.filter((_, j) => j !== i) })}
+                                            className="hover:text-red-400"
+                                        >
+                                            <X size={10} />
+                                        </button>
+                                    </span>
+                                );
+                            })}
+                        </div>
+
+                        <div className="flex items-center gap-1 shrink-0">
+                            <span className="text-[10px] text-zinc-500 font-bold">ADD</span>
+                            {sections.filter(s => s.label).map(section => (
+                                <button
+                                    key={section.label}
+                                    onClick={() => updateArrangement({ sequence: [...activeArrangement.sequence, section.label] })}
+                                    className="px-2 py-0.5 rounded border border-zinc-300 dark:border-white/10 text-[10px] font-black text-zinc-500 hover:text-indigo-400 hover:border-indigo-500/30 transition-colors"
+                                    title={`Add ${section.label}`}
+                                >
+                                    {sectionShortName(section.label)}
+                                </button>
+                            ))}
+                        </div>
+
+                        <button
+                            onClick={handleDeleteArrangement}
+                            className="ml-auto p-1.5 shrink-0 hover:bg-red-500/20 text-zinc-500 hover:text-red-400 rounded-lg transition-colors"
+                            title="Delete Arrangement"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </>
+                )}
+            </div>
+
             {/* Main Editor Area */}
             <div className="flex-1 flex overflow-hidden">
                 {/* Left: Slide Cards List */}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { X, ClipboardList, Download, FileText, Trash2, Music, Book, Image as ImageIcon, Video, Square, Moon } from 'lucide-react';
+import { AsRunEntry, AsRunKind, getAsRunDates, getAsRunEntries, deleteAsRunDate, asRunToCsv, buildCcliReport, ccliReportToCsv } from '@/utils/asRunLog';
+
+interface AsRunLogModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const ALL_DATES = 'all';
+
+const KIND_ICONS: Record<AsRunKind, React.ReactNode> = {
+    song: <Music size={12} className="text-purple-400" />,
+    scripture: <Book size={12} className="text-amber-400" />,
+    media: <ImageIcon size={12} className="text-blue-400" />,
+    live_feed: <Video size={12} className="text-emerald-400" />,
+    clear: <Square size={12} className="text-zinc-500" />,
+    blackout: <Moon size={12} className="text-zinc-500" />
+};
+
+function downloadCsv(filename: string, csv: string) {
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+export default function AsRunLogModal({ isOpen, onClose }: AsRunLogModalProps) {
+    const [dates, setDates] = useState<string[]>([]);
+    const [selectedDate, setSelectedDate] = useState<string>(ALL_DATES);
+    const [entries, setEntries] = useState<AsRunEntry[]>([]);
+    const [view, setView] = useState<'log' | 'ccli'>('log');
+
+    const loadDates = async () => {
+        const result = await getAsRunDates();
+        setDates(result);
+        setSelectedDate(prev => prev === ALL_DATES || result.includes(prev) ? prev : (result[0] || ALL_DATES));
+    };
+
+    useEffect(() => {
+        if (isOpen) loadDates();
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        getAsRunEntries(selectedDate === ALL_DATES ? undefined : selectedDate).then(setEntries);
+    }, [isOpen, selectedDate]);
+
+    const handleDeleteDate = async () => {
+        if (selectedDate === ALL_DATES) return;
+        if (!confirm(`Delete the as-run log for ${selectedDate}?`)) return;
+        await deleteAsRunDate(selectedDate);
+        setSelectedDate(ALL_DATES);
+        await loadDates();
+    };
+
+    if (!isOpen) return null;
+
+    const ccliRows = buildCcliReport(entries);
+    const fileSuffix = selectedDate === ALL_DATES ? 'all' : selectedDate;
+
+    return (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+            <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 rounded-3xl w-full max-w-4xl h-[80vh] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-300">
+                {/* Header */}
+                <div className="p-8 border-b border-zinc-200 dark:border-white/5 bg-gradient-to-br from-indigo-600/5 dark:from-indigo-600/10 to-transparent shrink-0">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h2 className="text-2xl font-black text-zinc-900 dark:text-white flex items-center gap-3 tracking-tight">
+                                <ClipboardList className="text-indigo-400" /> As-Run Log
+                            </h2>
+                            <p className="text-sm text-zinc-400 mt-1 uppercase tracking-widest font-bold opacity-60">Everything That Went On Screen</p>
+                        </div>
+                        <button onClick={onClose} className="p-2 hover:bg-zinc-100 dark:hover:bg-white/5 rounded-full text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors">
+                            <X size={24} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 flex min-h-0">
+                    {/* Service Dates */}
+                    <div className="w-48 shrink-0 border-r border-zinc-200 dark:border-white/5 overflow-y-auto p-3 space-y-1">
+                        {[ALL_DATES, ...dates].map(date => (
+                            <button
+                                key={date}
+                                onClick={() => setSelectedDate(date)}
+                                className={`w-full text-left px-3 py-2 rounded-lg text-xs font-bold transition-colors ${selectedDate === date
+                                    ? 'bg-indigo-600 text-white'
+                                    : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-white/5'}`}
+                            >
+                                {date === ALL_DATES ? 'All Dates' : date}
+                            </button>
+                        ))}
+                        {dates.length === 0 && (
+                            <p className="px-3 py-2 text-[10px] text-zinc-500">Nothing has gone live yet.</p>
+                        )}
+                    </div>
+
+                    {/* Entries */}
+                    <div className="flex-1 flex flex-col min-w-0">
+                        <div className="px-4 py-3 border-b border-zinc-200 dark:border-white/5 flex items-center justify-between gap-2 shrink-0">
+                            <div className="flex bg-zinc-100 dark:bg-zinc-800 rounded-lg p-1">
+                                {(['log', 'ccli'] as const).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => setView(mode)}
+                                        className={`px-3 py-1 rounded text-[10px] font-black uppercase tracking-widest transition-all ${view === mode ? 'bg-white dark:bg-zinc-600 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-white'}`}
+                                    >
+                                        {mode === 'log' ? 'Timeline' : 'CCLI Songs'}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => downloadCsv(`as-run-${fileSuffix}.csv`, asRunToCsv(entries))}
+                                    disabled={entries.length === 0}
+                                    className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-full bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-white flex items-center gap-1 disabled:opacity-40"
+                                >
+                                    <Download size={12} /> CSV
+                                </button>
+                                <button
+                                    onClick={() => downloadCsv(`ccli-report-${fileSuffix}.csv`, ccliReportToCsv(ccliRows))}
+                                    disabled={ccliRows.length === 0}
+                                    className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-full bg-indigo-600 hover:bg-indigo-500 text-white flex items-center gap-1 disabled:opacity-40"
+                                >
+                                    <FileText size={12} /> CCLI Report
+                                </button>
+                                {selectedDate !== ALL_DATES && (
+                                    <button
+                                        onClick={handleDeleteDate}
+                                        className="p-1.5 rounded-lg text-zinc-500 hover:text-red-500 hover:bg-red-500/10 transition-colors"
+                                        title="Delete this service's log"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto">
+                            {view === 'log' ? (
+                                <table className="w-full text-xs">
+                                    <tbody>
+                                        {entries.map(entry => (
+                                            <tr key={entry.id} className="border-b border-zinc-100 dark:border-white/5">
+                                                <td className="pl-4 pr-2 py-2 font-mono text-zinc-500 whitespace-nowrap align-top">
+                                                    {selectedDate === ALL_DATES && <span className="mr-2">{entry.serviceDate}</span>}
+                                                    {new Date(entry.timestamp).toLocaleTimeString('en-US', { hour12: false })}
+                                                </td>
+                                                <td className="px-2 py-2 align-top">{KIND_ICONS[entry.kind]}</td>
+                                                <td className="px-2 py-2 align-top min-w-0">
+                                                    <div className="font-bold text-zinc-900 dark:text-white">
+                                                        {entry.title}
+                                                        {entry.slideIndex !== undefined && entry.totalSlides ? (
+                                                            <span className="ml-2 font-mono font-normal text-zinc-500">{entry.slideIndex + 1}/{entry.totalSlides}</span>
+                                                        ) : null}
+                                                    </div>
+                                                    {entry.detail && <div className="text-zinc-500 truncate">{entry.detail}</div>}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            ) : (
+                                <table className="w-full text-xs">
+                                    <thead>
+                                        <tr className="text-[10px] font-black text-zinc-500 uppercase tracking-widest text-left">
+                                            <th className="pl-4 pr-2 py-2">CCLI #</th>
+                                            <th className="px-2 py-2">Song</th>
+                                            <th className="px-2 py-2">Copyright</th>
+                                            <th className="px-4 py-2 text-right">Uses</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {ccliRows.map(row => (
+                                            <tr key={row.ccli || row.title} className="border-t border-zinc-100 dark:border-white/5">
+                                                <td className="pl-4 pr-2 py-2 font-mono text-zinc-500">{row.ccli || <span className="text-red-400">missing</span>}</td>
+                                                <td className="px-2 py-2">
+                                                    <div className="font-bold text-zinc-900 dark:text-white">{row.title}</div>
+                                                    {row.author && <div className="text-zinc-500">{row.author}</div>}
+                                                </td>
+                                                <td className="px-2 py-2 text-zinc-500">{row.copyright}</td>
+                                                <td className="px-4 py-2 text-right font-mono text-zinc-900 dark:text-white">{row.services}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                            {entries.length === 0 && (
+                                <p className="p-8 text-center text-sm text-zinc-500">No entries for this date.</p>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
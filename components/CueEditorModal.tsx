@@ -0,0 +1,259 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { X, Zap, Trash2, Plus } from 'lucide-react';
+import { ScheduleItem } from '@/utils/scheduleManager';
+import { ItemCue, CueAction, CueKind, AtemCueAction, CUE_KIND_LABELS, ATEM_ACTION_LABELS, createCue, defaultCueAction, getMidiOutputNames } from '@/utils/cues';
+import { DEFAULT_THEMES, ProjectorTheme } from '@/utils/themes';
+import { getThemes } from '@/utils/resourceLibrary';
+
+interface CueEditorModalProps {
+    item: ScheduleItem;
+    onSave: (cues: ItemCue[], notes: string, plannedDuration?: number) => void;
+    onClose: () => void;
+}
+
+const inputClass = "bg-zinc-50 dark:bg-black/50 border border-zinc-300 dark:border-white/10 rounded px-2 py-1 text-xs text-zinc-900 dark:text-white outline-none focus:border-indigo-500";
+
+const GO_LIVE = 'live';
+
+export default function CueEditorModal({ item, onSave, onClose }: CueEditorModalProps) {
+    const [cues, setCues] = useState<ItemCue[]>(item.cues || []);
+    const [notes, setNotes] = useState(item.notes || '');
+    const [plannedMinutes, setPlannedMinutes] = useState(item.plannedDuration ? String(Math.round(item.plannedDuration / 6) / 10) : '');
+    const [themes, setThemes] = useState<ProjectorTheme[]>(DEFAULT_THEMES);
+
+    const [midiOutputs, setMidiOutputs] = useState<string[]>([]);
+
+    useEffect(() => {
+        getThemes().then(custom => setThemes([...DEFAULT_THEMES, ...custom]));
+    }, []);
+
+    // Only ask for MIDI access once the item has a MIDI cue
+    const hasMidiCue = cues.some(c => c.action.kind === 'midi');
+    useEffect(() => {
+        if (!hasMidiCue) return;
+        getMidiOutputNames().then(setMidiOutputs).catch(e => console.warn('[Cues] MIDI access refused', e));
+    }, [hasMidiCue]);
+
+    const updateCue = (id: string, changes: Partial<ItemCue>) =>
+        setCues(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
+
+    const updateAction = (cue: ItemCue, changes: Partial<CueAction>) =>
+        updateCue(cue.id, { action: { ...cue.action, ...changes } as CueAction });
+
+    const renderFields = (cue: ItemCue) => {
+        const action = cue.action;
+        switch (action.kind) {
+            case 'atem':
+                return (
+                    <>
+                        <select value={action.action} onChange={e => updateAction(cue, { action: e.target.value as AtemCueAction })} className={inputClass}>
+                            {(Object.keys(ATEM_ACTION_LABELS) as AtemCueAction[]).map(a => (
+                                <option key={a} value={a}>{ATEM_ACTION_LABELS[a]}</option>
+                            ))}
+                        </select>
+                        {(action.action === 'program' || action.action === 'preview') && (
+                            <input
+                                type="number"
+                                min={1}
+                                value={action.input ?? 1}
+                                onChange={e => updateAction(cue, { input: parseInt(e.target.value) || 1 })}
+                                className={`${inputClass} w-16`}
+                                title="Input"
+                            />
+                        )}
+                    </>
+                );
+            case 'midi':
+                return (
+                    <>
+                        <select value={action.messageType} onChange={e => updateAction(cue, { messageType: e.target.value as 'note' | 'cc' })} className={inputClass}>
+                            <option value="note">Note</option>
+                            <option value="cc">CC</option>
+                        </select>
+                        <input type="number" min={0} max={127} value={action.note} onChange={e => updateAction(cue, { note: parseInt(e.target.value) || 0 })} className={`${inputClass} w-14`} title={action.messageType === 'note' ? 'Note' : 'Controller'} />
+                        <input type="number" min={0} max={127} value={action.velocity} onChange={e => updateAction(cue, { velocity: parseInt(e.target.value) || 0 })} className={`${inputClass} w-14`} title={action.messageType === 'note' ? 'Velocity' : 'Value'} />
+                        <span className="text-[10px] text-zinc-500">ch</span>
+                        <input type="number" min={1} max={16} value={action.channel} onChange={e => updateAction(cue, { channel: parseInt(e.target.value) || 1 })} className={`${inputClass} w-12`} title="Channel" />
+                        <select
+                            value={action.output || ''}
+                            onChange={e => updateAction(cue, { output: e.target.value || undefined })}
+                            className={`${inputClass} min-w-0 flex-1`}
+                            title="Output"
+                        >
+                            <option value="">All outputs</option>
+                            {/* Keep a saved output listed while its device is unplugged */}
+                            {(action.output && !midiOutputs.includes(action.output) ? [action.output, ...midiOutputs] : midiOutputs).map(name => (
+                                <option key={name} value={name}>{name}</option>
+                            ))}
+                        </select>
+                    </>
+                );
+            case 'timer':
+                return (
+                    <>
+                        <select value={action.action} onChange={e => updateAction(cue, { action: e.target.value as 'start' | 'pause' | 'stop' })} className={inputClass}>
+                            <option value="start">Start</option>
+                            <option value="pause">Pause</option>
+                            <option value="stop">Stop</option>
+                        </select>
+                        {action.action === 'start' && (
+                            <input
+                                type="number"
+                                min={0}
+                                value={action.minutes ?? ''}
+                                placeholder="Countdown min"
+                                onChange={e => updateAction(cue, { minutes: parseInt(e.target.value) || undefined })}
+                                className={`${inputClass} w-28`}
+                                title="Leave blank to start the timer as it is"
+                            />
+                        )}
+                    </>
+                );
+            case 'theme':
+                return (
+                    <select value={action.themeId} onChange={e => updateAction(cue, { themeId: e.target.value })} className={`${inputClass} flex-1`}>
+                        <option value="">Choose theme…</option>
+                        {themes.map(t => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                    </select>
+                );
+            case 'announcement':
+                return (
+                    <>
+                        <select value={action.active ? 'on' : 'off'} onChange={e => updateAction(cue, { active: e.target.value === 'on' })} className={inputClass}>
+                            <option value="on">On</option>
+                            <option value="off">Off</option>
+                        </select>
+                        {action.active && (
+                            <input
+                                type="text"
+                                value={action.text || ''}
+                                placeholder="Keep current text"
+                                onChange={e => updateAction(cue, { text: e.target.value || undefined })}
+                                className={`${inputClass} flex-1`}
+                            />
+                        )}
+                    </>
+                );
+            case 'clear':
+                return <span className="text-[10px] text-zinc-500">Clears the projector output</span>;
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300" onClick={onClose}>
+            <div
+                className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 rounded-3xl w-full max-w-2xl max-h-[80vh] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-300"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="p-6 border-b border-zinc-200 dark:border-white/5 bg-gradient-to-br from-indigo-600/5 dark:from-indigo-600/10 to-transparent shrink-0">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h2 className="text-xl font-black text-zinc-900 dark:text-white flex items-center gap-3 tracking-tight">
+                                <Zap className="text-indigo-400" /> Cues &amp; Notes
+                            </h2>
+                            <p className="text-xs text-zinc-400 mt-1 uppercase tracking-widest font-bold opacity-60 truncate">{item.title}</p>
+                        </div>
+                        <button onClick={onClose} className="p-2 hover:bg-zinc-100 dark:hover:bg-white/5 rounded-full text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors">
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Cue List */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    <textarea
+                        value={notes}
+                        onChange={e => setNotes(e.target.value)}
+                        placeholder="Notes for the team (printed on run sheets)"
+                        rows={2}
+                        className={`${inputClass} w-full resize-none`}
+                    />
+                    <label className="flex items-center gap-2 mb-2 text-[10px] font-bold text-zinc-500 uppercase">
+                        Planned length
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={plannedMinutes}
+                            onChange={e => setPlannedMinutes(e.target.value)}
+                            placeholder="—"
+                            className={`${inputClass} w-16`}
+                        />
+                        min
+                        <span className="normal-case font-normal">(run sheet, when the item has no slide timings)</span>
+                    </label>
+                    {cues.length === 0 && (
+                        <p className="text-xs text-zinc-500 text-center py-8">No cues yet. Add one below to fire it when this item goes live.</p>
+                    )}
+                    {cues.map(cue => (
+                        <div key={cue.id} className="flex items-center gap-2 p-2 rounded-xl border border-zinc-200 dark:border-white/5 bg-zinc-50 dark:bg-black/20">
+                            <select
+                                value={cue.slide === undefined ? GO_LIVE : String(cue.slide)}
+                                onChange={e => updateCue(cue.id, { slide: e.target.value === GO_LIVE ? undefined : parseInt(e.target.value) })}
+                                className={`${inputClass} w-32`}
+                                title="When to fire"
+                            >
+                                <option value={GO_LIVE}>On go-live</option>
+                                {item.slides.map((slide, i) => (
+                                    <option key={slide.id} value={i}>Slide {i + 1}{slide.label ? ` · ${slide.label}` : ''}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={cue.action.kind}
+                                onChange={e => updateCue(cue.id, { action: defaultCueAction(e.target.value as CueKind) })}
+                                className={`${inputClass} w-32`}
+                            >
+                                {(Object.keys(CUE_KIND_LABELS) as CueKind[]).map(kind => (
+                                    <option key={kind} value={kind}>{CUE_KIND_LABELS[kind]}</option>
+                                ))}
+                            </select>
+                            <div className="flex-1 flex items-center gap-2 min-w-0">
+                                {renderFields(cue)}
+                            </div>
+                            <button
+                                onClick={() => setCues(prev => prev.filter(c => c.id !== cue.id))}
+                                className="p-1.5 hover:bg-red-500/20 text-zinc-500 hover:text-red-400 rounded-lg transition-colors shrink-0"
+                                title="Remove Cue"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-zinc-200 dark:border-white/5 flex items-center gap-2 shrink-0">
+                    <div className="flex flex-wrap items-center gap-1 flex-1">
+                        <Plus size={12} className="text-zinc-400" />
+                        {(Object.keys(CUE_KIND_LABELS) as CueKind[]).map(kind => (
+                            <button
+                                key={kind}
+                                onClick={() => setCues(prev => [...prev, createCue(kind)])}
+                                className="px-2 py-1 rounded-lg border border-zinc-200 dark:border-white/10 text-[10px] font-bold text-zinc-500 dark:text-zinc-400 hover:text-indigo-400 hover:border-indigo-500/30 transition-colors"
+                            >
+                                {CUE_KIND_LABELS[kind]}
+                            </button>
+                        ))}
+                    </div>
+                    <button onClick={onClose} className="px-4 py-2 text-xs font-bold text-zinc-500 hover:text-zinc-900 dark:hover:text-white">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => {
+                            const minutes = parseFloat(plannedMinutes);
+                            onSave(cues, notes, minutes > 0 ? Math.round(minutes * 60) : undefined);
+                        }}
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-lg"
+                    >
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
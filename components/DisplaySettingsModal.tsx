@@ -1,7 +1,11 @@
 "use client";
 
 import { useState, useEffect } from 'react';
-import { X, Monitor, Tv2, PointerIcon as Punto, CheckCircle, RefreshCw, Layers } from 'lucide-react';
+import { X, Monitor, Tv2, PointerIcon as Punto, CheckCircle, RefreshCw, Layers, Plus, Trash2, Power, Crop } from 'lucide-react';
+import { OutputConfig, ASPECT_RATIOS, CONTENT_FILTERS, createOutput, loadOutputs, saveOutputs } from '@/utils/outputs';
+import { ProjectorTheme, DEFAULT_THEMES } from '@/utils/themes';
+import { getThemes } from '@/utils/resourceLibrary';
+import GeometryEditor from './GeometryEditor';
 
 interface Display {
     id: string;
@@ -20,6 +24,9 @@ export default function DisplaySettingsModal({ isOpen, onClose }: DisplaySetting
     const [projectorDisplayId, setProjectorDisplayId] = useState<string | null>(null);
     const [stageDisplayId, setStageDisplayId] = useState<string | null>(null);
     const [loading, setLoading] = useState(true);
+    const [outputs, setOutputs] = useState<OutputConfig[]>([]);
+    const [openOutputIds, setOpenOutputIds] = useState<string[]>([]);
+    const [themes, setThemes] = useState<ProjectorTheme[]>(DEFAULT_THEMES);
 
     const loadDisplays = async () => {
         setLoading(true);
@@ -34,9 +41,49 @@ export default function DisplaySettingsModal({ isOpen, onClose }: DisplaySetting
             if (savedProjector) setProjectorDisplayId(savedProjector);
             if (savedStage) setStageDisplayId(savedStage);
         }
+        setOutputs(loadOutputs());
+        setThemes([...DEFAULT_THEMES, ...await getThemes()]);
+        await refreshOpenOutputs();
         setLoading(false);
     };
 
+    const refreshOpenOutputs = async () => {
+        if (window.electronAPI?.getOpenOutputs) {
+            setOpenOutputIds(await window.electronAPI.getOpenOutputs());
+        }
+    };
+
+    const updateOutput = (id: string, changes: Partial<OutputConfig>) => {
+        setOutputs(prev => prev.map(o => o.id === id ? { ...o, ...changes } : o));
+    };
+
+    const handleAddOutput = () => {
+        setOutputs(prev => [...prev, createOutput(`Output ${prev.length + 2}`)]);
+    };
+
+    const handleRemoveOutput = async (output: OutputConfig) => {
+        await window.electronAPI?.closeOutputWindow?.({ outputId: output.id });
+        const remaining = outputs.filter(o => o.id !== output.id);
+        setOutputs(remaining);
+        saveOutputs(remaining);
+        await refreshOpenOutputs();
+    };
+
+    const handleToggleOutput = async (output: OutputConfig) => {
+        // The window reads its settings from storage, so save before opening
+        saveOutputs(outputs);
+        if (!window.electronAPI?.openOutputWindow) {
+            window.open(`/projector?output=${encodeURIComponent(output.id)}`, '_blank', 'width=1280,height=720');
+            return;
+        }
+        if (openOutputIds.includes(output.id)) {
+            await window.electronAPI.closeOutputWindow({ outputId: output.id });
+        } else {
+            await window.electronAPI.openOutputWindow({ outputId: output.id, displayId: output.displayId, name: output.name });
+        }
+        await refreshOpenOutputs();
+    };
+
     useEffect(() => {
         if (isOpen) loadDisplays();
     }, [isOpen]);
@@ -48,6 +95,7 @@ export default function DisplaySettingsModal({ isOpen, onClose }: DisplaySetting
     const handleSave = () => {
         if (projectorDisplayId) localStorage.setItem('projectorDisplayId', projectorDisplayId);
         if (stageDisplayId) localStorage.setItem('stageDisplayId', stageDisplayId);
+        saveOutputs(outputs);
         onClose();
     };
 
@@ -71,7 +119,7 @@ export default function DisplaySettingsModal({ isOpen, onClose }: DisplaySetting
                     </div>
                 </div>
 
-                <div className="p-8 space-y-8">
+                <div className="p-8 space-y-8 max-h-[65vh] overflow-y-auto">
                     {/* Identify Button */}
                     <div className="flex items-center justify-between p-4 bg-indigo-600/5 border border-indigo-500/20 rounded-2xl">
                         <div className="flex items-center gap-4">
@@ -143,6 +191,142 @@ export default function DisplaySettingsModal({ isOpen, onClose }: DisplaySetting
                             </div>
                         </div>
                     </div>
+
+                    {/* Geometry Correction */}
+                    <div className="space-y-3">
+                        <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-[0.2em] flex items-center gap-2">
+                            <Crop size={12} className="text-indigo-400" /> Geometry Correction
+                        </h3>
+                        <GeometryEditor displays={displays} />
+                    </div>
+
+                    {/* Additional Outputs */}
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-[0.2em] flex items-center gap-2">
+                                <Monitor size={12} className="text-emerald-400" /> Additional Outputs
+                            </h3>
+                            <button
+                                onClick={handleAddOutput}
+                                className="px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-full bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-white flex items-center gap-1 transition-colors"
+                            >
+                                <Plus size={12} /> Add Output
+                            </button>
+                        </div>
+                        {outputs.length === 0 && (
+                            <p className="text-xs text-zinc-500">Add an output for an overflow room, side screen or any display that needs its own look.</p>
+                        )}
+                        {outputs.map(output => {
+                            const isOpen = openOutputIds.includes(output.id);
+                            const selectClass = "w-full bg-zinc-50 dark:bg-black/50 border border-zinc-300 dark:border-white/10 rounded px-2 py-1.5 text-xs text-zinc-900 dark:text-white outline-none focus:border-indigo-500";
+                            return (
+                                <div key={output.id} className="p-4 rounded-xl bg-zinc-100 dark:bg-zinc-800/50 border border-zinc-200 dark:border-white/5 space-y-3">
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            value={output.name}
+                                            onChange={e => updateOutput(output.id, { name: e.target.value })}
+                                            className="flex-1 bg-transparent text-sm font-bold text-zinc-900 dark:text-white outline-none border-b border-transparent focus:border-indigo-500"
+                                        />
+                                        <button
+                                            onClick={() => handleToggleOutput(output)}
+                                            className={`px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-full flex items-center gap-1 transition-colors ${isOpen ? 'bg-red-600 hover:bg-red-500 text-white' : 'bg-emerald-600 hover:bg-emerald-500 text-white'}`}
+                                        >
+                                            <Power size={10} /> {isOpen ? 'Close' : 'Open'}
+                                        </button>
+                                        <button
+                                            onClick={() => handleRemoveOutput(output)}
+                                            className="p-1.5 rounded-lg text-zinc-500 hover:text-red-500 hover:bg-red-500/10 transition-colors"
+                                            title="Remove output"
+                                        >
+                                            <Trash2 size={14} />
+                                        </button>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <label className="space-y-1">
+                                            <span className="text-[10px] font-bold text-zinc-500 uppercase">Display</span>
+                                            <select
+                                                value={output.displayId || ''}
+                                                onChange={e => updateOutput(output.id, { displayId: e.target.value || null })}
+                                                className={selectClass}
+                                            >
+                                                <option value="">Primary Display</option>
+                                                {displays.map(display => (
+                                                    <option key={display.id} value={display.id}>#{display.index} {display.label}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="space-y-1">
+                                            <span className="text-[10px] font-bold text-zinc-500 uppercase">Theme</span>
+                                            <select
+                                                value={output.themeId || ''}
+                                                onChange={e => updateOutput(output.id, { themeId: e.target.value || null })}
+                                                className={selectClass}
+                                            >
+                                                <option value="">Follow Live Theme</option>
+                                                {themes.map(theme => (
+                                                    <option key={theme.id} value={theme.id}>{theme.name}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="space-y-1">
+                                            <span className="text-[10px] font-bold text-zinc-500 uppercase">Aspect Ratio</span>
+                                            <select
+                                                value={output.aspectRatio}
+                                                onChange={e => updateOutput(output.id, { aspectRatio: e.target.value as OutputConfig['aspectRatio'] })}
+                                                className={selectClass}
+                                            >
+                                                {ASPECT_RATIOS.map(ratio => (
+                                                    <option key={ratio.id} value={ratio.id}>{ratio.label}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="space-y-1">
+                                            <span className="text-[10px] font-bold text-zinc-500 uppercase">Shows</span>
+                                            <select
+                                                value={output.contentFilter}
+                                                onChange={e => updateOutput(output.id, { contentFilter: e.target.value as OutputConfig['contentFilter'] })}
+                                                className={selectClass}
+                                            >
+                                                {CONTENT_FILTERS.map(filter => (
+                                                    <option key={filter.id} value={filter.id}>{filter.label}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="space-y-1">
+                                            <span className="text-[10px] font-bold text-zinc-500 uppercase">Text Size ({Math.round(output.textScale * 100)}%)</span>
+                                            <input
+                                                type="range"
+                                                min={0.5}
+                                                max={2}
+                                                step={0.05}
+                                                value={output.textScale}
+                                                onChange={e => updateOutput(output.id, { textScale: parseFloat(e.target.value) })}
+                                                className="w-full accent-indigo-500"
+                                            />
+                                        </label>
+                                        <label className="flex items-center gap-2 pt-4 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={output.hideMotionBackground}
+                                                onChange={e => updateOutput(output.id, { hideMotionBackground: e.target.checked })}
+                                                className="accent-indigo-500"
+                                            />
+                                            <span className="text-[10px] font-bold text-zinc-500 uppercase">No Motion Backgrounds</span>
+                                        </label>
+                                        <label className="flex items-center gap-2 pt-4 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={!!output.playAudio}
+                                                onChange={e => updateOutput(output.id, { playAudio: e.target.checked })}
+                                                className="accent-indigo-500"
+                                            />
+                                            <span className="text-[10px] font-bold text-zinc-500 uppercase">Play Video Audio</span>
+                                        </label>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
                 </div>
 
                 {/* Footer Actions */}
@@ -1,9 +1,14 @@
 "use client";
 
-import { useState, useRef } from 'react';
-import { X, Upload, Music, Check, AlertCircle, Database, Loader2, Search } from 'lucide-react';
-import { ResourceItem, getResources, saveResourcesBatch } from '@/utils/resourceLibrary';
-import { parseEasyWorshipDb, ewSongToResourceItem, EWParsedSong, EWImportProgress } from '@/utils/easyworship';
+import { useState, useRef, useMemo } from 'react';
+import { X, Upload, Music, Check, AlertCircle, Database, Loader2, Search, CalendarDays, Image as ImageIcon, Palette, FolderOpen } from 'lucide-react';
+import { ResourceItem, getResources, saveResourcesBatch, getThemes, saveTheme } from '@/utils/resourceLibrary';
+import { savePlan } from '@/utils/scheduleManager';
+import {
+    parseEasyWorshipDb, ewSongToResourceItem, EWParsedSong, EWImportProgress,
+    parseEasyWorshipExtras, findEasyWorshipDuplicates, ewMediaToResourceItem, ewThemeToProjectorTheme, ewScheduleToPlan,
+    readFileAsDataURL, isImportableMedia, EWExtras, EW_MAX_MEDIA_BYTES
+} from '@/utils/easyworship';
 
 interface EasyWorshipImportModalProps {
     isOpen: boolean;
@@ -13,6 +18,25 @@ interface EasyWorshipImportModalProps {
 
 type ImportPhase = 'select-files' | 'preview' | 'importing' | 'complete';
 
+const FOLDER_INPUT_PROPS = { webkitdirectory: '', directory: '' } as Record<string, string>;
+
+const NO_EXTRAS: EWExtras = { schedules: [], media: [], themes: [], unreadable: [] };
+
+const isExistingMedia = (library: ResourceItem[], title: string) =>
+    library.some(r => r.category === 'media' && r.title.toLowerCase().trim() === title.toLowerCase().trim());
+
+// What the import will add, worked out before anything is saved
+interface DryRunSummary {
+    newMedia: number;
+    existingMedia: number;
+    missingMedia: number;
+    oversizedMedia: number;
+    newThemes: number;
+    existingThemes: number;
+    scheduleItems: number;
+    openSlots: number;
+}
+
 export default function EasyWorshipImportModal({ isOpen, onClose, onImportComplete }: EasyWorshipImportModalProps) {
     const [songsFile, setSongsFile] = useState<File | null>(null);
     const [wordsFile, setWordsFile] = useState<File | null>(null);
@@ -25,9 +49,50 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
     const [importedCount, setImportedCount] = useState(0);
     const [searchQuery, setSearchQuery] = useState('');
     const [savingProgress, setSavingProgress] = useState<{ saved: number; total: number } | null>(null);
+    const [extraFiles, setExtraFiles] = useState<File[]>([]);
+    const [resourceFiles, setResourceFiles] = useState<File[]>([]);
+    const [extras, setExtras] = useState<EWExtras>(NO_EXTRAS);
+    const [library, setLibrary] = useState<ResourceItem[]>([]);
+    const [existingThemeNames, setExistingThemeNames] = useState<Set<string>>(new Set());
+    const [previouslyImportedIds, setPreviouslyImportedIds] = useState<Set<number>>(new Set());
+    const [importedExtras, setImportedExtras] = useState({ plans: 0, media: 0, themes: 0 });
 
     const songsInputRef = useRef<HTMLInputElement>(null);
     const wordsInputRef = useRef<HTMLInputElement>(null);
+    const extrasInputRef = useRef<HTMLInputElement>(null);
+    const resourcesInputRef = useRef<HTMLInputElement>(null);
+
+    const mediaToImport = useMemo(
+        () => extras.media.filter(m => isImportableMedia(m.file) && !isExistingMedia(library, m.title)),
+        [extras, library]
+    );
+    const themesToImport = useMemo(
+        () => extras.themes.filter(t => !existingThemeNames.has(t.title.toLowerCase().trim())),
+        [extras, existingThemeNames]
+    );
+    const hasExtras = extras.schedules.length + extras.media.length + extras.themes.length > 0;
+
+    // Laying out the schedules matches every entry against the library, so
+    // only redo it when the selection or the scanned files change
+    const summary = useMemo((): DryRunSummary | null => {
+        if (phase !== 'preview') return null;
+        // Songs and media from this import count as found when laying out schedules
+        const incoming = parsedSongs.filter(s => selectedIds.has(s.raw.rowid)).map(ewSongToResourceItem)
+            .concat(mediaToImport.map(m => ewMediaToResourceItem(m, '')));
+        const withIncoming = library.concat(incoming);
+        const plans = extras.schedules.map(schedule => ewScheduleToPlan(schedule, withIncoming));
+        const notInLibrary = extras.media.filter(m => !isExistingMedia(library, m.title));
+        return {
+            newMedia: mediaToImport.length,
+            existingMedia: extras.media.length - notInLibrary.length,
+            missingMedia: notInLibrary.filter(m => !m.file).length,
+            oversizedMedia: notInLibrary.filter(m => m.file && !isImportableMedia(m.file)).length,
+            newThemes: themesToImport.length,
+            existingThemes: extras.themes.length - themesToImport.length,
+            scheduleItems: plans.reduce((sum, { plan }) => sum + plan.items.length, 0),
+            openSlots: plans.reduce((sum, { unresolved }) => sum + unresolved.length, 0)
+        };
+    }, [phase, parsedSongs, selectedIds, library, extras, mediaToImport, themesToImport]);
 
     if (!isOpen) return null;
 
@@ -51,8 +116,13 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
                 return;
             }
 
+            const parsedExtras = extraFiles.length > 0
+                ? await parseEasyWorshipExtras(extraFiles, resourceFiles, setProgress)
+                : NO_EXTRAS;
+
             // Duplicate detection
-            const existing = await getResources();
+            const [existing, themes] = await Promise.all([getResources(), getThemes()]);
+            const fromEasyWorship = findEasyWorshipDuplicates(songs, existing);
             const titleSet = new Set(
                 existing.filter(r => r.category === 'song').map(r => r.title.toLowerCase().trim())
             );
@@ -60,7 +130,7 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
             const dupes = new Set<number>();
             const nonDuplicates = new Set<number>();
             for (const song of songs) {
-                if (titleSet.has(song.raw.title.toLowerCase().trim())) {
+                if (fromEasyWorship.has(song.raw.rowid) || titleSet.has(song.raw.title.toLowerCase().trim())) {
                     dupes.add(song.raw.rowid);
                 } else {
                     nonDuplicates.add(song.raw.rowid);
@@ -70,6 +140,10 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
             setParsedSongs(songs);
             setSelectedIds(nonDuplicates);
             setDuplicateIds(dupes);
+            setPreviouslyImportedIds(fromEasyWorship);
+            setExtras(parsedExtras);
+            setLibrary(existing);
+            setExistingThemeNames(new Set(themes.map(t => t.name.toLowerCase().trim())));
             setProgress(null);
             setPhase('preview');
         } catch (e: any) {
@@ -80,18 +154,34 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
 
     const handleImportSelected = async () => {
         const toImport = parsedSongs.filter(s => selectedIds.has(s.raw.rowid));
-        if (toImport.length === 0) return;
+        if (toImport.length === 0 && !hasExtras) return;
 
         setPhase('importing');
         setError(null);
 
         try {
             const items: ResourceItem[] = toImport.map(ewSongToResourceItem);
+            for (const media of mediaToImport) {
+                items.push(ewMediaToResourceItem(media, await readFileAsDataURL(media.file!)));
+            }
             await saveResourcesBatch(items, (saved, total) => {
                 setSavingProgress({ saved, total });
             });
 
-            setImportedCount(items.length);
+            for (let i = 0; i < themesToImport.length; i++) {
+                const theme = themesToImport[i];
+                const background = isImportableMedia(theme.backgroundFile) ? await readFileAsDataURL(theme.backgroundFile) : undefined;
+                await saveTheme(ewThemeToProjectorTheme(theme, i, background));
+            }
+
+            // Schedules go last so they can point at the songs and media saved above
+            const withImported = library.concat(items);
+            for (const schedule of extras.schedules) {
+                await savePlan(ewScheduleToPlan(schedule, withImported).plan);
+            }
+
+            setImportedCount(toImport.length);
+            setImportedExtras({ plans: extras.schedules.length, media: mediaToImport.length, themes: themesToImport.length });
             setSavingProgress(null);
             setPhase('complete');
         } catch (e: any) {
@@ -117,6 +207,13 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
         if (phase === 'complete') onImportComplete(importedCount);
         setSongsFile(null);
         setWordsFile(null);
+        setExtraFiles([]);
+        setResourceFiles([]);
+        setExtras(NO_EXTRAS);
+        setLibrary([]);
+        setExistingThemeNames(new Set());
+        setPreviouslyImportedIds(new Set());
+        setImportedExtras({ plans: 0, media: 0, themes: 0 });
         setParsedSongs([]);
         setSelectedIds(new Set());
         setDuplicateIds(new Set());
@@ -220,11 +317,64 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
                                 <input ref={wordsInputRef} type="file" accept=".db,.dat" className="hidden" onChange={e => setWordsFile(e.target.files?.[0] || null)} />
                             </div>
 
+                            {/* Optional: schedules, media library and themes */}
+                            <div className="grid grid-cols-2 gap-3">
+                                <div
+                                    onClick={() => extrasInputRef.current?.click()}
+                                    className={`border-2 border-dashed rounded-xl p-4 text-center cursor-pointer transition-all ${extraFiles.length > 0
+                                        ? 'border-green-500/50 bg-green-50 dark:bg-green-500/10'
+                                        : 'border-zinc-300 dark:border-zinc-700 hover:border-indigo-500/50 bg-white dark:bg-zinc-900/50'
+                                        }`}
+                                >
+                                    {extraFiles.length > 0 ? (
+                                        <div className="flex items-center justify-center gap-2 text-green-600 dark:text-green-400">
+                                            <Check size={16} />
+                                            <span className="text-sm font-bold">{extraFiles.length} file{extraFiles.length !== 1 ? 's' : ''}</span>
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <CalendarDays className="w-6 h-6 mx-auto mb-1 text-zinc-400" />
+                                            <p className="text-sm font-bold text-zinc-600 dark:text-zinc-300">Schedules, Media &amp; Themes</p>
+                                        </>
+                                    )}
+                                    <p className="text-[10px] text-zinc-500 mt-1">Optional • .ewsx schedules, Media.db, Themes.db</p>
+                                    <input ref={extrasInputRef} type="file" multiple accept=".db,.dat,.ewsx,.zip" className="hidden" onChange={e => setExtraFiles(Array.from(e.target.files || []))} />
+                                </div>
+                                <div
+                                    onClick={() => resourcesInputRef.current?.click()}
+                                    className={`border-2 border-dashed rounded-xl p-4 text-center cursor-pointer transition-all ${resourceFiles.length > 0
+                                        ? 'border-green-500/50 bg-green-50 dark:bg-green-500/10'
+                                        : 'border-zinc-300 dark:border-zinc-700 hover:border-indigo-500/50 bg-white dark:bg-zinc-900/50'
+                                        }`}
+                                >
+                                    {resourceFiles.length > 0 ? (
+                                        <div className="flex items-center justify-center gap-2 text-green-600 dark:text-green-400">
+                                            <Check size={16} />
+                                            <span className="text-sm font-bold">{resourceFiles.length} file{resourceFiles.length !== 1 ? 's' : ''}</span>
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <FolderOpen className="w-6 h-6 mx-auto mb-1 text-zinc-400" />
+                                            <p className="text-sm font-bold text-zinc-600 dark:text-zinc-300">Resources Folder</p>
+                                        </>
+                                    )}
+                                    <p className="text-[10px] text-zinc-500 mt-1">Optional • the media and backgrounds themselves</p>
+                                    <input
+                                        ref={resourcesInputRef}
+                                        type="file"
+                                        multiple
+                                        className="hidden"
+                                        onChange={e => setResourceFiles(Array.from(e.target.files || []))}
+                                        {...FOLDER_INPUT_PROPS}
+                                    />
+                                </div>
+                            </div>
+
                             {progress && (
                                 <div className="flex items-center gap-3 text-sm text-zinc-500">
                                     <Loader2 className="w-4 h-4 animate-spin text-indigo-400" />
                                     {progress.phase === 'loading' && 'Loading database engine...'}
-                                    {progress.phase === 'parsing' && `Parsing song ${progress.current}/${progress.total}: ${progress.currentTitle || ''}`}
+                                    {progress.phase === 'parsing' && `Parsing ${progress.current}/${progress.total}: ${progress.currentTitle || ''}`}
                                 </div>
                             )}
                         </div>
@@ -253,6 +403,47 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
                                 </button>
                             </div>
 
+                            {/* Dry run: everything the import will add, before anything is saved */}
+                            {summary && (
+                                <div className="p-3 bg-zinc-50 dark:bg-zinc-950/50 border border-zinc-200 dark:border-white/5 rounded-xl grid grid-cols-2 gap-x-4 gap-y-2 text-xs text-zinc-600 dark:text-zinc-300">
+                                    <div className="flex items-start gap-2">
+                                        <Music size={14} className="mt-0.5 text-indigo-400 flex-shrink-0" />
+                                        <span>
+                                            <b>{selectedIds.size}</b> song{selectedIds.size !== 1 ? 's' : ''} to import
+                                            {previouslyImportedIds.size > 0 && <span className="block text-zinc-400">{previouslyImportedIds.size} already imported from EasyWorship</span>}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-start gap-2">
+                                        <CalendarDays size={14} className="mt-0.5 text-indigo-400 flex-shrink-0" />
+                                        <span>
+                                            <b>{extras.schedules.length}</b> schedule{extras.schedules.length !== 1 ? 's' : ''} • {summary.scheduleItems} items
+                                            {summary.openSlots > 0 && <span className="block text-amber-600 dark:text-amber-400">{summary.openSlots} to fill in after import</span>}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-start gap-2">
+                                        <ImageIcon size={14} className="mt-0.5 text-indigo-400 flex-shrink-0" />
+                                        <span>
+                                            <b>{summary.newMedia}</b> media file{summary.newMedia !== 1 ? 's' : ''}
+                                            {summary.existingMedia > 0 && <span className="block text-zinc-400">{summary.existingMedia} already in library</span>}
+                                            {summary.missingMedia > 0 && <span className="block text-amber-600 dark:text-amber-400">{summary.missingMedia} not found in resources folder</span>}
+                                            {summary.oversizedMedia > 0 && <span className="block text-amber-600 dark:text-amber-400">{summary.oversizedMedia} over {EW_MAX_MEDIA_BYTES / (1024 * 1024)} MB, add by hand</span>}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-start gap-2">
+                                        <Palette size={14} className="mt-0.5 text-indigo-400 flex-shrink-0" />
+                                        <span>
+                                            <b>{summary.newThemes}</b> theme{summary.newThemes !== 1 ? 's' : ''}
+                                            {summary.existingThemes > 0 && <span className="block text-zinc-400">{summary.existingThemes} already exist</span>}
+                                        </span>
+                                    </div>
+                                    {extras.unreadable.length > 0 && (
+                                        <div className="col-span-2 text-amber-600 dark:text-amber-400">
+                                            Skipped: {extras.unreadable.map(u => `${u.fileName} (${u.error})`).join(', ')}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             {duplicateIds.size > 0 && (
                                 <div className="p-2 bg-amber-50 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/20 rounded-lg text-xs text-amber-700 dark:text-amber-300">
                                     {duplicateIds.size} song{duplicateIds.size > 1 ? 's' : ''} already in your library (shown with yellow badge, deselected by default)
@@ -283,7 +474,7 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
                                             <div className="flex items-center gap-2 flex-shrink-0">
                                                 {isDuplicate && (
                                                     <span className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400">
-                                                        EXISTS
+                                                        {previouslyImportedIds.has(song.raw.rowid) ? 'IMPORTED' : 'EXISTS'}
                                                     </span>
                                                 )}
                                                 <span className="text-[10px] text-zinc-400">
@@ -327,6 +518,11 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
                             <div className="text-center">
                                 <p className="text-lg font-bold text-zinc-900 dark:text-white">{importedCount} Songs Imported</p>
                                 <p className="text-sm text-zinc-500 mt-1">Your EasyWorship songs are now in your Creenly library</p>
+                                {(importedExtras.plans + importedExtras.media + importedExtras.themes) > 0 && (
+                                    <p className="text-xs text-zinc-500 mt-2">
+                                        Also added {importedExtras.plans} plan{importedExtras.plans !== 1 ? 's' : ''}, {importedExtras.media} media file{importedExtras.media !== 1 ? 's' : ''} and {importedExtras.themes} theme{importedExtras.themes !== 1 ? 's' : ''}
+                                    </p>
+                                )}
                             </div>
                         </div>
                     )}
@@ -358,12 +554,12 @@ export default function EasyWorshipImportModal({ isOpen, onClose, onImportComple
                     )}
                     {phase === 'preview' && (
                         <>
-                            <button onClick={() => { setPhase('select-files'); setParsedSongs([]); setProgress(null); }} className="px-4 py-2 text-sm text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors">
+                            <button onClick={() => { setPhase('select-files'); setParsedSongs([]); setExtras(NO_EXTRAS); setProgress(null); }} className="px-4 py-2 text-sm text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors">
                                 Back
                             </button>
                             <button
                                 onClick={handleImportSelected}
-                                disabled={selectedIds.size === 0}
+                                disabled={selectedIds.size === 0 && !hasExtras}
                                 className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors flex items-center gap-2"
                             >
                                 <Music size={16} />
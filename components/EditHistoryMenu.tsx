@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from 'react';
+import { Undo2, Redo2, History } from 'lucide-react';
+import { HistoryEntry } from '@/utils/editHistory';
+
+interface EditHistoryMenuProps {
+    entries: HistoryEntry[];
+    cursor: number;
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    onJumpTo: (cursor: number) => void;
+}
+
+export default function EditHistoryMenu({ entries, cursor, canUndo, canRedo, onUndo, onRedo, onJumpTo }: EditHistoryMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const buttonClass = "p-1 rounded transition-colors text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-white/10 disabled:opacity-30 disabled:pointer-events-none";
+
+    return (
+        <div className="relative flex items-center">
+            <button onClick={onUndo} disabled={!canUndo} className={buttonClass} title={canUndo ? `Undo ${entries[cursor - 1].label} (Ctrl+Z)` : 'Nothing to undo'}>
+                <Undo2 size={14} />
+            </button>
+            <button onClick={onRedo} disabled={!canRedo} className={buttonClass} title={canRedo ? `Redo ${entries[cursor].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+                <Redo2 size={14} />
+            </button>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`p-1 rounded transition-colors ${isOpen ? 'text-indigo-500 dark:text-indigo-400 bg-zinc-200 dark:bg-white/10' : 'text-zinc-500 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-white/10'}`}
+                title="Edit History"
+            >
+                <History size={14} />
+            </button>
+
+            {isOpen && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+                    <div className="absolute top-full left-0 mt-3 w-64 max-h-80 overflow-y-auto bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-white/10 rounded-xl shadow-2xl z-50 py-2 no-scrollbar animate-in fade-in zoom-in-95 duration-100">
+                        <div className="px-3 py-2 border-b border-zinc-100 dark:border-white/5 mb-1">
+                            <span className="text-[10px] font-black text-zinc-400 uppercase tracking-widest">Edit History</span>
+                        </div>
+
+                        {/* Newest first; entries past the cursor are undone and can be redone */}
+                        {entries.map((entry, index) => ({ entry, position: index + 1 })).reverse().map(({ entry, position }) => (
+                            <button
+                                key={entry.id}
+                                onClick={() => onJumpTo(position)}
+                                className={`w-full text-left px-4 py-2 text-xs font-medium hover:bg-zinc-100 dark:hover:bg-white/5 transition-colors flex items-center justify-between gap-2 ${position === cursor
+                                    ? 'text-indigo-400 bg-indigo-500/10'
+                                    : position > cursor ? 'text-zinc-400 dark:text-zinc-600 italic' : 'text-zinc-600 dark:text-zinc-300'}`}
+                            >
+                                <span className="truncate">{entry.label}</span>
+                                <span className="text-[10px] font-mono text-zinc-400 shrink-0">
+                                    {new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                </span>
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => onJumpTo(0)}
+                            className={`w-full text-left px-4 py-2 text-xs font-medium hover:bg-zinc-100 dark:hover:bg-white/5 transition-colors ${cursor === 0 ? 'text-indigo-400 bg-indigo-500/10' : 'text-zinc-500'}`}
+                        >
+                            {entries.length === 0 ? 'No edits yet' : 'Start of session'}
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useState, useEffect, useRef } from 'react';
+import { Grid3x3, RotateCcw } from 'lucide-react';
+import { DisplayGeometry, DEFAULT_GEOMETRY, Point, loadGeometry, saveGeometry } from '@/utils/geometry';
+
+interface GeometryEditorProps {
+    displays: { id: string; index: number; label: string }[];
+}
+
+type Corner = keyof DisplayGeometry['corners'];
+
+const CORNERS: { id: Corner; label: string }[] = [
+    { id: 'tl', label: 'TL' },
+    { id: 'tr', label: 'TR' },
+    { id: 'br', label: 'BR' },
+    { id: 'bl', label: 'BL' }
+];
+
+const MASK_EDGES: (keyof DisplayGeometry['mask'])[] = ['top', 'right', 'bottom', 'left'];
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Corner pin, edge mask and overscan editor for one display.
+ * Every change is saved immediately so the test grid and open outputs follow along.
+ */
+export default function GeometryEditor({ displays }: GeometryEditorProps) {
+    const [displayId, setDisplayId] = useState<string | null>(null);
+    const [geometry, setGeometry] = useState<DisplayGeometry>(DEFAULT_GEOMETRY);
+    const [activeCorner, setActiveCorner] = useState<Corner>('tl');
+    const [isDragging, setIsDragging] = useState(false);
+    const [showGrid, setShowGrid] = useState(false);
+    const surfaceRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!displayId && displays.length > 0) setDisplayId(displays[0].id);
+    }, [displays, displayId]);
+
+    useEffect(() => {
+        if (displayId) setGeometry(loadGeometry(displayId));
+    }, [displayId]);
+
+    // Follow the selected display with the test grid; always take it down when closing
+    useEffect(() => {
+        if (showGrid && displayId) window.electronAPI?.showTestGrid?.({ displayId });
+        else window.electronAPI?.hideTestGrid?.();
+    }, [showGrid, displayId]);
+
+    useEffect(() => () => { window.electronAPI?.hideTestGrid?.(); }, []);
+
+    const update = (next: DisplayGeometry) => {
+        setGeometry(next);
+        if (displayId) saveGeometry(displayId, next);
+    };
+
+    const moveCorner = (corner: Corner, point: Point) => {
+        update({ ...geometry, corners: { ...geometry.corners, [corner]: { x: clamp(point.x), y: clamp(point.y) } } });
+    };
+
+    const pointFromEvent = (e: React.PointerEvent): Point | null => {
+        const rect = surfaceRef.current?.getBoundingClientRect();
+        if (!rect) return null;
+        return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        const step = e.shiftKey ? 0.01 : 0.001;
+        const delta = ({ ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step] } as Record<string, number[]>)[e.key];
+        if (!delta) return;
+        e.preventDefault();
+        const current = geometry.corners[activeCorner];
+        moveCorner(activeCorner, { x: current.x + delta[0], y: current.y + delta[1] });
+    };
+
+    if (displays.length === 0) return null;
+
+    const { corners } = geometry;
+    const polygon = CORNERS.map(c => `${corners[c.id].x * 100},${corners[c.id].y * 100}`).join(' ');
+    const inputClass = "w-full bg-zinc-50 dark:bg-black/50 border border-zinc-300 dark:border-white/10 rounded px-2 py-1 text-xs text-zinc-900 dark:text-white outline-none focus:border-indigo-500";
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-2">
+                <select
+                    value={displayId || ''}
+                    onChange={e => setDisplayId(e.target.value)}
+                    className={`${inputClass} flex-1`}
+                >
+                    {displays.map(display => (
+                        <option key={display.id} value={display.id}>#{display.index} {display.label}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => setShowGrid(!showGrid)}
+                    className={`px-3 py-1.5 text-[10px] font-black uppercase tracking-widest rounded-full flex items-center gap-1 transition-colors ${showGrid ? 'bg-indigo-600 text-white' : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-white'}`}
+                >
+                    <Grid3x3 size={12} /> {showGrid ? 'Hide Grid' : 'Test Grid'}
+                </button>
+                <button
+                    onClick={() => update(DEFAULT_GEOMETRY)}
+                    className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-200 dark:hover:bg-white/10 transition-colors"
+                    title="Reset geometry"
+                >
+                    <RotateCcw size={14} />
+                </button>
+            </div>
+
+            {/* Corner Pin Surface */}
+            <div
+                ref={surfaceRef}
+                tabIndex={0}
+                onKeyDown={handleKeyDown}
+                onPointerMove={e => {
+                    if (!isDragging) return;
+                    const point = pointFromEvent(e);
+                    if (point) moveCorner(activeCorner, point);
+                }}
+                onPointerUp={() => setIsDragging(false)}
+                onPointerLeave={() => setIsDragging(false)}
+                className="relative aspect-video w-full rounded-lg bg-zinc-950 border border-zinc-300 dark:border-white/10 outline-none focus:border-indigo-500 touch-none"
+            >
+                <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+                    <polygon points={polygon} fill="rgba(99, 102, 241, 0.15)" stroke="#818cf8" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                </svg>
+                {CORNERS.map(corner => (
+                    <button
+                        key={corner.id}
+                        onPointerDown={e => {
+                            e.preventDefault();
+                            setActiveCorner(corner.id);
+                            setIsDragging(true);
+                            surfaceRef.current?.focus();
+                        }}
+                        className={`absolute w-7 h-7 -ml-3.5 -mt-3.5 rounded-full border-2 text-[8px] font-black flex items-center justify-center cursor-move ${activeCorner === corner.id ? 'bg-indigo-500 border-white text-white' : 'bg-zinc-800 border-indigo-400 text-indigo-300'}`}
+                        style={{ left: `${corners[corner.id].x * 100}%`, top: `${corners[corner.id].y * 100}%` }}
+                    >
+                        {corner.label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-[10px] text-zinc-500">Drag a corner to where the picture should land. Arrow keys nudge the selected corner (Shift for larger steps).</p>
+
+            {/* Masks & Overscan */}
+            <div className="grid grid-cols-5 gap-2">
+                {MASK_EDGES.map(edge => (
+                    <label key={edge} className="space-y-1">
+                        <span className="text-[10px] font-bold text-zinc-500 uppercase">Mask {edge}</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={25}
+                            step={0.5}
+                            value={geometry.mask[edge]}
+                            onChange={e => update({ ...geometry, mask: { ...geometry.mask, [edge]: Math.min(25, Math.max(0, parseFloat(e.target.value) || 0)) } })}
+                            className={inputClass}
+                        />
+                    </label>
+                ))}
+                <label className="space-y-1">
+                    <span className="text-[10px] font-bold text-zinc-500 uppercase">Overscan</span>
+                    <input
+                        type="number"
+                        min={-10}
+                        max={20}
+                        step={0.5}
+                        value={geometry.overscan}
+                        onChange={e => update({ ...geometry, overscan: Math.min(20, Math.max(-10, parseFloat(e.target.value) || 0)) })}
+                        className={inputClass}
+                        title="% to shrink (+) or enlarge (-) the picture"
+                    />
+                </label>
+            </div>
+        </div>
+    );
+}
@@ -1,45 +1,81 @@
 "use client";
 
-import { useEffect, useState, useRef, useMemo } from 'react';
-import Fuse from 'fuse.js';
-import { Search, Music, BookOpen, Monitor, ArrowRight } from 'lucide-react';
-import { Song, fetchSongs } from '@/utils/songManager';
-import { detectVersesInText, lookupVerseAsync } from '@/utils/bible';
+import { useEffect, useState, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Search, Music, BookOpen, Monitor, ArrowRight, FileText, Palette, Folder, CalendarDays, History } from 'lucide-react';
+import { ResourceItem, listResources } from '@/utils/resourceLibrary';
+import { ServiceSchedule, loadPlan } from '@/utils/scheduleManager';
+import { ProjectorTheme } from '@/utils/themes';
+import { DetectedVerse } from '@/utils/bible';
+import { OmniResult, OmniGroup, OmniSources, OMNI_GROUP_LABELS, loadOmniSources, searchOmni, rememberRecent, getRecentResults } from '@/utils/omniSearch';
+import { applyLibraryCommand, recordEdit } from '@/utils/editHistory';
+import AdvancedSongEditor from './AdvancedSongEditor';
+
+export type OmniTarget =
+    | { kind: 'verse'; verse: DetectedVerse }
+    | { kind: 'resource'; resource: ResourceItem };
 
 interface OmniSearchProps {
-    onGoLive: (content: any) => void;
-    onAddToSchedule: (content: any) => void;
+    onGoLive: (target: OmniTarget) => void;
+    onAddToSchedule: (target: OmniTarget) => void;
+    onApplyTheme: (theme: ProjectorTheme) => void;
+    onOpenPlan: (schedule: ServiceSchedule) => void;
 }
 
-type SearchResult = {
-    id: string;
-    type: 'song' | 'bible' | 'media';
-    title: string;
-    subtitle: string;
-    content: any;
-    score: number;
+const SEARCH_DEBOUNCE_MS = 120;
+
+const GROUP_ICONS: Record<OmniGroup, typeof Music> = {
+    scripture: BookOpen,
+    song: Music,
+    presentation: FileText,
+    media: Monitor,
+    theme: Palette,
+    collection: Folder,
+    plan: CalendarDays
+};
+
+const GROUP_COLORS: Record<OmniGroup, string> = {
+    scripture: 'bg-amber-500/20 text-amber-400',
+    song: 'bg-purple-500/20 text-purple-400',
+    presentation: 'bg-emerald-500/20 text-emerald-400',
+    media: 'bg-blue-500/20 text-blue-400',
+    theme: 'bg-pink-500/20 text-pink-400',
+    collection: 'bg-zinc-500/20 text-zinc-400',
+    plan: 'bg-indigo-500/20 text-indigo-400'
+};
+
+const targetFor = (result: OmniResult): OmniTarget | null => {
+    if (result.group === 'scripture') return { kind: 'verse', verse: result.verse };
+    if (result.group === 'song' || result.group === 'presentation' || result.group === 'media') return { kind: 'resource', resource: result.resource };
+    return null;
 };
 
-export default function OmniSearch({ onGoLive, onAddToSchedule }: OmniSearchProps) {
+const canEdit = (result: OmniResult) => result.group === 'song' || result.group === 'presentation';
+
+// What Enter does for each kind of result
+const primaryLabel = (result: OmniResult) => {
+    switch (result.group) {
+        case 'theme': return 'Apply Theme';
+        case 'plan': return 'Open Plan';
+        case 'collection': return 'Add All to Schedule';
+        default: return 'Add to Schedule';
+    }
+};
+
+const Kbd = ({ children }: { children: React.ReactNode }) => (
+    <kbd className="font-sans bg-zinc-50 dark:bg-zinc-800 px-1 rounded text-zinc-600 dark:text-zinc-300">{children}</kbd>
+);
+
+export default function OmniSearch({ onGoLive, onAddToSchedule, onApplyTheme, onOpenPlan }: OmniSearchProps) {
     const [isOpen, setIsOpen] = useState(false);
     const [query, setQuery] = useState("");
-    const [songs, setSongs] = useState<Song[]>([]);
-    const [results, setResults] = useState<SearchResult[]>([]);
+    const [sources, setSources] = useState<OmniSources | null>(null);
+    const [results, setResults] = useState<OmniResult[]>([]);
+    const [isRecent, setIsRecent] = useState(false);
     const [selectedIndex, setSelectedIndex] = useState(0);
+    const [editingResource, setEditingResource] = useState<ResourceItem | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
 
-    // Load songs on mount
-    useEffect(() => {
-        fetchSongs().then(setSongs);
-    }, []);
-
-    // Fuse instance
-    const fuse = useMemo(() => new Fuse(songs, {
-        keys: ['title', 'lyrics.content', 'author'],
-        threshold: 0.3,
-        includeScore: true
-    }), [songs]);
-
     // Handle Keyboard Shortcuts
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -56,87 +92,128 @@ export default function OmniSearch({ onGoLive, onAddToSchedule }: OmniSearchProp
         return () => window.removeEventListener('keydown', handleKeyDown);
     }, []);
 
-    // Focus input when opened
+    // Focus input and refresh themes, collections and plans when opened
     useEffect(() => {
-        if (isOpen && inputRef.current) {
-            inputRef.current.focus();
-        }
+        if (!isOpen) return;
+        inputRef.current?.focus();
+        loadOmniSources().then(setSources);
     }, [isOpen]);
 
-    // Search Logic
+    // Search Logic (recent items while the query is empty)
     useEffect(() => {
-        if (!query.trim()) {
-            setResults([]);
-            return;
-        }
+        if (!sources) return;
+        let cancelled = false;
 
-        const newResults: SearchResult[] = [];
-
-        // 1. Bible Detection (Regex)
-        const verses = detectVersesInText(query);
-        if (verses.length > 0) {
-            verses.forEach((v, idx) => {
-                newResults.push({
-                    id: `bible-${idx}`,
-                    type: 'bible',
-                    title: v.reference,
-                    subtitle: v.text.substring(0, 50) + "...",
-                    content: v,
-                    score: 0 // Best match
-                });
+        if (!query.trim()) {
+            getRecentResults(sources).then(recent => {
+                if (cancelled) return;
+                setResults(recent);
+                setIsRecent(true);
+                setSelectedIndex(0);
             });
+            return () => { cancelled = true; };
         }
 
-        // 2. Song Search (Fuse)
-        const songMatches = fuse.search(query);
-        songMatches.slice(0, 5).forEach(result => {
-            newResults.push({
-                id: `song-${result.item.id}`,
-                type: 'song',
-                title: result.item.title,
-                subtitle: result.item.author,
-                content: result.item,
-                score: result.score || 1
+        const timer = setTimeout(() => {
+            searchOmni(query, sources).then(found => {
+                if (cancelled) return;
+                setResults(found);
+                setIsRecent(false);
+                setSelectedIndex(0);
             });
-        });
+        }, SEARCH_DEBOUNCE_MS);
 
-        // Sort by score (lower is better for Fuse, but we put Bible first if it matches regex)
-        // Actually, if we have a bible match, it's usually intended.
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query, sources]);
 
-        setResults(newResults);
-        setSelectedIndex(0);
+    const close = () => {
+        setIsOpen(false);
+        setQuery("");
+    };
+
+    const runPrimary = async (result: OmniResult) => {
+        rememberRecent(result);
+        switch (result.group) {
+            case 'theme':
+                onApplyTheme(result.theme);
+                break;
+            case 'plan': {
+                const schedule = await loadPlan(result.plan.id);
+                if (schedule) onOpenPlan(schedule);
+                break;
+            }
+            case 'collection': {
+                const { items } = await listResources({ collectionId: result.collection.id });
+                items.forEach(resource => onAddToSchedule({ kind: 'resource', resource }));
+                break;
+            }
+            default: {
+                const target = targetFor(result);
+                if (target) onAddToSchedule(target);
+            }
+        }
+        close();
+    };
+
+    const runGoLive = (result: OmniResult) => {
+        const target = targetFor(result);
+        if (!target) return runPrimary(result);
+        rememberRecent(result);
+        onGoLive(target);
+        close();
+    };
 
-    }, [query, fuse]);
+    const runEdit = (result: OmniResult) => {
+        if (result.group !== 'song' && result.group !== 'presentation') return;
+        rememberRecent(result);
+        setEditingResource(result.resource);
+        close();
+    };
 
     // Selection Logic
     const handleKeyDown = (e: React.KeyboardEvent) => {
+        const selected = results[selectedIndex];
         if (e.key === 'ArrowDown') {
             e.preventDefault();
             setSelectedIndex(prev => (prev + 1) % results.length);
         } else if (e.key === 'ArrowUp') {
             e.preventDefault();
             setSelectedIndex(prev => (prev - 1 + results.length) % results.length);
-        } else if (e.key === 'Enter') {
+        } else if (e.key === 'Enter' && selected) {
             e.preventDefault();
-            if (results[selectedIndex]) {
-                const item = results[selectedIndex];
-                if (e.shiftKey) {
-                    onGoLive(item);
-                    setIsOpen(false);
-                } else {
-                    onAddToSchedule(item);
-                    // Just provide feedback, don't close? Or close? Let's close for now or keep open for bulk add.
-                    // Let's close for "Spotlight" feel.
-                    setIsOpen(false);
-                }
-            }
+            if (e.shiftKey) runGoLive(selected);
+            else runPrimary(selected);
+        } else if ((e.metaKey || e.ctrlKey) && e.key === 'e' && selected) {
+            e.preventDefault();
+            runEdit(selected);
         }
     };
 
-    if (!isOpen) return null;
+    const selected = results[selectedIndex];
+
+    const editor = editingResource && typeof window !== 'undefined' && createPortal(
+        <div className="fixed inset-0 z-[99999] bg-black/90 backdrop-blur-md animate-in fade-in duration-300">
+            <AdvancedSongEditor
+                resource={editingResource}
+                onSave={async (updated) => {
+                    const command = { kind: 'library_put' as const, before: editingResource, after: updated };
+                    await applyLibraryCommand(command);
+                    recordEdit(`Edit "${updated.title}"`, command);
+                    setEditingResource(null);
+                }}
+                onCancel={() => setEditingResource(null)}
+            />
+        </div>,
+        document.body
+    );
+
+    if (!isOpen) return editor || null;
 
     return (
-        <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-start justify-center pt-[20vh]" onClick={() => setIsOpen(false)}>
+        <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm flex items-start justify-center pt-[20vh]" onClick={close}>
             <div
                 className="w-full max-w-2xl bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 rounded-xl shadow-2xl overflow-hidden flex flex-col animate-in fade-in zoom-in-95 duration-200"
                 onClick={e => e.stopPropagation()}
@@ -147,7 +224,7 @@ export default function OmniSearch({ onGoLive, onAddToSchedule }: OmniSearchProp
                     <input
                         ref={inputRef}
                         className="flex-1 bg-transparent text-xl text-zinc-900 dark:text-white placeholder:text-zinc-400 dark:placeholder:text-zinc-600 focus:outline-none"
-                        placeholder="Search songs, scripture, or media..."
+                        placeholder="Search songs, scripture, media, themes, plans..."
                         value={query}
                         onChange={e => setQuery(e.target.value)}
                         onKeyDown={handleKeyDown}
@@ -165,57 +242,62 @@ export default function OmniSearch({ onGoLive, onAddToSchedule }: OmniSearchProp
                             {query ? "No results found." : "Type to search..."}
                         </div>
                     ) : (
-                        results.map((result, idx) => (
-                            <div
-                                key={result.id}
-                                className={`flex items-center gap-4 px-4 py-3 rounded-lg cursor-pointer transition-colors ${idx === selectedIndex ? 'bg-indigo-600/20 border border-indigo-500/30' : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50 border border-transparent'}`}
-                                onClick={() => {
-                                    onAddToSchedule(result);
-                                    setIsOpen(false);
-                                }}
-                            >
-                                {/* Icon Box */}
-                                <div className={`w-10 h-10 rounded-lg flex items-center justify-center shrink-0 ${result.type === 'song' ? 'bg-purple-500/20 text-purple-400' :
-                                    result.type === 'bible' ? 'bg-amber-500/20 text-amber-400' :
-                                        'bg-blue-500/20 text-blue-400'
-                                    }`}>
-                                    {result.type === 'song' && <Music size={20} />}
-                                    {result.type === 'bible' && <BookOpen size={20} />}
-                                    {result.type === 'media' && <Monitor size={20} />}
-                                </div>
+                        results.map((result, idx) => {
+                            const Icon = GROUP_ICONS[result.group];
+                            const showHeader = isRecent ? idx === 0 : results[idx - 1]?.group !== result.group;
+                            return (
+                                <div key={result.key}>
+                                    {showHeader && (
+                                        <div className="px-4 pt-3 pb-1 text-[10px] font-bold text-zinc-500 uppercase tracking-widest flex items-center gap-2">
+                                            {isRecent ? <><History size={10} /> Recent</> : OMNI_GROUP_LABELS[result.group]}
+                                        </div>
+                                    )}
+                                    <div
+                                        className={`flex items-center gap-4 px-4 py-3 rounded-lg cursor-pointer transition-colors ${idx === selectedIndex ? 'bg-indigo-600/20 border border-indigo-500/30' : 'hover:bg-zinc-50 dark:hover:bg-zinc-800/50 border border-transparent'}`}
+                                        onClick={() => runPrimary(result)}
+                                        onMouseEnter={() => setSelectedIndex(idx)}
+                                    >
+                                        {/* Icon Box */}
+                                        <div className={`w-10 h-10 rounded-lg flex items-center justify-center shrink-0 ${GROUP_COLORS[result.group]}`}>
+                                            <Icon size={20} />
+                                        </div>
 
-                                {/* Content */}
-                                <div className="flex-1 min-w-0">
-                                    <div className="flex items-center justify-between">
-                                        <h4 className={`text-sm font-bold truncate ${idx === selectedIndex ? 'text-zinc-900 dark:text-white' : 'text-zinc-600 dark:text-zinc-300'}`}>
-                                            {result.title}
-                                        </h4>
-                                        {idx === selectedIndex && (
-                                            <span className="text-[10px] text-indigo-300 bg-indigo-500/20 px-2 py-0.5 rounded">
-                                                Press Shift+Enter to Go Live
-                                            </span>
-                                        )}
+                                        {/* Content */}
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-center justify-between">
+                                                <h4 className={`text-sm font-bold truncate ${idx === selectedIndex ? 'text-zinc-900 dark:text-white' : 'text-zinc-600 dark:text-zinc-300'}`}>
+                                                    {result.title}
+                                                </h4>
+                                                {idx === selectedIndex && (
+                                                    <span className="text-[10px] text-indigo-300 bg-indigo-500/20 px-2 py-0.5 rounded shrink-0">
+                                                        {primaryLabel(result)}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <p className="text-xs text-zinc-500 truncate">{result.subtitle}</p>
+                                        </div>
+
+                                        <ArrowRight className={`w-4 h-4 ${idx === selectedIndex ? 'text-indigo-400 opacity-100' : 'text-zinc-600 opacity-0'}`} />
                                     </div>
-                                    <p className="text-xs text-zinc-500 truncate">{result.subtitle}</p>
                                 </div>
-
-                                <ArrowRight className={`w-4 h-4 ${idx === selectedIndex ? 'text-indigo-400 opacity-100' : 'text-zinc-600 opacity-0'}`} />
-                            </div>
-                        ))
+                            );
+                        })
                     )}
                 </div>
 
                 {/* Footer */}
                 <div className="bg-zinc-100 dark:bg-zinc-950/50 px-4 py-2 border-t border-zinc-200 dark:border-white/5 flex justify-between items-center text-[10px] text-zinc-500">
                     <div className="flex gap-4">
-                        <span><kbd className="font-sans bg-zinc-50 dark:bg-zinc-800 px-1 rounded text-zinc-600 dark:text-zinc-300">↵</kbd> Add to Schedule</span>
-                        <span><kbd className="font-sans bg-zinc-50 dark:bg-zinc-800 px-1 rounded text-zinc-600 dark:text-zinc-300">⇧ ↵</kbd> Go Live</span>
+                        <span><Kbd>↵</Kbd> {selected ? primaryLabel(selected) : 'Add to Schedule'}</span>
+                        {(!selected || targetFor(selected)) && <span><Kbd>⇧ ↵</Kbd> Go Live</span>}
+                        {selected && canEdit(selected) && <span><Kbd>Ctrl E</Kbd> Edit</span>}
                     </div>
                     <div>
-                        ProTip: Use <kbd className="font-sans bg-zinc-50 dark:bg-zinc-800 px-1 rounded text-zinc-600 dark:text-zinc-300">↑</kbd> <kbd className="font-sans bg-zinc-50 dark:bg-zinc-800 px-1 rounded text-zinc-600 dark:text-zinc-300">↓</kbd> to navigate
+                        ProTip: Use <Kbd>↑</Kbd> <Kbd>↓</Kbd> to navigate
                     </div>
                 </div>
             </div>
+            {editor}
         </div>
     );
 }
@@ -1,8 +1,24 @@
 "use client";
 
-import { useState, useEffect } from 'react';
-import { X, Save, Trash2, Calendar, FileText, Check, AlertCircle, FolderOpen, Pencil } from 'lucide-react';
-import { SavedPlan, getPlans, savePlan, deletePlan, ServiceSchedule } from '@/utils/scheduleManager';
+import { useState, useEffect, useRef } from 'react';
+import { X, Save, Trash2, Calendar, FileText, Check, AlertCircle, FolderOpen, Pencil, Download, Upload, Package, LayoutTemplate, Plus, History, Printer } from 'lucide-react';
+import { SavedPlan, getPlans, savePlan, deletePlan, ServiceSchedule, ScheduleTemplate, PlaceholderType, PLACEHOLDER_LABELS, getTemplates, saveTemplate, deleteTemplate, createTemplateFromSchedule, createScheduleFromTemplate } from '@/utils/scheduleManager';
+import PlanRevisionsView from './PlanRevisionsView';
+import { openRunSheet } from '@/utils/runSheet';
+import { PlanBundle, BundleConflict, ConflictResolution, BUNDLE_EXTENSION, exportPlanBundle, planBundleFilename, readPlanBundle, findBundleConflicts, importPlanBundle } from '@/utils/planBundle';
+import { OPENLP_SERVICE_FILE, OpenLPUnsupportedItem, readOpenLPService } from '@/utils/openlp';
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+    keep_both: 'Keep Both',
+    replace: 'Replace',
+    skip: 'Skip'
+};
+
+const CONFLICT_KIND_LABELS: Record<BundleConflict['kind'], string> = {
+    plan: 'Schedule',
+    resource: 'Library Item',
+    theme: 'Theme'
+};
 
 interface PlanManagerModalProps {
     isOpen: boolean;
@@ -25,12 +41,36 @@ export default function PlanManagerModal({ isOpen, onClose, currentSchedule, onL
     const [editingId, setEditingId] = useState<string | null>(null);
     const [editName, setEditName] = useState('');
 
+    // Bundle Import/Export State
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [exportingId, setExportingId] = useState<string | null>(null);
+    const [pendingBundle, setPendingBundle] = useState<PlanBundle | null>(null);
+    const [conflicts, setConflicts] = useState<BundleConflict[]>([]);
+    const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+    const [isImporting, setIsImporting] = useState(false);
+    const [importMessage, setImportMessage] = useState<string | null>(null);
+    const [unsupportedItems, setUnsupportedItems] = useState<OpenLPUnsupportedItem[]>([]);
+
+    // Templates State
+    const [listView, setListView] = useState<'plans' | 'templates'>('plans');
+    const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+    const [templateName, setTemplateName] = useState('');
+    const [slotTypes, setSlotTypes] = useState<PlaceholderType[]>(['song', 'scripture']);
+
+    // Revision History State
+    const [historyPlan, setHistoryPlan] = useState<SavedPlan | null>(null);
+
     useEffect(() => {
         if (isOpen) {
             loadPlans();
+            loadTemplates();
             setNewPlanName(currentSchedule.name);
             setSaveSuccess(false);
             setError(null);
+            setImportMessage(null);
+            setUnsupportedItems([]);
+            setPendingBundle(null);
+            setHistoryPlan(null);
         }
     }, [isOpen, currentSchedule.name]);
 
@@ -47,6 +87,39 @@ export default function PlanManagerModal({ isOpen, onClose, currentSchedule, onL
         }
     };
 
+    const loadTemplates = async () => {
+        setTemplates(await getTemplates());
+    };
+
+    const handleSaveTemplate = async () => {
+        if (!templateName.trim()) return;
+        setError(null);
+        try {
+            await saveTemplate(createTemplateFromSchedule(currentSchedule, templateName.trim(), slotTypes));
+            setTemplateName('');
+            await loadTemplates();
+        } catch (err) {
+            setError('Failed to save template');
+        }
+    };
+
+    const handleDeleteTemplate = async (template: ScheduleTemplate) => {
+        if (!confirm(`Delete the "${template.name}" template?`)) return;
+        try {
+            await deleteTemplate(template.id);
+            await loadTemplates();
+        } catch (err) {
+            setError('Failed to delete template');
+        }
+    };
+
+    const handleNewFromTemplate = (template: ScheduleTemplate) => {
+        if (confirm(`Start a new plan from "${template.name}"? This will replace your current schedule.`)) {
+            onLoadPlan(createScheduleFromTemplate(template));
+            onClose();
+        }
+    };
+
     const handleSave = async () => {
         if (!newPlanName.trim()) return;
         setIsSaving(true);
@@ -142,6 +215,97 @@ export default function PlanManagerModal({ isOpen, onClose, currentSchedule, onL
         }
     };
 
+    const handleRestored = async (schedule: ServiceSchedule) => {
+        await loadPlans();
+        if (currentSchedule.id === schedule.id || confirm(`Load the restored "${schedule.name}" now? This will replace your current schedule.`)) {
+            onLoadPlan(schedule);
+        }
+    };
+
+    const handleExport = async (plan: ServiceSchedule) => {
+        setExportingId(plan.id);
+        setError(null);
+        try {
+            const blob = await exportPlanBundle(plan);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = planBundleFilename(plan);
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error(err);
+            setError('Failed to export schedule');
+        } finally {
+            setExportingId(null);
+        }
+    };
+
+    const runImport = async (bundle: PlanBundle, bundleConflicts: BundleConflict[], chosen: Record<string, ConflictResolution>) => {
+        setIsImporting(true);
+        try {
+            const result = await importPlanBundle(bundle, bundleConflicts, chosen);
+            setPendingBundle(null);
+            await loadPlans();
+            setImportMessage(`Imported ${result.imported}, replaced ${result.replaced}, skipped ${result.skipped}.`);
+            if (result.plan && confirm(`Load "${result.plan.name}" now? This will replace your current schedule.`)) {
+                onLoadPlan(result.plan);
+                onClose();
+            }
+        } catch (err) {
+            console.error(err);
+            setError('Failed to import schedule');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    // OpenLP service files become a new saved plan; items that can't come across are listed
+    const importOpenLPService = async (file: File) => {
+        setIsImporting(true);
+        try {
+            const { schedule, unsupported } = await readOpenLPService(file);
+            await savePlan(schedule);
+            await loadPlans();
+            setUnsupportedItems(unsupported);
+            setImportMessage(`Imported ${schedule.items.length} item${schedule.items.length !== 1 ? 's' : ''} from OpenLP${unsupported.length ? `, ${unsupported.length} not supported` : ''}.`);
+            if (schedule.items.length > 0 && confirm(`Load "${schedule.name}" now? This will replace your current schedule.`)) {
+                onLoadPlan(schedule);
+                if (unsupported.length === 0) onClose();
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to read OpenLP service file');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        setImportMessage(null);
+        setUnsupportedItems([]);
+        if (OPENLP_SERVICE_FILE.test(file.name)) {
+            await importOpenLPService(file);
+            return;
+        }
+        try {
+            const bundle = await readPlanBundle(file);
+            const found = await findBundleConflicts(bundle);
+            if (found.length === 0) {
+                await runImport(bundle, [], {});
+                return;
+            }
+            setPendingBundle(bundle);
+            setConflicts(found);
+            setResolutions(Object.fromEntries(found.map(c => [c.key, 'keep_both' as ConflictResolution])));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to read schedule bundle');
+        }
+    };
+
     const startEditing = (plan: SavedPlan) => {
         setEditingId(plan.id);
         setEditName(plan.name);
@@ -185,11 +349,88 @@ export default function PlanManagerModal({ isOpen, onClose, currentSchedule, onL
                     <h3 className="text-xl font-bold text-zinc-900 dark:text-white flex items-center gap-2">
                         <FolderOpen className="text-indigo-500" /> Schedule Manager
                     </h3>
-                    <button onClick={onClose} className="text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-colors">
-                        <X size={24} />
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            disabled={isImporting}
+                            className="px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-2 bg-zinc-200 dark:bg-zinc-800 hover:bg-zinc-300 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-300 transition-colors"
+                            title={`Import a ${BUNDLE_EXTENSION} schedule bundle or an OpenLP .osz service file`}
+                        >
+                            <Upload size={14} /> {isImporting ? 'Importing...' : 'Import Bundle'}
+                        </button>
+                        <input
+                            ref={importInputRef}
+                            type="file"
+                            accept={`${BUNDLE_EXTENSION},.zip,.osz`}
+                            onChange={handleImportFile}
+                            className="hidden"
+                        />
+                        <button onClick={onClose} className="text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-colors">
+                            <X size={24} />
+                        </button>
+                    </div>
                 </div>
 
+                {/* Bundle Conflicts */}
+                {pendingBundle && (
+                    <div className="bg-amber-500/5 rounded-xl p-4 border border-amber-500/20 mb-6">
+                        <div className="flex items-center justify-between mb-3">
+                            <h4 className="text-sm font-bold text-zinc-700 dark:text-zinc-300 uppercase tracking-wider flex items-center gap-2">
+                                <Package size={14} className="text-amber-500" /> Importing &quot;{pendingBundle.plan.name}&quot;
+                            </h4>
+                            <div className="flex items-center gap-1">
+                                <span className="text-[10px] text-zinc-500 mr-1">All:</span>
+                                {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                                    <button
+                                        key={resolution}
+                                        onClick={() => setResolutions(Object.fromEntries(conflicts.map(c => [c.key, resolution])))}
+                                        className="px-2 py-1 rounded text-[10px] font-bold bg-zinc-200 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-400 hover:text-zinc-900 dark:hover:text-white"
+                                    >
+                                        {RESOLUTION_LABELS[resolution]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <p className="text-xs text-zinc-500 mb-3">These already exist on this computer. Choose what to do with each one.</p>
+                        <div className="space-y-2 max-h-48 overflow-y-auto">
+                            {conflicts.map(conflict => (
+                                <div key={conflict.key} className="flex items-center justify-between gap-3 p-2 rounded-lg bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/5">
+                                    <div className="min-w-0">
+                                        <div className="text-sm font-bold text-zinc-900 dark:text-white truncate">{conflict.title}</div>
+                                        <div className="text-[10px] text-zinc-500 uppercase tracking-wider">{CONFLICT_KIND_LABELS[conflict.kind]}</div>
+                                    </div>
+                                    <div className="flex bg-zinc-100 dark:bg-zinc-800 rounded-lg p-1 shrink-0">
+                                        {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(resolution => (
+                                            <button
+                                                key={resolution}
+                                                onClick={() => setResolutions(prev => ({ ...prev, [conflict.key]: resolution }))}
+                                                className={`px-2 py-1 rounded text-[10px] font-bold transition-all ${resolutions[conflict.key] === resolution ? 'bg-white dark:bg-zinc-600 text-zinc-900 dark:text-white shadow-sm' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-white'}`}
+                                            >
+                                                {RESOLUTION_LABELS[resolution]}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex justify-end gap-2 mt-3">
+                            <button
+                                onClick={() => setPendingBundle(null)}
+                                className="px-4 py-2 rounded-lg text-sm font-bold bg-zinc-200 dark:bg-zinc-800 hover:bg-zinc-300 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-300"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={() => runImport(pendingBundle, conflicts, resolutions)}
+                                disabled={isImporting}
+                                className="px-4 py-2 rounded-lg text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-500/20"
+                            >
+                                {isImporting ? 'Importing...' : 'Import'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* Save Current Section */}
                 <div className="bg-zinc-50 dark:bg-zinc-950/50 rounded-xl p-4 border border-zinc-200 dark:border-white/5 mb-6">
                     <h4 className="text-sm font-bold text-zinc-700 dark:text-zinc-300 mb-2 uppercase tracking-wider">Save Current Schedule</h4>
@@ -222,87 +463,216 @@ export default function PlanManagerModal({ isOpen, onClose, currentSchedule, onL
                     </div>
                 </div>
 
-                {/* Saved Plans List */}
-                <h4 className="text-sm font-bold text-zinc-700 dark:text-zinc-300 mb-2 uppercase tracking-wider">Saved Schedules</h4>
+                {/* Saved Plans / Templates Tabs */}
+                <div className="flex items-center gap-4 mb-2">
+                    {(['plans', 'templates'] as const).map(view => (
+                        <button
+                            key={view}
+                            onClick={() => setListView(view)}
+                            className={`text-sm font-bold uppercase tracking-wider transition-colors ${listView === view ? 'text-zinc-700 dark:text-zinc-300' : 'text-zinc-400 dark:text-zinc-600 hover:text-zinc-600 dark:hover:text-zinc-400'}`}
+                        >
+                            {view === 'plans' ? 'Saved Schedules' : `Templates (${templates.length})`}
+                        </button>
+                    ))}
+                </div>
 
-                <div className="flex-1 overflow-y-auto space-y-2 min-h-[200px]">
-                    {isLoading ? (
-                        <div className="text-center py-8 text-zinc-500">Loading schedules...</div>
-                    ) : plans.length === 0 ? (
-                        <div className="text-center py-8 text-zinc-500 flex flex-col items-center gap-2">
-                            <FolderOpen size={32} className="opacity-20" />
-                            <p>No saved schedules yet.</p>
+                {historyPlan ? (
+                    <PlanRevisionsView
+                        plan={historyPlan}
+                        onBack={() => setHistoryPlan(null)}
+                        onRestored={handleRestored}
+                    />
+                ) : listView === 'templates' ? (
+                    <div className="flex-1 overflow-y-auto space-y-2 min-h-[200px]">
+                        {/* Save Current as Template */}
+                        <div className="p-3 rounded-lg border border-dashed border-zinc-300 dark:border-white/10 space-y-2">
+                            <div className="flex gap-2">
+                                <input
+                                    value={templateName}
+                                    onChange={(e) => setTemplateName(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleSaveTemplate(); }}
+                                    placeholder="Template Name (e.g. Sunday Morning)"
+                                    className="flex-1 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-white/10 rounded-lg px-3 py-1.5 text-sm text-zinc-900 dark:text-white focus:border-indigo-500 outline-none"
+                                />
+                                <button
+                                    onClick={handleSaveTemplate}
+                                    disabled={!templateName.trim()}
+                                    className="px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-40"
+                                >
+                                    <Plus size={14} /> Save Current as Template
+                                </button>
+                            </div>
+                            <div className="flex items-center gap-3 text-[10px] text-zinc-500">
+                                <span>Leave as empty slots:</span>
+                                {(Object.keys(PLACEHOLDER_LABELS) as PlaceholderType[]).map(type => (
+                                    <label key={type} className="flex items-center gap-1 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={slotTypes.includes(type)}
+                                            onChange={(e) => setSlotTypes(prev => e.target.checked ? [...prev, type] : prev.filter(t => t !== type))}
+                                            className="accent-indigo-500"
+                                        />
+                                        {PLACEHOLDER_LABELS[type]}s
+                                    </label>
+                                ))}
+                            </div>
                         </div>
-                    ) : (
-                        plans.map(plan => (
-                            <div key={plan.id} className="flex items-center justify-between p-3 rounded-lg bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-200 dark:border-white/5 hover:border-indigo-500/30 transition-colors group">
-                                <div className="flex-1 min-w-0 mr-4">
-                                    {editingId === plan.id ? (
-                                        <div className="flex items-center gap-2">
-                                            <input
-                                                value={editName}
-                                                onChange={(e) => setEditName(e.target.value)}
-                                                className="flex-1 bg-white dark:bg-black border border-indigo-500 rounded px-2 py-1 text-sm text-zinc-900 dark:text-white outline-none"
-                                                autoFocus
-                                                onKeyDown={(e) => {
-                                                    if (e.key === 'Enter') saveEditing(plan);
-                                                    if (e.key === 'Escape') cancelEditing();
-                                                }}
-                                            />
-                                            <button onClick={() => saveEditing(plan)} className="p-1.5 bg-green-500 text-white rounded hover:bg-green-600">
-                                                <Check size={14} />
+
+                        {templates.length === 0 ? (
+                            <div className="text-center py-8 text-zinc-500 flex flex-col items-center gap-2">
+                                <LayoutTemplate size={32} className="opacity-20" />
+                                <p>No templates yet.</p>
+                            </div>
+                        ) : (
+                            templates.map(template => {
+                                const slots = template.items.filter(i => i.placeholder).length;
+                                return (
+                                    <div key={template.id} className="flex items-center justify-between p-3 rounded-lg bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-200 dark:border-white/5 hover:border-indigo-500/30 transition-colors group">
+                                        <div className="flex-1 min-w-0 mr-4">
+                                            <h5 className="font-bold text-zinc-900 dark:text-white truncate">{template.name}</h5>
+                                            <div className="flex items-center gap-3 text-[10px] text-zinc-500 mt-1">
+                                                <span className="flex items-center gap-1"><FileText size={10} /> {template.items.length} items</span>
+                                                <span className="text-amber-500">{slots} empty slots</span>
+                                                <span className="truncate">{template.items.map(i => i.title).join(' · ')}</span>
+                                            </div>
+                                        </div>
+                                        <div className="flex items-center gap-2 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                                            <button
+                                                onClick={() => handleNewFromTemplate(template)}
+                                                className="px-3 py-1.5 bg-zinc-200 dark:bg-zinc-800 hover:bg-indigo-600 hover:text-white text-zinc-700 dark:text-zinc-300 text-xs font-bold rounded transition-colors whitespace-nowrap"
+                                            >
+                                                New Plan
                                             </button>
-                                            <button onClick={cancelEditing} className="p-1.5 bg-zinc-200 dark:bg-zinc-800 text-zinc-500 rounded hover:bg-zinc-300 dark:hover:bg-zinc-700">
-                                                <X size={14} />
+                                            <button
+                                                onClick={() => handleDeleteTemplate(template)}
+                                                className="p-1.5 text-zinc-400 hover:text-red-500 transition-colors"
+                                                title="Delete Template"
+                                            >
+                                                <Trash2 size={16} />
                                             </button>
                                         </div>
-                                    ) : (
-                                        <>
-                                            <div className="flex items-center gap-2 group/title">
-                                                <h5
-                                                    className="font-bold text-zinc-900 dark:text-white truncate cursor-pointer hover:text-indigo-500 transition-colors"
-                                                    onClick={() => startEditing(plan)}
-                                                    title="Click to rename"
-                                                >
-                                                    {plan.name}
-                                                </h5>
-                                                <button
-                                                    onClick={() => startEditing(plan)}
-                                                    className="opacity-0 group-hover/title:opacity-100 p-1 text-zinc-400 hover:text-indigo-500 transition-all"
-                                                >
-                                                    <Pencil size={12} />
+                                    </div>
+                                );
+                            })
+                        )}
+                    </div>
+                ) : (
+                    <div className="flex-1 overflow-y-auto space-y-2 min-h-[200px]">
+                        {isLoading ? (
+                            <div className="text-center py-8 text-zinc-500">Loading schedules...</div>
+                        ) : plans.length === 0 ? (
+                            <div className="text-center py-8 text-zinc-500 flex flex-col items-center gap-2">
+                                <FolderOpen size={32} className="opacity-20" />
+                                <p>No saved schedules yet.</p>
+                            </div>
+                        ) : (
+                            plans.map(plan => (
+                                <div key={plan.id} className="flex items-center justify-between p-3 rounded-lg bg-zinc-50 dark:bg-zinc-900/50 border border-zinc-200 dark:border-white/5 hover:border-indigo-500/30 transition-colors group">
+                                    <div className="flex-1 min-w-0 mr-4">
+                                        {editingId === plan.id ? (
+                                            <div className="flex items-center gap-2">
+                                                <input
+                                                    value={editName}
+                                                    onChange={(e) => setEditName(e.target.value)}
+                                                    className="flex-1 bg-white dark:bg-black border border-indigo-500 rounded px-2 py-1 text-sm text-zinc-900 dark:text-white outline-none"
+                                                    autoFocus
+                                                    onKeyDown={(e) => {
+                                                        if (e.key === 'Enter') saveEditing(plan);
+                                                        if (e.key === 'Escape') cancelEditing();
+                                                    }}
+                                                />
+                                                <button onClick={() => saveEditing(plan)} className="p-1.5 bg-green-500 text-white rounded hover:bg-green-600">
+                                                    <Check size={14} />
+                                                </button>
+                                                <button onClick={cancelEditing} className="p-1.5 bg-zinc-200 dark:bg-zinc-800 text-zinc-500 rounded hover:bg-zinc-300 dark:hover:bg-zinc-700">
+                                                    <X size={14} />
                                                 </button>
                                             </div>
-                                            <div className="flex items-center gap-3 text-[10px] text-zinc-500 mt-1">
-                                                <span className="flex items-center gap-1"><Calendar size={10} /> {plan.date}</span>
-                                                <span className="flex items-center gap-1"><FileText size={10} /> {plan.items.length} items</span>
-                                                <span>• Last updated: {new Date(plan.updatedAt).toLocaleDateString()}</span>
-                                            </div>
-                                        </>
+                                        ) : (
+                                            <>
+                                                <div className="flex items-center gap-2 group/title">
+                                                    <h5
+                                                        className="font-bold text-zinc-900 dark:text-white truncate cursor-pointer hover:text-indigo-500 transition-colors"
+                                                        onClick={() => startEditing(plan)}
+                                                        title="Click to rename"
+                                                    >
+                                                        {plan.name}
+                                                    </h5>
+                                                    <button
+                                                        onClick={() => startEditing(plan)}
+                                                        className="opacity-0 group-hover/title:opacity-100 p-1 text-zinc-400 hover:text-indigo-500 transition-all"
+                                                    >
+                                                        <Pencil size={12} />
+                                                    </button>
+                                                </div>
+                                                <div className="flex items-center gap-3 text-[10px] text-zinc-500 mt-1">
+                                                    <span className="flex items-center gap-1"><Calendar size={10} /> {plan.date}</span>
+                                                    <span className="flex items-center gap-1"><FileText size={10} /> {plan.items.length} items</span>
+                                                    <span>• Last updated: {new Date(plan.updatedAt).toLocaleDateString()}</span>
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+
+                                    {editingId !== plan.id && (
+                                        <div className="flex items-center gap-2 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                                            <button
+                                                onClick={() => openRunSheet({ planId: plan.id })}
+                                                className="p-1.5 text-zinc-400 hover:text-indigo-500 transition-colors"
+                                                title="Print Run Sheet"
+                                            >
+                                                <Printer size={16} />
+                                            </button>
+                                            <button
+                                                onClick={() => setHistoryPlan(plan)}
+                                                className="p-1.5 text-zinc-400 hover:text-indigo-500 transition-colors"
+                                                title="Revision History"
+                                            >
+                                                <History size={16} />
+                                            </button>
+                                            <button
+                                                onClick={() => handleExport(plan)}
+                                                disabled={exportingId === plan.id}
+                                                className="p-1.5 text-zinc-400 hover:text-indigo-500 transition-colors disabled:opacity-40"
+                                                title={`Export as ${BUNDLE_EXTENSION} bundle`}
+                                            >
+                                                <Download size={16} />
+                                            </button>
+                                            <button
+                                                onClick={() => handleLoad(plan)}
+                                                className="px-3 py-1.5 bg-zinc-200 dark:bg-zinc-800 hover:bg-indigo-600 hover:text-white text-zinc-700 dark:text-zinc-300 text-xs font-bold rounded transition-colors"
+                                            >
+                                                Load
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(plan.id)}
+                                                className="p-1.5 text-zinc-400 hover:text-red-500 transition-colors"
+                                                title="Delete Plan"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
                                     )}
                                 </div>
+                            ))
+                        )}
+                    </div>
+                )}
 
-                                {editingId !== plan.id && (
-                                    <div className="flex items-center gap-2 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
-                                        <button
-                                            onClick={() => handleLoad(plan)}
-                                            className="px-3 py-1.5 bg-zinc-200 dark:bg-zinc-800 hover:bg-indigo-600 hover:text-white text-zinc-700 dark:text-zinc-300 text-xs font-bold rounded transition-colors"
-                                        >
-                                            Load
-                                        </button>
-                                        <button
-                                            onClick={() => handleDelete(plan.id)}
-                                            className="p-1.5 text-zinc-400 hover:text-red-500 transition-colors"
-                                            title="Delete Plan"
-                                        >
-                                            <Trash2 size={16} />
-                                        </button>
-                                    </div>
-                                )}
-                            </div>
-                        ))
-                    )}
-                </div>
+                {importMessage && (
+                    <div className="mt-4 p-3 bg-green-500/10 border border-green-500/20 rounded-lg flex items-center gap-2 text-green-600 dark:text-green-400 text-sm">
+                        <Check size={16} />
+                        {importMessage}
+                    </div>
+                )}
+
+                {unsupportedItems.length > 0 && (
+                    <div className="mt-2 p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs text-amber-700 dark:text-amber-400 space-y-1 max-h-32 overflow-y-auto">
+                        {unsupportedItems.map((item, i) => (
+                            <p key={i}><span className="font-bold">{item.title}</span>: {item.reason}</p>
+                        ))}
+                    </div>
+                )}
 
                 {error && (
                     <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2 text-red-500 text-sm">
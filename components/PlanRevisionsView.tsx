@@ -0,0 +1,205 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { ArrowLeft, History, RotateCcw, Plus, Minus, ArrowUpDown, Pencil, User } from 'lucide-react';
+import { SavedPlan, PlanRevision, ServiceSchedule, getPlanRevisions, restorePlanRevision, getEditorName, setEditorName } from '@/utils/scheduleManager';
+import { diffPlans, isEmptyDiff } from '@/utils/planDiff';
+
+interface PlanRevisionsViewProps {
+    plan: SavedPlan;
+    onBack: () => void;
+    onRestored: (schedule: ServiceSchedule) => void;
+}
+
+const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Slides can hold HTML or data URLs; show a short readable line
+const previewText = (content?: string) => {
+    if (!content) return '';
+    if (content.startsWith('data:')) return '(media)';
+    const text = content.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+export default function PlanRevisionsView({ plan, onBack, onRestored }: PlanRevisionsViewProps) {
+    const [revisions, setRevisions] = useState<PlanRevision[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [compareId, setCompareId] = useState<string | null>(null);
+    const [editorName, setEditorNameState] = useState('');
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    const loadRevisions = async () => {
+        const loaded = await getPlanRevisions(plan.id);
+        setRevisions(loaded);
+        setSelectedId(loaded[0]?.id || null);
+        setCompareId(loaded[1]?.id || null);
+    };
+
+    useEffect(() => {
+        setEditorNameState(getEditorName());
+        loadRevisions();
+    }, [plan.id]);
+
+    const selected = revisions.find(r => r.id === selectedId) || null;
+    const compare = revisions.find(r => r.id === compareId) || null;
+
+    // Always read the diff from the older revision to the newer one
+    const [older, newer] = selected && compare && compare.savedAt > selected.savedAt ? [selected, compare] : [compare, selected];
+    const diff = older && newer ? diffPlans(older.items, newer.items) : null;
+
+    const selectRevision = (revision: PlanRevision) => {
+        setSelectedId(revision.id);
+        // Default comparison: the revision saved just before it
+        const index = revisions.indexOf(revision);
+        setCompareId(revisions[index + 1]?.id || null);
+    };
+
+    const handleRestore = async (revision: PlanRevision) => {
+        if (!confirm(`Restore "${revision.name}" as it was on ${formatTime(revision.savedAt)}? The current version stays in the history.`)) return;
+        setIsRestoring(true);
+        try {
+            const schedule = await restorePlanRevision(revision);
+            await loadRevisions();
+            onRestored(schedule);
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    return (
+        <div className="flex-1 flex flex-col min-h-[200px] overflow-hidden">
+            <div className="flex items-center justify-between gap-3 mb-3">
+                <button onClick={onBack} className="flex items-center gap-2 text-sm font-bold text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-colors min-w-0">
+                    <ArrowLeft size={16} />
+                    <span className="truncate">History · {plan.name}</span>
+                </button>
+                <label className="flex items-center gap-2 text-[10px] text-zinc-500 shrink-0" title="Shown next to revisions saved from this computer">
+                    <User size={12} />
+                    <input
+                        value={editorName}
+                        onChange={(e) => setEditorNameState(e.target.value)}
+                        onBlur={() => setEditorName(editorName)}
+                        placeholder="Your name"
+                        className="w-28 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-white/10 rounded px-2 py-1 text-xs text-zinc-900 dark:text-white focus:border-indigo-500 outline-none"
+                    />
+                </label>
+            </div>
+
+            {revisions.length === 0 ? (
+                <div className="text-center py-8 text-zinc-500 flex flex-col items-center gap-2">
+                    <History size={32} className="opacity-20" />
+                    <p>No revisions yet. One is kept every time this schedule is saved.</p>
+                </div>
+            ) : (
+                <div className="flex-1 flex gap-3 min-h-0">
+                    {/* Revision List */}
+                    <div className="w-56 shrink-0 overflow-y-auto space-y-1 pr-1">
+                        {revisions.map((revision, index) => (
+                            <div
+                                key={revision.id}
+                                onClick={() => selectRevision(revision)}
+                                className={`p-2 rounded-lg border cursor-pointer transition-colors group ${revision.id === selectedId
+                                    ? 'bg-indigo-500/10 border-indigo-500/40'
+                                    : revision.id === compareId
+                                        ? 'bg-zinc-100 dark:bg-white/5 border-dashed border-zinc-300 dark:border-white/20'
+                                        : 'bg-zinc-50 dark:bg-zinc-900/50 border-zinc-200 dark:border-white/5 hover:border-indigo-500/30'}`}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-xs font-bold text-zinc-900 dark:text-white">{formatTime(revision.savedAt)}</span>
+                                    {index === 0 ? (
+                                        <span className="text-[9px] font-bold text-green-500 uppercase">Current</span>
+                                    ) : (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleRestore(revision); }}
+                                            disabled={isRestoring}
+                                            className="p-1 text-zinc-400 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-all"
+                                            title="Restore this revision"
+                                        >
+                                            <RotateCcw size={12} />
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="text-[10px] text-zinc-500 truncate">
+                                    {revision.author || 'Unknown'} · {revision.items.length} items
+                                    {revision.restoredFrom && ` · restored from ${formatTime(revision.restoredFrom)}`}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Diff */}
+                    <div className="flex-1 overflow-y-auto rounded-lg border border-zinc-200 dark:border-white/5 p-3 min-w-0">
+                        {selected && (
+                            <div className="flex items-center gap-2 mb-3 text-[10px] text-zinc-500">
+                                <span>Compare with</span>
+                                <select
+                                    value={compareId || ''}
+                                    onChange={(e) => setCompareId(e.target.value || null)}
+                                    className="bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-white/10 rounded px-2 py-1 text-xs text-zinc-900 dark:text-white outline-none"
+                                >
+                                    <option value="">Nothing</option>
+                                    {revisions.filter(r => r.id !== selected.id).map(r => (
+                                        <option key={r.id} value={r.id}>{formatTime(r.savedAt)}{r.author ? ` · ${r.author}` : ''}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        {!diff ? (
+                            <div className="space-y-1">
+                                {selected?.items.map((item, i) => (
+                                    <div key={item.id} className="text-xs text-zinc-600 dark:text-zinc-400 truncate">
+                                        <span className="font-mono text-zinc-400 mr-2">{i + 1}.</span>{item.title}
+                                    </div>
+                                ))}
+                            </div>
+                        ) : isEmptyDiff(diff) ? (
+                            <p className="text-xs text-zinc-500 text-center py-6">
+                                {older!.name !== newer!.name || older!.date !== newer!.date ? 'Only the name or date changed.' : 'No differences.'}
+                            </p>
+                        ) : (
+                            <div className="space-y-3 text-xs">
+                                {older!.name !== newer!.name && (
+                                    <p className="text-zinc-500">Renamed from &quot;{older!.name}&quot; to &quot;{newer!.name}&quot;</p>
+                                )}
+                                {diff.added.map(item => (
+                                    <div key={`add-${item.id}`} className="flex items-center gap-2 text-green-600 dark:text-green-400">
+                                        <Plus size={12} className="shrink-0" /> <span className="truncate">Added {item.title}</span>
+                                    </div>
+                                ))}
+                                {diff.removed.map(item => (
+                                    <div key={`rm-${item.id}`} className="flex items-center gap-2 text-red-500">
+                                        <Minus size={12} className="shrink-0" /> <span className="truncate">Removed {item.title}</span>
+                                    </div>
+                                ))}
+                                {diff.moved.map(({ item, from, to }) => (
+                                    <div key={`mv-${item.id}`} className="flex items-center gap-2 text-amber-600 dark:text-amber-400">
+                                        <ArrowUpDown size={12} className="shrink-0" /> <span className="truncate">Moved {item.title} from #{from + 1} to #{to + 1}</span>
+                                    </div>
+                                ))}
+                                {diff.changed.map(change => (
+                                    <div key={`ch-${change.item.id}`} className="space-y-1">
+                                        <div className="flex items-center gap-2 text-indigo-500 dark:text-indigo-400">
+                                            <Pencil size={12} className="shrink-0" />
+                                            <span className="truncate">
+                                                {change.titleBefore ? `Renamed "${change.titleBefore}" to "${change.item.title}"` : `Edited ${change.item.title}`}
+                                            </span>
+                                        </div>
+                                        {change.slides.map(slide => (
+                                            <div key={slide.index} className="ml-5 pl-2 border-l border-zinc-200 dark:border-white/10 text-[11px]">
+                                                <span className="text-zinc-400 font-mono">Slide {slide.index + 1}</span>
+                                                {slide.before !== undefined && <div className="text-red-500 line-through truncate">{previewText(slide.before)}</div>}
+                                                {slide.after !== undefined && <div className="text-green-600 dark:text-green-400 truncate">{previewText(slide.after)}</div>}
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
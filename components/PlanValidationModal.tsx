@@ -0,0 +1,128 @@
+"use client";
+
+import { X, ClipboardCheck, AlertCircle, AlertTriangle, CheckCircle, RefreshCw, Monitor, Play } from 'lucide-react';
+import { ServiceSchedule } from '@/utils/scheduleManager';
+import { PlanReport, PlanIssue, ISSUE_KIND_LABELS } from '@/utils/planValidator';
+
+interface PlanValidationModalProps {
+    schedule: ServiceSchedule;
+    report: PlanReport | null;
+    onRecheck: () => void;
+    onClose: () => void;
+    onGoLive?: () => void; // Set when the report was opened by going live
+}
+
+export default function PlanValidationModal({ schedule, report, onRecheck, onClose, onGoLive }: PlanValidationModalProps) {
+    const issues = report?.issues || [];
+    const errorCount = issues.filter(i => i.severity === 'error').length;
+    const warningCount = issues.length - errorCount;
+
+    // Plan-wide issues first, then one group per item in plan order
+    const groups: { key: string; title: string; issues: PlanIssue[] }[] = [];
+    const planWide = issues.filter(i => !i.itemId);
+    if (planWide.length > 0) groups.push({ key: 'plan', title: ISSUE_KIND_LABELS.display, issues: planWide });
+    schedule.items.forEach((item, index) => {
+        const itemIssues = issues.filter(i => i.itemId === item.id);
+        if (itemIssues.length > 0) groups.push({ key: item.id, title: `${index + 1}. ${item.title}`, issues: itemIssues });
+    });
+
+    return (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300" onClick={onClose}>
+            <div
+                className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 rounded-3xl w-full max-w-xl max-h-[80vh] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-300"
+                onClick={e => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="p-6 border-b border-zinc-200 dark:border-white/5 bg-gradient-to-br from-indigo-600/5 dark:from-indigo-600/10 to-transparent shrink-0">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h2 className="text-xl font-black text-zinc-900 dark:text-white flex items-center gap-3 tracking-tight">
+                                <ClipboardCheck className="text-indigo-400" /> Plan Check
+                            </h2>
+                            <p className="text-xs text-zinc-400 mt-1 uppercase tracking-widest font-bold opacity-60 truncate">
+                                {schedule.name}
+                                {issues.length > 0 && ` · ${errorCount} ${errorCount === 1 ? 'problem' : 'problems'}, ${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`}
+                            </p>
+                        </div>
+                        <button onClick={onClose} className="p-2 hover:bg-zinc-100 dark:hover:bg-white/5 rounded-full text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors">
+                            <X size={20} />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Issues */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                    {issues.length === 0 && (
+                        <div className="text-center py-8 text-zinc-500 flex flex-col items-center gap-2">
+                            {report?.complete ? (
+                                <>
+                                    <CheckCircle size={32} className="text-green-500" />
+                                    <p className="text-sm">Everything checks out.</p>
+                                </>
+                            ) : (
+                                <>
+                                    <RefreshCw size={24} className="animate-spin opacity-40" />
+                                    <p className="text-sm">Checking media, scripture and displays...</p>
+                                </>
+                            )}
+                        </div>
+                    )}
+                    {groups.map(group => (
+                        <div key={group.key}>
+                            <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-[0.2em] mb-1 flex items-center gap-2 truncate">
+                                {group.key === 'plan' && <Monitor size={12} />} {group.title}
+                            </h3>
+                            <div className="space-y-1">
+                                {group.issues.map(issue => (
+                                    <div key={issue.id} className="flex items-start gap-2 text-xs">
+                                        {issue.severity === 'error'
+                                            ? <AlertCircle size={14} className="text-red-500 shrink-0 mt-px" />
+                                            : <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-px" />}
+                                        <span className="text-zinc-700 dark:text-zinc-300 flex-1">{issue.message}</span>
+                                        <span className="text-[9px] font-bold uppercase text-zinc-400 shrink-0">{ISSUE_KIND_LABELS[issue.kind]}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                    {issues.length > 0 && report && !report.complete && (
+                        <p className="text-[10px] text-zinc-500 flex items-center gap-2">
+                            <RefreshCw size={10} className="animate-spin" /> Still checking media, scripture and displays...
+                        </p>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-4 border-t border-zinc-200 dark:border-white/5 flex items-center gap-2 shrink-0">
+                    <button
+                        onClick={onRecheck}
+                        className="flex items-center gap-2 px-3 py-2 text-xs font-bold text-zinc-500 hover:text-indigo-500 transition-colors"
+                    >
+                        <RefreshCw size={12} /> Check Again
+                    </button>
+                    <div className="flex-1" />
+                    {onGoLive ? (
+                        <>
+                            <button onClick={onClose} className="px-4 py-2 text-xs font-bold text-zinc-500 hover:text-zinc-900 dark:hover:text-white">
+                                Cancel
+                            </button>
+                            <button
+                                onClick={onGoLive}
+                                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-lg"
+                            >
+                                <Play size={12} /> {issues.length > 0 ? 'Go Live Anyway' : 'Go Live'}
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            onClick={onClose}
+                            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-lg"
+                        >
+                            Done
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -2,8 +2,12 @@
 
 import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { X, ChevronLeft, ChevronRight, Image as ImageIcon, Trash2, Upload, Edit } from 'lucide-react';
+import { X, ChevronLeft, ChevronRight, Image as ImageIcon, Trash2, Upload, Edit, Layers, Timer } from 'lucide-react';
 import { ScheduleItem } from '@/utils/scheduleManager';
+import { AutoAdvanceEnd, DEFAULT_AUTO_ADVANCE, END_BEHAVIOR_LABELS, MIN_SLIDE_DURATION, totalDurationMs } from '@/utils/autoAdvance';
+import { applyRehearsalTimings, hasUsableRehearsal } from '@/utils/rehearsal';
+import { applyArrangement } from '@/utils/arrangements';
+import TransitionSettings from './TransitionSettings';
 
 /**
  * Render formatted text with allowed HTML tags (b, i, span with color style)
@@ -55,6 +59,8 @@ export default function PreviewModal({
 }: PreviewModalProps) {
     const [selectedSlideIndex, setSelectedSlideIndex] = useState(0);
     const [showBackgroundPicker, setShowBackgroundPicker] = useState(false);
+    const [showTransitionPicker, setShowTransitionPicker] = useState(false);
+    const [showTimingEditor, setShowTimingEditor] = useState(false);
     const [mounted, setMounted] = useState(false);
 
     useEffect(() => {
@@ -94,6 +100,18 @@ export default function PreviewModal({
         onSlideSelect(index);
     };
 
+    const autoAdvance = item.meta?.autoAdvance;
+
+    const setSlideDuration = (index: number, value: string) => {
+        const seconds = parseFloat(value);
+        onUpdateItem({
+            ...item,
+            slides: item.slides.map((slide, i) => i === index
+                ? { ...slide, duration: Number.isFinite(seconds) ? Math.max(MIN_SLIDE_DURATION, seconds) : undefined }
+                : slide)
+        });
+    };
+
     const handleGoLive = () => {
         onGoLive(selectedSlideIndex);
         onClose();
@@ -143,6 +161,19 @@ export default function PreviewModal({
                                 </button>
                             </div>
                         )}
+                        {item.type === 'song' && item.meta?.arrangements && item.meta.arrangements.length > 0 && (
+                            <select
+                                value={item.meta.arrangementId || ''}
+                                onChange={e => onUpdateItem(applyArrangement(item, e.target.value || null))}
+                                className="px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-lg text-xs font-medium text-zinc-300 outline-none mr-2"
+                                title="Arrangement for this plan"
+                            >
+                                <option value="">As Written</option>
+                                {item.meta.arrangements.map(a => (
+                                    <option key={a.id} value={a.id}>{a.name || 'Untitled'}</option>
+                                ))}
+                            </select>
+                        )}
                         {!isImage && item.type === 'song' && onEdit && (
                             <button
                                 onClick={onEdit}
@@ -160,6 +191,20 @@ export default function PreviewModal({
                             <ImageIcon size={14} />
                             Set Background
                         </button>
+                        <button
+                            onClick={() => setShowTransitionPicker(true)}
+                            className={`px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-lg text-xs font-medium flex items-center gap-2 ${item.meta?.transitions ? 'text-indigo-400' : 'text-zinc-300'}`}
+                        >
+                            <Layers size={14} />
+                            Transitions
+                        </button>
+                        <button
+                            onClick={() => setShowTimingEditor(true)}
+                            className={`px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-lg text-xs font-medium flex items-center gap-2 ${autoAdvance ? 'text-indigo-400' : 'text-zinc-300'}`}
+                        >
+                            <Timer size={14} />
+                            Timing
+                        </button>
                         <button onClick={onClose} className="p-2 hover:bg-zinc-100 dark:hover:bg-white/5 rounded-lg text-zinc-400 hover:text-zinc-900 dark:hover:text-white">
                             <X size={20} />
                         </button>
@@ -350,6 +395,149 @@ export default function PreviewModal({
                     </div>
                 </div>
             )}
+
+            {/* Transition Picker Modal */}
+            {showTransitionPicker && (
+                <div
+                    className="fixed inset-0 z-[300] bg-black/90 flex items-center justify-center"
+                    onClick={() => setShowTransitionPicker(false)}
+                >
+                    <div
+                        className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 rounded-xl p-6 w-96"
+                        onClick={e => e.stopPropagation()}
+                    >
+                        <h3 className="text-lg font-bold text-zinc-900 dark:text-white mb-4">Item Transitions</h3>
+                        <TransitionSettings
+                            inheritLabel="Theme Default"
+                            value={item.meta?.transitions}
+                            onChange={t => onUpdateItem({
+                                ...item,
+                                meta: { ...item.meta, transitions: Object.keys(t).length > 0 ? t : undefined }
+                            })}
+                        />
+                        <button
+                            onClick={() => setShowTransitionPicker(false)}
+                            className="w-full mt-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg"
+                        >
+                            Done
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Auto-Advance Timing Modal */}
+            {showTimingEditor && (
+                <div
+                    className="fixed inset-0 z-[300] bg-black/90 flex items-center justify-center"
+                    onClick={() => setShowTimingEditor(false)}
+                >
+                    <div
+                        className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 rounded-xl p-6 w-96 max-h-[80vh] flex flex-col"
+                        onClick={e => e.stopPropagation()}
+                    >
+                        <h3 className="text-lg font-bold text-zinc-900 dark:text-white mb-4">Auto-Advance</h3>
+
+                        <label className="flex items-center justify-between mb-4 cursor-pointer">
+                            <span className="text-sm text-zinc-700 dark:text-zinc-300">Advance slides automatically</span>
+                            <input
+                                type="checkbox"
+                                checked={!!autoAdvance}
+                                onChange={e => onUpdateItem({
+                                    ...item,
+                                    meta: { ...item.meta, autoAdvance: e.target.checked ? DEFAULT_AUTO_ADVANCE : undefined }
+                                })}
+                                className="accent-indigo-500 w-4 h-4"
+                            />
+                        </label>
+
+                        {/* Replay a recorded rehearsal as per-slide timings */}
+                        {item.meta?.rehearsal && (
+                            <div className="flex items-center justify-between gap-3 mb-4 px-3 py-2 rounded-lg bg-zinc-50 dark:bg-black/50 border border-zinc-200 dark:border-white/10">
+                                <span className="text-[10px] text-zinc-500">
+                                    {hasUsableRehearsal(item)
+                                        ? `Rehearsed ${new Date(item.meta.rehearsal.recordedAt).toLocaleDateString()} · ${Math.round(item.meta.rehearsal.durations.reduce((sum, d) => sum + d, 0))}s`
+                                        : 'Rehearsal no longer matches these slides'}
+                                </span>
+                                <button
+                                    onClick={() => onUpdateItem(applyRehearsalTimings(item))}
+                                    disabled={!hasUsableRehearsal(item)}
+                                    className="text-[10px] font-bold text-indigo-500 hover:text-indigo-400 disabled:opacity-30 disabled:pointer-events-none shrink-0"
+                                >
+                                    Use rehearsal timings
+                                </button>
+                            </div>
+                        )}
+
+                        {autoAdvance && (
+                            <>
+                                <div className="grid grid-cols-2 gap-3 mb-4">
+                                    <label className="space-y-1">
+                                        <span className="text-[10px] font-bold text-zinc-500 uppercase">Seconds per slide</span>
+                                        <input
+                                            type="number"
+                                            min={MIN_SLIDE_DURATION}
+                                            step={1}
+                                            value={autoAdvance.slideDuration}
+                                            onChange={e => onUpdateItem({
+                                                ...item,
+                                                meta: { ...item.meta, autoAdvance: { ...autoAdvance, slideDuration: Math.max(MIN_SLIDE_DURATION, parseFloat(e.target.value) || MIN_SLIDE_DURATION) } }
+                                            })}
+                                            className="w-full bg-zinc-50 dark:bg-black/50 border border-zinc-300 dark:border-white/10 rounded px-2 py-1.5 text-sm text-zinc-900 dark:text-white outline-none focus:border-indigo-500"
+                                        />
+                                    </label>
+                                    <label className="space-y-1">
+                                        <span className="text-[10px] font-bold text-zinc-500 uppercase">At the end</span>
+                                        <select
+                                            value={autoAdvance.endBehavior}
+                                            onChange={e => onUpdateItem({
+                                                ...item,
+                                                meta: { ...item.meta, autoAdvance: { ...autoAdvance, endBehavior: e.target.value as AutoAdvanceEnd } }
+                                            })}
+                                            className="w-full bg-zinc-50 dark:bg-black/50 border border-zinc-300 dark:border-white/10 rounded px-2 py-1.5 text-sm text-zinc-900 dark:text-white outline-none focus:border-indigo-500"
+                                        >
+                                            {(Object.keys(END_BEHAVIOR_LABELS) as AutoAdvanceEnd[]).map(end => (
+                                                <option key={end} value={end}>{END_BEHAVIOR_LABELS[end]}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                </div>
+
+                                {/* Per-slide overrides; blank uses the default above */}
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-[10px] font-bold text-zinc-500 uppercase">Per-slide seconds</span>
+                                    <span className="text-[10px] font-mono text-zinc-500">Total {Math.round(totalDurationMs(item) / 1000)}s</span>
+                                </div>
+                                <div className="flex-1 overflow-y-auto space-y-1 pr-1">
+                                    {item.slides.map((slide, idx) => (
+                                        <div key={slide.id} className="flex items-center gap-2">
+                                            <span className="w-6 text-[10px] font-bold text-zinc-500 text-right">{idx + 1}</span>
+                                            <span className="flex-1 text-xs text-zinc-600 dark:text-zinc-400 truncate">
+                                                {slide.label || (isImage ? `Slide ${idx + 1}` : slide.content.split('\n')[0])}
+                                            </span>
+                                            <input
+                                                type="number"
+                                                min={MIN_SLIDE_DURATION}
+                                                step={1}
+                                                value={slide.duration ?? ''}
+                                                placeholder={String(autoAdvance.slideDuration)}
+                                                onChange={e => setSlideDuration(idx, e.target.value)}
+                                                className="w-16 bg-zinc-50 dark:bg-black/50 border border-zinc-300 dark:border-white/10 rounded px-2 py-1 text-xs text-zinc-900 dark:text-white outline-none focus:border-indigo-500"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+
+                        <button
+                            onClick={() => setShowTimingEditor(false)}
+                            className="w-full mt-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg"
+                        >
+                            Done
+                        </button>
+                    </div>
+                </div>
+            )}
         </div>,
         document.body
     );
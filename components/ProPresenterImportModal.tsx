@@ -0,0 +1,405 @@
+"use client";
+
+import { useState, useRef } from 'react';
+import { X, Upload, Music, Check, AlertCircle, Presentation, FolderOpen, Loader2, Search, ListMusic } from 'lucide-react';
+import { ResourceItem, getResources, saveResourcesBatch } from '@/utils/resourceLibrary';
+import { savePlan } from '@/utils/scheduleManager';
+import { readProPresenterFiles, pp6SongToResourceItem, pp6PlaylistToSchedule, PP6ParsedSong, PP6Playlist, PP6ImportProgress, PP6ReadResult, PROPRESENTER_FILE, PROPRESENTER_PLAYLIST_FILE } from '@/utils/propresenter';
+
+interface ProPresenterImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onImportComplete: (importedCount: number) => void;
+}
+
+type ImportPhase = 'select-files' | 'preview' | 'importing' | 'complete';
+
+// Folder pickers aren't in React's input attribute types
+const FOLDER_INPUT_PROPS = { webkitdirectory: '', directory: '' } as Record<string, string>;
+
+export default function ProPresenterImportModal({ isOpen, onClose, onImportComplete }: ProPresenterImportModalProps) {
+    const [files, setFiles] = useState<File[]>([]);
+    const [parsedSongs, setParsedSongs] = useState<PP6ParsedSong[]>([]);
+    const [playlists, setPlaylists] = useState<PP6Playlist[]>([]);
+    const [failedFiles, setFailedFiles] = useState<PP6ReadResult['failed']>([]);
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+    const [phase, setPhase] = useState<ImportPhase>('select-files');
+    const [progress, setProgress] = useState<PP6ImportProgress | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [duplicateIds, setDuplicateIds] = useState<Set<number>>(new Set());
+    const [importedCount, setImportedCount] = useState(0);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [savingProgress, setSavingProgress] = useState<{ saved: number; total: number } | null>(null);
+    const [savedPlanCount, setSavedPlanCount] = useState(0);
+
+    const filesInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+
+    if (!isOpen) return null;
+
+    const handleScanFiles = async () => {
+        if (files.length === 0) {
+            setError('Please select .pro6 documents, .pro6plx playlists or a folder');
+            return;
+        }
+        setError(null);
+
+        try {
+            const result = await readProPresenterFiles(files, setProgress);
+
+            if (result.songs.length === 0 && result.playlists.length === 0) {
+                setError(result.failed.length > 0
+                    ? `None of the ${result.failed.length} files could be read as ProPresenter documents.`
+                    : 'No .pro6 or .pro6plx files found. Make sure you selected ProPresenter 6 documents or playlist exports.');
+                setProgress(null);
+                return;
+            }
+
+            // Duplicate detection
+            const existing = await getResources();
+            const titleSet = new Set(
+                existing.filter(r => r.category === 'song').map(r => r.title.toLowerCase().trim())
+            );
+
+            const dupes = new Set<number>();
+            const nonDuplicates = new Set<number>();
+            result.songs.forEach((song, index) => {
+                if (titleSet.has(song.title.toLowerCase().trim())) {
+                    dupes.add(index);
+                } else {
+                    nonDuplicates.add(index);
+                }
+            });
+
+            setParsedSongs(result.songs);
+            setPlaylists(result.playlists);
+            setFailedFiles(result.failed);
+            setSelectedIds(nonDuplicates);
+            setDuplicateIds(dupes);
+            setProgress(null);
+            setPhase('preview');
+        } catch (e: any) {
+            setError(`Failed to read files: ${e.message}`);
+            setProgress(null);
+        }
+    };
+
+    const handleImportSelected = async () => {
+        const toImport = parsedSongs.filter((_, index) => selectedIds.has(index));
+        if (toImport.length === 0 && playlists.length === 0) return;
+
+        setPhase('importing');
+        setError(null);
+
+        try {
+            const items: ResourceItem[] = toImport.map(pp6SongToResourceItem);
+            await saveResourcesBatch(items, (saved, total) => {
+                setSavingProgress({ saved, total });
+            });
+
+            // Playlists become saved plans, with each song in its cued arrangement
+            for (const playlist of playlists) {
+                await savePlan(pp6PlaylistToSchedule(playlist));
+            }
+
+            setImportedCount(items.length);
+            setSavedPlanCount(playlists.length);
+            setSavingProgress(null);
+            setPhase('complete');
+        } catch (e: any) {
+            setError(`Import failed: ${e.message}`);
+            setPhase('preview');
+        }
+    };
+
+    const handleToggleSelect = (index: number) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(index)) next.delete(index);
+            else next.add(index);
+            return next;
+        });
+    };
+
+    const handleSelectAll = () => setSelectedIds(new Set(parsedSongs.map((_, index) => index)));
+    const handleDeselectAll = () => setSelectedIds(new Set());
+
+    const handleClose = () => {
+        if (phase === 'importing') return;
+        if (phase === 'complete') onImportComplete(importedCount);
+        setFiles([]);
+        setParsedSongs([]);
+        setPlaylists([]);
+        setFailedFiles([]);
+        setSelectedIds(new Set());
+        setDuplicateIds(new Set());
+        setPhase('select-files');
+        setProgress(null);
+        setSavingProgress(null);
+        setError(null);
+        setImportedCount(0);
+        setSavedPlanCount(0);
+        setSearchQuery('');
+        onClose();
+    };
+
+    const filteredSongs = parsedSongs
+        .map((song, index) => ({ song, index }))
+        .filter(({ song }) => !searchQuery
+            || song.title.toLowerCase().includes(searchQuery.toLowerCase())
+            || song.author.toLowerCase().includes(searchQuery.toLowerCase()));
+
+    const docCount = files.filter(f => PROPRESENTER_FILE.test(f.name)).length;
+    const playlistCount = files.filter(f => PROPRESENTER_PLAYLIST_FILE.test(f.name)).length;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+            <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 rounded-2xl w-full max-w-2xl mx-4 shadow-2xl flex flex-col max-h-[90vh]">
+                {/* Header */}
+                <div className="flex items-center justify-between p-6 border-b border-zinc-200 dark:border-white/10 rounded-t-2xl">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-indigo-600/20 rounded-lg">
+                            <Presentation className="w-5 h-5 text-indigo-400" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-zinc-900 dark:text-white">Import from ProPresenter</h2>
+                            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                {phase === 'select-files' && 'ProPresenter 6 songs and playlists'}
+                                {phase === 'preview' && `${parsedSongs.length} songs found • ${selectedIds.size} selected`}
+                                {phase === 'importing' && 'Importing songs...'}
+                                {phase === 'complete' && `${importedCount} songs imported successfully`}
+                            </p>
+                        </div>
+                    </div>
+                    {phase !== 'importing' && (
+                        <button onClick={handleClose} className="p-2 hover:bg-zinc-100 dark:hover:bg-white/10 rounded-lg transition-colors">
+                            <X className="w-5 h-5 text-zinc-500 dark:text-zinc-400" />
+                        </button>
+                    )}
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 overflow-y-auto p-6">
+                    {/* Phase: Select Files */}
+                    {phase === 'select-files' && (
+                        <div className="space-y-4">
+                            <div className="p-4 bg-indigo-50 dark:bg-indigo-500/10 border border-indigo-200 dark:border-indigo-500/20 rounded-xl text-sm text-indigo-700 dark:text-indigo-300">
+                                <p className="font-bold mb-1">Where to find your files (ProPresenter 6):</p>
+                                <p className="text-xs opacity-75">Songs are .pro6 documents in your ProPresenter library folder (Documents/ProPresenter6 by default). For a playlist, right-click it in ProPresenter, choose Export Playlist and pick the .pro6plx file here; it becomes a saved schedule.</p>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-3">
+                                {/* Files / zip picker */}
+                                <div
+                                    onClick={() => filesInputRef.current?.click()}
+                                    className="border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-all border-zinc-300 dark:border-zinc-700 hover:border-indigo-500/50 bg-white dark:bg-zinc-900/50"
+                                >
+                                    <Upload className="w-8 h-8 mx-auto mb-2 text-zinc-400" />
+                                    <p className="font-bold text-zinc-600 dark:text-zinc-300">Files</p>
+                                    <p className="text-xs text-zinc-500 mt-1">One or more .pro6 songs or .pro6plx playlists</p>
+                                    <input ref={filesInputRef} type="file" multiple accept=".pro6,.pro5,.pro6plx,.zip" className="hidden" onChange={e => setFiles(Array.from(e.target.files || []))} />
+                                </div>
+
+                                {/* Folder picker */}
+                                <div
+                                    onClick={() => folderInputRef.current?.click()}
+                                    className="border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-all border-zinc-300 dark:border-zinc-700 hover:border-indigo-500/50 bg-white dark:bg-zinc-900/50"
+                                >
+                                    <FolderOpen className="w-8 h-8 mx-auto mb-2 text-zinc-400" />
+                                    <p className="font-bold text-zinc-600 dark:text-zinc-300">Folder</p>
+                                    <p className="text-xs text-zinc-500 mt-1">Every .pro6 song in your library folder</p>
+                                    <input ref={folderInputRef} type="file" multiple className="hidden" {...FOLDER_INPUT_PROPS} onChange={e => setFiles(Array.from(e.target.files || []))} />
+                                </div>
+                            </div>
+
+                            {files.length > 0 && (
+                                <div className="flex items-center justify-center gap-2 p-3 rounded-xl border border-green-500/50 bg-green-50 dark:bg-green-500/10 text-green-600 dark:text-green-400 text-sm">
+                                    <Check size={16} />
+                                    <span className="font-bold">
+                                        {docCount} document{docCount !== 1 ? 's' : ''}{playlistCount > 0 && `, ${playlistCount} playlist${playlistCount !== 1 ? 's' : ''}`}
+                                    </span>
+                                </div>
+                            )}
+
+                            {progress && (
+                                <div className="flex items-center gap-3 text-sm text-zinc-500">
+                                    <Loader2 className="w-4 h-4 animate-spin text-indigo-400" />
+                                    {progress.phase === 'reading' && `Reading file ${progress.current}/${progress.total}: ${progress.currentTitle || ''}`}
+                                    {progress.phase === 'parsing' && `Parsing song ${progress.current}/${progress.total}: ${progress.currentTitle || ''}`}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Phase: Preview */}
+                    {phase === 'preview' && (
+                        <div className="space-y-3">
+                            {/* Controls */}
+                            <div className="flex items-center gap-2">
+                                <div className="flex-1 relative">
+                                    <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" />
+                                    <input
+                                        type="text"
+                                        placeholder="Search songs..."
+                                        value={searchQuery}
+                                        onChange={e => setSearchQuery(e.target.value)}
+                                        className="w-full bg-zinc-100 dark:bg-zinc-800 border border-zinc-200 dark:border-white/10 rounded-lg pl-9 pr-3 py-2 text-sm text-zinc-900 dark:text-white placeholder:text-zinc-400 focus:outline-none focus:border-indigo-500"
+                                    />
+                                </div>
+                                <button onClick={handleSelectAll} className="px-3 py-2 text-xs font-bold text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 rounded-lg transition-colors">
+                                    Select All
+                                </button>
+                                <button onClick={handleDeselectAll} className="px-3 py-2 text-xs font-bold text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors">
+                                    Deselect
+                                </button>
+                            </div>
+
+                            {duplicateIds.size > 0 && (
+                                <div className="p-2 bg-amber-50 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/20 rounded-lg text-xs text-amber-700 dark:text-amber-300">
+                                    {duplicateIds.size} song{duplicateIds.size > 1 ? 's' : ''} already in your library (shown with yellow badge, deselected by default)
+                                </div>
+                            )}
+
+                            {failedFiles.length > 0 && (
+                                <div className="p-2 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-lg text-xs text-red-700 dark:text-red-300" title={failedFiles.map(f => `${f.fileName}: ${f.error}`).join('\n')}>
+                                    {failedFiles.length} file{failedFiles.length > 1 ? 's' : ''} skipped because {failedFiles.length > 1 ? 'they could' : 'it could'} not be read: {failedFiles.slice(0, 3).map(f => f.fileName).join(', ')}{failedFiles.length > 3 && '...'}
+                                </div>
+                            )}
+
+                            {playlists.length > 0 && (
+                                <div className="p-2 bg-indigo-50 dark:bg-indigo-500/10 border border-indigo-200 dark:border-indigo-500/20 rounded-lg text-xs text-indigo-700 dark:text-indigo-300 space-y-1">
+                                    {playlists.map((playlist, i) => (
+                                        <p key={i} className="flex items-center gap-2" title={playlist.skipped.map(cue => `${cue.title}: ${cue.reason}`).join('\n')}>
+                                            <ListMusic size={12} className="flex-shrink-0" />
+                                            <span><span className="font-bold">{playlist.name}</span> will be saved as a schedule ({playlist.cues.length} song{playlist.cues.length !== 1 ? 's' : ''}{playlist.skipped.length > 0 && `, ${playlist.skipped.length} cue${playlist.skipped.length !== 1 ? 's' : ''} not supported`})</span>
+                                        </p>
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* Song List */}
+                            <div className="max-h-[45vh] overflow-y-auto space-y-1 rounded-xl border border-zinc-200 dark:border-white/5 bg-zinc-50 dark:bg-zinc-950/50 p-2">
+                                {filteredSongs.map(({ song, index }) => {
+                                    const isDuplicate = duplicateIds.has(index);
+                                    const isSelected = selectedIds.has(index);
+                                    const slideCount = song.groups.reduce((count, group) => count + group.slides.length, 0);
+                                    return (
+                                        <div
+                                            key={index}
+                                            onClick={() => handleToggleSelect(index)}
+                                            className={`flex items-center gap-3 px-3 py-2.5 rounded-lg cursor-pointer transition-all ${isSelected
+                                                ? 'bg-indigo-50 dark:bg-indigo-500/10 border border-indigo-200 dark:border-indigo-500/20'
+                                                : 'hover:bg-white dark:hover:bg-zinc-800 border border-transparent'
+                                                }`}
+                                        >
+                                            <div className={`w-5 h-5 rounded flex items-center justify-center flex-shrink-0 ${isSelected ? 'bg-indigo-600 text-white' : 'bg-zinc-200 dark:bg-zinc-700'}`}>
+                                                {isSelected && <Check size={12} />}
+                                            </div>
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-sm font-medium text-zinc-900 dark:text-white truncate">{song.title}</p>
+                                                {song.author && <p className="text-xs text-zinc-500 truncate">{song.author}</p>}
+                                            </div>
+                                            <div className="flex items-center gap-2 flex-shrink-0">
+                                                {isDuplicate && (
+                                                    <span className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400">
+                                                        EXISTS
+                                                    </span>
+                                                )}
+                                                <span className="text-[10px] text-zinc-400">
+                                                    {slideCount} slide{slideCount !== 1 ? 's' : ''}
+                                                </span>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Phase: Importing */}
+                    {phase === 'importing' && (
+                        <div className="flex flex-col items-center justify-center py-12 space-y-4">
+                            <Loader2 className="w-12 h-12 animate-spin text-indigo-400" />
+                            <p className="text-sm text-zinc-500">
+                                {savingProgress
+                                    ? `Saving to library: ${savingProgress.saved} / ${savingProgress.total}`
+                                    : 'Preparing songs...'
+                                }
+                            </p>
+                            {savingProgress && (
+                                <div className="w-full max-w-xs bg-zinc-200 dark:bg-zinc-800 rounded-full h-2 overflow-hidden">
+                                    <div
+                                        className="h-full bg-indigo-600 rounded-full transition-all duration-300"
+                                        style={{ width: `${(savingProgress.saved / savingProgress.total) * 100}%` }}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Phase: Complete */}
+                    {phase === 'complete' && (
+                        <div className="flex flex-col items-center justify-center py-12 space-y-4">
+                            <div className="w-16 h-16 rounded-full bg-green-100 dark:bg-green-500/20 flex items-center justify-center">
+                                <Check className="w-8 h-8 text-green-600 dark:text-green-400" />
+                            </div>
+                            <div className="text-center">
+                                <p className="text-lg font-bold text-zinc-900 dark:text-white">{importedCount} Songs Imported</p>
+                                <p className="text-sm text-zinc-500 mt-1">
+                                    Your ProPresenter songs are now in your Creenly library
+                                    {savedPlanCount > 0 && ` and ${savedPlanCount} playlist${savedPlanCount !== 1 ? 's are' : ' is'} in the Schedule Manager`}
+                                </p>
+                            </div>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2 text-red-600 dark:text-red-400 text-sm">
+                            <AlertCircle size={16} />
+                            {error}
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-6 border-t border-zinc-200 dark:border-white/10 rounded-b-2xl flex justify-end gap-3">
+                    {phase === 'select-files' && (
+                        <>
+                            <button onClick={handleClose} className="px-4 py-2 text-sm text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors">
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleScanFiles}
+                                disabled={files.length === 0 || !!progress}
+                                className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors flex items-center gap-2"
+                            >
+                                <Presentation size={16} />
+                                Scan Files
+                            </button>
+                        </>
+                    )}
+                    {phase === 'preview' && (
+                        <>
+                            <button onClick={() => { setPhase('select-files'); setParsedSongs([]); setPlaylists([]); setFailedFiles([]); setProgress(null); }} className="px-4 py-2 text-sm text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors">
+                                Back
+                            </button>
+                            <button
+                                onClick={handleImportSelected}
+                                disabled={selectedIds.size === 0 && playlists.length === 0}
+                                className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors flex items-center gap-2"
+                            >
+                                <Music size={16} />
+                                Import {selectedIds.size} Song{selectedIds.size !== 1 ? 's' : ''}{playlists.length > 0 && ` + ${playlists.length} Playlist${playlists.length !== 1 ? 's' : ''}`}
+                            </button>
+                        </>
+                    )}
+                    {phase === 'complete' && (
+                        <button onClick={handleClose} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-lg transition-colors">
+                            Done
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { X, Smartphone, RefreshCw, Power, KeyRound, Wifi, Video } from 'lucide-react';
+
+interface RemoteControlModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+export default function RemoteControlModal({ isOpen, onClose }: RemoteControlModalProps) {
+    const [status, setStatus] = useState<RemoteServerStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const refreshStatus = async () => {
+        if (!window.electronAPI?.getRemoteServerStatus) return;
+        setStatus(await window.electronAPI.getRemoteServerStatus());
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        refreshStatus();
+        // Keep the connected-device count fresh while the modal is open
+        const interval = setInterval(refreshStatus, 3000);
+        return () => clearInterval(interval);
+    }, [isOpen]);
+
+    const handleToggle = async () => {
+        if (!window.electronAPI) return;
+        setBusy(true);
+        setError(null);
+        try {
+            if (status?.running) {
+                setStatus(await window.electronAPI.stopRemoteServer());
+                localStorage.setItem('remoteServerEnabled', 'false');
+            } else {
+                const result = await window.electronAPI.startRemoteServer();
+                setStatus(result);
+                if (result.success === false) {
+                    setError(result.error || 'Could not start the remote server');
+                } else {
+                    localStorage.setItem('remoteServerEnabled', 'true');
+                }
+            }
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleResetPin = async () => {
+        if (!window.electronAPI?.resetRemotePin) return;
+        setStatus(await window.electronAPI.resetRemotePin());
+    };
+
+    if (!isOpen) return null;
+
+    const isAvailable = !!window.electronAPI?.startRemoteServer;
+
+    return (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/60 backdrop-blur-md animate-in fade-in duration-300">
+            <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 rounded-3xl w-full max-w-lg shadow-2xl overflow-hidden animate-in zoom-in-95 duration-300">
+                {/* Header */}
+                <div className="p-8 border-b border-zinc-200 dark:border-white/5 bg-gradient-to-br from-indigo-600/5 dark:from-indigo-600/10 to-transparent">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h2 className="text-2xl font-black text-zinc-900 dark:text-white flex items-center gap-3 tracking-tight">
+                                <Smartphone className="text-indigo-400" /> Remote Control
+                            </h2>
+                            <p className="text-sm text-zinc-400 mt-1 uppercase tracking-widest font-bold opacity-60">Control From Your Phone</p>
+                        </div>
+                        <button onClick={onClose} className="p-2 hover:bg-zinc-100 dark:hover:bg-white/5 rounded-full text-zinc-400 hover:text-zinc-900 dark:hover:text-white transition-colors">
+                            <X size={24} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="p-8 space-y-6">
+                    {!isAvailable ? (
+                        <p className="text-sm text-zinc-500">The LAN remote is only available in the desktop app.</p>
+                    ) : (
+                        <>
+                            {/* Server Toggle */}
+                            <div className="flex items-center justify-between p-4 bg-indigo-600/5 border border-indigo-500/20 rounded-2xl">
+                                <div className="flex items-center gap-4">
+                                    <div className={`w-12 h-12 rounded-xl flex items-center justify-center ${status?.running ? 'bg-green-500/20 text-green-400' : 'bg-zinc-500/20 text-zinc-400'}`}>
+                                        <Wifi size={24} />
+                                    </div>
+                                    <div>
+                                        <h3 className="text-sm font-bold text-zinc-900 dark:text-white uppercase tracking-wider">
+                                            {status?.running ? 'Remote Server On' : 'Remote Server Off'}
+                                        </h3>
+                                        <p className="text-[10px] text-zinc-500 mt-0.5">
+                                            {status?.running ? `${status.clients} device${status.clients === 1 ? '' : 's'} connected` : 'Phones on this network can pair once it is on.'}
+                                        </p>
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={handleToggle}
+                                    disabled={busy}
+                                    className={`px-6 py-2.5 text-white text-[10px] font-black uppercase tracking-widest rounded-full shadow-lg transition-all hover:scale-105 active:scale-95 flex items-center gap-2 disabled:opacity-50 ${status?.running ? 'bg-red-600 hover:bg-red-500 shadow-red-500/20' : 'bg-indigo-600 hover:bg-indigo-500 shadow-indigo-500/20'}`}
+                                >
+                                    <Power size={12} /> {status?.running ? 'Stop' : 'Start'}
+                                </button>
+                            </div>
+
+                            {error && (
+                                <p className="text-xs text-red-500">{error}</p>
+                            )}
+
+                            {status?.running && (
+                                <>
+                                    {/* Pairing PIN */}
+                                    <div className="space-y-3">
+                                        <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-[0.2em] flex items-center gap-2">
+                                            <KeyRound size={12} className="text-indigo-400" /> Pairing PIN
+                                        </h3>
+                                        <div className="flex items-center justify-between p-4 rounded-xl bg-zinc-100 dark:bg-zinc-800/50 border border-zinc-200 dark:border-white/5">
+                                            <span className="text-3xl font-black tracking-[0.3em] text-zinc-900 dark:text-white font-mono">{status.pin}</span>
+                                            <button
+                                                onClick={handleResetPin}
+                                                className="p-2 rounded-lg text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-200 dark:hover:bg-white/10 transition-colors"
+                                                title="New PIN (disconnects paired devices)"
+                                            >
+                                                <RefreshCw size={16} />
+                                            </button>
+                                        </div>
+                                    </div>
+
+                                    {/* Addresses */}
+                                    <div className="space-y-3">
+                                        <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-[0.2em] flex items-center gap-2">
+                                            <Smartphone size={12} className="text-indigo-400" /> Open On Your Phone
+                                        </h3>
+                                        <div className="space-y-2">
+                                            {status.addresses.length === 0 ? (
+                                                <p className="text-xs text-zinc-500">No network connection found. Connect this computer to Wi-Fi or Ethernet.</p>
+                                            ) : status.addresses.map(address => (
+                                                <div key={address} className="p-3 rounded-xl bg-zinc-100 dark:bg-zinc-800/50 border border-zinc-200 dark:border-white/5 text-sm font-mono text-zinc-900 dark:text-white select-all">
+                                                    http://{address}:{status.port}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    {/* Livestream Output */}
+                                    <div className="space-y-3">
+                                        <h3 className="text-[10px] font-black text-zinc-500 uppercase tracking-[0.2em] flex items-center gap-2">
+                                            <Video size={12} className="text-indigo-400" /> OBS / vMix Lower Third
+                                        </h3>
+                                        <div className="p-3 rounded-xl bg-zinc-100 dark:bg-zinc-800/50 border border-zinc-200 dark:border-white/5 text-sm font-mono text-zinc-900 dark:text-white select-all">
+                                            http://localhost:{status.port}/lower-third
+                                        </div>
+                                        <p className="text-[10px] text-zinc-500">
+                                            Add as a browser source (1920x1080). Use this computer&apos;s address above when OBS runs on another machine.
+                                            {status.outputClients > 0 && ` ${status.outputClients} source${status.outputClients === 1 ? '' : 's'} connected.`}
+                                        </p>
+                                    </div>
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-8 bg-zinc-100 dark:bg-zinc-950/50 border-t border-zinc-200 dark:border-white/5 flex items-center justify-between">
+                    <p className="text-[10px] text-zinc-500 italic max-w-xs">
+                        Works on your local network only. No internet connection required.
+                    </p>
+                    <button
+                        onClick={onClose}
+                        className="px-8 py-3 bg-white text-black text-xs font-black uppercase tracking-widest rounded-full hover:bg-zinc-200 transition-all shadow-xl active:scale-95"
+                    >
+                        Done
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,17 +1,25 @@
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { ResourceItem, saveResource, getResources, deleteResource, getCollections, saveCollection, deleteCollection, ResourceCollection, getThemes, saveTheme, deleteTheme, ProjectorTheme } from '@/utils/resourceLibrary';
+import { ResourceItem, saveResource, getResource, deleteResource, getCollections, saveCollection, deleteCollection, ResourceCollection, getThemes, saveTheme, deleteTheme, ProjectorTheme, searchResources, listResources, SearchPage } from '@/utils/resourceLibrary';
 import AdvancedSongEditor from './AdvancedSongEditor';
+import { recordEdit, subscribeLibraryHistory } from '@/utils/editHistory';
 import { getBibleBooks, getChapterVerseCount, lookupVerseAsync, SUPPORTED_VERSIONS } from '@/utils/bible';
-import { DEFAULT_THEMES, GOOGLE_FONTS, DEFAULT_LAYOUT } from '@/utils/themes';
+import { DEFAULT_THEMES, GOOGLE_FONTS, DEFAULT_LAYOUT, DEFAULT_LOWER_THIRD } from '@/utils/themes';
 import { ScheduleItem } from '@/utils/scheduleManager';
 import { extractTextFromFile, parseLyrics, isCcliCopy, parseCcliCopy, parsePresentationFile } from '@/utils/lyricsParser';
-import { Search, Music, Monitor, FileText, Image as ImageIcon, Book, Plus, Play, Trash2, Folder, FolderPlus, X, Video, Check, Eye, ImagePlus, Bold, Italic, ChevronDown, Sun, Database } from 'lucide-react';
+import { Search, Music, Monitor, FileText, Image as ImageIcon, Book, Plus, Play, Trash2, Folder, FolderPlus, X, Video, Check, Eye, ImagePlus, Bold, Italic, ChevronDown, Sun, Database, FileCode, Download, Presentation, Copy } from 'lucide-react';
 import PreviewModal from './PreviewModal';
 import SongImportModal from './SongImportModal';
 import EasyWorshipImportModal from './EasyWorshipImportModal';
+import OpenLyricsImportModal from './OpenLyricsImportModal';
+import OpenLPImportModal from './OpenLPImportModal';
+import ProPresenterImportModal from './ProPresenterImportModal';
+import SongDuplicatesModal from './SongDuplicatesModal';
 import LiveFeedSelector from './LiveFeedSelector';
+import TransitionSettings from './TransitionSettings';
 import { MOTION_BACKGROUNDS } from '@/utils/motionBackgrounds';
+import { songToOpenLyrics, openLyricsFilename } from '@/utils/openlyrics';
+import { CHORDPRO_FILE, parseChordPro, chordProToResourceItem } from '@/utils/chordpro';
 
 const VersePreview = ({ book, chapter, verse, version }: { book: string, chapter: number, verse: number, version: string }) => {
     const [text, setText] = useState<string | null>(null);
@@ -32,13 +40,25 @@ interface ResourceLibraryPanelProps {
     onGoLive: (item: ScheduleItem) => void;
     onApplyTheme: (theme: ProjectorTheme) => void;
     activeThemeId?: string;
-    onResourcesChanged?: (items: ResourceItem[]) => void;
+    onResourcesChanged?: () => void;
     onToggleLibrary?: () => void;
     isLibraryOpen?: boolean;
 }
 
 type TabType = 'song' | 'media' | 'presentation' | 'scripture' | 'theme';
 
+// Library categories listed under each tab (the index also lists imported documents as presentations)
+const TAB_CATEGORIES: Record<TabType, ResourceItem['category'][]> = {
+    song: ['song'],
+    media: ['media'],
+    presentation: ['presentation'],
+    scripture: ['scripture'],
+    theme: ['theme']
+};
+
+const SEARCH_PAGE_SIZE = 60;
+const SEARCH_DEBOUNCE_MS = 150;
+
 export default function ResourceLibraryPanel({
     onAddToSchedule,
     onGoLive,
@@ -48,7 +68,7 @@ export default function ResourceLibraryPanel({
     onToggleLibrary,
     isLibraryOpen
 }: ResourceLibraryPanelProps) {
-    const [resources, setResources] = useState<ResourceItem[]>([]);
+    const [libraryVersion, setLibraryVersion] = useState(0);
     // ...
 
     // ... (keep intervening code if possible, but replace_file_content needs contiguous block)
@@ -63,12 +83,18 @@ export default function ResourceLibraryPanel({
     const [activeTab, setActiveTab] = useState<TabType>('song');
     const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<SearchPage | null>(null);
+    const [searchLimit, setSearchLimit] = useState(SEARCH_PAGE_SIZE);
     const [isUploading, setIsUploading] = useState(false);
     const [isCreateCollectionOpen, setIsCreateCollectionOpen] = useState(false);
     const [newCollectionName, setNewCollectionName] = useState('');
     const [previewItem, setPreviewItem] = useState<ScheduleItem | null>(null);
     const [isImportModalOpen, setIsImportModalOpen] = useState(false);
     const [isEWImportOpen, setIsEWImportOpen] = useState(false);
+    const [isOLImportOpen, setIsOLImportOpen] = useState(false);
+    const [isOpenLPImportOpen, setIsOpenLPImportOpen] = useState(false);
+    const [isPP6ImportOpen, setIsPP6ImportOpen] = useState(false);
+    const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
 
     // Online Search State (SongSelect-like)
     const [isOnlineMode, setIsOnlineMode] = useState(false);
@@ -254,11 +280,13 @@ export default function ResourceLibraryPanel({
         loadData();
     }, []);
 
+    // Undo/redo of library and theme edits happens outside this panel
+    useEffect(() => subscribeLibraryHistory(() => { loadData(); }), []);
+
     const loadData = async () => {
-        const [items, cols, themes] = await Promise.all([getResources(), getCollections(), getThemes()]);
-        items.sort((a, b) => b.dateAdded - a.dateAdded);
-        setResources(items);
-        onResourcesChanged?.(items);
+        const [cols, themes] = await Promise.all([getCollections(), getThemes()]);
+        setLibraryVersion(v => v + 1);
+        onResourcesChanged?.();
         setCollections(cols.sort((a, b) => b.createdAt - a.createdAt));
         setCustomThemes(themes);
     };
@@ -303,7 +331,14 @@ export default function ResourceLibraryPanel({
 
                 let newItem: ResourceItem;
 
-                if (type === 'media' && !isDoc) {
+                if (CHORDPRO_FILE.test(file.name)) {
+                    // Chords are kept apart from the lyrics (stage display only)
+                    newItem = {
+                        ...chordProToResourceItem(parseChordPro(await file.text(), file.name), i),
+                        collectionId: selectedCollectionId || undefined
+                    };
+                    await saveResource(newItem);
+                } else if (type === 'media' && !isDoc) {
                     const reader = new FileReader();
                     await new Promise<void>((resolve) => {
                         reader.onload = async (e) => {
@@ -353,24 +388,44 @@ export default function ResourceLibraryPanel({
         }
     };
 
-    const filteredResources = resources.filter(r => {
-        const tabMatch = activeTab === 'presentation'
-            ? (r.category === 'presentation' || (r.category === 'song' && (r.title.match(/\.(pdf|docx|pptx)$/i) !== null)))
-            : r.category === activeTab;
-
-        const collectionMatch = selectedCollectionId
-            ? r.collectionId === selectedCollectionId
-            : true;
+    // One page of the tab, newest first, or ranked results from the library's
+    // search index; a new query starts from the first page
+    useEffect(() => {
+        setSearchLimit(SEARCH_PAGE_SIZE);
+    }, [searchQuery, activeTab, selectedCollectionId]);
 
-        const searchMatch = r.title.toLowerCase().includes(searchQuery.toLowerCase());
+    useEffect(() => {
+        if (isOnlineMode) {
+            setSearchResults(null);
+            return;
+        }
+        const query = searchQuery.trim();
+        const options = {
+            categories: TAB_CATEGORIES[activeTab],
+            collectionId: selectedCollectionId || undefined,
+            limit: searchLimit
+        };
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            (query ? searchResources(query, options) : listResources(options)).then(page => {
+                if (!cancelled) setSearchResults(page);
+            });
+        }, query ? SEARCH_DEBOUNCE_MS : 0);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [searchQuery, activeTab, selectedCollectionId, searchLimit, isOnlineMode, libraryVersion]);
 
-        return tabMatch && collectionMatch && searchMatch;
-    });
+    const filteredResources = searchResults ? searchResults.items : [];
+    const hasMoreResults = !!searchResults && searchResults.items.length < searchResults.total;
 
     const handleDelete = async (id: string, e: React.MouseEvent) => {
         e.stopPropagation();
         if (confirm('Delete this resource?')) {
+            const resource = filteredResources.find(r => r.id === id);
             await deleteResource(id);
+            if (resource) recordEdit(`Delete "${resource.title}"`, { kind: 'library_put', before: resource, after: null });
             await loadData();
         }
     };
@@ -442,6 +497,15 @@ export default function ResourceLibraryPanel({
                                         <FileText size={14} />
                                     </button>
                                 )}
+                                {resource.type === 'song' && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleExportOpenLyrics(resource); }}
+                                        className="p-2 bg-white/10 hover:bg-zinc-600 rounded-full text-white hover:scale-110 transition-all backdrop-blur-md"
+                                        title="Export OpenLyrics"
+                                    >
+                                        <Download size={14} />
+                                    </button>
+                                )}
                                 <button
                                     onClick={(e) => handleDelete(resource.id, e)}
                                     className="p-2 bg-white/10 hover:bg-red-500 rounded-full text-white hover:scale-110 transition-all backdrop-blur-md"
@@ -513,11 +577,11 @@ export default function ResourceLibraryPanel({
         }
     };
 
-    const handleSongImport = (song: ResourceItem) => {
-        saveResource(song);
-        setResources(prev => [song, ...prev]);
+    const handleSongImport = async (song: ResourceItem) => {
+        await saveResource(song);
         setIsImportModalOpen(false);
         setEditingResource(song);
+        await loadData();
     };
 
     const handleEWImportComplete = async (count: number) => {
@@ -525,6 +589,30 @@ export default function ResourceLibraryPanel({
         await loadData();
     };
 
+    const handleOLImportComplete = async (count: number) => {
+        setIsOLImportOpen(false);
+        await loadData();
+    };
+
+    const handleOpenLPImportComplete = async (count: number) => {
+        setIsOpenLPImportOpen(false);
+        await loadData();
+    };
+
+    const handlePP6ImportComplete = async (count: number) => {
+        setIsPP6ImportOpen(false);
+        await loadData();
+    };
+
+    const handleExportOpenLyrics = (resource: ResourceItem) => {
+        const url = URL.createObjectURL(new Blob([songToOpenLyrics(resource)], { type: 'application/xml' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = openLyricsFilename(resource);
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
     const renderAddCard = () => (
         <button
             onClick={handleAddNew}
@@ -792,7 +880,9 @@ export default function ResourceLibraryPanel({
         }
 
         try {
+            const previous = customThemes.find(t => t.id === themeToSave.id) || null;
             await saveTheme(themeToSave);
+            recordEdit(previous ? `Edit theme "${themeToSave.name}"` : `Create theme "${themeToSave.name}"`, { kind: 'theme_put', before: previous, after: themeToSave });
             await loadData();
 
             // UX Improvement: Immediately select/apply the new theme so user sees results
@@ -815,7 +905,9 @@ export default function ResourceLibraryPanel({
     const handleDeleteTheme = async (id: string, e: React.MouseEvent) => {
         e.stopPropagation();
         if (confirm('Delete this theme?')) {
+            const theme = customThemes.find(t => t.id === id);
             await deleteTheme(id);
+            if (theme) recordEdit(`Delete theme "${theme.name}"`, { kind: 'theme_put', before: theme, after: null });
             await loadData();
         }
     };
@@ -1395,6 +1487,101 @@ export default function ResourceLibraryPanel({
                                     </div>
                                 </div>
                             </div>
+
+                            <div className="pt-4 mt-4 border-t border-zinc-300 dark:border-white/10">
+                                <h4 className="text-xs font-bold text-indigo-400 uppercase mb-3">Transitions</h4>
+                                <TransitionSettings
+                                    inheritLabel="Global Default"
+                                    value={editingTheme.transitions}
+                                    onChange={t => setEditingTheme({ ...editingTheme, transitions: t })}
+                                />
+                            </div>
+
+                            <div className="pt-4 mt-4 border-t border-zinc-300 dark:border-white/10">
+                                <h4 className="text-xs font-bold text-indigo-400 uppercase mb-3">Livestream Lower Third</h4>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <label className="text-xs font-bold text-zinc-500 uppercase">Bar Position</label>
+                                        <div className="flex bg-zinc-100 dark:bg-zinc-950 rounded border border-zinc-300 dark:border-white/10 p-1 gap-1">
+                                            {(['top', 'bottom'] as const).map(pos => (
+                                                <button
+                                                    key={pos}
+                                                    onClick={() => setEditingTheme({
+                                                        ...editingTheme,
+                                                        lowerThird: { ...DEFAULT_LOWER_THIRD, ...editingTheme.lowerThird, barPosition: pos }
+                                                    })}
+                                                    className={`flex-1 py-1 rounded text-xs uppercase transition-colors ${(editingTheme.lowerThird?.barPosition || DEFAULT_LOWER_THIRD.barPosition) === pos ? 'bg-indigo-600 text-white shadow-sm' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-200 dark:hover:bg-zinc-800'} `}
+                                                >
+                                                    {pos}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    <div className="space-y-2">
+                                        <label className="text-xs font-bold text-zinc-500 uppercase">Max Lines</label>
+                                        <input
+                                            type="range" min="1" max="4" step="1"
+                                            value={editingTheme.lowerThird?.maxLines ?? DEFAULT_LOWER_THIRD.maxLines}
+                                            onChange={(e) => setEditingTheme({
+                                                ...editingTheme,
+                                                lowerThird: { ...DEFAULT_LOWER_THIRD, ...editingTheme.lowerThird, maxLines: parseInt(e.target.value) }
+                                            })}
+                                            className="w-full accent-indigo-500 h-1.5"
+                                        />
+                                        <div className="text-[10px] text-zinc-500 text-right">{editingTheme.lowerThird?.maxLines ?? DEFAULT_LOWER_THIRD.maxLines} lines</div>
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2 mt-4">
+                                    <label className="text-xs font-bold text-zinc-500 uppercase">Reference Placement</label>
+                                    <div className="flex bg-zinc-100 dark:bg-zinc-950 rounded border border-zinc-300 dark:border-white/10 p-1 gap-1">
+                                        {(['above', 'left', 'inline', 'hidden'] as const).map(placement => (
+                                            <button
+                                                key={placement}
+                                                onClick={() => setEditingTheme({
+                                                    ...editingTheme,
+                                                    lowerThird: { ...DEFAULT_LOWER_THIRD, ...editingTheme.lowerThird, referencePlacement: placement }
+                                                })}
+                                                className={`flex-1 py-1 rounded text-xs uppercase transition-colors ${(editingTheme.lowerThird?.referencePlacement || DEFAULT_LOWER_THIRD.referencePlacement) === placement ? 'bg-indigo-600 text-white shadow-sm' : 'text-zinc-500 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-200 dark:hover:bg-zinc-800'} `}
+                                            >
+                                                {placement}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-4 mt-4">
+                                    <div className="space-y-2">
+                                        <label className="text-[10px] font-bold text-zinc-500 uppercase">Bar Color</label>
+                                        <div className="flex items-center gap-2">
+                                            <input
+                                                type="color"
+                                                value={editingTheme.lowerThird?.barColor || DEFAULT_LOWER_THIRD.barColor}
+                                                onChange={e => setEditingTheme({
+                                                    ...editingTheme,
+                                                    lowerThird: { ...DEFAULT_LOWER_THIRD, ...editingTheme.lowerThird, barColor: e.target.value }
+                                                })}
+                                                className="bg-transparent h-6 w-6 cursor-pointer border-none p-0 rounded-full"
+                                            />
+                                            <span className="text-[10px] text-zinc-500 font-mono">{editingTheme.lowerThird?.barColor || DEFAULT_LOWER_THIRD.barColor}</span>
+                                        </div>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <label className="text-[10px] font-bold text-zinc-500 uppercase">Bar Opacity</label>
+                                        <input
+                                            type="range" min="0" max="1" step="0.05"
+                                            value={editingTheme.lowerThird?.barOpacity ?? DEFAULT_LOWER_THIRD.barOpacity}
+                                            onChange={(e) => setEditingTheme({
+                                                ...editingTheme,
+                                                lowerThird: { ...DEFAULT_LOWER_THIRD, ...editingTheme.lowerThird, barOpacity: parseFloat(e.target.value) }
+                                            })}
+                                            className="w-full accent-indigo-500 h-1.5"
+                                        />
+                                        <div className="text-[10px] text-zinc-500 text-right">{Math.round((editingTheme.lowerThird?.barOpacity ?? DEFAULT_LOWER_THIRD.barOpacity) * 100)}%</div>
+                                    </div>
+                                </div>
+                            </div>
                         </div>
 
                         {/* Preview */}
@@ -1482,7 +1669,9 @@ export default function ResourceLibraryPanel({
                 <AdvancedSongEditor
                     resource={editingResource}
                     onSave={async (updated) => {
+                        const previous = (await getResource(updated.id)) || null;
                         await saveResource(updated);
+                        recordEdit(`Edit "${updated.title}"`, { kind: 'library_put', before: previous, after: updated });
                         await loadData();
                         setEditingResource(null);
                     }}
@@ -1528,7 +1717,7 @@ export default function ResourceLibraryPanel({
                                         handleOnlineSearch();
                                     }
                                 }}
-                                placeholder={isOnlineMode ? "Search Song/Artist..." : "Search library..."}
+                                placeholder={isOnlineMode ? "Search Song/Artist..." : "Search titles, lyrics, CCLI..."}
                                 className={`bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-white/10 rounded-lg pl-8 pr-3 py-1 text-xs text-zinc-600 dark:text-zinc-300 focus:outline-none focus:border-indigo-500 w-48 transition-all relative z-10 ${isOnlineMode ? 'w-64 border-indigo-500 ring-1 ring-indigo-500/20' : ''}`}
                             />
                         </div>
@@ -1568,13 +1757,53 @@ export default function ResourceLibraryPanel({
                             EasyWorship
                         </button>
                     )}
+                    {activeTab === 'song' && (
+                        <button
+                            onClick={() => setIsOLImportOpen(true)}
+                            className="flex items-center gap-1 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-600 dark:text-zinc-300 px-2 py-1.5 rounded-lg transition-colors mr-1 text-[10px] font-bold"
+                            title="Import or export OpenLyrics (OpenLP)"
+                        >
+                            <FileCode size={12} />
+                            OpenLyrics
+                        </button>
+                    )}
+                    {activeTab === 'song' && (
+                        <button
+                            onClick={() => setIsOpenLPImportOpen(true)}
+                            className="flex items-center gap-1 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-600 dark:text-zinc-300 px-2 py-1.5 rounded-lg transition-colors mr-1 text-[10px] font-bold"
+                            title="Import from an OpenLP songs database"
+                        >
+                            <Database size={12} />
+                            OpenLP
+                        </button>
+                    )}
+                    {activeTab === 'song' && (
+                        <button
+                            onClick={() => setIsPP6ImportOpen(true)}
+                            className="flex items-center gap-1 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-600 dark:text-zinc-300 px-2 py-1.5 rounded-lg transition-colors mr-1 text-[10px] font-bold"
+                            title="Import ProPresenter 6 songs and playlists"
+                        >
+                            <Presentation size={12} />
+                            ProPresenter
+                        </button>
+                    )}
+                    {activeTab === 'song' && (
+                        <button
+                            onClick={() => setIsDuplicatesOpen(true)}
+                            className="flex items-center gap-1 bg-zinc-100 dark:bg-zinc-800 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-600 dark:text-zinc-300 px-2 py-1.5 rounded-lg transition-colors mr-1 text-[10px] font-bold"
+                            title="Find and merge duplicate songs"
+                        >
+                            <Copy size={12} />
+                            Duplicates
+                        </button>
+                    )}
                     <div className="w-px h-6 bg-zinc-200 dark:bg-white/10 mx-1" />
                     <div className="w-px h-6 bg-zinc-200 dark:bg-white/10 mx-1" />
                     <input
                         ref={fileInputRef}
                         type="file"
                         multiple
-                        accept={activeTab === 'media' ? "image/*,video/*" : ".txt,.docx,.pdf,.pptx"}
+                        accept={activeTab === 'media' ? "image/*,video/*" : ".txt,.docx,.pdf,.pptx,.cho,.chordpro,.chopro,.crd"}
                         className="hidden"
                         onChange={handleFileUpload}
                     />
@@ -1658,7 +1887,7 @@ export default function ResourceLibraryPanel({
                                                     ? collections.find(c => c.id === selectedCollectionId)?.name
                                                     : `All ${activeTab.charAt(0).toUpperCase() + activeTab.slice(1)}s`
                                 }
-                                {!isOnlineMode && activeTab !== 'scripture' && <span className="ml-2 font-normal text-zinc-600">({filteredResources.length})</span>}
+                                {!isOnlineMode && activeTab !== 'scripture' && <span className="ml-2 font-normal text-zinc-600">({searchResults ? searchResults.total : filteredResources.length})</span>}
                             </h3>
 
                             {/* Toggle for Songs Tab */}
@@ -1737,6 +1966,15 @@ export default function ResourceLibraryPanel({
                         ) : (
                             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-3">
                                 {filteredResources.map(renderCard)}
+                                {hasMoreResults && (
+                                    <button
+                                        onClick={() => setSearchLimit(limit => limit + SEARCH_PAGE_SIZE)}
+                                        className="aspect-square border border-dashed border-zinc-300 dark:border-zinc-700 hover:border-indigo-500 rounded-xl flex flex-col items-center justify-center gap-1 text-[10px] font-bold text-zinc-500 hover:text-indigo-500 uppercase tracking-wider transition-colors"
+                                    >
+                                        <ChevronDown size={16} />
+                                        Show More ({searchResults!.total - searchResults!.items.length})
+                                    </button>
+                                )}
                                 {/* Always show Add Card at the end of the grid */}
                                 {renderAddCard()}
                             </div>
@@ -1795,6 +2033,26 @@ export default function ResourceLibraryPanel({
                 onClose={() => setIsEWImportOpen(false)}
                 onImportComplete={handleEWImportComplete}
             />
+            <OpenLyricsImportModal
+                isOpen={isOLImportOpen}
+                onClose={() => setIsOLImportOpen(false)}
+                onImportComplete={handleOLImportComplete}
+            />
+            <OpenLPImportModal
+                isOpen={isOpenLPImportOpen}
+                onClose={() => setIsOpenLPImportOpen(false)}
+                onImportComplete={handleOpenLPImportComplete}
+            />
+            <ProPresenterImportModal
+                isOpen={isPP6ImportOpen}
+                onClose={() => setIsPP6ImportOpen(false)}
+                onImportComplete={handlePP6ImportComplete}
+            />
+            <SongDuplicatesModal
+                isOpen={isDuplicatesOpen}
+                onClose={() => setIsDuplicatesOpen(false)}
+                onMergeComplete={loadData}
+            />
         </div>
     );
 }
@@ -19,19 +19,25 @@ import {
     verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { GripVertical, Music, BookOpen, Image, Play, Trash2, Eye, Upload, FileText, ImageIcon } from 'lucide-react';
-import { ScheduleItem, ServiceSchedule, loadSchedule, saveSchedule, createBlankSchedule } from '@/utils/scheduleManager';
+import { GripVertical, Music, BookOpen, Image, Play, Trash2, Eye, Upload, FileText, ImageIcon, Zap } from 'lucide-react';
+import { ScheduleItem, ServiceSchedule, loadSchedule, saveSchedule, createBlankSchedule, PlaceholderType, PLACEHOLDER_LABELS, createPlaceholder, fillPlaceholder } from '@/utils/scheduleManager';
 import { parseLyrics, extractTextFromFile, parsePresentationFile } from '@/utils/lyricsParser';
 import PreviewModal from './PreviewModal';
 import AdvancedSongEditor from './AdvancedSongEditor';
 import { ResourceItem } from '@/utils/resourceLibrary';
 import PlanManagerModal from './PlanManagerModal';
-import { FolderOpen } from 'lucide-react';
+import CueEditorModal from './CueEditorModal';
+import { ItemCue, describeCue } from '@/utils/cues';
+import { recordEdit, clearScheduleHistory } from '@/utils/editHistory';
+import { FolderOpen, Printer, ClipboardCheck } from 'lucide-react';
+import { openRunSheet } from '@/utils/runSheet';
 
 interface ServiceScheduleProps {
     onGoLive: (item: ScheduleItem, slideIndex: number) => void;
     schedule?: ServiceSchedule;
     onScheduleChange?: (schedule: ServiceSchedule) => void;
+    planIssueCount?: number;
+    onCheckPlan?: () => void;
 }
 
 // Sortable Item Component
@@ -40,13 +46,15 @@ function SortableScheduleItem({
     isActive,
     onSelect,
     onRemove,
-    onPreview
+    onPreview,
+    onEditCues
 }: {
     item: ScheduleItem;
     isActive: boolean;
     onSelect: () => void;
     onRemove: () => void;
     onPreview: () => void;
+    onEditCues: () => void;
 }) {
     const [isHovered, setIsHovered] = useState(false);
     const {
@@ -99,7 +107,9 @@ function SortableScheduleItem({
             ref={setNodeRef}
             style={style}
             className={`group relative flex items-center gap-3 p-2 rounded-xl border transition-all ${isDragging ? 'opacity-50 scale-105 z-50 bg-white ring-2 ring-indigo-500 shadow-xl' : ''
-                } ${isActive
+                } ${item.placeholder
+                    ? 'bg-amber-50/50 dark:bg-amber-500/5 border-dashed border-amber-300 dark:border-amber-500/40'
+                    : isActive
                     ? 'bg-indigo-50/80 dark:bg-indigo-900/30 border-indigo-200 dark:border-indigo-500/50 shadow-sm'
                     : 'bg-white dark:bg-zinc-900/40 border-zinc-100 dark:border-white/5 hover:border-zinc-300 dark:hover:border-white/10 hover:shadow-md hover:-translate-y-0.5'
                 }`}
@@ -118,8 +128,8 @@ function SortableScheduleItem({
             {/* Thumbnail / Card Preview */}
             <div
                 className="relative w-16 h-10 rounded-lg bg-zinc-100 dark:bg-zinc-800 flex-shrink-0 overflow-hidden border border-zinc-200 dark:border-white/5 flex items-center justify-center cursor-pointer hover:border-indigo-500/50 transition-colors"
-                onClick={(e) => { e.stopPropagation(); onPreview(); }}
-                title="Click to Preview"
+                onClick={(e) => { e.stopPropagation(); if (!item.placeholder) onPreview(); }}
+                title={item.placeholder ? undefined : 'Click to Preview'}
             >
                 {thumbnailUrl ? (
                     <div className="absolute inset-0 bg-cover bg-center opacity-80" style={{ backgroundImage: thumbnailUrl }} />
@@ -139,30 +149,50 @@ function SortableScheduleItem({
                     {item.title}
                 </h4>
                 <div className="flex items-center gap-2 mt-0.5">
-                    <span className="text-[9px] text-zinc-500 truncate">
-                        {item.slides.length} slides
+                    <span className={`text-[9px] truncate ${item.placeholder ? 'text-amber-600 dark:text-amber-400 font-bold' : 'text-zinc-500'}`}>
+                        {item.placeholder ? 'Empty slot · add from library to fill' : `${item.slides.length} slides`}
                     </span>
                     {isActive && <span className="text-[8px] bg-red-500/20 text-red-400 px-1 rounded animate-pulse">LIVE</span>}
+                    {item.cues && item.cues.length > 0 && (
+                        <span
+                            className="flex items-center gap-0.5 text-[8px] font-bold text-indigo-500 dark:text-indigo-400"
+                            title={item.cues.map(c => `${c.slide === undefined ? 'Go-live' : `Slide ${c.slide + 1}`}: ${describeCue(c.action)}`).join('\n')}
+                        >
+                            <Zap size={8} fill="currentColor" /> {item.cues.length}
+                        </span>
+                    )}
                 </div>
             </div>
 
             {/* Quick Actions (Always visible on hover, or prominent Go Live) */}
             <div className={`flex items-center gap-1 ${isHovered || isActive ? 'opacity-100' : 'opacity-0'} transition-opacity`}>
-                <button
-                    onClick={(e) => { e.stopPropagation(); onPreview(); }}
-                    className="p-2 rounded-full bg-white dark:bg-zinc-800 text-zinc-400 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-zinc-700 transition-all shadow-sm border border-zinc-200 dark:border-white/5"
-                    title="Preview"
-                >
-                    <Eye size={12} />
-                </button>
+                {!item.placeholder && (
+                    <>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onPreview(); }}
+                            className="p-2 rounded-full bg-white dark:bg-zinc-800 text-zinc-400 hover:text-zinc-900 dark:hover:text-white hover:bg-zinc-100 dark:hover:bg-zinc-700 transition-all shadow-sm border border-zinc-200 dark:border-white/5"
+                            title="Preview"
+                        >
+                            <Eye size={12} />
+                        </button>
 
-                <button
-                    onClick={(e) => { e.stopPropagation(); onSelect(); }}
-                    className={`p-2 rounded-full transition-all shadow-lg ${isActive ? 'bg-red-500 text-white animate-pulse' : 'bg-green-600 text-white hover:scale-110'}`}
-                    title="Go Live"
-                >
-                    <Play size={12} fill="currentColor" />
-                </button>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onEditCues(); }}
+                            className="p-2 rounded-full bg-white dark:bg-zinc-800 text-zinc-400 hover:text-indigo-500 hover:bg-zinc-100 dark:hover:bg-zinc-700 transition-all shadow-sm border border-zinc-200 dark:border-white/5"
+                            title="Cues & Notes"
+                        >
+                            <Zap size={12} />
+                        </button>
+
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onSelect(); }}
+                            className={`p-2 rounded-full transition-all shadow-lg ${isActive ? 'bg-red-500 text-white animate-pulse' : 'bg-green-600 text-white hover:scale-110'}`}
+                            title="Go Live"
+                        >
+                            <Play size={12} fill="currentColor" />
+                        </button>
+                    </>
+                )}
 
                 <button
                     onClick={(e) => { e.stopPropagation(); onRemove(); }}
@@ -176,7 +206,7 @@ function SortableScheduleItem({
     );
 }
 
-export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSchedule, onScheduleChange }: ServiceScheduleProps) {
+export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSchedule, onScheduleChange, planIssueCount = 0, onCheckPlan }: ServiceScheduleProps) {
     const [internalSchedule, setInternalSchedule] = useState<ServiceSchedule>(createBlankSchedule());
 
     const isControlled = typeof controlledSchedule !== 'undefined';
@@ -196,6 +226,7 @@ export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSch
     const [activeItemId, setActiveItemId] = useState<string | null>(null);
     const [previewItem, setPreviewItem] = useState<ScheduleItem | null>(null);
     const [editingItem, setEditingItem] = useState<ResourceItem | null>(null);
+    const [cueItem, setCueItem] = useState<ScheduleItem | null>(null);
     const [isUploading, setIsUploading] = useState(false);
     const [isPlanManagerOpen, setIsPlanManagerOpen] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -228,6 +259,9 @@ export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSch
     const handleDragEnd = (event: DragEndEvent) => {
         const { active, over } = event;
         if (over && active.id !== over.id) {
+            const from = schedule.items.findIndex(i => i.id === active.id);
+            const to = schedule.items.findIndex(i => i.id === over.id);
+            recordEdit(`Move "${schedule.items[from]?.title}"`, { kind: 'schedule_move', itemId: String(active.id), from, to });
             setSchedule(prev => {
                 const oldIndex = prev.items.findIndex(i => i.id === active.id);
                 const newIndex = prev.items.findIndex(i => i.id === over.id);
@@ -245,6 +279,10 @@ export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSch
     };
 
     const handleRemoveItem = (itemId: string) => {
+        const index = schedule.items.findIndex(i => i.id === itemId);
+        if (index !== -1) {
+            recordEdit(`Remove "${schedule.items[index].title}"`, { kind: 'schedule_remove', index, item: schedule.items[index] });
+        }
         setSchedule(prev => ({
             ...prev,
             items: prev.items.filter(i => i.id !== itemId)
@@ -351,21 +389,61 @@ export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSch
     };
 
     const addItem = (item: ScheduleItem) => {
+        // Fill the next empty template slot of this type before appending
+        const { slot } = fillPlaceholder(schedule.items, item);
+        if (slot) {
+            recordEdit(`Fill ${PLACEHOLDER_LABELS[slot.type as PlaceholderType]} slot with "${item.title}"`, { kind: 'schedule_replace', before: slot, after: item });
+            setSchedule(prev => ({ ...prev, items: fillPlaceholder(prev.items, item).items }));
+            return;
+        }
+        recordEdit(`Add "${item.title}"`, { kind: 'schedule_insert', index: schedule.items.length, item });
         setSchedule(prev => ({
             ...prev,
             items: [...prev.items, item]
         }));
     };
 
+    const addPlaceholder = (type: PlaceholderType) => {
+        const slot = createPlaceholder(type);
+        recordEdit(`Add ${PLACEHOLDER_LABELS[type]} slot`, { kind: 'schedule_insert', index: schedule.items.length, item: slot });
+        setSchedule(prev => ({ ...prev, items: [...prev.items, slot] }));
+    };
+
+    const emptySlots = schedule.items.filter(i => i.placeholder).length;
+
     return (
         <div className="flex flex-col h-full bg-transparent">
             {/* Header */}
             <div className="flex items-center justify-between p-3 border-b border-zinc-100 dark:border-white/5 bg-zinc-50/50 dark:bg-zinc-950 backdrop-blur-sm">
                 <div>
                     <h3 className="text-xs font-bold text-zinc-900 dark:text-white">{schedule.name}</h3>
-                    <p className="text-[10px] text-zinc-500">{schedule.items.length} items</p>
+                    <p className="text-[10px] text-zinc-500">
+                        {schedule.items.length} items
+                        {emptySlots > 0 && <span className="text-amber-500 font-bold"> · {emptySlots} empty {emptySlots === 1 ? 'slot' : 'slots'}</span>}
+                    </p>
                 </div>
                 <div className="flex items-center gap-2">
+                    {onCheckPlan && (
+                        <button
+                            onClick={onCheckPlan}
+                            className="relative p-1.5 bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700 rounded-lg text-zinc-700 dark:text-zinc-300 transition-colors"
+                            title="Check Plan"
+                        >
+                            <ClipboardCheck size={14} />
+                            {planIssueCount > 0 && (
+                                <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-amber-500 text-white text-[8px] font-bold flex items-center justify-center">
+                                    {planIssueCount}
+                                </span>
+                            )}
+                        </button>
+                    )}
+                    <button
+                        onClick={() => openRunSheet()}
+                        className="p-1.5 bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700 rounded-lg text-zinc-700 dark:text-zinc-300 transition-colors"
+                        title="Print Run Sheet"
+                    >
+                        <Printer size={14} />
+                    </button>
                     <button
                         onClick={() => setIsPlanManagerOpen(true)}
                         className="flex items-center gap-2 px-3 py-1.5 bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700 rounded-lg text-xs font-bold text-zinc-700 dark:text-zinc-300 transition-colors"
@@ -393,6 +471,19 @@ export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSch
                         disabled={isUploading}
                     />
                 </label>
+                <div className="flex items-center gap-1 mt-1.5">
+                    <span className="text-[9px] text-zinc-400 uppercase tracking-wider font-bold mr-1">Add Slot</span>
+                    {(Object.keys(PLACEHOLDER_LABELS) as PlaceholderType[]).map(type => (
+                        <button
+                            key={type}
+                            onClick={() => addPlaceholder(type)}
+                            className="px-2 py-0.5 rounded border border-dashed border-zinc-300 dark:border-zinc-700 text-[9px] text-zinc-500 dark:text-zinc-400 hover:border-amber-400 hover:text-amber-500 transition-colors"
+                            title={`Add an empty ${PLACEHOLDER_LABELS[type].toLowerCase()} slot to fill later`}
+                        >
+                            {PLACEHOLDER_LABELS[type]}
+                        </button>
+                    ))}
+                </div>
             </div>
 
             {/* Schedule List */}
@@ -425,6 +516,7 @@ export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSch
                                     onSelect={() => handleSelectItem(item)}
                                     onRemove={() => handleRemoveItem(item.id)}
                                     onPreview={() => setPreviewItem(item)}
+                                    onEditCues={() => setCueItem(item)}
                                 />
                             ))}
                         </SortableContext>
@@ -458,6 +550,21 @@ export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSch
                 />
             )}
 
+            {/* Cue Editor */}
+            {cueItem && createPortal(
+                <CueEditorModal
+                    item={cueItem}
+                    onSave={(cues: ItemCue[], notes: string, plannedDuration?: number) => {
+                        const after: ScheduleItem = { ...cueItem, cues: cues.length > 0 ? cues : undefined, notes: notes.trim() || undefined, plannedDuration };
+                        recordEdit(`Edit cues & notes for "${cueItem.title}"`, { kind: 'schedule_replace', before: cueItem, after });
+                        setSchedule(prev => ({ ...prev, items: prev.items.map(i => i.id === after.id ? after : i) }));
+                        setCueItem(null);
+                    }}
+                    onClose={() => setCueItem(null)}
+                />,
+                document.body
+            )}
+
             {/* Song Editor (for Schedule Items) */}
             {editingItem && createPortal(
                 <div className="fixed inset-0 z-[99999] bg-black/90 backdrop-blur-md animate-in fade-in duration-300">
@@ -469,6 +576,10 @@ export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSch
                                 ...updated,
                                 // Keep original ID if it was a schedule item
                             };
+                            const before = schedule.items.find(i => i.id === updatedScheduleItem.id);
+                            if (before) {
+                                recordEdit(`Edit "${updatedScheduleItem.title}"`, { kind: 'schedule_replace', before, after: updatedScheduleItem });
+                            }
                             handleUpdateItem(updatedScheduleItem);
                             setEditingItem(null);
                         }}
@@ -484,6 +595,7 @@ export default function ServiceSchedulePanel({ onGoLive, schedule: controlledSch
                 onClose={() => setIsPlanManagerOpen(false)}
                 currentSchedule={schedule}
                 onLoadPlan={(loadedPlan) => {
+                    clearScheduleHistory();
                     setSchedule(loadedPlan);
                     // Since we updated the schedule, the local effect will kick in and save it to the "current" slot automatically
                 }}
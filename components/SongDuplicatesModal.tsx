@@ -0,0 +1,308 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { X, Copy, Check, AlertCircle, Loader2, Merge, ChevronRight, ArrowLeft } from 'lucide-react';
+import { ResourceItem, ResourceCollection, getResources, getCollections, saveResource, deleteResource } from '@/utils/resourceLibrary';
+import { getPlans, savePlan } from '@/utils/scheduleManager';
+import { recordEdit } from '@/utils/editHistory';
+import { sourceSlides } from '@/utils/arrangements';
+import {
+    DuplicateGroup, MergeChoices, MergeField, MERGE_FIELDS,
+    findDuplicateSongs, defaultMergeChoices, mergeSongs, rewritePlansForMerge
+} from '@/utils/songDuplicates';
+
+interface SongDuplicatesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onMergeComplete: () => void;
+}
+
+type Phase = 'scanning' | 'list' | 'compare' | 'merging';
+
+export default function SongDuplicatesModal({ isOpen, onClose, onMergeComplete }: SongDuplicatesModalProps) {
+    const [phase, setPhase] = useState<Phase>('scanning');
+    const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+    const [collections, setCollections] = useState<ResourceCollection[]>([]);
+    const [activeGroup, setActiveGroup] = useState<DuplicateGroup | null>(null);
+    const [choices, setChoices] = useState<MergeChoices | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [mergedAny, setMergedAny] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setPhase('scanning');
+        setMessage(null);
+        setError(null);
+        setMergedAny(false);
+        Promise.all([getResources(), getCollections()])
+            .then(([library, cols]) => {
+                setGroups(findDuplicateSongs(library));
+                setCollections(cols);
+                setPhase('list');
+            })
+            .catch((e: any) => {
+                setError(`Failed to scan library: ${e.message}`);
+                setPhase('list');
+            });
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const openGroup = (group: DuplicateGroup) => {
+        setActiveGroup(group);
+        setChoices(defaultMergeChoices(group.songs));
+        setMessage(null);
+        setError(null);
+        setPhase('compare');
+    };
+
+    const backToList = () => {
+        setActiveGroup(null);
+        setChoices(null);
+        setPhase('list');
+    };
+
+    // Hide the group for this session; nothing is changed in the library
+    const handleNotDuplicates = () => {
+        if (!activeGroup) return;
+        setGroups(prev => prev.filter(g => g.id !== activeGroup.id));
+        backToList();
+    };
+
+    const handleMerge = async () => {
+        if (!activeGroup || !choices) return;
+        setPhase('merging');
+        setError(null);
+
+        try {
+            const songs = activeGroup.songs;
+            const merged = mergeSongs(songs, choices);
+            const kept = songs.find(song => song.id === merged.id) || null;
+
+            await saveResource(merged);
+            recordEdit(`Merge duplicates into "${merged.title}"`, { kind: 'library_put', before: kept, after: merged });
+            for (const song of songs.filter(song => song.id !== merged.id)) {
+                await deleteResource(song.id);
+                recordEdit(`Delete "${song.title}" (merged)`, { kind: 'library_put', before: song, after: null });
+            }
+
+            // Plans keep their own copies of songs; point them at the merged one
+            const rewritten = rewritePlansForMerge(await getPlans(), songs, merged);
+            for (const plan of rewritten) await savePlan(plan);
+
+            setGroups(prev => prev.filter(g => g.id !== activeGroup.id));
+            setMergedAny(true);
+            setMessage(`Merged ${songs.length} songs into "${merged.title}"${rewritten.length > 0 ? ` • updated ${rewritten.length} saved plan${rewritten.length !== 1 ? 's' : ''}` : ''}`);
+            backToList();
+        } catch (e: any) {
+            setError(`Merge failed: ${e.message}`);
+            setPhase('compare');
+        }
+    };
+
+    const handleClose = () => {
+        if (phase === 'merging') return;
+        if (mergedAny) onMergeComplete();
+        setGroups([]);
+        setActiveGroup(null);
+        setChoices(null);
+        onClose();
+    };
+
+    const collectionName = (id?: string) => collections.find(c => c.id === id)?.name;
+
+    const fieldValue = (song: ResourceItem, field: MergeField): string | undefined => {
+        switch (field) {
+            case 'title': return song.title;
+            case 'collection': return collectionName(song.collectionId);
+            case 'key': return song.meta?.key ? `${song.meta.key}${song.meta.capo ? ` (capo ${song.meta.capo})` : ''}` : undefined;
+            case 'lyrics': return `${sourceSlides(song).length} slides`;
+            default: return song.meta?.[field];
+        }
+    };
+
+    const matchSummary = (group: DuplicateGroup) => {
+        const best = Math.max(...group.matches.map(m => m.lyricScore));
+        const reasons = [];
+        if (group.matches.some(m => m.sameCcli)) reasons.push('Same CCLI #');
+        if (best > 0) reasons.push(`${Math.round(best * 100)}% lyrics match`);
+        return reasons.join(' • ');
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
+            <div className={`bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-white/10 rounded-2xl w-full mx-4 shadow-2xl flex flex-col max-h-[90vh] ${phase === 'compare' || phase === 'merging' ? 'max-w-5xl' : 'max-w-2xl'}`}>
+                {/* Header */}
+                <div className="flex items-center justify-between p-6 border-b border-zinc-200 dark:border-white/10 rounded-t-2xl">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-indigo-600/20 rounded-lg">
+                            <Copy className="w-5 h-5 text-indigo-400" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold text-zinc-900 dark:text-white">Duplicate Songs</h2>
+                            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                {phase === 'scanning' && 'Scanning your library...'}
+                                {phase === 'list' && `${groups.length} possible duplicate${groups.length !== 1 ? 's' : ''} found`}
+                                {(phase === 'compare' || phase === 'merging') && activeGroup && 'Pick what to keep from each version'}
+                            </p>
+                        </div>
+                    </div>
+                    {phase !== 'merging' && (
+                        <button onClick={handleClose} className="p-2 hover:bg-zinc-100 dark:hover:bg-white/10 rounded-lg transition-colors">
+                            <X className="w-5 h-5 text-zinc-500 dark:text-zinc-400" />
+                        </button>
+                    )}
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 overflow-y-auto p-6">
+                    {phase === 'scanning' && (
+                        <div className="flex flex-col items-center justify-center py-12 space-y-4">
+                            <Loader2 className="w-12 h-12 animate-spin text-indigo-400" />
+                            <p className="text-sm text-zinc-500">Comparing songs...</p>
+                        </div>
+                    )}
+
+                    {phase === 'list' && (
+                        <div className="space-y-3">
+                            {message && (
+                                <div className="p-2 bg-green-50 dark:bg-green-500/10 border border-green-200 dark:border-green-500/20 rounded-lg text-xs text-green-700 dark:text-green-300 flex items-center gap-2">
+                                    <Check size={14} />
+                                    {message}
+                                </div>
+                            )}
+                            {groups.length === 0 ? (
+                                <div className="flex flex-col items-center justify-center py-12 space-y-2 text-center">
+                                    <Check className="w-10 h-10 text-green-500" />
+                                    <p className="text-sm text-zinc-500">No duplicate songs in your library</p>
+                                </div>
+                            ) : (
+                                <div className="space-y-1 rounded-xl border border-zinc-200 dark:border-white/5 bg-zinc-50 dark:bg-zinc-950/50 p-2">
+                                    {groups.map(group => (
+                                        <div
+                                            key={group.id}
+                                            onClick={() => openGroup(group)}
+                                            className="flex items-center gap-3 px-3 py-2.5 rounded-lg cursor-pointer transition-all hover:bg-white dark:hover:bg-zinc-800 border border-transparent"
+                                        >
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-sm font-medium text-zinc-900 dark:text-white truncate">{group.songs[0].title}</p>
+                                                <p className="text-xs text-zinc-500 truncate">
+                                                    {group.songs.map(s => s.title).filter((t, i, all) => all.indexOf(t) === i).join(' / ')}
+                                                </p>
+                                            </div>
+                                            <span className="text-[10px] text-zinc-400 flex-shrink-0">{matchSummary(group)}</span>
+                                            <span className="text-[9px] font-bold px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-400 flex-shrink-0">
+                                                {group.songs.length} COPIES
+                                            </span>
+                                            <ChevronRight size={14} className="text-zinc-400 flex-shrink-0" />
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Side-by-side compare: click a cell to keep that version of the field */}
+                    {(phase === 'compare' || phase === 'merging') && activeGroup && choices && (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-xs border-separate border-spacing-1">
+                                <thead>
+                                    <tr>
+                                        <th className="w-24" />
+                                        {activeGroup.songs.map((song, i) => (
+                                            <th key={song.id} className="text-left font-bold text-zinc-500 uppercase tracking-wider px-2 min-w-[200px]">
+                                                Version {i + 1}
+                                                <span className="block font-normal normal-case tracking-normal text-[10px] text-zinc-400">
+                                                    Added {new Date(song.dateAdded).toLocaleDateString()}
+                                                    {song.tags && song.tags.length > 0 && ` • ${song.tags.join(', ')}`}
+                                                </span>
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {MERGE_FIELDS.map(({ field, label }) => (
+                                        <tr key={field}>
+                                            <td className="align-top py-2 font-bold text-zinc-500 uppercase tracking-wider text-[10px]">{label}</td>
+                                            {activeGroup.songs.map(song => {
+                                                const isChosen = choices[field] === song.id;
+                                                const value = fieldValue(song, field);
+                                                return (
+                                                    <td
+                                                        key={song.id}
+                                                        onClick={() => phase === 'compare' && setChoices({ ...choices, [field]: song.id })}
+                                                        className={`align-top px-2 py-2 rounded-lg cursor-pointer transition-all border ${isChosen
+                                                            ? 'bg-indigo-50 dark:bg-indigo-500/10 border-indigo-200 dark:border-indigo-500/20'
+                                                            : 'hover:bg-zinc-50 dark:hover:bg-zinc-800 border-transparent'
+                                                            }`}
+                                                    >
+                                                        <div className="flex items-start gap-2">
+                                                            <div className={`w-4 h-4 mt-0.5 rounded flex items-center justify-center flex-shrink-0 ${isChosen ? 'bg-indigo-600 text-white' : 'bg-zinc-200 dark:bg-zinc-700'}`}>
+                                                                {isChosen && <Check size={10} />}
+                                                            </div>
+                                                            {field === 'lyrics' ? (
+                                                                <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+                                                                    {sourceSlides(song).map(slide => (
+                                                                        <div key={slide.id}>
+                                                                            {slide.label && <p className="text-[9px] font-bold text-indigo-400 uppercase">{slide.label}</p>}
+                                                                            <p className="whitespace-pre-wrap text-zinc-700 dark:text-zinc-300">{slide.content.replace(/<[^>]+>/g, '')}</p>
+                                                                        </div>
+                                                                    ))}
+                                                                </div>
+                                                            ) : (
+                                                                <span className={value ? 'text-zinc-900 dark:text-white' : 'text-zinc-400 italic'}>{value || 'None'}</span>
+                                                            )}
+                                                        </div>
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-[10px] text-zinc-400 mt-2">
+                                Tags from every version are kept. Saved plans that use any version are updated to the merged song.
+                            </p>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2 text-red-600 dark:text-red-400 text-sm">
+                            <AlertCircle size={16} />
+                            {error}
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-6 border-t border-zinc-200 dark:border-white/10 rounded-b-2xl flex justify-end gap-3">
+                    {phase === 'list' && (
+                        <button onClick={handleClose} className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-lg transition-colors">
+                            Done
+                        </button>
+                    )}
+                    {(phase === 'compare' || phase === 'merging') && activeGroup && (
+                        <>
+                            <button onClick={backToList} disabled={phase === 'merging'} className="px-4 py-2 text-sm text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors flex items-center gap-1 mr-auto disabled:opacity-40">
+                                <ArrowLeft size={14} />
+                                Back
+                            </button>
+                            <button onClick={handleNotDuplicates} disabled={phase === 'merging'} className="px-4 py-2 text-sm text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800 rounded-lg transition-colors disabled:opacity-40">
+                                Not Duplicates
+                            </button>
+                            <button
+                                onClick={handleMerge}
+                                disabled={phase === 'merging'}
+                                className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-colors flex items-center gap-2"
+                            >
+                                {phase === 'merging' ? <Loader2 size={16} className="animate-spin" /> : <Merge size={16} />}
+                                Merge {activeGroup.songs.length} Songs
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { LayerTransitions, TransitionSpec, TransitionType, TRANSITION_TYPES, DEFAULT_TRANSITIONS } from '@/utils/transitions';
+
+interface TransitionSettingsProps {
+    value?: LayerTransitions;
+    onChange: (value: LayerTransitions) => void;
+    // When set, a layer can be left unset to inherit from the next level up
+    inheritLabel?: string;
+}
+
+const LAYERS: { id: keyof LayerTransitions; label: string }[] = [
+    { id: 'background', label: 'Background' },
+    { id: 'content', label: 'Text' }
+];
+
+export default function TransitionSettings({ value, onChange, inheritLabel }: TransitionSettingsProps) {
+    const updateLayer = (layer: keyof LayerTransitions, spec: TransitionSpec | undefined) => {
+        const next = { ...value, [layer]: spec };
+        if (!spec) delete next[layer];
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-2">
+            {LAYERS.map(layer => {
+                const spec = value?.[layer.id];
+                const isInherited = !spec && !!inheritLabel;
+                const effective = spec || DEFAULT_TRANSITIONS[layer.id];
+
+                return (
+                    <div key={layer.id} className="flex items-center gap-2">
+                        <span className="w-20 shrink-0 text-[10px] font-bold text-zinc-500 uppercase">{layer.label}</span>
+                        <select
+                            value={isInherited ? 'inherit' : effective.type}
+                            onChange={e => {
+                                if (e.target.value === 'inherit') {
+                                    updateLayer(layer.id, undefined);
+                                } else {
+                                    updateLayer(layer.id, { type: e.target.value as TransitionType, duration: effective.duration });
+                                }
+                            }}
+                            className="flex-1 min-w-0 bg-zinc-50 dark:bg-black/50 border border-zinc-300 dark:border-white/10 rounded px-2 py-1 text-xs text-zinc-900 dark:text-white outline-none focus:border-indigo-500"
+                        >
+                            {inheritLabel && <option value="inherit">{inheritLabel}</option>}
+                            {TRANSITION_TYPES.map(t => (
+                                <option key={t.id} value={t.id}>{t.label}</option>
+                            ))}
+                        </select>
+                        <input
+                            type="number"
+                            min={0}
+                            max={5000}
+                            step={100}
+                            disabled={isInherited || effective.type === 'cut'}
+                            value={effective.type === 'cut' ? 0 : effective.duration}
+                            onChange={e => updateLayer(layer.id, { ...effective, duration: Math.max(0, parseInt(e.target.value) || 0) })}
+                            className="w-16 bg-zinc-50 dark:bg-black/50 border border-zinc-300 dark:border-white/10 rounded px-2 py-1 text-xs text-zinc-900 dark:text-white outline-none focus:border-indigo-500 disabled:opacity-40"
+                            title="Duration (ms)"
+                        />
+                        <span className="text-[10px] text-zinc-500">ms</span>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { DisplayGeometry, DEFAULT_GEOMETRY, GEOMETRY_STORAGE_KEY, loadGeometry, computeWarpTransform } from '@/utils/geometry';
+
+interface GeometryCorrectionProps {
+    displayId?: string | null; // Defaults to the display this window is on
+    children: React.ReactNode;
+}
+
+/**
+ * Applies the saved corner pin, overscan and edge masks for this window's display.
+ * The wrappers are always rendered so toggling correction never remounts the output.
+ */
+export default function GeometryCorrection({ displayId, children }: GeometryCorrectionProps) {
+    const [resolvedDisplayId, setResolvedDisplayId] = useState<string | null>(displayId ?? null);
+    const [geometry, setGeometry] = useState<DisplayGeometry>(DEFAULT_GEOMETRY);
+    const [size, setSize] = useState({ width: 0, height: 0 });
+
+    useEffect(() => {
+        if (displayId) {
+            setResolvedDisplayId(displayId);
+        } else {
+            window.electronAPI?.getWindowDisplayId?.().then(id => setResolvedDisplayId(id));
+        }
+    }, [displayId]);
+
+    // Follow edits from the display settings while calibrating
+    useEffect(() => {
+        if (!resolvedDisplayId) return;
+        setGeometry(loadGeometry(resolvedDisplayId));
+
+        const handleStorage = (e: StorageEvent) => {
+            if (e.key === GEOMETRY_STORAGE_KEY) setGeometry(loadGeometry(resolvedDisplayId));
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, [resolvedDisplayId]);
+
+    useEffect(() => {
+        const updateSize = () => setSize({ width: window.innerWidth, height: window.innerHeight });
+        updateSize();
+        window.addEventListener('resize', updateSize);
+        return () => window.removeEventListener('resize', updateSize);
+    }, []);
+
+    const warp = size.width > 0 ? computeWarpTransform(geometry.corners, size.width, size.height) : 'none';
+    const scale = (100 - geometry.overscan) / 100;
+    const { mask } = geometry;
+
+    return (
+        <div className="fixed inset-0 overflow-hidden bg-black">
+            {/* Transformed ancestors become the containing block for the output's fixed layers */}
+            <div className="fixed inset-0" style={{ transformOrigin: '0 0', transform: warp }}>
+                <div className="fixed inset-0" style={{ transform: scale === 1 ? 'none' : `scale(${scale})` }}>
+                    {children}
+                </div>
+            </div>
+
+            {/* Edge masks sit in screen space, on top of everything */}
+            <div className="fixed inset-0 z-[100] pointer-events-none">
+                {mask.top > 0 && <div className="absolute top-0 left-0 right-0 bg-black" style={{ height: `${mask.top}%` }} />}
+                {mask.bottom > 0 && <div className="absolute bottom-0 left-0 right-0 bg-black" style={{ height: `${mask.bottom}%` }} />}
+                {mask.left > 0 && <div className="absolute top-0 bottom-0 left-0 bg-black" style={{ width: `${mask.left}%` }} />}
+                {mask.right > 0 && <div className="absolute top-0 bottom-0 right-0 bg-black" style={{ width: `${mask.right}%` }} />}
+            </div>
+        </div>
+    );
+}
@@ -1,25 +1,96 @@
 "use client";
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 
 import { ProjectorTheme } from '@/utils/themes';
+import { LayerTransitions, TransitionSpec, TransitionPhase, getTransitionStyle, resolveTransitions } from '@/utils/transitions';
 
 interface VisualStackProps {
     background?: string | null; // URL to video or image
     theme?: ProjectorTheme | null;
     content: React.ReactNode;
+    contentKey?: string | number; // Changes whenever the content should transition
+    transitions?: LayerTransitions; // Overrides theme transitions (item level)
     overlay?: React.ReactNode;  // Props layer (Corner logo, etc)
     alert?: string | null;      // Alert message
     fullBleed?: boolean;        // If true, ignore padding (for edge-to-edge media)
     style?: React.CSSProperties;
 }
 
-export default function VisualStack({ background, theme, content, overlay, alert, fullBleed, style }: VisualStackProps) {
+type Layer = { key: string | number; node: React.ReactNode; spec: TransitionSpec };
+
+/**
+ * Keeps the outgoing node mounted while the incoming one animates in.
+ * The live layer always renders the latest node; outgoing layers are frozen.
+ */
+function TransitionLayer({ layerKey, spec, className, children }: {
+    layerKey: string | number;
+    spec: TransitionSpec;
+    className?: string;
+    children: React.ReactNode;
+}) {
+    const [renderedKey, setRenderedKey] = useState(layerKey);
+    const [exiting, setExiting] = useState<Layer[]>([]);
+    const [phase, setPhase] = useState<TransitionPhase>('in');
+    const lastNodeRef = useRef<React.ReactNode>(children);
+
+    const isCut = spec.type === 'cut' || spec.duration <= 0;
+
+    // Swap layers during render so the new content never flashes in un-animated
+    if (renderedKey !== layerKey) {
+        if (!isCut) {
+            setExiting(prev => [
+                ...prev.filter(l => l.key !== renderedKey && l.key !== layerKey),
+                { key: renderedKey, node: lastNodeRef.current, spec }
+            ]);
+        }
+        setPhase(isCut ? 'in' : 'from');
+        setRenderedKey(layerKey);
+    }
+
+    useEffect(() => {
+        lastNodeRef.current = children;
+    });
+
+    useEffect(() => {
+        if (phase !== 'from') return;
+        // Two frames so the browser paints the 'from' state before animating to 'in'
+        let raf2 = 0;
+        const raf1 = requestAnimationFrame(() => {
+            raf2 = requestAnimationFrame(() => setPhase('in'));
+        });
+        return () => {
+            cancelAnimationFrame(raf1);
+            cancelAnimationFrame(raf2);
+        };
+    }, [phase, renderedKey]);
+
+    useEffect(() => {
+        if (exiting.length === 0) return;
+        const longest = Math.max(...exiting.map(l => l.spec.duration));
+        const timer = setTimeout(() => setExiting([]), longest + 50);
+        return () => clearTimeout(timer);
+    }, [exiting]);
+
+    // Shared keys let the outgoing element keep its DOM node, so its exit animates
+    return (
+        <>
+            {exiting.map(layer => (
+                <div key={`layer-${layer.key}`} className={className} style={getTransitionStyle(layer.spec, 'out')}>
+                    {layer.node}
+                </div>
+            ))}
+            <div key={`layer-${renderedKey}`} className={className} style={getTransitionStyle(spec, phase)}>
+                {children}
+            </div>
+        </>
+    );
+}
+
+export default function VisualStack({ background, theme, content, contentKey, transitions, overlay, alert, fullBleed, style }: VisualStackProps) {
     const [activeBg, setActiveBg] = useState<string | null>(null);
-    const [isVisible, setIsVisible] = useState(false);
 
-    // Handle background transitions (cross-dissolve effect could be added here)
-    // Handle background transitions (cross-dissolve effect could be added here)
+    // Background changes are keyed by value so a running motion background is left alone
     useEffect(() => {
         if (background) {
             if (typeof background === 'string') {
@@ -30,35 +101,43 @@ export default function VisualStack({ background, theme, content, overlay, alert
         }
     }, [background]);
 
+    const resolved = resolveTransitions(theme?.transitions, transitions);
+
+    const renderBackground = () => (
+        activeBg && typeof activeBg === 'string' ? (
+            activeBg.endsWith('.mp4') || activeBg.endsWith('.webm') ? (
+                <video
+                    src={activeBg}
+                    autoPlay
+                    loop
+                    muted
+                    className="w-full h-full object-cover"
+                    style={{ opacity: theme?.background?.brightness ?? 0.6 }}
+                />
+            ) : (activeBg.startsWith('/') || activeBg.startsWith('http') || activeBg.startsWith('data:')) ? (
+                <img
+                    src={activeBg}
+                    alt="bg"
+                    className="w-full h-full object-cover"
+                    style={{ opacity: theme?.background?.brightness ?? 0.6 }}
+                />
+            ) : (
+                <div className="w-full h-full opacity-100" style={{ background: activeBg }} />
+            )
+        ) : (
+            // Fallback Gradient
+            <div className="w-full h-full bg-gradient-to-br from-slate-900 via-black to-slate-900" />
+        )
+    );
+
     return (
         <div className="fixed inset-0 bg-black overflow-hidden select-none cursor-none" style={style}>
 
             {/* LAYER 1: BACKGROUND (Z-0) */}
-            <div className="absolute inset-0 z-0 bg-black transition-opacity duration-1000">
-                {activeBg && typeof activeBg === 'string' ? (
-                    activeBg.endsWith('.mp4') || activeBg.endsWith('.webm') ? (
-                        <video
-                            src={activeBg}
-                            autoPlay
-                            loop
-                            muted
-                            className="w-full h-full object-cover"
-                            style={{ opacity: theme?.background?.brightness ?? 0.6 }}
-                        />
-                    ) : (activeBg.startsWith('/') || activeBg.startsWith('http') || activeBg.startsWith('data:')) ? (
-                        <img
-                            src={activeBg}
-                            alt="bg"
-                            className="w-full h-full object-cover"
-                            style={{ opacity: theme?.background?.brightness ?? 0.6 }}
-                        />
-                    ) : (
-                        <div className="w-full h-full opacity-100" style={{ background: activeBg }} />
-                    )
-                ) : (
-                    // Fallback Gradient
-                    <div className="w-full h-full bg-gradient-to-br from-slate-900 via-black to-slate-900" />
-                )}
+            <div className="absolute inset-0 z-0 bg-black">
+                <TransitionLayer layerKey={activeBg || 'fallback'} spec={resolved.background} className="absolute inset-0">
+                    {renderBackground()}
+                </TransitionLayer>
             </div>
 
             {/* Ambient Effects (Between BG and Content) */}
@@ -68,11 +147,19 @@ export default function VisualStack({ background, theme, content, overlay, alert
             </div>
 
             {/* LAYER 2: CONTENT (Z-20) */}
-            <div
-                className="absolute inset-0 z-20 flex flex-col items-center justify-center transition-all duration-500"
-                style={{ padding: fullBleed ? 0 : `${theme?.layout?.contentPadding ?? 80}px` }}
-            >
-                {content}
+            <div className="absolute inset-0 z-20 overflow-hidden">
+                <TransitionLayer
+                    layerKey={contentKey ?? 'static'}
+                    spec={resolved.content}
+                    className="absolute inset-0 flex flex-col items-center justify-center"
+                >
+                    <div
+                        className="w-full h-full flex flex-col items-center justify-center transition-[padding] duration-500"
+                        style={{ padding: fullBleed ? 0 : `${theme?.layout?.contentPadding ?? 80}px` }}
+                    >
+                        {content}
+                    </div>
+                </TransitionLayer>
             </div>
 
             {/* LAYER 3: PROPS/OVERLAY (Z-30) */}
@@ -11,6 +11,8 @@ require('dotenv').config({ path: path.join(__dirname, '../.env.local') });
 
 const { exec } = require('child_process');
 const crypto = require('crypto');
+const http = require('http');
+const os = require('os');
 
 // ==================== EULA / LICENSE AGREEMENT ====================
 function getEulaAcceptedPath() {
@@ -279,6 +281,9 @@ function createWindow() {
         mainWindow = null;
         if (projectorWindow) projectorWindow.close();
         if (stageWindow) stageWindow.close();
+        for (const win of outputWindows.values()) win.close();
+        if (testGridWindow) testGridWindow.close();
+        if (runSheetWindow) runSheetWindow.close();
     });
 
     // PRODUCTION HARDENING: Disable DevTools and Context Menu
@@ -307,6 +312,9 @@ function createWindow() {
 // Projector Window Management
 let projectorWindow = null;
 let stageWindow = null;
+const outputWindows = new Map(); // Named outputs: outputId -> BrowserWindow
+let testGridWindow = null;
+let runSheetWindow = null;
 let identifyWindows = [];
 
 function getIconPath() {
@@ -495,6 +503,172 @@ ipcMain.handle('open-stage-window', async (event, { displayId } = {}) => {
     return { success: true };
 });
 
+// Printable run sheet; one window, reloaded when opened for another plan or preset
+ipcMain.handle('open-runsheet-window', async (event, { planId, preset } = {}) => {
+    const params = new URLSearchParams();
+    if (planId) params.set('plan', planId);
+    if (preset) params.set('preset', preset);
+    const query = params.toString() ? `?${params.toString()}` : '';
+
+    if (!runSheetWindow) {
+        runSheetWindow = new BrowserWindow({
+            width: 900,
+            height: 1000,
+            backgroundColor: '#ffffff',
+            show: false,
+            title: 'Creenly - Run Sheet',
+            autoHideMenuBar: true,
+            icon: getIconPath(),
+            webPreferences: {
+                nodeIntegration: false,
+                contextIsolation: true,
+                preload: path.join(__dirname, 'preload.js')
+            }
+        });
+
+        runSheetWindow.once('ready-to-show', () => {
+            runSheetWindow.show();
+        });
+
+        runSheetWindow.on('closed', () => {
+            runSheetWindow = null;
+        });
+    } else {
+        runSheetWindow.focus();
+    }
+
+    if (app.isPackaged) {
+        const runSheetPath = path.join(__dirname, '../out/runsheet.html');
+        runSheetWindow.loadURL(`file://${runSheetPath.replace(/\\/g, '/')}${query}`).catch(err => {
+            console.error("Failed to load run sheet URL:", err);
+        });
+    } else {
+        const startUrl = process.env.ELECTRON_START_URL || 'http://localhost:3000';
+        runSheetWindow.loadURL(`${startUrl}/runsheet${query}`);
+    }
+
+    return { success: true };
+});
+
+// Named outputs are extra projector windows; each reads its own settings via ?output=<id>
+ipcMain.handle('open-output-window', async (event, { outputId, displayId, name } = {}) => {
+    if (!outputId) return { success: false, error: 'Missing output id' };
+
+    const existing = outputWindows.get(outputId);
+    if (existing) {
+        existing.focus();
+        return { success: true, message: "Window already open" };
+    }
+
+    const { screen } = require('electron');
+    const displays = screen.getAllDisplays();
+    const targetDisplay = (displayId && displays.find(d => String(d.id) === String(displayId))) || displays[0];
+
+    const win = new BrowserWindow({
+        x: targetDisplay.bounds.x,
+        y: targetDisplay.bounds.y,
+        width: targetDisplay.bounds.width,
+        height: targetDisplay.bounds.height,
+        fullscreen: false,
+        backgroundColor: '#000000',
+        show: false,
+        title: `Creenly - ${name || 'Output'}`,
+        autoHideMenuBar: true,
+        icon: getIconPath(),
+        webPreferences: {
+            nodeIntegration: false,
+            contextIsolation: true,
+            preload: path.join(__dirname, 'preload.js')
+        }
+    });
+    outputWindows.set(outputId, win);
+
+    win.once('ready-to-show', () => {
+        win.show();
+    });
+
+    const query = `?output=${encodeURIComponent(outputId)}`;
+    if (app.isPackaged) {
+        const projectorPath = path.join(__dirname, '../out/projector.html');
+        const fileUrl = `file://${projectorPath.replace(/\\/g, '/')}${query}`;
+        win.loadURL(fileUrl).catch(err => {
+            console.error("Failed to load output URL:", err);
+        });
+        win.webContents.on('context-menu', (e) => e.preventDefault());
+    } else {
+        const startUrl = process.env.ELECTRON_START_URL || 'http://localhost:3000';
+        win.loadURL(`${startUrl}/projector${query}`);
+    }
+
+    win.on('closed', () => {
+        outputWindows.delete(outputId);
+    });
+
+    return { success: true };
+});
+
+ipcMain.handle('close-output-window', async (event, { outputId } = {}) => {
+    const win = outputWindows.get(outputId);
+    if (win) win.close();
+    return { success: true };
+});
+
+ipcMain.handle('get-open-outputs', async () => Array.from(outputWindows.keys()));
+
+// Geometry correction is stored per display, so outputs ask which display they're on
+ipcMain.handle('get-window-display', async (event) => {
+    const { screen } = require('electron');
+    const win = BrowserWindow.fromWebContents(event.sender);
+    if (!win) return null;
+    return String(screen.getDisplayMatching(win.getBounds()).id);
+});
+
+// Full-screen test grid on the display being calibrated
+ipcMain.handle('show-test-grid', async (event, { displayId } = {}) => {
+    const { screen } = require('electron');
+    const displays = screen.getAllDisplays();
+    const targetDisplay = displays.find(d => String(d.id) === String(displayId)) || displays[0];
+
+    if (testGridWindow) testGridWindow.close();
+
+    testGridWindow = new BrowserWindow({
+        x: targetDisplay.bounds.x,
+        y: targetDisplay.bounds.y,
+        width: targetDisplay.bounds.width,
+        height: targetDisplay.bounds.height,
+        frame: false,
+        alwaysOnTop: true,
+        skipTaskbar: true,
+        backgroundColor: '#000000',
+        webPreferences: {
+            nodeIntegration: false,
+            contextIsolation: true,
+            preload: path.join(__dirname, 'preload.js')
+        }
+    });
+    testGridWindow.setIgnoreMouseEvents(true);
+
+    const query = `?display=${encodeURIComponent(String(targetDisplay.id))}`;
+    if (app.isPackaged) {
+        const calibratePath = path.join(__dirname, '../out/calibrate.html');
+        testGridWindow.loadURL(`file://${calibratePath.replace(/\\/g, '/')}${query}`);
+    } else {
+        const startUrl = process.env.ELECTRON_START_URL || 'http://localhost:3000';
+        testGridWindow.loadURL(`${startUrl}/calibrate${query}`);
+    }
+
+    testGridWindow.on('closed', () => {
+        testGridWindow = null;
+    });
+
+    return { success: true };
+});
+
+ipcMain.handle('hide-test-grid', async () => {
+    if (testGridWindow) testGridWindow.close();
+    return { success: true };
+});
+
 ipcMain.handle('get-machine-id', async () => {
     return await getMachineId();
 });
@@ -1033,6 +1207,679 @@ ipcMain.handle('ndi-start', async () => {
     return { success: true, warning: 'NDI requires native compilation' };
 });
 
+// ==================== LAN REMOTE CONTROL ====================
+// Phones on the same network pair with a PIN shown in the dashboard, then drive
+// the show over HTTP (/api/*) or a WebSocket (/ws). Commands are forwarded to the
+// dashboard, which re-broadcasts them on projector_channel like any local action.
+const REMOTE_DEFAULT_PORT = 4316;
+const REMOTE_MAX_BODY = 64 * 1024;
+const REMOTE_PIN_LENGTH = 6;
+// Wrong PINs allowed per address before it is locked out for a while
+const REMOTE_MAX_PAIR_ATTEMPTS = 5;
+const REMOTE_PAIR_LOCKOUT_MS = 5 * 60 * 1000;
+// Paired devices have to enter the PIN again after this long
+const REMOTE_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+const REMOTE_COMMANDS = [
+    'SHOW_CONTENT', 'CLEAR', 'BLACKOUT', 'ALERT', 'MEDIA_ACTION', 'TIMER_ACTION',
+    'NEXT_SLIDE', 'PREV_SLIDE', 'GO_LIVE'
+];
+
+let remoteServer = null;
+let remotePort = null;
+let remotePin = null;
+const remoteTokens = new Map(); // token -> expiresAt
+const remotePairAttempts = new Map(); // address -> { failures, lockedUntil }
+const remoteSockets = new Set();
+let remoteState = { schedule: null, live: null, updatedAt: 0 };
+
+// Read-only output feed for browser sources (OBS/vMix) that can't join projector_channel.
+// Mirrors what the projector shows, so it needs no pairing.
+const outputSockets = new Set();
+let outputSnapshot = null; // Latest live state from the dashboard (utils/liveState)
+const OUTPUT_DIR = path.join(__dirname, '../out');
+const STATIC_TYPES = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'application/javascript',
+    '.css': 'text/css',
+    '.json': 'application/json',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.svg': 'image/svg+xml',
+    '.woff2': 'font/woff2',
+    '.wasm': 'application/wasm'
+};
+
+function generateRemotePin() {
+    return String(crypto.randomInt(0, 10 ** REMOTE_PIN_LENGTH)).padStart(REMOTE_PIN_LENGTH, '0');
+}
+
+// Milliseconds until `address` may try another PIN (0 = allowed now)
+function getPairLockout(address) {
+    const attempts = remotePairAttempts.get(address);
+    if (!attempts || attempts.lockedUntil <= Date.now()) return 0;
+    return attempts.lockedUntil - Date.now();
+}
+
+function recordPairFailure(address) {
+    const attempts = remotePairAttempts.get(address) || { failures: 0, lockedUntil: 0 };
+    attempts.failures++;
+    if (attempts.failures >= REMOTE_MAX_PAIR_ATTEMPTS) {
+        attempts.failures = 0;
+        attempts.lockedUntil = Date.now() + REMOTE_PAIR_LOCKOUT_MS;
+        console.warn('[Remote] Too many wrong PINs, locking out', address);
+    }
+    remotePairAttempts.set(address, attempts);
+}
+
+function getLanAddresses() {
+    const addresses = [];
+    const interfaces = os.networkInterfaces();
+    for (const name of Object.keys(interfaces)) {
+        for (const iface of interfaces[name] || []) {
+            if (iface.family === 'IPv4' && !iface.internal) addresses.push(iface.address);
+        }
+    }
+    return addresses;
+}
+
+function getRemoteStatus() {
+    return {
+        running: !!remoteServer,
+        port: remotePort,
+        pin: remotePin,
+        addresses: getLanAddresses(),
+        clients: remoteSockets.size,
+        outputClients: outputSockets.size
+    };
+}
+
+function sendJson(res, status, body) {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+    });
+    res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req) {
+    return new Promise((resolve, reject) => {
+        let size = 0;
+        const chunks = [];
+        req.on('data', (chunk) => {
+            size += chunk.length;
+            if (size > REMOTE_MAX_BODY) {
+                reject(new Error('Payload too large'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (chunks.length === 0) return resolve({});
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+            } catch (e) {
+                reject(new Error('Invalid JSON'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function getRemoteToken(req, url) {
+    const header = req.headers['authorization'] || '';
+    if (header.startsWith('Bearer ')) return header.slice(7).trim();
+    return url.searchParams.get('token');
+}
+
+function isRemoteTokenValid(token) {
+    const expiresAt = token && remoteTokens.get(token);
+    if (!expiresAt) return false;
+    if (expiresAt > Date.now()) return true;
+    remoteTokens.delete(token);
+    return false;
+}
+
+function isRemoteAuthorized(req, url) {
+    return isRemoteTokenValid(getRemoteToken(req, url));
+}
+
+const isNonEmptyString = (value) => typeof value === 'string' && value.length > 0;
+const isOptionalNumber = (value) => value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+// Value types of each projector MEDIA_ACTION
+const REMOTE_MEDIA_ACTIONS = {
+    play: () => true,
+    pause: () => true,
+    toggle_play: () => true,
+    seek: (value) => typeof value === 'number' && Number.isFinite(value),
+    set_time: (value) => typeof value === 'number' && value >= 0,
+    rate: (value) => typeof value === 'number' && value > 0,
+    set_mode: (value) => ['contain', 'cover', 'stretch'].includes(value),
+    set_scale: (value) => typeof value === 'number' && value > 0,
+    set_audio_only: (value) => typeof value === 'boolean'
+};
+
+// Payload shape each command needs; the renderer trusts what gets through
+const REMOTE_PAYLOAD_CHECKS = {
+    GO_LIVE: (p) => isNonEmptyString(p.itemId) && (p.slideIndex === undefined || (Number.isInteger(p.slideIndex) && p.slideIndex >= 0)),
+    SHOW_CONTENT: (p) => ['song', 'media', 'scripture'].includes(p.type) && isNonEmptyString(p.body) && (p.title === undefined || typeof p.title === 'string'),
+    ALERT: (p) => isNonEmptyString(p.text) && isOptionalNumber(p.duration),
+    MEDIA_ACTION: (p) => Object.prototype.hasOwnProperty.call(REMOTE_MEDIA_ACTIONS, p.action) && REMOTE_MEDIA_ACTIONS[p.action](p.value),
+    TIMER_ACTION: (p) => ['set', 'start', 'pause', 'stop', 'reset'].includes(p.action)
+        && (p.action !== 'set' || (typeof p.value === 'number' && p.value >= 0 && ['countup', 'countdown'].includes(p.mode || 'countup')))
+};
+
+// Validates a remote command and hands it to the dashboard renderer.
+function dispatchRemoteCommand(command) {
+    if (!command || typeof command !== 'object' || typeof command.type !== 'string' || !REMOTE_COMMANDS.includes(command.type)) {
+        return { success: false, error: 'Unsupported command' };
+    }
+    const check = REMOTE_PAYLOAD_CHECKS[command.type];
+    const payload = command.payload;
+    if (check && (!payload || typeof payload !== 'object' || !check(payload))) {
+        return { success: false, error: 'Invalid payload' };
+    }
+    if (!mainWindow) return { success: false, error: 'Dashboard not available' };
+
+    console.log('[Remote] Command:', command.type);
+    mainWindow.webContents.send('remote-command', { type: command.type, payload: command.payload });
+    return { success: true };
+}
+
+// ---- WebSocket (RFC 6455, text frames only) ----
+function encodeWsFrame(text, opcode = 0x1) {
+    const payload = Buffer.from(text, 'utf8');
+    let header;
+    if (payload.length < 126) {
+        header = Buffer.alloc(2);
+        header[1] = payload.length;
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4);
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    header[0] = 0x80 | opcode;
+    return Buffer.concat([header, payload]);
+}
+
+// Largest frame header: 2 bytes, 8-byte length, 4-byte mask
+const WS_MAX_HEADER = 14;
+// Control frames (close, ping, pong) carry at most this much
+const WS_MAX_CONTROL_PAYLOAD = 125;
+
+// Parses as many complete frames as the buffer holds; returns the unconsumed rest,
+// or null when the client broke the protocol (unmasked frame, frame over maxLength).
+function decodeWsFrames(buffer, maxLength, onFrame) {
+    let offset = 0;
+    while (buffer.length - offset >= 2) {
+        const opcode = buffer[offset] & 0x0f;
+        const masked = (buffer[offset + 1] & 0x80) !== 0;
+        let length = buffer[offset + 1] & 0x7f;
+        let pos = offset + 2;
+
+        // Clients must mask every frame (RFC 6455 5.1)
+        if (!masked) return null;
+
+        if (length === 126) {
+            if (buffer.length < pos + 2) break;
+            length = buffer.readUInt16BE(pos);
+            pos += 2;
+        } else if (length === 127) {
+            if (buffer.length < pos + 8) break;
+            length = Number(buffer.readBigUInt64BE(pos));
+            pos += 8;
+        }
+        if (length > maxLength) return null;
+
+        if (buffer.length < pos + 4 + length) break;
+
+        const payload = Buffer.from(buffer.subarray(pos + 4, pos + 4 + length));
+        const mask = buffer.subarray(pos, pos + 4);
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+
+        onFrame(opcode, payload);
+        offset = pos + 4 + length;
+    }
+    return buffer.subarray(offset);
+}
+
+// Feeds the socket's complete frames to onFrame. Partial frames are buffered up
+// to one frame of maxLength; a client breaking the protocol is disconnected.
+function readWsFrames(socket, maxLength, onFrame) {
+    let pending = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+        const rest = decodeWsFrames(Buffer.concat([pending, chunk]), maxLength, onFrame);
+        if (!rest || rest.length > maxLength + WS_MAX_HEADER) {
+            socket.destroy();
+            return;
+        }
+        pending = rest;
+    });
+}
+
+function sendToRemoteSocket(socket, message) {
+    if (!socket.destroyed) socket.write(encodeWsFrame(JSON.stringify(message)));
+}
+
+function broadcastRemoteState() {
+    for (const socket of remoteSockets) {
+        sendToRemoteSocket(socket, { type: 'STATE', payload: remoteState });
+    }
+}
+
+function acceptWebSocket(req, socket) {
+    const accept = crypto
+        .createHash('sha1')
+        .update(req.headers['sec-websocket-key'] + '258EAFA5-E914-47DA-95CA-C5AB0DC85B11')
+        .digest('base64');
+
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', ''
+    ].join('\r\n'));
+}
+
+function sendOutputSnapshot(socket) {
+    if (!outputSnapshot) return;
+    sendToRemoteSocket(socket, {
+        type: 'LIVE_STATE',
+        session: outputSnapshot.session,
+        seq: outputSnapshot.seq,
+        payload: outputSnapshot
+    });
+}
+
+function handleOutputUpgrade(req, socket) {
+    acceptWebSocket(req, socket);
+    outputSockets.add(socket);
+    console.log(`[Remote] Output feed connected (${outputSockets.size})`);
+    sendOutputSnapshot(socket);
+
+    // Only close and ping frames matter; outputs never send commands, so anything else is dropped
+    readWsFrames(socket, WS_MAX_CONTROL_PAYLOAD, (opcode, payload) => {
+        if (opcode === 0x8) socket.end(encodeWsFrame('', 0x8));
+        else if (opcode === 0x9) socket.write(encodeWsFrame(payload.toString('utf8'), 0xA));
+    });
+
+    const cleanup = () => outputSockets.delete(socket);
+    socket.on('close', cleanup);
+    socket.on('error', cleanup);
+}
+
+function handleRemoteUpgrade(req, socket) {
+    const url = new URL(req.url, 'http://localhost');
+
+    if (!req.headers['sec-websocket-key']) {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    if (url.pathname === '/output-feed') {
+        handleOutputUpgrade(req, socket);
+        return;
+    }
+    if (url.pathname !== '/ws' || !isRemoteAuthorized(req, url)) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        return;
+    }
+
+    const token = getRemoteToken(req, url);
+    acceptWebSocket(req, socket);
+    remoteSockets.add(socket);
+    console.log(`[Remote] WebSocket client connected (${remoteSockets.size})`);
+    sendToRemoteSocket(socket, { type: 'STATE', payload: remoteState });
+
+    readWsFrames(socket, REMOTE_MAX_BODY, (opcode, payload) => {
+        if (opcode === 0x8) {
+            socket.end(encodeWsFrame('', 0x8));
+        } else if (opcode === 0x9) {
+            socket.write(encodeWsFrame(payload.toString('utf8'), 0xA));
+        } else if (opcode === 0x1) {
+            if (!isRemoteTokenValid(token)) {
+                sendToRemoteSocket(socket, { type: 'ERROR', error: 'Not paired' });
+                socket.end(encodeWsFrame('', 0x8));
+                return;
+            }
+            let message;
+            try {
+                message = JSON.parse(payload.toString('utf8'));
+            } catch (e) {
+                sendToRemoteSocket(socket, { type: 'ERROR', error: 'Invalid JSON' });
+                return;
+            }
+            if (!message || typeof message !== 'object') {
+                sendToRemoteSocket(socket, { type: 'ERROR', error: 'Invalid command' });
+                return;
+            }
+            if (message.type === 'REQUEST_STATE') {
+                sendToRemoteSocket(socket, { type: 'STATE', payload: remoteState });
+                return;
+            }
+            sendToRemoteSocket(socket, { type: 'ACK', command: message.type, ...dispatchRemoteCommand(message) });
+        }
+    });
+
+    const cleanup = () => {
+        if (remoteSockets.delete(socket)) {
+            console.log(`[Remote] WebSocket client disconnected (${remoteSockets.size})`);
+        }
+    };
+    socket.on('close', cleanup);
+    socket.on('error', cleanup);
+}
+
+// ---- HTTP API ----
+async function handleRemoteRequest(req, res) {
+    const url = new URL(req.url, 'http://localhost');
+
+    if (req.method === 'GET' && (url.pathname === '/' || url.pathname === '/remote')) {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+        res.end(REMOTE_PAGE_HTML);
+        return;
+    }
+
+    if (req.method === 'GET' && !url.pathname.startsWith('/api/') && serveStaticOutput(url.pathname, res)) {
+        return;
+    }
+
+    try {
+        if (req.method === 'POST' && url.pathname === '/api/pair') {
+            const address = req.socket.remoteAddress;
+            const lockout = getPairLockout(address);
+            if (lockout > 0) {
+                return sendJson(res, 429, { success: false, error: `Too many attempts. Try again in ${Math.ceil(lockout / 60000)} min.` });
+            }
+            const { pin } = await readJsonBody(req);
+            if (!remotePin || String(pin) !== remotePin) {
+                console.warn('[Remote] Pairing rejected from', address);
+                recordPairFailure(address);
+                return sendJson(res, 403, { success: false, error: 'Invalid PIN' });
+            }
+            remotePairAttempts.delete(address);
+            const token = crypto.randomBytes(24).toString('hex');
+            remoteTokens.set(token, Date.now() + REMOTE_TOKEN_TTL_MS);
+            console.log('[Remote] Paired device', req.socket.remoteAddress);
+            return sendJson(res, 200, { success: true, token });
+        }
+
+        if (!isRemoteAuthorized(req, url)) {
+            return sendJson(res, 401, { success: false, error: 'Not paired' });
+        }
+
+        if (req.method === 'GET' && url.pathname === '/api/state') return sendJson(res, 200, remoteState);
+        if (req.method === 'GET' && url.pathname === '/api/schedule') return sendJson(res, 200, remoteState.schedule);
+        if (req.method === 'GET' && url.pathname === '/api/live') return sendJson(res, 200, remoteState.live);
+
+        if (req.method === 'POST' && url.pathname === '/api/command') {
+            const result = dispatchRemoteCommand(await readJsonBody(req));
+            return sendJson(res, result.success ? 200 : 400, result);
+        }
+
+        sendJson(res, 404, { success: false, error: 'Not found' });
+    } catch (e) {
+        sendJson(res, 400, { success: false, error: e.message });
+    }
+}
+
+// Serves the exported Next.js pages (e.g. /lower-third) so browser sources can load them
+function serveStaticOutput(pathname, res) {
+    const resolved = path.normalize(path.join(OUTPUT_DIR, decodeURIComponent(pathname)));
+    // Trailing separator, so sibling folders like "out-foo" don't pass
+    if (resolved !== OUTPUT_DIR && !resolved.startsWith(OUTPUT_DIR + path.sep)) return false;
+
+    const candidates = [resolved, `${resolved}.html`, path.join(resolved, 'index.html')];
+    const filePath = candidates.find(p => fs.existsSync(p) && fs.statSync(p).isFile());
+    if (!filePath) return false;
+
+    res.writeHead(200, { 'Content-Type': STATIC_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+    fs.createReadStream(filePath).pipe(res);
+    return true;
+}
+
+function startRemoteServer(port = REMOTE_DEFAULT_PORT) {
+    if (remoteServer) return Promise.resolve(getRemoteStatus());
+
+    return new Promise((resolve, reject) => {
+        const server = http.createServer((req, res) => {
+            handleRemoteRequest(req, res).catch((e) => sendJson(res, 500, { success: false, error: e.message }));
+        });
+        server.on('upgrade', handleRemoteUpgrade);
+        server.once('error', reject);
+        server.listen(port, '0.0.0.0', () => {
+            remoteServer = server;
+            remotePort = server.address().port;
+            remotePin = generateRemotePin();
+            remoteTokens.clear();
+            remotePairAttempts.clear();
+            console.log(`[Remote] Listening on port ${remotePort}`);
+            resolve(getRemoteStatus());
+        });
+    });
+}
+
+function stopRemoteServer() {
+    if (!remoteServer) return;
+    for (const socket of [...remoteSockets, ...outputSockets]) socket.destroy();
+    remoteSockets.clear();
+    outputSockets.clear();
+    remoteTokens.clear();
+    remotePairAttempts.clear();
+    remoteServer.close();
+    remoteServer = null;
+    remotePort = null;
+    remotePin = null;
+    console.log('[Remote] Server stopped');
+}
+
+ipcMain.handle('remote-server-start', async (event, { port } = {}) => {
+    try {
+        return { success: true, ...(await startRemoteServer(port)) };
+    } catch (e) {
+        console.error('[Remote] Failed to start:', e);
+        return { success: false, error: e.message, ...getRemoteStatus() };
+    }
+});
+
+ipcMain.handle('remote-server-stop', async () => {
+    stopRemoteServer();
+    return { success: true, ...getRemoteStatus() };
+});
+
+ipcMain.handle('remote-server-status', async () => getRemoteStatus());
+
+// Regenerating the PIN also revokes every paired device
+ipcMain.handle('remote-server-reset-pin', async () => {
+    if (!remoteServer) return getRemoteStatus();
+    remotePin = generateRemotePin();
+    remoteTokens.clear();
+    for (const socket of remoteSockets) socket.destroy();
+    remoteSockets.clear();
+    return getRemoteStatus();
+});
+
+// The dashboard pushes the schedule and live item whenever they change
+ipcMain.on('remote-state-update', (event, state) => {
+    remoteState = { ...remoteState, ...state, updatedAt: Date.now() };
+    broadcastRemoteState();
+});
+
+// Every projector_channel message from the dashboard, for the output feed, plus the
+// live state snapshot it produced (replayed to feeds that connect later)
+ipcMain.on('output-relay', (event, message, snapshot) => {
+    if (!message || typeof message.type !== 'string') return;
+    if (snapshot) outputSnapshot = snapshot;
+
+    for (const socket of outputSockets) sendToRemoteSocket(socket, message);
+});
+
+const REMOTE_PAGE_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1">
+<title>Creenly Remote</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, system-ui, sans-serif; background: #09090b; color: #fafafa; }
+  header { padding: 16px; border-bottom: 1px solid #27272a; display: flex; justify-content: space-between; align-items: center; }
+  h1 { margin: 0; font-size: 16px; letter-spacing: .08em; text-transform: uppercase; }
+  main { padding: 16px; max-width: 560px; margin: 0 auto; }
+  .hidden { display: none !important; }
+  .card { background: #18181b; border: 1px solid #27272a; border-radius: 16px; padding: 16px; margin-bottom: 16px; }
+  .label { font-size: 10px; font-weight: 800; color: #71717a; text-transform: uppercase; letter-spacing: .15em; margin-bottom: 8px; }
+  .live { white-space: pre-wrap; font-size: 15px; line-height: 1.4; min-height: 48px; }
+  .row { display: grid; grid-template-columns: 1fr 1fr; gap: 10px; margin-bottom: 10px; }
+  button { border: 0; border-radius: 12px; padding: 18px 12px; font-size: 14px; font-weight: 700; color: #fff; background: #27272a; }
+  button:active { transform: scale(.97); }
+  .primary { background: #4f46e5; }
+  .danger { background: #dc2626; }
+  input { width: 100%; padding: 14px; border-radius: 12px; border: 1px solid #3f3f46; background: #09090b; color: #fff; font-size: 16px; }
+  .pin { text-align: center; font-size: 32px; letter-spacing: .5em; }
+  .item { width: 100%; text-align: left; margin-bottom: 8px; padding: 14px; }
+  .item.active { background: #312e81; }
+  .item small { display: block; color: #a1a1aa; font-weight: 500; margin-top: 2px; }
+  .status { font-size: 11px; color: #a1a1aa; }
+  .error { color: #f87171; font-size: 13px; margin-top: 8px; }
+</style>
+</head>
+<body>
+<header><h1>Creenly Remote</h1><span class="status" id="status">Not paired</span></header>
+<main>
+  <section id="pair" class="card">
+    <div class="label">Enter the PIN shown in the dashboard</div>
+    <input id="pin" class="pin" inputmode="numeric" maxlength="6" autocomplete="off">
+    <div style="height:10px"></div>
+    <button class="primary" style="width:100%" id="pairBtn">Pair</button>
+    <div class="error" id="pairError"></div>
+  </section>
+  <section id="remote" class="hidden">
+    <div class="card">
+      <div class="label">Live</div>
+      <div class="live" id="live">Nothing on screen</div>
+    </div>
+    <div class="row">
+      <button data-cmd="PREV_SLIDE">&#9664; Prev</button>
+      <button class="primary" data-cmd="NEXT_SLIDE">Next &#9654;</button>
+    </div>
+    <div class="row">
+      <button data-cmd="CLEAR">Clear</button>
+      <button class="danger" data-cmd="BLACKOUT">Blackout</button>
+    </div>
+    <div class="card">
+      <div class="label">Alert</div>
+      <input id="alertText" placeholder="Message for the screen">
+      <div style="height:10px"></div>
+      <button style="width:100%" id="alertBtn">Send Alert</button>
+    </div>
+    <div class="card">
+      <div class="label">Schedule</div>
+      <div id="schedule"></div>
+    </div>
+  </section>
+</main>
+<script>
+  var token = localStorage.getItem('creenlyRemoteToken');
+  var ws = null;
+  var state = { schedule: null, live: null };
+  var $ = function (id) { return document.getElementById(id); };
+
+  function setStatus(text) { $('status').textContent = text; }
+
+  function send(type, payload) {
+    if (ws && ws.readyState === 1) {
+      ws.send(JSON.stringify({ type: type, payload: payload }));
+      return;
+    }
+    fetch('/api/command', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer ' + token },
+      body: JSON.stringify({ type: type, payload: payload })
+    });
+  }
+
+  function render() {
+    var live = state.live;
+    $('live').textContent = live ? (live.title ? live.title + '\\n\\n' : '') + (live.body || '') : 'Nothing on screen';
+    var list = $('schedule');
+    list.innerHTML = '';
+    var items = (state.schedule && state.schedule.items) || [];
+    if (items.length === 0) list.textContent = 'Schedule is empty';
+    items.forEach(function (item) {
+      var btn = document.createElement('button');
+      btn.className = 'item' + (live && live.itemId === item.id ? ' active' : '');
+      btn.textContent = item.title;
+      var meta = document.createElement('small');
+      meta.textContent = item.type + ' \\u00b7 ' + item.slideCount + ' slide' + (item.slideCount === 1 ? '' : 's');
+      btn.appendChild(meta);
+      btn.onclick = function () { send('GO_LIVE', { itemId: item.id, slideIndex: 0 }); };
+      list.appendChild(btn);
+    });
+  }
+
+  function connect() {
+    $('pair').classList.add('hidden');
+    $('remote').classList.remove('hidden');
+    var proto = location.protocol === 'https:' ? 'wss://' : 'ws://';
+    ws = new WebSocket(proto + location.host + '/ws?token=' + encodeURIComponent(token));
+    ws.onopen = function () { setStatus('Connected'); };
+    ws.onmessage = function (e) {
+      var msg = JSON.parse(e.data);
+      if (msg.type === 'STATE') { state = msg.payload; render(); }
+    };
+    ws.onclose = function () {
+      setStatus('Reconnecting...');
+      fetch('/api/state', { headers: { 'Authorization': 'Bearer ' + token } }).then(function (r) {
+        if (r.status === 401) { unpair(); return; }
+        setTimeout(connect, 2000);
+      }).catch(function () { setTimeout(connect, 2000); });
+    };
+  }
+
+  function unpair() {
+    token = null;
+    localStorage.removeItem('creenlyRemoteToken');
+    $('remote').classList.add('hidden');
+    $('pair').classList.remove('hidden');
+    setStatus('Not paired');
+  }
+
+  $('pairBtn').onclick = function () {
+    $('pairError').textContent = '';
+    fetch('/api/pair', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ pin: $('pin').value.trim() })
+    }).then(function (r) { return r.json(); }).then(function (res) {
+      if (!res.success) { $('pairError').textContent = res.error || 'Pairing failed'; return; }
+      token = res.token;
+      localStorage.setItem('creenlyRemoteToken', token);
+      connect();
+    }).catch(function () { $('pairError').textContent = 'Could not reach Creenly'; });
+  };
+
+  document.querySelectorAll('[data-cmd]').forEach(function (btn) {
+    btn.onclick = function () { send(btn.getAttribute('data-cmd')); };
+  });
+
+  $('alertBtn').onclick = function () {
+    var text = $('alertText').value.trim();
+    if (!text) return;
+    send('ALERT', { text: text, duration: 8000 });
+    $('alertText').value = '';
+  };
+
+  if (token) connect();
+</script>
+</body>
+</html>`;
+
 // Auto-Update Logic - initialized lazily after app is ready
 function initAutoUpdater() {
     if (autoUpdater) return;
@@ -1113,6 +1960,7 @@ app.on('ready', async () => {
 
 app.on('window-all-closed', () => {
     if (nextServer) nextServer.kill();
+    stopRemoteServer();
     if (process.platform !== 'darwin') {
         app.quit();
     }
@@ -25,10 +25,17 @@ contextBridge.exposeInMainWorld('electronAPI', {
     // Window Management
     openProjectorWindow: (args) => ipcRenderer.invoke('open-projector-window', args),
     openStageWindow: (args) => ipcRenderer.invoke('open-stage-window', args),
+    openOutputWindow: (args) => ipcRenderer.invoke('open-output-window', args),
+    closeOutputWindow: (args) => ipcRenderer.invoke('close-output-window', args),
+    openRunSheetWindow: (args) => ipcRenderer.invoke('open-runsheet-window', args),
+    getOpenOutputs: () => ipcRenderer.invoke('get-open-outputs'),
 
     // Displays
     getDisplays: () => ipcRenderer.invoke('get-displays'),
     identifyDisplays: () => ipcRenderer.invoke('identify-displays'),
+    getWindowDisplayId: () => ipcRenderer.invoke('get-window-display'),
+    showTestGrid: (args) => ipcRenderer.invoke('show-test-grid', args),
+    hideTestGrid: () => ipcRenderer.invoke('hide-test-grid'),
 
     // Song Data
     searchSongs: (query) => ipcRenderer.invoke('song-search', query),
@@ -41,6 +48,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
     // Desktop Capture for Live Feed
     getDesktopSources: () => ipcRenderer.invoke('get-desktop-sources'),
 
+    // LAN Remote Control
+    startRemoteServer: (args) => ipcRenderer.invoke('remote-server-start', args),
+    stopRemoteServer: () => ipcRenderer.invoke('remote-server-stop'),
+    getRemoteServerStatus: () => ipcRenderer.invoke('remote-server-status'),
+    resetRemotePin: () => ipcRenderer.invoke('remote-server-reset-pin'),
+    updateRemoteState: (state) => ipcRenderer.send('remote-state-update', state),
+    relayOutputMessage: (message, snapshot) => ipcRenderer.send('output-relay', message, snapshot),
+    onRemoteCommand: (callback) => {
+        const handler = (_event, command) => callback(command);
+        ipcRenderer.on('remote-command', handler);
+        return () => ipcRenderer.removeListener('remote-command', handler);
+    },
+
     // Auto Update
     checkUpdate: () => ipcRenderer.invoke('check-update'),
     downloadUpdate: () => ipcRenderer.invoke('download-update'),
@@ -0,0 +1,68 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ScheduleItem } from '@/utils/scheduleManager';
+import { AutoAdvanceStep, slideDurationMs, nextAutoAdvanceStep } from '@/utils/autoAdvance';
+
+type LivePresentation = { item: ScheduleItem; slideIndex: number } | null;
+
+const TICK_MS = 100;
+
+/**
+ * Runs the slide timer for the live schedule item. When a slide runs out the
+ * caller gets the step to take and drives its normal navigation with it.
+ * Pausing keeps the elapsed time; going live on another item clears the pause.
+ */
+export function useAutoAdvance(live: LivePresentation, onStep: (step: AutoAdvanceStep, item: ScheduleItem) => void) {
+    const [isPaused, setIsPaused] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const liveRef = useRef(live);
+    const onStepRef = useRef(onStep);
+    const elapsedRef = useRef(0);
+
+    liveRef.current = live;
+    onStepRef.current = onStep;
+
+    const itemId = live?.item.id;
+    const slideIndex = live?.slideIndex;
+    const duration = live ? slideDurationMs(live.item, live.slideIndex) : null;
+
+    useEffect(() => {
+        setIsPaused(false);
+    }, [itemId]);
+
+    // Each slide starts its own countdown
+    useEffect(() => {
+        elapsedRef.current = 0;
+        setProgress(0);
+    }, [itemId, slideIndex]);
+
+    useEffect(() => {
+        if (duration === null || isPaused) return;
+
+        const startedAt = Date.now() - elapsedRef.current;
+        const timer = setInterval(() => {
+            const elapsed = Date.now() - startedAt;
+            elapsedRef.current = elapsed;
+            setProgress(Math.min(1, elapsed / duration));
+
+            if (elapsed >= duration) {
+                clearInterval(timer);
+                const current = liveRef.current;
+                if (current) onStepRef.current(nextAutoAdvanceStep(current.item, current.slideIndex), current.item);
+            }
+        }, TICK_MS);
+
+        return () => clearInterval(timer);
+    }, [itemId, slideIndex, duration, isPaused]);
+
+    const pause = useCallback(() => setIsPaused(true), []);
+    const resume = useCallback(() => setIsPaused(false), []);
+
+    return {
+        isActive: duration !== null,
+        isPaused,
+        progress,
+        remainingMs: duration === null ? 0 : Math.max(0, duration * (1 - progress)),
+        pause,
+        resume
+    };
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+    HistoryCommand,
+    HistoryState,
+    ScheduleCommand,
+    getHistoryState,
+    subscribeHistory,
+    stepHistory,
+    isScheduleCommand,
+    applyLibraryCommand
+} from '@/utils/editHistory';
+
+type ThemeCommand = Extract<HistoryCommand, { kind: 'theme_put' }>;
+
+interface EditHistoryHandlers {
+    onScheduleCommand: (command: ScheduleCommand) => void;
+    onThemeCommand?: (command: ThemeCommand) => void;
+}
+
+const isTextInput = (target: EventTarget | null) => {
+    const el = target as HTMLElement | null;
+    return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+};
+
+/**
+ * Undo/redo for schedule and library edits, with Ctrl+Z / Ctrl+Shift+Z.
+ * The owner of the schedule applies schedule commands; library and theme
+ * commands are written straight to IndexedDB.
+ */
+export function useEditHistory(handlers: EditHistoryHandlers) {
+    const [history, setHistory] = useState<HistoryState>({ entries: [], cursor: 0 });
+    const handlersRef = useRef(handlers);
+    const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+    useEffect(() => {
+        handlersRef.current = handlers;
+    });
+
+    useEffect(() => {
+        setHistory(getHistoryState());
+        return subscribeHistory(() => setHistory(getHistoryState()));
+    }, []);
+
+    const run = useCallback((command: HistoryCommand) => {
+        // Library writes are async; keep them in order when stepping quickly
+        queueRef.current = queueRef.current.then(async () => {
+            if (isScheduleCommand(command)) {
+                handlersRef.current.onScheduleCommand(command);
+                return;
+            }
+            try {
+                await applyLibraryCommand(command);
+                if (command.kind === 'theme_put') handlersRef.current.onThemeCommand?.(command);
+            } catch (e) {
+                console.error('Failed to apply history step', e);
+            }
+        });
+        return queueRef.current;
+    }, []);
+
+    const undo = useCallback(() => {
+        const command = stepHistory('undo');
+        if (command) run(command);
+    }, [run]);
+
+    const redo = useCallback(() => {
+        const command = stepHistory('redo');
+        if (command) run(command);
+    }, [run]);
+
+    // Step back or forward until `cursor` entries are applied
+    const jumpTo = useCallback((cursor: number) => {
+        let current = getHistoryState().cursor;
+        while (current > cursor) {
+            undo();
+            current--;
+        }
+        while (current < cursor) {
+            redo();
+            current++;
+        }
+    }, [undo, redo]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.metaKey || e.ctrlKey) || isTextInput(e.target)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) redo();
+                else undo();
+            } else if (key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    return {
+        entries: history.entries,
+        cursor: history.cursor,
+        canUndo: history.cursor > 0,
+        canRedo: history.cursor < history.entries.length,
+        undo,
+        redo,
+        jumpTo
+    };
+}
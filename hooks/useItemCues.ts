@@ -0,0 +1,63 @@
+import { useEffect, useRef, useCallback } from 'react';
+import type { ScheduleItem } from '@/utils/scheduleManager';
+import { CueAction, cuesFor, runAtemCue, runMidiCue } from '@/utils/cues';
+import { DEFAULT_THEMES, ProjectorTheme } from '@/utils/themes';
+import { getThemes } from '@/utils/resourceLibrary';
+
+interface CueHandlers {
+    broadcast: (message: any) => void;
+    applyTheme: (theme: ProjectorTheme) => void;
+    setAnnouncement: (active: boolean, text?: string) => void;
+    clear: () => void;
+}
+
+/**
+ * Runs an item's cues. Output actions go through the dashboard's own handlers
+ * so they behave exactly like the operator's buttons; a failing cue is logged
+ * and never blocks the others.
+ */
+export function useItemCues(handlers: CueHandlers) {
+    const handlersRef = useRef(handlers);
+
+    useEffect(() => {
+        handlersRef.current = handlers;
+    });
+
+    const runAction = useCallback(async (action: CueAction) => {
+        const h = handlersRef.current;
+        switch (action.kind) {
+            case 'atem':
+                return runAtemCue(action);
+            case 'midi':
+                return runMidiCue(action);
+            case 'timer':
+                if (action.action === 'start' && action.minutes) {
+                    h.broadcast({ type: 'TIMER_ACTION', payload: { action: 'set', mode: 'countdown', value: action.minutes * 60 } });
+                }
+                h.broadcast({ type: 'TIMER_ACTION', payload: { action: action.action } });
+                return;
+            case 'theme': {
+                const themes = [...DEFAULT_THEMES, ...(await getThemes())];
+                const theme = themes.find(t => t.id === action.themeId);
+                if (theme) h.applyTheme(theme);
+                else console.warn('[Cues] Theme not found:', action.themeId);
+                return;
+            }
+            case 'announcement':
+                h.setAnnouncement(action.active, action.text);
+                return;
+            case 'clear':
+                h.clear();
+                return;
+        }
+    }, []);
+
+    // Called when `item` goes live (wentLive) or moves to `slideIndex`
+    const fireCues = useCallback((item: ScheduleItem, slideIndex: number, wentLive: boolean) => {
+        for (const cue of cuesFor(item, slideIndex, wentLive)) {
+            runAction(cue.action).catch(e => console.error('[Cues] Cue failed', cue, e));
+        }
+    }, [runAction]);
+
+    return { fireCues };
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useCallback, useRef } from 'react';
+import { useBroadcastChannel } from './useBroadcast';
+import { AppliedMarker, LiveMessage, isStaleMessage, snapshotToMessages } from '@/utils/liveState';
+
+/**
+ * Output-side half of the live state protocol.
+ * Requests a full snapshot on load, applies it through the output's normal
+ * message handler, and drops out-of-order messages from the dashboard.
+ * `receive` is exposed for messages arriving by other transports (LAN output feed).
+ */
+export function useLiveStateSync(onMessage: (msg: any) => void) {
+    const onMessageRef = useRef(onMessage);
+    const lastAppliedRef = useRef<AppliedMarker | null>(null);
+
+    useEffect(() => {
+        onMessageRef.current = onMessage;
+    });
+
+    const receive = useCallback((msg: LiveMessage) => {
+        if (isStaleMessage(lastAppliedRef.current, msg)) {
+            console.log(`[LiveState] Dropped out-of-order ${msg.type} (#${msg.seq})`);
+            return;
+        }
+        if (msg.session && msg.seq !== undefined) {
+            const last = lastAppliedRef.current;
+            lastAppliedRef.current = {
+                session: msg.session,
+                seq: msg.seq,
+                hasSnapshot: msg.type === 'LIVE_STATE' || (!!last?.hasSnapshot && last.session === msg.session)
+            };
+        }
+
+        if (msg.type === 'LIVE_STATE') {
+            snapshotToMessages(msg.payload).forEach(m => onMessageRef.current(m));
+        } else {
+            onMessageRef.current(msg);
+        }
+    }, []);
+
+    const { broadcast, subscribe } = useBroadcastChannel<any>('projector_channel', receive);
+
+    useEffect(() => {
+        broadcast({ type: 'REQUEST_STATE' });
+    }, [broadcast]);
+
+    return { broadcast, subscribe, receive };
+}
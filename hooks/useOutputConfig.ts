@@ -0,0 +1,30 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import { OutputConfig, OUTPUTS_STORAGE_KEY, loadOutputs } from '@/utils/outputs';
+
+/**
+ * Config for the named output this window renders (`?output=<id>`), kept in sync
+ * with edits made in the dashboard. Null for the main projector.
+ */
+export function useOutputConfig(): OutputConfig | null {
+    const [config, setConfig] = useState<OutputConfig | null>(null);
+
+    useEffect(() => {
+        const outputId = new URLSearchParams(window.location.search).get('output');
+        if (!outputId) return;
+
+        const refresh = () => {
+            setConfig(loadOutputs().find(o => o.id === outputId) || null);
+        };
+        refresh();
+
+        const handleStorage = (e: StorageEvent) => {
+            if (e.key === OUTPUTS_STORAGE_KEY) refresh();
+        };
+        window.addEventListener('storage', handleStorage);
+        return () => window.removeEventListener('storage', handleStorage);
+    }, []);
+
+    return config;
+}
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ServiceSchedule } from '@/utils/scheduleManager';
+import type { ProjectorTheme } from '@/utils/themes';
+import { PlanReport, checkPlan, sortIssues, validatePlan } from '@/utils/planValidator';
+
+const SETTLE_MS = 1500;
+
+/**
+ * Keeps a validation report for the open plan. Quick checks update on every
+ * edit; the media, scripture and display checks run once edits settle.
+ */
+export function usePlanValidation(schedule: ServiceSchedule, theme: ProjectorTheme) {
+    const [report, setReport] = useState<PlanReport | null>(null);
+    const [recheckCount, setRecheckCount] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        setReport({
+            scheduleId: schedule.id,
+            checkedAt: Date.now(),
+            complete: false,
+            issues: sortIssues(schedule, checkPlan(schedule, theme))
+        });
+
+        const timer = setTimeout(() => {
+            validatePlan(schedule, theme).then(full => {
+                if (!cancelled) setReport(full);
+            });
+        }, SETTLE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [schedule, theme, recheckCount]);
+
+    const recheck = useCallback(() => setRecheckCount(c => c + 1), []);
+
+    return { report, isChecking: !!report && !report.complete, recheck };
+}
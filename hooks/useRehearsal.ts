@@ -0,0 +1,51 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ScheduleItem } from '@/utils/scheduleManager';
+import { RehearsalMark, RehearsalTimings, timingsFromMarks } from '@/utils/rehearsal';
+
+type LivePresentation = { item: ScheduleItem; slideIndex: number } | null;
+
+/**
+ * Records when each slide of the live song is entered. Recording stops by
+ * itself (without saving) if another item goes live.
+ */
+export function useRehearsal(live: LivePresentation) {
+    const [recordingId, setRecordingId] = useState<string | null>(null);
+    const marksRef = useRef<RehearsalMark[]>([]);
+
+    const itemId = live?.item.id;
+    const slideIndex = live?.slideIndex;
+
+    useEffect(() => {
+        if (recordingId && itemId !== recordingId) {
+            marksRef.current = [];
+            setRecordingId(null);
+        }
+    }, [itemId, recordingId]);
+
+    useEffect(() => {
+        if (!recordingId || itemId !== recordingId || slideIndex === undefined) return;
+        const marks = marksRef.current;
+        if (marks[marks.length - 1]?.slideIndex !== slideIndex) marks.push({ slideIndex, at: Date.now() });
+    }, [recordingId, itemId, slideIndex]);
+
+    const start = useCallback(() => {
+        if (!live || live.item.type !== 'song') return;
+        marksRef.current = [{ slideIndex: live.slideIndex, at: Date.now() }];
+        setRecordingId(live.item.id);
+    }, [live]);
+
+    // Hands back the timings for the caller to store
+    const stop = useCallback((): { item: ScheduleItem; timings: RehearsalTimings } | null => {
+        const marks = marksRef.current;
+        marksRef.current = [];
+        setRecordingId(null);
+        if (!live || live.item.id !== recordingId || marks.length === 0) return null;
+        return { item: live.item, timings: timingsFromMarks(marks, live.item.slides, Date.now()) };
+    }, [live, recordingId]);
+
+    return {
+        isRecording: !!recordingId && recordingId === itemId,
+        start,
+        stop
+    };
+}
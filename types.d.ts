@@ -59,6 +59,22 @@ interface SemanticSearchResponse {
     error?: string;
 }
 
+interface RemoteServerStatus {
+    running: boolean;
+    port: number | null;
+    pin: string | null;
+    addresses: string[];
+    clients: number;
+    outputClients: number;
+    success?: boolean;
+    error?: string;
+}
+
+interface RemoteCommand {
+    type: 'SHOW_CONTENT' | 'CLEAR' | 'BLACKOUT' | 'ALERT' | 'MEDIA_ACTION' | 'TIMER_ACTION' | 'NEXT_SLIDE' | 'PREV_SLIDE' | 'GO_LIVE';
+    payload?: any;
+}
+
 interface Window {
     electronAPI?: {
         // ATEM
@@ -77,9 +93,16 @@ interface Window {
         // Window Management
         openProjectorWindow: (args?: { displayId: string | null }) => Promise<any>;
         openStageWindow: (args?: { displayId: string | null }) => Promise<any>;
+        openOutputWindow: (args: { outputId: string; displayId: string | null; name?: string }) => Promise<any>;
+        closeOutputWindow: (args: { outputId: string }) => Promise<any>;
+        openRunSheetWindow: (args?: { planId?: string; preset?: string }) => Promise<any>;
+        getOpenOutputs: () => Promise<string[]>;
         // Display Management
         getDisplays: () => Promise<any[]>;
         identifyDisplays: () => Promise<any>;
+        getWindowDisplayId: () => Promise<string | null>;
+        showTestGrid: (args: { displayId: string }) => Promise<any>;
+        hideTestGrid: () => Promise<any>;
         // Desktop Capture
         getDesktopSources: () => Promise<any[]>;
         // Songs
@@ -88,6 +111,14 @@ interface Window {
         // AI
         smartDetect: (payload: any) => Promise<any>;
         semanticSearch: (text: string, threshold?: number, maxResults?: number) => Promise<SemanticSearchResponse>;
+        // LAN Remote Control
+        startRemoteServer: (args?: { port?: number }) => Promise<RemoteServerStatus>;
+        stopRemoteServer: () => Promise<RemoteServerStatus>;
+        getRemoteServerStatus: () => Promise<RemoteServerStatus>;
+        resetRemotePin: () => Promise<RemoteServerStatus>;
+        updateRemoteState: (state: { schedule?: any; live?: any }) => void;
+        relayOutputMessage: (message: any, snapshot?: any) => void;
+        onRemoteCommand: (callback: (command: RemoteCommand) => void) => () => void;
         // Updates
         checkUpdate: () => Promise<any>;
         downloadUpdate: () => Promise<any>;
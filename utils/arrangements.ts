@@ -0,0 +1,109 @@
+import type { ScheduleItem } from '@/utils/scheduleManager';
+
+// Song arrangements: a song keeps each section (Verse 1, Chorus, ...) once and
+// any number of named orderings of those sections. Choosing an arrangement
+// expands the sections into `slides`, so presentation code keeps working on a
+// flat slide list; the unique sections are kept in meta.sections meanwhile.
+
+export type SongArrangement = {
+    id: string;
+    name: string;
+    sequence: string[]; // Section labels in play order, repeats allowed
+};
+
+export type SongSlide = ScheduleItem['slides'][number];
+
+export type SongSection = {
+    label: string;
+    slides: SongSlide[];
+};
+
+const CONTINUED = / \(cont\.\)$/;
+
+/**
+ * "Verse 1 (cont.)" belongs to the "Verse 1" section
+ */
+export const sectionLabel = (slide: SongSlide): string =>
+    (slide.label || '').replace(CONTINUED, '').trim();
+
+const startsSection = (slide: SongSlide) => !!slide.label && !CONTINUED.test(slide.label);
+
+/**
+ * Short name for section buttons: "Verse 1" -> "V1", "Pre-Chorus" -> "PC"
+ */
+export const sectionShortName = (label: string): string =>
+    label.split(/[\s-]+/).filter(Boolean).map(word => /^\d+$/.test(word) ? word : word[0].toUpperCase()).join('');
+
+/**
+ * The slides the song was written with, before any arrangement was applied
+ */
+export const sourceSlides = (item: ScheduleItem): SongSlide[] => item.meta?.sections ?? item.slides;
+
+/**
+ * Group slides into sections by label. A label seen again later (a chorus
+ * duplicated the old way) keeps only its first occurrence.
+ */
+export const getSections = (slides: SongSlide[]): SongSection[] => {
+    const sections: SongSection[] = [];
+    let current: SongSection | null = null;
+    for (const slide of slides) {
+        const label = sectionLabel(slide);
+        if (!current || startsSection(slide) || label !== current.label) {
+            const seen = sections.some(s => s.label === label);
+            current = { label, slides: [] };
+            if (!seen) sections.push(current);
+        }
+        current.slides.push(slide);
+    }
+    return sections;
+};
+
+/**
+ * The order sections appear in the written slides, repeats included
+ */
+export const writtenSequence = (slides: SongSlide[]): string[] => {
+    const sequence: string[] = [];
+    slides.forEach((slide, i) => {
+        if (i === 0 || startsSection(slide) || sectionLabel(slide) !== sectionLabel(slides[i - 1])) {
+            sequence.push(sectionLabel(slide));
+        }
+    });
+    return sequence;
+};
+
+/**
+ * Lay out `item` in the given arrangement (null = as written). Labels that no
+ * longer match a section are skipped.
+ */
+export const applyArrangement = <T extends ScheduleItem>(item: T, arrangementId: string | null): T => {
+    const source = sourceSlides(item);
+    const arrangement = item.meta?.arrangements?.find(a => a.id === arrangementId);
+    if (!arrangement) {
+        return { ...item, slides: source, meta: { ...item.meta, sections: undefined, arrangementId: undefined } };
+    }
+
+    const sections = getSections(source);
+    const slides: SongSlide[] = [];
+    arrangement.sequence.forEach((label, position) => {
+        const section = sections.find(s => s.label === label);
+        // Repeated sections need their own slide ids for list keys and navigation
+        section?.slides.forEach(slide => slides.push({ ...slide, id: `${slide.id}~${position}` }));
+    });
+
+    return {
+        ...item,
+        slides: slides.length > 0 ? slides : source,
+        activeSlideIndex: 0,
+        meta: { ...item.meta, sections: source, arrangementId: arrangement.id }
+    };
+};
+
+/**
+ * Where each section starts in the slide list, for the section jump bar
+ */
+export const sectionStarts = (slides: SongSlide[]): { label: string; index: number }[] =>
+    slides
+        .map((slide, index) => ({ slide, index }))
+        .filter(({ slide, index }) => startsSection(slide) || (index > 0 && sectionLabel(slide) !== sectionLabel(slides[index - 1])))
+        .map(({ slide, index }) => ({ label: sectionLabel(slide), index }))
+        .filter(({ label }) => label);
@@ -0,0 +1,242 @@
+// As-run log: a persistent record of everything that went to the screens.
+// Entries are grouped by service date (local calendar day) and feed the CSV
+// export and the CCLI song usage report.
+
+export type AsRunKind = 'song' | 'scripture' | 'media' | 'live_feed' | 'clear' | 'blackout';
+
+export type SongCredits = {
+    author?: string;
+    copyright?: string;
+    ccli?: string;
+};
+
+export type AsRunEntry = {
+    id: string;
+    timestamp: number;
+    serviceDate: string; // YYYY-MM-DD, local time
+    kind: AsRunKind;
+    title: string;
+    detail?: string;     // Slide text excerpt, or scripture version
+    slideIndex?: number;
+    totalSlides?: number;
+    credits?: SongCredits;
+};
+
+export type CcliReportRow = {
+    title: string;
+    author: string;
+    copyright: string;
+    ccli: string;
+    services: number;   // Distinct service dates the song was used on
+    dates: string[];
+};
+
+const DB_NAME = 'creenly-as-run';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB not available'));
+            return;
+        }
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+            const db = req.result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('serviceDate', 'serviceDate', { unique: false });
+            }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+    return dbPromise;
+}
+
+const toServiceDate = (timestamp: number): string => {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const excerpt = (text: string | undefined, length = 80): string | undefined => {
+    if (!text) return undefined;
+    const plain = text.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+    return plain.length > length ? `${plain.slice(0, length - 1)}…` : plain;
+};
+
+/**
+ * Pick the reporting fields off a song's meta, for SHOW_CONTENT payloads
+ */
+export const songCredits = (meta?: SongCredits | null): SongCredits | undefined => {
+    if (!meta) return undefined;
+    const { author, copyright, ccli } = meta;
+    return author || copyright || ccli ? { author, copyright, ccli } : undefined;
+};
+
+/**
+ * Turn an outgoing projector_channel message into a log entry (null if it isn't a go-live)
+ */
+export const entryFromMessage = (message: { type: string; payload?: any }, timestamp: number = Date.now()): AsRunEntry | null => {
+    const base = {
+        id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp,
+        serviceDate: toServiceDate(timestamp)
+    };
+    const payload = message.payload || {};
+
+    switch (message.type) {
+        case 'SHOW_VERSE':
+            return { ...base, kind: 'scripture', title: payload.reference, detail: payload.version };
+        case 'SHOW_CONTENT': {
+            const kind: AsRunKind = payload.type === 'verse' ? 'scripture' : payload.type;
+            if (!['song', 'scripture', 'media', 'live_feed'].includes(kind)) return null;
+            return {
+                ...base,
+                kind,
+                title: payload.title || 'Untitled',
+                // Media bodies are data URLs / file paths, not worth keeping
+                detail: kind === 'song' ? excerpt(payload.body) : kind === 'scripture' ? payload.meta : undefined,
+                slideIndex: payload.slideIndex,
+                totalSlides: payload.totalSlides,
+                credits: kind === 'song' ? payload.credits || songCredits({ author: payload.meta }) : undefined
+            };
+        }
+        case 'CLEAR':
+            return { ...base, kind: 'clear', title: 'Clear' };
+        case 'BLACKOUT':
+            return { ...base, kind: 'blackout', title: 'Blackout' };
+        default:
+            return null;
+    }
+};
+
+export const logAsRunEntry = async (entry: AsRunEntry): Promise<void> => {
+    if (typeof window === 'undefined') return;
+    try {
+        const db = await openDB();
+        db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry);
+    } catch (e) {
+        console.error('Failed to write as-run entry', e);
+    }
+};
+
+// All entries, oldest first; pass a date to get a single service
+export const getAsRunEntries = async (serviceDate?: string): Promise<AsRunEntry[]> => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+            const request = serviceDate ? store.index('serviceDate').getAll(serviceDate) : store.getAll();
+            request.onsuccess = () => resolve((request.result as AsRunEntry[]).sort((a, b) => a.timestamp - b.timestamp));
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error('Failed to read as-run log', e);
+        return [];
+    }
+};
+
+// Service dates with entries, newest first
+export const getAsRunDates = async (): Promise<string[]> => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const dates: string[] = [];
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+                .index('serviceDate').openKeyCursor(null, 'prevunique');
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) {
+                    resolve(dates);
+                    return;
+                }
+                dates.push(cursor.key as string);
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error('Failed to read as-run dates', e);
+        return [];
+    }
+};
+
+export const deleteAsRunDate = async (serviceDate: string): Promise<void> => {
+    if (typeof window === 'undefined') return;
+    const entries = await getAsRunEntries(serviceDate);
+    const db = await openDB();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    entries.forEach(entry => store.delete(entry.id));
+};
+
+const csvCell = (value: unknown): string => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: unknown[][]): string => rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const asRunToCsv = (entries: AsRunEntry[]): string => toCsv([
+    ['Date', 'Time', 'Type', 'Title', 'Detail', 'Slide', 'Author', 'Copyright', 'CCLI Song #'],
+    ...entries.map(entry => [
+        entry.serviceDate,
+        new Date(entry.timestamp).toLocaleTimeString('en-US', { hour12: false }),
+        entry.kind,
+        entry.title,
+        entry.detail,
+        entry.slideIndex !== undefined && entry.totalSlides ? `${entry.slideIndex + 1}/${entry.totalSlides}` : '',
+        entry.credits?.author,
+        entry.credits?.copyright,
+        entry.credits?.ccli
+    ])
+]);
+
+/**
+ * One row per song; a song counts once per service no matter how many slides were shown
+ */
+export const buildCcliReport = (entries: AsRunEntry[]): CcliReportRow[] => {
+    const rows = new Map<string, CcliReportRow>();
+    const songs = entries.filter(entry => entry.kind === 'song');
+
+    // Entries logged without a CCLI number join the row of the same title that has one
+    const titleKey = (title: string) => title.toLowerCase().replace(/\s+/g, ' ').trim();
+    const ccliByTitle = new Map<string, string>();
+    songs.forEach(entry => {
+        const ccli = entry.credits?.ccli?.trim();
+        if (ccli && !ccliByTitle.has(titleKey(entry.title))) ccliByTitle.set(titleKey(entry.title), ccli);
+    });
+
+    for (const entry of songs) {
+        const ccli = entry.credits?.ccli?.trim() || ccliByTitle.get(titleKey(entry.title)) || '';
+        const key = ccli || titleKey(entry.title);
+        const row = rows.get(key) || {
+            title: entry.title,
+            author: '',
+            copyright: '',
+            ccli,
+            services: 0,
+            dates: []
+        };
+        row.author = row.author || entry.credits?.author || '';
+        row.copyright = row.copyright || entry.credits?.copyright || '';
+        if (!row.dates.includes(entry.serviceDate)) {
+            row.dates.push(entry.serviceDate);
+            row.services = row.dates.length;
+        }
+        rows.set(key, row);
+    }
+
+    return Array.from(rows.values()).sort((a, b) => b.services - a.services || a.title.localeCompare(b.title));
+};
+
+export const ccliReportToCsv = (rows: CcliReportRow[]): string => toCsv([
+    ['CCLI Song #', 'Title', 'Author', 'Copyright', 'Times Used', 'Service Dates'],
+    ...rows.map(row => [row.ccli, row.title, row.author, row.copyright, row.services, row.dates.join(' ')])
+]);
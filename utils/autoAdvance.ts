@@ -0,0 +1,67 @@
+import type { ScheduleItem } from '@/utils/scheduleManager';
+
+// Timed auto-advance for schedule items (pre-service loops, announcement slideshows).
+// Timing lives on the item: a default duration in meta.autoAdvance and optional
+// per-slide overrides in slides[].duration.
+
+export type AutoAdvanceEnd = 'loop' | 'stop' | 'next';
+
+export type AutoAdvanceSettings = {
+    slideDuration: number;    // Seconds per slide unless the slide overrides it
+    endBehavior: AutoAdvanceEnd;
+};
+
+export type AutoAdvanceStep =
+    | { kind: 'slide'; direction: 'next' | 'first' }
+    | { kind: 'item' }
+    | { kind: 'stop' };
+
+export const DEFAULT_AUTO_ADVANCE: AutoAdvanceSettings = {
+    slideDuration: 8,
+    endBehavior: 'loop'
+};
+
+export const END_BEHAVIOR_LABELS: Record<AutoAdvanceEnd, string> = {
+    loop: 'Loop',
+    stop: 'Stop on last slide',
+    next: 'Go to next item'
+};
+
+export const MIN_SLIDE_DURATION = 1;
+
+/**
+ * How long slide `index` stays up, in ms (null when the item isn't timed)
+ */
+export const slideDurationMs = (item: ScheduleItem, index: number): number | null => {
+    const settings = item.meta?.autoAdvance;
+    if (!settings) return null;
+    const seconds = item.slides[index]?.duration ?? settings.slideDuration;
+    return Math.max(MIN_SLIDE_DURATION, seconds) * 1000;
+};
+
+/**
+ * What happens when slide `index` runs out
+ */
+export const nextAutoAdvanceStep = (item: ScheduleItem, index: number): AutoAdvanceStep => {
+    if (index < item.slides.length - 1) return { kind: 'slide', direction: 'next' };
+    switch (item.meta?.autoAdvance?.endBehavior) {
+        case 'loop':
+            return item.slides.length > 1 ? { kind: 'slide', direction: 'first' } : { kind: 'stop' };
+        case 'next':
+            return { kind: 'item' };
+        default:
+            return { kind: 'stop' };
+    }
+};
+
+/**
+ * The item after `itemId` that can go live (skips empty template slots)
+ */
+export const findNextScheduleItem = (items: ScheduleItem[], itemId: string): ScheduleItem | null => {
+    const index = items.findIndex(i => i.id === itemId);
+    if (index === -1) return null;
+    return items.slice(index + 1).find(i => !i.placeholder && i.slides.length > 0) || null;
+};
+
+export const totalDurationMs = (item: ScheduleItem): number =>
+    item.slides.reduce((sum, _, i) => sum + (slideDurationMs(item, i) || 0), 0);
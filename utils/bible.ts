@@ -214,6 +214,49 @@ export function detectVersesInText(rawText: string): DetectedVerse[] {
     return results;
 }
 
+// Lower-cased bundled KJV text, built on the first text search
+let SEARCHABLE_VERSES: { bookKey: string; chapter: number; verse: number; text: string }[] | null = null;
+
+const toSearchText = (text: string) => ` ${text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+/**
+ * Find verses containing every word of `query` ("love one another"), with
+ * exact phrase matches first. Searches the bundled KJV, so it works offline.
+ */
+export function searchBibleText(query: string, limit = 20): DetectedVerse[] {
+    const words = toSearchText(query).trim().split(' ').filter(w => w.length >= 2);
+    if (words.length === 0) return [];
+
+    if (!SEARCHABLE_VERSES) {
+        SEARCHABLE_VERSES = [];
+        for (const book of BIBLE) {
+            book.chapters.forEach((verses, c) => verses.forEach((text, v) => {
+                SEARCHABLE_VERSES!.push({ bookKey: book.abbrev, chapter: c + 1, verse: v + 1, text: toSearchText(text) });
+            }));
+        }
+    }
+
+    const phrase = ` ${words.join(' ')} `;
+    const phraseMatches: typeof SEARCHABLE_VERSES = [];
+    const wordMatches: typeof SEARCHABLE_VERSES = [];
+    for (const entry of SEARCHABLE_VERSES) {
+        if (phraseMatches.length >= limit) break;
+        if (entry.text.includes(phrase)) phraseMatches.push(entry);
+        else if (wordMatches.length < limit && words.every(w => entry.text.includes(` ${w}`))) wordMatches.push(entry);
+    }
+
+    return phraseMatches.concat(wordMatches).slice(0, limit).map(entry => {
+        const book = getCanonicalBookName(entry.bookKey);
+        return {
+            book,
+            chapter: entry.chapter,
+            verse: entry.verse,
+            text: lookupVerseBase(entry.bookKey, entry.chapter, entry.verse) || '',
+            reference: `${book} ${entry.chapter}:${entry.verse}`
+        };
+    });
+}
+
 /**
  * Internal helper for looking up verse ranges (returns combined text)
  */
@@ -411,6 +454,43 @@ export async function lookupVerseAsync(
     return lookupVerse(bookStr, c, v);
 }
 
+/**
+ * Verse lookup that never touches the network: downloaded Bibles, the
+ * desktop's local Bibles, the bundled KJV and verses cached from earlier lookups.
+ * Returns null when the verse can't be shown without a connection.
+ */
+export async function lookupVerseOffline(
+    bookStr: string,
+    chapter: number | string,
+    verse: number | string,
+    version: string = 'KJV'
+): Promise<string | null> {
+    const c = Number(chapter);
+    const v = Number(verse);
+    const bookKey = findBookKey(bookStr);
+    if (!bookKey) return null;
+    const canonicalBook = getCanonicalBookName(bookKey);
+
+    try {
+        const offlineResult = await getOfflineVerse(version, bookKey, c, v);
+        if (offlineResult) return offlineResult;
+    } catch { /* IndexedDB unavailable */ }
+
+    if (typeof window !== 'undefined' && (window as any).electronAPI?.getVerse) {
+        try {
+            const result = await (window as any).electronAPI.getVerse({ book: canonicalBook, chapter: c, verse: v, version });
+            if (result && result.text) return result.text;
+        } catch { /* Fall through to the bundled text */ }
+    }
+
+    if (version === 'KJV') {
+        const local = lookupVerse(bookStr, c, v);
+        if (local) return local;
+    }
+
+    return VERSE_CACHE[version]?.[canonicalBook]?.[c]?.[v] || null;
+}
+
 export function lookupVerseRange(bookStr: string, chapter: number | string, start: number | string, end: number | string): string | null {
     const bookKey = findBookKey(bookStr);
     if (!bookKey) return null;
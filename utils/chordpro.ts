@@ -0,0 +1,379 @@
+import type { ResourceItem } from './resourceLibrary';
+import type { ScheduleItem } from './scheduleManager';
+import type { SongArrangement } from './arrangements';
+import { MAX_LINES_PER_SLIDE } from './lyricsParser';
+
+// ChordPro (https://www.chordpro.org): lyrics with chords inline, as in
+// "[G]Amazing [C]grace", plus {directives}. On import the chords are lifted
+// out of the text and kept per slide as positions, so `content` stays plain
+// lyrics for the projector and only the stage display draws the chords.
+
+export const CHORDPRO_FILE = /\.(cho|chordpro|chopro|crd)$/i;
+
+/**
+ * A chord sung at character `at` of line `line` of the slide's content
+ */
+export type SlideChord = {
+    line: number;
+    at: number;
+    chord: string;
+};
+
+export type ChordProSlide = {
+    id: string;
+    content: string;
+    label: string;
+    chords?: SlideChord[];
+};
+
+export interface ChordProSong {
+    title: string;
+    author: string;
+    copyright: string;
+    ccli: string;
+    key: string;
+    capo: number;
+    slides: ChordProSlide[];
+    sequence: string[];   // Section labels as played, {chorus} repeats included
+}
+
+// ---------- Chords ----------
+
+const CHORD = /^[A-G][#b]?(?:maj|min|dim|aug|sus|add|m|M|°|ø|\+|-)?\d*(?:(?:sus|add|maj|b|#|\+|-)?\d+|sus)*(?:\([^)]*\))?(?:\/[A-G][#b]?)?$/;
+
+export const isChord = (text: string) => CHORD.test(text.trim());
+
+/**
+ * Removes inline [chords] from lyrics; other bracketed text is left alone
+ */
+export const stripChords = (text: string): string =>
+    text.replace(/\[([^\]\n]*)\]/g, (match, inner) => isChord(inner) ? '' : match);
+
+const SHARPS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const FLATS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+const NATURALS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+// Keys written with flats; everything else is spelled with sharps
+const FLAT_KEYS = ['F', 'Bb', 'Eb', 'Ab', 'Db', 'Dm', 'Gm', 'Cm', 'Fm', 'Bbm', 'Ebm'];
+
+const transposeNote = (note: string, semitones: number, flats: boolean): string => {
+    const index = NATURALS[note[0]] + (note[1] === '#' ? 1 : note[1] === 'b' ? -1 : 0);
+    const shifted = ((index + semitones) % 12 + 24) % 12;
+    return (flats ? FLATS : SHARPS)[shifted];
+};
+
+/**
+ * "G/B" up 2 -> "A/C#". Anything that isn't a chord is returned unchanged.
+ */
+export function transposeChord(chord: string, semitones: number, flats = false): string {
+    if (!semitones || !isChord(chord)) return chord;
+    return chord.replace(/^([A-G][#b]?)([^/]*)(?:\/([A-G][#b]?))?$/, (_, root: string, quality: string, bass?: string) =>
+        transposeNote(root, semitones, flats) + quality + (bass ? `/${transposeNote(bass, semitones, flats)}` : '')
+    );
+}
+
+/**
+ * "G" up 3 -> "Bb", "Em" up 1 -> "Fm"
+ */
+export function transposeKey(key: string, semitones: number): string {
+    if (!isChord(key)) return key;
+    const flat = transposeChord(key, semitones, true);
+    return FLAT_KEYS.includes(flat) ? flat : transposeChord(key, semitones, false);
+}
+
+/**
+ * Spell transposed chords the way the (transposed) key is written
+ */
+export const keyUsesFlats = (key: string | undefined) => !!key && FLAT_KEYS.includes(key.trim());
+
+export type ChordSegment = { chord?: string; text: string };
+
+/**
+ * Splits each line of `content` at its chords, for drawing chords over lyrics
+ */
+export function chordLines(content: string, chords: SlideChord[] = []): ChordSegment[][] {
+    return content.split('\n').map((line, lineIndex) => {
+        const lineChords = chords.filter(c => c.line === lineIndex).sort((a, b) => a.at - b.at);
+        if (lineChords.length === 0) return [{ text: line }];
+
+        const segments: ChordSegment[] = [];
+        if (lineChords[0].at > 0) segments.push({ text: line.slice(0, lineChords[0].at) });
+        lineChords.forEach((chord, i) => {
+            const end = i + 1 < lineChords.length ? lineChords[i + 1].at : line.length;
+            segments.push({ chord: chord.chord, text: line.slice(Math.min(chord.at, line.length), end) });
+        });
+        return segments;
+    });
+}
+
+/**
+ * Chords survive an edit only on lines whose text didn't change
+ */
+export function keepUnchangedChords(before: string, after: string, chords: SlideChord[] | undefined): SlideChord[] | undefined {
+    if (!chords || before === after) return chords;
+    const oldLines = before.split('\n');
+    const newLines = after.split('\n');
+    const kept = chords.filter(c => oldLines[c.line] !== undefined && oldLines[c.line] === newLines[c.line]);
+    return kept.length > 0 ? kept : undefined;
+}
+
+/**
+ * Chord fields for a song's SHOW_CONTENT payload; empty when it has no chords
+ */
+export function chordPayload(item: { slides: ScheduleItem['slides']; meta?: ScheduleItem['meta'] }, slideIndex: number) {
+    if (!item.slides.some(slide => slide.chords?.length)) return {};
+    return {
+        chords: item.slides[slideIndex]?.chords,
+        nextChords: item.slides[slideIndex + 1]?.chords,
+        songKey: item.meta?.key,
+        capo: item.meta?.capo
+    };
+}
+
+// ---------- Import ----------
+
+const DIRECTIVE = /^\{\s*([\w-]+)(?:\s*[:\s]\s*(.*?))?\s*\}$/;
+
+const SECTION_STARTS: Record<string, string> = {
+    start_of_verse: 'Verse', sov: 'Verse',
+    start_of_chorus: 'Chorus', soc: 'Chorus',
+    start_of_bridge: 'Bridge', sob: 'Bridge',
+    start_of_intro: 'Intro',
+    start_of_outro: 'Outro',
+    start_of_tag: 'Tag'
+};
+
+// Blocks that hold no singable lyrics
+const SKIPPED_BLOCKS: Record<string, string> = {
+    start_of_tab: 'end_of_tab', sot: 'eot',
+    start_of_grid: 'end_of_grid', sog: 'eog',
+    start_of_abc: 'end_of_abc',
+    start_of_ly: 'end_of_ly'
+};
+
+const SECTION_HEADING = /^(verse|chorus|pre-?chorus|bridge|intro|outro|ending|tag|interlude)\b[\s\d]*:?$/i;
+
+const titleCase = (text: string) => text.replace(/\b\w/g, c => c.toUpperCase());
+
+/**
+ * Lifts [chords] out of a lyric line
+ */
+function splitChordLine(line: string): { text: string; chords: { at: number; chord: string }[] } {
+    const chords: { at: number; chord: string }[] = [];
+    let text = '';
+    let last = 0;
+    line.replace(/\[([^\]]*)\]/g, (match, chord: string, offset: number) => {
+        text += line.slice(last, offset);
+        last = offset + match.length;
+        if (chord.trim()) chords.push({ at: text.length, chord: chord.trim() });
+        return match;
+    });
+    text += line.slice(last);
+    // Keep positions pointing at the same letters once trailing spaces go
+    const trimmed = text.replace(/\s+$/, '');
+    return { text: trimmed, chords: chords.map(c => ({ ...c, at: Math.min(c.at, trimmed.length) })) };
+}
+
+/**
+ * Parses a ChordPro document into slides. Sections come from
+ * {start_of_verse: Verse 1}-style blocks, {comment: Chorus} headings (as
+ * written by SongSelect) or bare "Chorus" lines; blank lines split slides.
+ */
+export function parseChordPro(text: string, fileName = ''): ChordProSong {
+    const song: ChordProSong = {
+        title: '',
+        author: '',
+        copyright: '',
+        ccli: '',
+        key: '',
+        capo: 0,
+        slides: [],
+        sequence: []
+    };
+
+    let label = '';
+    let autoLabel = false;   // Label was made up for a paragraph with no heading
+    let numberedLabel = false; // Label was numbered for an unlabeled {start_of_...} block
+    let verseCount = 0;
+    let skipUntil: string | null = null;
+    let lines: string[] = [];
+    let chords: SlideChord[] = [];
+    const sectionText: Record<string, string> = {};
+
+    // "Verse 1", "Verse 2", ...; other sections are numbered from their second one ("Chorus 2")
+    const nextLabel = (base: string) => {
+        let next = base;
+        if (base === 'Verse') {
+            do next = `Verse ${++verseCount}`; while (song.sequence.includes(next));
+        } else {
+            for (let n = 2; song.sequence.includes(next); n++) next = `${base} ${n}`;
+        }
+        return next;
+    };
+
+    const flush = () => {
+        if (lines.length === 0) return;
+        if (!label) {
+            label = nextLabel('Verse');
+            autoLabel = true;
+        }
+        // A chorus written out again word for word is a repeat, not a new section
+        if (numberedLabel) {
+            const base = label.replace(/ \d+$/, '');
+            const repeat = Object.keys(sectionText).find(l => l.replace(/ \d+$/, '') === base && sectionText[l] === lines.join('\n'));
+            if (repeat) {
+                song.sequence.push(repeat);
+                lines = [];
+                chords = [];
+                return;
+            }
+        }
+        sectionText[label] = (sectionText[label] ? `${sectionText[label]}\n` : '') + lines.join('\n');
+        // Long paragraphs become several slides so the projector never re-splits them
+        for (let start = 0; start < lines.length; start += MAX_LINES_PER_SLIDE) {
+            const slideChords = chords
+                .filter(c => c.line >= start && c.line < start + MAX_LINES_PER_SLIDE)
+                .map(c => ({ ...c, line: c.line - start }));
+            const previous = song.slides[song.slides.length - 1];
+            const continues = !!previous && previous.label.replace(/ \(cont\.\)$/, '') === label;
+            if (!continues) song.sequence.push(label);
+            song.slides.push({
+                id: `slide-${song.slides.length + 1}`,
+                content: lines.slice(start, start + MAX_LINES_PER_SLIDE).join('\n'),
+                label: continues ? `${label} (cont.)` : label,
+                chords: slideChords.length > 0 ? slideChords : undefined
+            });
+        }
+        lines = [];
+        chords = [];
+    };
+
+    const startSection = (next: string, numbered = false) => {
+        flush();
+        label = next;
+        autoLabel = false;
+        numberedLabel = numbered;
+    };
+
+    text.replace(/\r\n?/g, '\n').split('\n').forEach(rawLine => {
+        const line = rawLine.trim();
+
+        if (skipUntil) {
+            if (line.match(DIRECTIVE)?.[1].toLowerCase() === skipUntil) skipUntil = null;
+            return;
+        }
+        if (line.startsWith('#')) return;
+
+        const directive = line.match(DIRECTIVE);
+        if (directive) {
+            const name = directive[1].toLowerCase();
+            // ChordPro 6 also allows {start_of_verse label="Verse 2"}
+            const value = (directive[2] || '').replace(/^label\s*=\s*"(.*)"$/, '$1').trim();
+            if (name === 'title' || name === 't') song.title = value;
+            else if (name === 'artist' || name === 'composer' || name === 'lyricist' || name === 'subtitle' || name === 'st') {
+                if (!song.author) song.author = value;
+            }
+            else if (name === 'copyright') song.copyright = value;
+            else if (name === 'ccli' || name === 'ccli_number') song.ccli = value;
+            else if (name === 'key') song.key = value;
+            else if (name === 'capo') song.capo = parseInt(value, 10) || 0;
+            else if (SECTION_STARTS[name]) {
+                if (value) startSection(value);
+                else {
+                    flush();
+                    startSection(nextLabel(SECTION_STARTS[name]), true);
+                }
+            }
+            else if (name.startsWith('end_of_') || /^eo[cvb]$/.test(name)) {
+                flush();
+                label = '';
+                numberedLabel = false;
+            }
+            else if (SKIPPED_BLOCKS[name]) {
+                flush();
+                skipUntil = SKIPPED_BLOCKS[name];
+            }
+            else if ((name === 'comment' || name === 'c' || name === 'comment_bold' || name === 'comment_italic' || name === 'ci' || name === 'cb') && SECTION_HEADING.test(value)) {
+                startSection(titleCase(value.replace(/:$/, '')));
+            }
+            // {chorus}: sing the last chorus again
+            else if (name === 'chorus') {
+                flush();
+                const chorus = song.sequence.slice().reverse().find(l => /chorus/i.test(l));
+                if (chorus) song.sequence.push(chorus);
+                label = '';
+                numberedLabel = false;
+            }
+            return;
+        }
+
+        if (!line) {
+            // Paragraphs under a heading continue its section; bare ones are new verses
+            flush();
+            if (autoLabel) label = '';
+            return;
+        }
+
+        // "Chorus" or "[Verse 2]" on a line of its own
+        const bare = line.replace(/^\[(.*)\]$/, '$1');
+        if (SECTION_HEADING.test(bare) && !isChord(bare)) {
+            startSection(titleCase(bare.replace(/:$/, '')));
+            return;
+        }
+
+        const { text: lyric, chords: lineChords } = splitChordLine(rawLine.trim());
+        // Instrumental chord-only lines have nothing to project
+        if (!lyric.trim()) return;
+        lineChords.forEach(c => chords.push({ line: lines.length, ...c }));
+        lines.push(lyric);
+    });
+    flush();
+
+    // With {capo} the file's chords are the shapes played; store them at
+    // sounding pitch so the stage can re-derive shapes for any capo
+    if (song.capo) {
+        const flats = keyUsesFlats(song.key);
+        song.slides.forEach(slide => {
+            slide.chords = slide.chords?.map(c => ({ ...c, chord: transposeChord(c.chord, song.capo, flats) }));
+        });
+    }
+
+    song.title = song.title || fileName.replace(CHORDPRO_FILE, '') || 'Untitled';
+    return song;
+}
+
+/**
+ * Converts a parsed ChordPro song to a Creenly ResourceItem.
+ */
+export function chordProToResourceItem(song: ChordProSong, index = 0): ResourceItem {
+    const id = `cp-${index}-${Date.now()}`;
+    const written: string[] = [];
+    song.slides.forEach(slide => {
+        if (!slide.label.endsWith('(cont.)')) written.push(slide.label);
+    });
+    // {chorus} repeats make the played order differ from the written one
+    const arrangements: SongArrangement[] | undefined = song.sequence.join('\n') !== written.join('\n')
+        ? [{ id: `${id}-order`, name: 'ChordPro Order', sequence: song.sequence }]
+        : undefined;
+
+    return {
+        id,
+        title: song.title,
+        type: 'song',
+        category: 'song',
+        activeSlideIndex: 0,
+        slides: song.slides.length > 0
+            ? song.slides.map(slide => ({ ...slide, id: `${id}-${slide.id}` }))
+            : [{ id: 'empty-1', content: '(No lyrics)', label: 'Slide 1' }],
+        meta: {
+            author: song.author || undefined,
+            copyright: song.copyright || undefined,
+            ccli: song.ccli || undefined,
+            key: song.key || undefined,
+            capo: song.capo || undefined,
+            arrangements
+        },
+        tags: ['worship', 'chordpro-import'],
+        dateAdded: Date.now(),
+    };
+}
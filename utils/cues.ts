@@ -0,0 +1,143 @@
+import type { ScheduleItem } from '@/utils/scheduleManager';
+
+// Per-item cues: hardware and output actions that fire alongside a schedule
+// item, either when it goes live or when a given slide comes up.
+
+export type AtemCueAction = 'program' | 'preview' | 'cut' | 'auto';
+
+export type CueAction =
+    | { kind: 'atem'; action: AtemCueAction; input?: number }
+    | { kind: 'midi'; messageType: 'note' | 'cc'; channel: number; note: number; velocity: number; output?: string } // output = port name; absent = every output
+    | { kind: 'timer'; action: 'start' | 'pause' | 'stop'; minutes?: number } // minutes = start as a countdown
+    | { kind: 'theme'; themeId: string }
+    | { kind: 'announcement'; active: boolean; text?: string }
+    | { kind: 'clear' };
+
+export type CueKind = CueAction['kind'];
+
+export type ItemCue = {
+    id: string;
+    slide?: number; // Fire when this slide (0-based) comes up; absent = when the item goes live
+    action: CueAction;
+};
+
+export const CUE_KIND_LABELS: Record<CueKind, string> = {
+    atem: 'ATEM Switcher',
+    midi: 'MIDI Out',
+    timer: 'Stage Timer',
+    theme: 'Change Theme',
+    announcement: 'Announcement',
+    clear: 'Clear Output'
+};
+
+export const ATEM_ACTION_LABELS: Record<AtemCueAction, string> = {
+    program: 'Program Input',
+    preview: 'Preview Input',
+    cut: 'Cut',
+    auto: 'Auto Transition'
+};
+
+export const defaultCueAction = (kind: CueKind): CueAction => {
+    switch (kind) {
+        case 'atem': return { kind, action: 'program', input: 1 };
+        case 'midi': return { kind, messageType: 'note', channel: 1, note: 60, velocity: 127 };
+        case 'timer': return { kind, action: 'start' };
+        case 'theme': return { kind, themeId: '' };
+        case 'announcement': return { kind, active: true };
+        case 'clear': return { kind };
+    }
+};
+
+export const createCue = (kind: CueKind, slide?: number): ItemCue => ({
+    id: `cue-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+    slide,
+    action: defaultCueAction(kind)
+});
+
+/**
+ * One-line summary for cue lists ("ATEM · Program 2", "MIDI · Note 60 ch1")
+ */
+export const describeCue = (action: CueAction): string => {
+    switch (action.kind) {
+        case 'atem':
+            return action.action === 'program' || action.action === 'preview'
+                ? `ATEM · ${ATEM_ACTION_LABELS[action.action]} ${action.input ?? 1}`
+                : `ATEM · ${ATEM_ACTION_LABELS[action.action]}`;
+        case 'midi':
+            return `MIDI · ${action.messageType === 'note' ? 'Note' : 'CC'} ${action.note} ch${action.channel}${action.output ? ` → ${action.output}` : ''}`;
+        case 'timer':
+            return `Timer · ${action.action}${action.action === 'start' && action.minutes ? ` ${action.minutes} min countdown` : ''}`;
+        case 'theme':
+            return 'Theme change';
+        case 'announcement':
+            return `Announcement ${action.active ? 'on' : 'off'}`;
+        case 'clear':
+            return 'Clear output';
+    }
+};
+
+/**
+ * Cues due when `item` goes live on `slideIndex`, or when it moves to that slide
+ */
+export const cuesFor = (item: ScheduleItem, slideIndex: number, wentLive: boolean): ItemCue[] =>
+    (item.cues || []).filter(cue => cue.slide === undefined ? wentLive : cue.slide === slideIndex);
+
+// --- Hardware ---
+
+export async function runAtemCue(action: Extract<CueAction, { kind: 'atem' }>): Promise<void> {
+    if (!window.electronAPI?.performAtemAction) {
+        console.warn('[Cues] ATEM cues need the desktop app');
+        return;
+    }
+    const res = await window.electronAPI.performAtemAction(action.action, action.input);
+    if (!res?.success) console.warn('[Cues] ATEM action failed:', res?.error);
+}
+
+let midiAccess: Promise<any> | null = null;
+
+const isMidiSupported = () => typeof navigator !== 'undefined' && !!(navigator as any).requestMIDIAccess;
+
+// A refused request (permission denied, no device yet) is asked again next time
+const getMidiAccess = (): Promise<any> => {
+    if (!midiAccess) {
+        midiAccess = (navigator as any).requestMIDIAccess().catch((e: any) => {
+            midiAccess = null;
+            throw e;
+        });
+    }
+    return midiAccess!;
+};
+
+/**
+ * Names of the connected MIDI outputs, for choosing where a cue goes
+ */
+export async function getMidiOutputNames(): Promise<string[]> {
+    if (!isMidiSupported()) return [];
+    const access = await getMidiAccess();
+    const names: string[] = [];
+    access.outputs.forEach((output: any) => names.push(output.name));
+    return names;
+}
+
+// Sends to the cue's output, or to every connected MIDI output when it names none
+export async function runMidiCue(action: Extract<CueAction, { kind: 'midi' }>): Promise<void> {
+    if (!isMidiSupported()) {
+        console.warn('[Cues] Web MIDI API not supported');
+        return;
+    }
+    const access = await getMidiAccess();
+
+    const channel = Math.min(16, Math.max(1, action.channel)) - 1;
+    const status = (action.messageType === 'note' ? 0x90 : 0xB0) | channel;
+    const data = [status, action.note & 0x7f, action.velocity & 0x7f];
+
+    let sent = false;
+    access.outputs.forEach((output: any) => {
+        if (action.output && output.name !== action.output) return;
+        sent = true;
+        output.send(data);
+        // Release notes so the desk sees a complete press
+        if (action.messageType === 'note') output.send([0x80 | channel, action.note & 0x7f, 0], performance.now() + 100);
+    });
+    if (!sent) console.warn('[Cues] MIDI output not connected:', action.output || 'none found');
+}
@@ -1,6 +1,10 @@
 import initSqlJs from 'sql.js';
+import JSZip from 'jszip';
 import { parseLyrics, LyricSlide } from './lyricsParser';
-import { ResourceItem } from './resourceLibrary';
+import { ResourceItem, ProjectorTheme } from './resourceLibrary';
+import { ScheduleItem, ServiceSchedule, PlaceholderType, createBlankSchedule, createPlaceholder } from './scheduleManager';
+import { DEFAULT_THEMES } from './themes';
+import { detectVersesInText } from './bible';
 
 // ---------- Types ----------
 
@@ -25,6 +29,38 @@ export interface EWImportProgress {
     currentTitle?: string;
 }
 
+export interface EWMediaRef {
+    rowid: number;
+    title: string;
+    fileName: string;      // Base name of the file EasyWorship points at
+    file?: File;           // The same file in the picked resources folder
+}
+
+export interface EWTheme {
+    rowid: number;
+    title: string;
+    fontFamily?: string;
+    textColor?: string;
+    backgroundColor?: string;
+    backgroundFileName?: string;
+    backgroundFile?: File;
+}
+
+export type EWScheduleEntryKind = 'song' | 'scripture' | 'media' | 'other';
+
+export interface EWSchedule {
+    name: string;
+    date: string;
+    entries: { title: string; kind: EWScheduleEntryKind }[];
+}
+
+export interface EWExtras {
+    schedules: EWSchedule[];
+    media: EWMediaRef[];
+    themes: EWTheme[];
+    unreadable: { fileName: string; error: string }[];
+}
+
 // ---------- RTF Stripper ----------
 
 /**
@@ -58,14 +94,15 @@ export function stripRtf(rtf: string | any): string {
     } while (text !== lastText);
 
     // 2. Handle character escapes
-    // Unicode: \u1234?
-    text = text.replace(/\\u(\d+)\?/g, (_, code) => String.fromCharCode(parseInt(code, 10)));
+    // Unicode: \u1234? (EasyWorship) or \u1234 with no fallback character (macOS, \uc0)
+    text = text.replace(/\\u(-?\d+) ?\??/g, (_, code) => String.fromCharCode((parseInt(code, 10) + 65536) % 65536));
     // Hex: \'e9
     text = text.replace(/\\'([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
 
     // 3. Newlines (Crucial for parseLyrics to see sections)
     // We convert \par to a newline. If we see double \par, it becomes double newline (section break)
     text = text.replace(/\\par\b\s?/gi, '\n');
+    text = text.replace(/\\\r?\n/g, '\n'); // A backslash before a line break (macOS) is also a paragraph
     text = text.replace(/\\line\b\s?/gi, '\n');
     text = text.replace(/\\tab\b\s?/gi, '\t');
 
@@ -90,7 +127,10 @@ export function stripRtf(rtf: string | any): string {
 
 let sqlInstance: any = null;
 
-async function getSqlJs(): Promise<any> {
+/**
+ * sql.js with its wasm binary, loaded once (shared with the OpenLP importer)
+ */
+export async function getSqlJs(): Promise<any> {
     if (!sqlInstance) {
         // Try multiple paths for the wasm binary to handle different build environments
         const wasmPaths = [
@@ -230,3 +270,301 @@ export function ewSongToResourceItem(song: EWParsedSong): ResourceItem {
         dateAdded: Date.now(),
     };
 }
+
+/**
+ * Songs that were already brought in from EasyWorship: same title, and the
+ * same CCLI number when both have one. Returns the rowids of those songs.
+ */
+export function findEasyWorshipDuplicates(songs: EWParsedSong[], library: ResourceItem[]): Set<number> {
+    const imported = library.filter(r => r.category === 'song' && r.tags?.includes('easyworship-import'));
+    const duplicates = new Set<number>();
+    songs.forEach(song => {
+        const title = song.raw.title.toLowerCase().trim();
+        const match = imported.some(r =>
+            r.title.toLowerCase().trim() === title
+            && (!song.raw.song_number || !r.meta?.ccli || r.meta.ccli === song.raw.song_number)
+        );
+        if (match) duplicates.add(song.raw.rowid);
+    });
+    return duplicates;
+}
+
+// ---------- Schedules, media and themes ----------
+//
+// Besides the song databases, an EasyWorship profile keeps its media library
+// and themes in their own databases in Databases\Data, and each saved schedule
+// is an .ewsx file (a zip holding a SQLite database). Column names differ
+// between EasyWorship versions, so tables and columns are looked up by the
+// names below rather than assumed.
+
+const MEDIA_TABLES = ['media', 'resource', 'resources'];
+const THEME_TABLES = ['theme', 'themes'];
+const SCHEDULE_TABLES = ['presentation', 'schedule_item', 'item'];
+
+const COLUMNS = {
+    title: ['title', 'name', 'description'],
+    path: ['file_name', 'filename', 'path', 'file_path', 'location', 'media_path', 'uri'],
+    font: ['font_name', 'font_family', 'font', 'typeface'],
+    textColor: ['font_color', 'text_color', 'fore_color'],
+    backgroundColor: ['background_color', 'back_color', 'bg_color', 'fill_color'],
+    backgroundPath: ['background_file', 'background_path', 'back_image', 'background', 'image_path'],
+    order: ['order_index', 'sort_order', 'display_order', 'position', 'sequence'],
+    kind: ['presentation_type', 'item_type', 'type', 'kind']
+};
+
+// Formats the projector can play; WMV and AVI have to be converted first
+const MEDIA_FILE = /\.(jpe?g|png|gif|bmp|webp|mp4|mov|m4v|webm)$/i;
+
+// Media is stored in the library as data URLs, so large videos are left for
+// the user to add by hand instead of being read into memory
+export const EW_MAX_MEDIA_BYTES = 200 * 1024 * 1024;
+
+export const isImportableMedia = (file?: File): file is File => !!file && file.size <= EW_MAX_MEDIA_BYTES;
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() || path;
+
+const tableNames = (db: any): string[] =>
+    (db.exec("SELECT name FROM sqlite_master WHERE type = 'table'")[0]?.values || []).map((row: any[]) => String(row[0]));
+
+const tableColumns = (db: any, table: string): string[] =>
+    (db.exec(`PRAGMA table_info("${table}")`)[0]?.values || []).map((row: any[]) => String(row[1]).toLowerCase());
+
+/**
+ * Rows of `table` as objects keyed like `columns`, reading only the columns
+ * that exist. Null when the table or its `required` column is missing.
+ */
+function readTable(db: any, tables: string[], columns: Record<string, string[]>, required: string): Record<string, any>[] | null {
+    const table = tableNames(db).find(name => tables.includes(name.toLowerCase()));
+    if (!table) return null;
+
+    const existing = tableColumns(db, table);
+    const selected: [string, string][] = [];
+    Object.keys(columns).forEach(key => {
+        const column = columns[key].find(name => existing.includes(name));
+        if (column) selected.push([key, column]);
+    });
+    if (!selected.some(([key]) => key === required)) return null;
+
+    const order = COLUMNS.order.find(name => existing.includes(name)) || 'rowid';
+    const result = db.exec(`SELECT rowid, ${selected.map(([, column]) => `"${column}"`).join(', ')} FROM "${table}" ORDER BY "${order}"`);
+    return (result[0]?.values || []).map((row: any[]) => {
+        const record: Record<string, any> = { rowid: row[0] };
+        selected.forEach(([key], i) => { record[key] = row[i + 1]; });
+        return record;
+    });
+}
+
+/**
+ * EasyWorship colors: "#rrggbb", or an integer that is either ARGB or a
+ * Windows BGR color value
+ */
+function toHexColor(value: any): string | undefined {
+    if (value === null || value === undefined || value === '') return undefined;
+    if (typeof value === 'string' && value.startsWith('#')) return value;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < 0) return undefined;
+    const [r, g, b] = n > 0xffffff
+        ? [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]
+        : [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff];
+    return `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function entryKind(value: any, title: string): EWScheduleEntryKind {
+    const text = typeof value === 'string' ? value.toLowerCase() : '';
+    if (/song/.test(text)) return 'song';
+    if (/scrip|bible/.test(text)) return 'scripture';
+    if (/media|image|video|picture/.test(text)) return 'media';
+    if (text) return 'other';
+    // Numeric or missing types: references look like "John 3:16"
+    return /\d+:\d+/.test(title) ? 'scripture' : 'song';
+}
+
+/**
+ * Reads schedules (.ewsx), the media library and themes from the picked
+ * EasyWorship files. `resourceFiles` is the picked resources folder, used to
+ * find the media and background files the databases point at.
+ */
+export async function parseEasyWorshipExtras(
+    files: File[],
+    resourceFiles: File[],
+    onProgress?: (progress: EWImportProgress) => void
+): Promise<EWExtras> {
+    onProgress?.({ phase: 'loading', current: 0, total: 0 });
+    const SQL = await getSqlJs();
+
+    const resources = new Map<string, File>();
+    resourceFiles.forEach(file => resources.set(file.name.toLowerCase(), file));
+    const findResource = (path: any) => (path ? resources.get(baseName(String(path)).toLowerCase()) : undefined);
+
+    const extras: EWExtras = { schedules: [], media: [], themes: [], unreadable: [] };
+
+    for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        onProgress?.({ phase: 'parsing', current: i + 1, total: files.length, currentTitle: file.name });
+
+        try {
+            // Schedules are zipped; the databases are plain SQLite
+            const buffers: ArrayBuffer[] = [];
+            if (/\.(ewsx|zip)$/i.test(file.name)) {
+                const zip = await JSZip.loadAsync(file);
+                const entries = zip.filter((path, entry) => !entry.dir && /\.db$/i.test(path));
+                for (const entry of entries) buffers.push(await entry.async('arraybuffer'));
+            } else {
+                buffers.push(await file.arrayBuffer());
+            }
+
+            let found = false;
+            for (const buffer of buffers) {
+                const db = new SQL.Database(new Uint8Array(buffer));
+                try {
+                    const media = readTable(db, MEDIA_TABLES, { title: COLUMNS.title, path: COLUMNS.path }, 'path');
+                    media?.filter(row => MEDIA_FILE.test(String(row.path || ''))).forEach(row => {
+                        const fileName = baseName(String(row.path));
+                        extras.media.push({ rowid: row.rowid, title: row.title || fileName.replace(/\.[^.]+$/, ''), fileName, file: findResource(row.path) });
+                    });
+
+                    const themes = readTable(db, THEME_TABLES, {
+                        title: COLUMNS.title,
+                        font: COLUMNS.font,
+                        textColor: COLUMNS.textColor,
+                        backgroundColor: COLUMNS.backgroundColor,
+                        backgroundPath: COLUMNS.backgroundPath
+                    }, 'title');
+                    themes?.forEach(row => extras.themes.push({
+                        rowid: row.rowid,
+                        title: String(row.title),
+                        fontFamily: row.font || undefined,
+                        textColor: toHexColor(row.textColor),
+                        backgroundColor: toHexColor(row.backgroundColor),
+                        backgroundFileName: row.backgroundPath ? baseName(String(row.backgroundPath)) : undefined,
+                        backgroundFile: findResource(row.backgroundPath)
+                    }));
+
+                    const entries = readTable(db, SCHEDULE_TABLES, { title: COLUMNS.title, kind: COLUMNS.kind }, 'title');
+                    if (entries && entries.length > 0) {
+                        extras.schedules.push({
+                            name: file.name.replace(/\.[^.]+$/, ''),
+                            date: new Date(file.lastModified || Date.now()).toISOString().split('T')[0],
+                            entries: entries.map(row => ({ title: String(row.title || 'Untitled'), kind: entryKind(row.kind, String(row.title || '')) }))
+                        });
+                    }
+
+                    found = found || !!media || !!themes || !!entries;
+                } finally {
+                    db.close();
+                }
+            }
+
+            if (!found) {
+                extras.unreadable.push({ fileName: file.name, error: 'No schedules, media or themes found' });
+            }
+        } catch (e: any) {
+            extras.unreadable.push({ fileName: file.name, error: e.message });
+        }
+    }
+
+    return extras;
+}
+
+export const readFileAsDataURL = (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+
+/**
+ * Converts an EasyWorship media library entry to a Creenly ResourceItem.
+ * `content` is the file's data URL.
+ */
+export function ewMediaToResourceItem(media: EWMediaRef, content: string): ResourceItem {
+    return {
+        id: `ew-media-${media.rowid}-${Date.now()}`,
+        title: media.title,
+        type: 'media',
+        category: 'media',
+        activeSlideIndex: 0,
+        slides: [{ id: '1', content }],
+        meta: { imageMode: 'contain' },
+        tags: ['easyworship-import'],
+        dateAdded: Date.now(),
+    };
+}
+
+/**
+ * Converts an EasyWorship theme to a custom Creenly theme, starting from the
+ * classic black theme. `backgroundImage` is the background file's data URL.
+ */
+export function ewThemeToProjectorTheme(theme: EWTheme, index = 0, backgroundImage?: string): ProjectorTheme {
+    const base = DEFAULT_THEMES[0];
+    return {
+        ...base,
+        id: `custom-theme-${Date.now()}-${index}`,
+        name: theme.title,
+        isCustom: true,
+        styles: {
+            ...base.styles,
+            fontFamily: theme.fontFamily || base.styles.fontFamily,
+            color: theme.textColor || base.styles.color
+        },
+        background: backgroundImage
+            ? { ...base.background, type: 'image', value: backgroundImage }
+            : theme.backgroundColor
+                ? { ...base.background, type: 'color', value: theme.backgroundColor }
+                : base.background
+    };
+}
+
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/\.[a-z0-9]+$/, '').trim();
+
+const PLACEHOLDER_FOR: Record<EWScheduleEntryKind, PlaceholderType> = {
+    song: 'song',
+    scripture: 'scripture',
+    media: 'media',
+    other: 'song'
+};
+
+/**
+ * Lays out an EasyWorship schedule as a plan. Songs and media are matched by
+ * title in `library`, references are looked up in the bundled Bible, and
+ * anything else becomes an empty slot with the EasyWorship title.
+ */
+export function ewScheduleToPlan(schedule: EWSchedule, library: ResourceItem[]): { plan: ServiceSchedule; unresolved: string[] } {
+    const stamp = Date.now();
+    const unresolved: string[] = [];
+
+    const items = schedule.entries.map((entry, i): ScheduleItem => {
+        const id = `ew-item-${stamp}-${i}`;
+
+        if (entry.kind === 'scripture') {
+            const verse = detectVersesInText(entry.title)[0];
+            if (verse) {
+                return {
+                    id,
+                    type: 'scripture',
+                    title: verse.reference,
+                    slides: [{ id: 'slide-1', content: verse.text, label: 'Verse' }],
+                    activeSlideIndex: 0,
+                    meta: { version: 'KJV', author: 'KJV' }
+                };
+            }
+        }
+
+        const category = entry.kind === 'media' ? 'media' : 'song';
+        const resource = entry.kind !== 'scripture'
+            && library.find(r => r.category === category && normalizeTitle(r.title) === normalizeTitle(entry.title));
+        if (resource) {
+            const { category: _category, dateAdded, tags, collectionId, ...item } = resource;
+            return { ...item, id, activeSlideIndex: 0 };
+        }
+
+        unresolved.push(entry.title);
+        return { ...createPlaceholder(PLACEHOLDER_FOR[entry.kind]), id, title: entry.title };
+    });
+
+    return {
+        plan: { ...createBlankSchedule(), id: `${stamp}-${schedule.name.replace(/\W+/g, '-')}`, name: schedule.name, date: schedule.date, items },
+        unresolved
+    };
+}
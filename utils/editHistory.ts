@@ -0,0 +1,189 @@
+import { ScheduleItem } from '@/utils/scheduleManager';
+import { ResourceItem, ProjectorTheme, saveResource, deleteResource, saveTheme, deleteTheme } from '@/utils/resourceLibrary';
+
+// Undo/redo history for schedule and library edits.
+// Every edit is recorded as a plain-data command that knows its own inverse,
+// so the stack survives a reload (sessionStorage) for the current session.
+
+export type HistoryCommand =
+    | { kind: 'schedule_insert'; index: number; item: ScheduleItem }
+    | { kind: 'schedule_remove'; index: number; item: ScheduleItem }
+    | { kind: 'schedule_move'; itemId: string; from: number; to: number }
+    | { kind: 'schedule_replace'; before: ScheduleItem; after: ScheduleItem }
+    // null means "not in the library": create = null -> item, delete = item -> null
+    | { kind: 'library_put'; before: ResourceItem | null; after: ResourceItem | null }
+    | { kind: 'theme_put'; before: ProjectorTheme | null; after: ProjectorTheme | null };
+
+export type ScheduleCommand = Extract<HistoryCommand, { kind: `schedule_${string}` }>;
+
+export type HistoryEntry = {
+    id: string;
+    label: string;
+    timestamp: number;
+    command: HistoryCommand;
+};
+
+export type HistoryState = {
+    entries: HistoryEntry[];
+    cursor: number; // Entries before the cursor are applied; the rest can be redone
+};
+
+const STORAGE_KEY = 'creenly-edit-history';
+const MAX_ENTRIES = 100;
+
+export const isScheduleCommand = (command: HistoryCommand): command is ScheduleCommand =>
+    command.kind.startsWith('schedule_');
+
+/**
+ * The command that reverses `command`
+ */
+export const invertCommand = (command: HistoryCommand): HistoryCommand => {
+    switch (command.kind) {
+        case 'schedule_insert':
+            return { ...command, kind: 'schedule_remove' };
+        case 'schedule_remove':
+            return { ...command, kind: 'schedule_insert' };
+        case 'schedule_move':
+            return { ...command, from: command.to, to: command.from };
+        case 'schedule_replace':
+        case 'library_put':
+        case 'theme_put':
+            return { ...command, before: command.after, after: command.before } as HistoryCommand;
+    }
+};
+
+/**
+ * Apply a schedule command to a list of items. Items are located by id so
+ * commands stay valid if other edits shifted things around.
+ */
+export const applyScheduleCommand = (items: ScheduleItem[], command: ScheduleCommand): ScheduleItem[] => {
+    switch (command.kind) {
+        case 'schedule_insert': {
+            const next = items.filter(i => i.id !== command.item.id);
+            next.splice(Math.min(command.index, next.length), 0, command.item);
+            return next;
+        }
+        case 'schedule_remove':
+            return items.filter(i => i.id !== command.item.id);
+        case 'schedule_move': {
+            const from = items.findIndex(i => i.id === command.itemId);
+            if (from === -1) return items;
+            const next = [...items];
+            const [moved] = next.splice(from, 1);
+            next.splice(Math.min(command.to, next.length), 0, moved);
+            return next;
+        }
+        case 'schedule_replace':
+            return items.map(i => i.id === command.before.id ? command.after : i);
+    }
+};
+
+/**
+ * Write a library or theme command to IndexedDB
+ */
+export async function applyLibraryCommand(command: Exclude<HistoryCommand, ScheduleCommand>): Promise<void> {
+    if (command.kind === 'library_put') {
+        if (command.after) await saveResource(command.after);
+        else if (command.before) await deleteResource(command.before.id);
+    } else {
+        if (command.after) await saveTheme(command.after);
+        else if (command.before) await deleteTheme(command.before.id);
+    }
+    libraryListeners.forEach(listener => listener());
+}
+
+// --- Store ---
+
+const loadState = (): HistoryState => {
+    if (typeof window === 'undefined') return { entries: [], cursor: 0 };
+    try {
+        const saved = sessionStorage.getItem(STORAGE_KEY);
+        if (saved) return JSON.parse(saved);
+    } catch (e) {
+        console.warn('Failed to restore edit history', e);
+    }
+    return { entries: [], cursor: 0 };
+};
+
+let state: HistoryState | null = null;
+const listeners = new Set<() => void>();
+const libraryListeners = new Set<() => void>();
+
+// Media items can be large; drop the oldest entries until the stack fits
+const persist = (next: HistoryState) => {
+    let toSave = next;
+    while (toSave.entries.length > 0) {
+        try {
+            sessionStorage.setItem(STORAGE_KEY, JSON.stringify(toSave));
+            return;
+        } catch {
+            toSave = { entries: toSave.entries.slice(1), cursor: Math.max(0, toSave.cursor - 1) };
+        }
+    }
+    sessionStorage.removeItem(STORAGE_KEY);
+};
+
+const setState = (next: HistoryState) => {
+    state = next;
+    persist(next);
+    listeners.forEach(listener => listener());
+};
+
+export const getHistoryState = (): HistoryState => {
+    if (!state) state = loadState();
+    return state;
+};
+
+export const subscribeHistory = (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+// Fired after undo/redo touches the library so open panels can reload
+export const subscribeLibraryHistory = (listener: () => void) => {
+    libraryListeners.add(listener);
+    return () => { libraryListeners.delete(listener); };
+};
+
+/**
+ * Record an edit that has just been made. Clears anything that could be redone.
+ */
+export const recordEdit = (label: string, command: HistoryCommand) => {
+    const { entries, cursor } = getHistoryState();
+    const entry: HistoryEntry = {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        label,
+        timestamp: Date.now(),
+        command
+    };
+    const next = [...entries.slice(0, cursor), entry].slice(-MAX_ENTRIES);
+    setState({ entries: next, cursor: next.length });
+};
+
+/**
+ * Move the cursor one step and hand back the command to run (already inverted for undo)
+ */
+export const stepHistory = (direction: 'undo' | 'redo'): HistoryCommand | null => {
+    const { entries, cursor } = getHistoryState();
+    if (direction === 'undo') {
+        if (cursor === 0) return null;
+        setState({ entries, cursor: cursor - 1 });
+        return invertCommand(entries[cursor - 1].command);
+    }
+    if (cursor >= entries.length) return null;
+    setState({ entries, cursor: cursor + 1 });
+    return entries[cursor].command;
+};
+
+/**
+ * Drop the schedule steps when another plan replaces the schedule; they only
+ * make sense against the plan they were recorded on. Library and theme steps stay.
+ */
+export const clearScheduleHistory = () => {
+    const { entries, cursor } = getHistoryState();
+    const keep = (entry: HistoryEntry) => !isScheduleCommand(entry.command);
+    setState({
+        entries: entries.filter(keep),
+        cursor: entries.slice(0, cursor).filter(keep).length
+    });
+};
@@ -0,0 +1,84 @@
+// Per-display geometry correction for off-axis projectors.
+// Corner pin warp, edge masks and overscan are stored per display ID so every
+// output window on that display (projector, named outputs, stage, test grid)
+// applies the same correction.
+
+export type Point = { x: number; y: number }; // Fractions of the screen (0..1)
+
+export type DisplayGeometry = {
+    corners: { tl: Point; tr: Point; br: Point; bl: Point };
+    mask: { top: number; right: number; bottom: number; left: number }; // % of the screen
+    overscan: number; // % the picture is shrunk (+) or enlarged (-) before warping
+};
+
+export const DEFAULT_GEOMETRY: DisplayGeometry = {
+    corners: {
+        tl: { x: 0, y: 0 },
+        tr: { x: 1, y: 0 },
+        br: { x: 1, y: 1 },
+        bl: { x: 0, y: 1 }
+    },
+    mask: { top: 0, right: 0, bottom: 0, left: 0 },
+    overscan: 0
+};
+
+export const GEOMETRY_STORAGE_KEY = 'displayGeometry';
+
+const loadAllGeometry = (): Record<string, DisplayGeometry> => {
+    if (typeof window === 'undefined') return {};
+    try {
+        const saved = localStorage.getItem(GEOMETRY_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+        console.error('Failed to load display geometry', e);
+        return {};
+    }
+};
+
+export const loadGeometry = (displayId: string): DisplayGeometry => {
+    const saved = loadAllGeometry()[displayId];
+    return saved ? { ...DEFAULT_GEOMETRY, ...saved } : DEFAULT_GEOMETRY;
+};
+
+export const saveGeometry = (displayId: string, geometry: DisplayGeometry): void => {
+    if (typeof window === 'undefined') return;
+    const all = loadAllGeometry();
+    all[displayId] = geometry;
+    localStorage.setItem(GEOMETRY_STORAGE_KEY, JSON.stringify(all));
+};
+
+export const isDefaultGeometry = (geometry: DisplayGeometry): boolean =>
+    JSON.stringify(geometry) === JSON.stringify(DEFAULT_GEOMETRY);
+
+/**
+ * CSS matrix3d that maps a width x height element onto the four corner points
+ * (square-to-quad projective mapping). Use with transform-origin 0 0.
+ */
+export const computeWarpTransform = (corners: DisplayGeometry['corners'], width: number, height: number): string => {
+    const x0 = corners.tl.x * width, y0 = corners.tl.y * height;
+    const x1 = corners.tr.x * width, y1 = corners.tr.y * height;
+    const x2 = corners.br.x * width, y2 = corners.br.y * height;
+    const x3 = corners.bl.x * width, y3 = corners.bl.y * height;
+
+    const dx1 = x1 - x2, dx2 = x3 - x2, dx3 = x0 - x1 + x2 - x3;
+    const dy1 = y1 - y2, dy2 = y3 - y2, dy3 = y0 - y1 + y2 - y3;
+
+    let g = 0, h = 0;
+    if (dx3 !== 0 || dy3 !== 0) {
+        const det = dx1 * dy2 - dx2 * dy1;
+        if (det === 0) return 'none';
+        g = (dx3 * dy2 - dx2 * dy3) / det;
+        h = (dx1 * dy3 - dx3 * dy1) / det;
+    }
+
+    const a = x1 - x0 + g * x1, b = x3 - x0 + h * x3, c = x0;
+    const d = y1 - y0 + g * y1, e = y3 - y0 + h * y3, f = y0;
+
+    // Unit-square coefficients scaled to element pixels; matrix3d is column-major
+    return `matrix3d(${[
+        a / width, d / width, 0, g / width,
+        b / height, e / height, 0, h / height,
+        0, 0, 1, 0,
+        c, f, 0, 1
+    ].join(', ')})`;
+};
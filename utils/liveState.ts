@@ -0,0 +1,203 @@
+import { ProjectorTheme } from './themes';
+
+// Authoritative "what is on screen" model, owned by the dashboard.
+// Every projector_channel message the dashboard sends is stamped with a session id
+// and a sequence number and folded into this state. Outputs (projector, stage,
+// lower third, ...) request a LIVE_STATE snapshot on load and drop any message
+// older than the last one they applied.
+
+export type LiveMessage = {
+    type: string;
+    payload?: any;
+    session?: string;
+    seq?: number;
+};
+
+export type TimerSnapshot = {
+    mode: 'countup' | 'countdown';
+    targetSeconds: number;
+    alert: string | null;
+    isRunning: boolean;
+    startedAt: number | null; // epoch ms, shifted forward by time spent paused
+    pausedAt: number | null;
+};
+
+export type AnnouncementState = {
+    text: string;
+    isActive: boolean;
+    bgColor: string;
+    textColor: string;
+    speed: number;
+};
+
+export type LiveState = {
+    session: string;
+    seq: number;
+    content: LiveMessage | null;  // Last SHOW_VERSE / SHOW_CONTENT, as sent
+    background: string | null;
+    theme: ProjectorTheme | null;
+    alert: { text: string; duration: number; shownAt: number } | null;
+    announcement: AnnouncementState | null;
+    timer: TimerSnapshot;
+    blackout: boolean;
+};
+
+const DEFAULT_TIMER: TimerSnapshot = {
+    mode: 'countup',
+    targetSeconds: 0,
+    alert: null,
+    isRunning: false,
+    startedAt: null,
+    pausedAt: null
+};
+
+export const createLiveSession = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createLiveState = (session: string): LiveState => ({
+    session,
+    seq: 0,
+    content: null,
+    background: null,
+    theme: null,
+    alert: null,
+    announcement: null,
+    timer: DEFAULT_TIMER,
+    blackout: false
+});
+
+const reduceTimer = (timer: TimerSnapshot, payload: any, now: number): TimerSnapshot => {
+    switch (payload?.action) {
+        case 'set':
+            return {
+                ...DEFAULT_TIMER,
+                mode: payload.mode || 'countup',
+                targetSeconds: payload.value || 0,
+                alert: payload.alert || null
+            };
+        case 'start':
+            if (timer.isRunning) return timer;
+            return {
+                ...timer,
+                isRunning: true,
+                startedAt: timer.pausedAt && timer.startedAt ? timer.startedAt + (now - timer.pausedAt) : now,
+                pausedAt: null
+            };
+        case 'pause':
+            if (!timer.isRunning) return timer;
+            return { ...timer, isRunning: false, pausedAt: now };
+        case 'reset':
+        case 'stop':
+            return { ...timer, isRunning: false, startedAt: null, pausedAt: null };
+        default:
+            return timer;
+    }
+};
+
+/**
+ * Fold one outgoing message into the live state
+ */
+export const reduceLiveState = (state: LiveState, message: LiveMessage, now: number = Date.now()): LiveState => {
+    const next: LiveState = {
+        ...state,
+        session: message.session ?? state.session,
+        seq: message.seq ?? state.seq
+    };
+
+    switch (message.type) {
+        case 'SHOW_VERSE':
+            return { ...next, content: message, blackout: false };
+        case 'SHOW_CONTENT':
+            return {
+                ...next,
+                content: message,
+                background: message.payload?.background || state.background,
+                blackout: false
+            };
+        case 'CLEAR':
+            return { ...next, content: null };
+        case 'BLACKOUT':
+            return { ...next, content: null, background: null, blackout: true };
+        case 'APPLY_THEME':
+            return {
+                ...next,
+                theme: message.payload,
+                background: message.payload?.background?.value ?? state.background
+            };
+        case 'ALERT':
+            return {
+                ...next,
+                alert: { text: message.payload?.text, duration: message.payload?.duration || 5000, shownAt: now }
+            };
+        case 'UPDATE_ANNOUNCEMENT':
+            return { ...next, announcement: message.payload };
+        case 'MEDIA_ACTION': {
+            // Display options change the live item; playback controls are transient
+            const content = state.content;
+            const optionKey = ({ set_mode: 'imageMode', set_scale: 'scale', set_audio_only: 'isAudioOnly' } as Record<string, string>)[message.payload?.action];
+            if (!content || content.type !== 'SHOW_CONTENT' || !optionKey) return next;
+            return {
+                ...next,
+                content: {
+                    ...content,
+                    payload: {
+                        ...content.payload,
+                        options: { ...content.payload.options, [optionKey]: message.payload.value }
+                    }
+                }
+            };
+        }
+        case 'TIMER_ACTION':
+            return { ...next, timer: reduceTimer(state.timer, message.payload, now) };
+        default:
+            return next;
+    }
+};
+
+/**
+ * Expand a snapshot into the ordinary messages outputs already understand,
+ * so applying it reuses each output's existing handlers
+ */
+export const snapshotToMessages = (state: LiveState, now: number = Date.now()): LiveMessage[] => {
+    const messages: LiveMessage[] = [];
+
+    if (state.theme) messages.push({ type: 'APPLY_THEME', payload: state.theme });
+
+    if (state.blackout) {
+        messages.push({ type: 'BLACKOUT' });
+    } else if (state.content) {
+        messages.push({ type: state.content.type, payload: { ...state.content.payload, background: state.background || undefined } });
+    } else {
+        messages.push({ type: 'CLEAR', payload: { background: state.background || undefined } });
+    }
+
+    if (state.announcement) messages.push({ type: 'UPDATE_ANNOUNCEMENT', payload: state.announcement });
+
+    if (state.alert) {
+        const remaining = state.alert.shownAt + state.alert.duration - now;
+        if (remaining > 0) messages.push({ type: 'ALERT', payload: { text: state.alert.text, duration: remaining } });
+    }
+
+    messages.push({ type: 'TIMER_ACTION', payload: { action: 'sync', ...state.timer } });
+
+    return messages;
+};
+
+export type AppliedMarker = {
+    session: string;
+    seq: number;
+    hasSnapshot: boolean;
+};
+
+/**
+ * True when a stamped message is older than what the output has already applied.
+ * A new session (dashboard reloaded) always wins; the first snapshot is always taken.
+ */
+export const isStaleMessage = (last: AppliedMarker | null, message: LiveMessage): boolean => {
+    if (message.seq === undefined || !message.session || !last) return false;
+    if (message.session !== last.session) return false;
+    if (message.type === 'LIVE_STATE') {
+        return last.hasSnapshot ? message.seq <= last.seq : message.seq < last.seq;
+    }
+    return message.seq <= last.seq;
+};
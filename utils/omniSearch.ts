@@ -0,0 +1,197 @@
+import { DetectedVerse, detectVersesInText, searchBibleText } from '@/utils/bible';
+import { ResourceItem, ResourceCollection, getCollections, getResource, getThemes, searchResources } from '@/utils/resourceLibrary';
+import { SavedPlan, getPlans } from '@/utils/scheduleManager';
+import { DEFAULT_THEMES, ProjectorTheme } from '@/utils/themes';
+
+// Ctrl+K search across everything an operator might reach for mid-service:
+// scripture (references and Bible text), the library, themes, collections
+// and saved plans. Recently used results are kept for an empty query.
+
+export type OmniGroup = 'scripture' | 'song' | 'presentation' | 'media' | 'theme' | 'collection' | 'plan';
+
+type ResultBase = {
+    key: string;
+    title: string;
+    subtitle: string;
+};
+
+export type OmniResult = ResultBase & (
+    | { group: 'scripture'; verse: DetectedVerse }
+    | { group: 'song' | 'presentation' | 'media'; resource: ResourceItem }
+    | { group: 'theme'; theme: ProjectorTheme }
+    | { group: 'collection'; collection: ResourceCollection }
+    | { group: 'plan'; plan: SavedPlan }
+);
+
+export const OMNI_GROUP_LABELS: Record<OmniGroup, string> = {
+    scripture: 'Scripture',
+    song: 'Songs',
+    presentation: 'Presentations',
+    media: 'Media',
+    theme: 'Themes',
+    collection: 'Collections',
+    plan: 'Saved Plans'
+};
+
+const GROUP_LIMITS: Record<OmniGroup, number> = {
+    scripture: 6,
+    song: 6,
+    presentation: 4,
+    media: 4,
+    theme: 4,
+    collection: 4,
+    plan: 4
+};
+
+const RECENT_KEY = 'creenly-omnisearch-recent';
+const MAX_RECENT = 8;
+
+// Everything that isn't in the search index, loaded once per open
+export type OmniSources = {
+    themes: ProjectorTheme[];
+    collections: ResourceCollection[];
+    plans: SavedPlan[];
+};
+
+export async function loadOmniSources(): Promise<OmniSources> {
+    const [customThemes, collections, plans] = await Promise.all([getThemes(), getCollections(), getPlans()]);
+    return { themes: [...DEFAULT_THEMES, ...customThemes], collections, plans };
+}
+
+const resourceResult = (resource: ResourceItem, group: 'song' | 'presentation' | 'media'): OmniResult => ({
+    key: `${group}-${resource.id}`,
+    group,
+    title: resource.title,
+    subtitle: resource.meta?.author || (group === 'media' ? 'Media' : ''),
+    resource
+});
+
+const verseResult = (verse: DetectedVerse): OmniResult => ({
+    key: `scripture-${verse.reference}`,
+    group: 'scripture',
+    title: verse.reference,
+    subtitle: verse.text.length > 80 ? `${verse.text.substring(0, 80)}...` : verse.text,
+    verse
+});
+
+const themeResult = (theme: ProjectorTheme): OmniResult => ({
+    key: `theme-${theme.id}`,
+    group: 'theme',
+    title: theme.name,
+    subtitle: theme.isCustom ? 'Custom theme' : 'Built-in theme',
+    theme
+});
+
+const collectionResult = (collection: ResourceCollection): OmniResult => ({
+    key: `collection-${collection.id}`,
+    group: 'collection',
+    title: collection.name,
+    subtitle: `${collection.type.charAt(0).toUpperCase()}${collection.type.slice(1)} collection`,
+    collection
+});
+
+const planResult = (plan: SavedPlan): OmniResult => ({
+    key: `plan-${plan.id}`,
+    group: 'plan',
+    title: plan.name,
+    subtitle: `${plan.date} · ${plan.items.length} items`,
+    plan
+});
+
+/**
+ * Grouped results for `query`, in OMNI_GROUP_LABELS order
+ */
+export async function searchOmni(query: string, sources: OmniSources): Promise<OmniResult[]> {
+    const text = query.trim();
+    if (!text) return [];
+    const lower = text.toLowerCase();
+
+    // References first ("John 3:16"), then verses containing the words
+    const references = detectVersesInText(text);
+    const verses = references.length > 0 ? references : searchBibleText(text, GROUP_LIMITS.scripture);
+
+    const [songs, presentations, media] = await Promise.all([
+        searchResources(text, { categories: ['song'], limit: GROUP_LIMITS.song }),
+        searchResources(text, { categories: ['presentation'], limit: GROUP_LIMITS.presentation }),
+        searchResources(text, { categories: ['media'], limit: GROUP_LIMITS.media })
+    ]);
+
+    const byName = <T>(items: T[], name: (item: T) => string, limit: number) =>
+        items.filter(item => name(item).toLowerCase().includes(lower)).slice(0, limit);
+
+    return [
+        ...verses.slice(0, GROUP_LIMITS.scripture).map(verseResult),
+        ...songs.items.map(r => resourceResult(r, 'song')),
+        ...presentations.items.map(r => resourceResult(r, 'presentation')),
+        ...media.items.map(r => resourceResult(r, 'media')),
+        ...byName(sources.themes, t => t.name, GROUP_LIMITS.theme).map(themeResult),
+        ...byName(sources.collections, c => c.name, GROUP_LIMITS.collection).map(collectionResult),
+        ...byName(sources.plans, p => `${p.name} ${p.date}`, GROUP_LIMITS.plan).map(planResult)
+    ];
+}
+
+// --- Recent items ---
+
+type RecentEntry = {
+    group: OmniGroup;
+    id: string;              // Resource, theme, collection or plan id
+    verse?: DetectedVerse;   // Scripture is stored whole (not in any store)
+};
+
+const entryFor = (result: OmniResult): RecentEntry => {
+    switch (result.group) {
+        case 'scripture': return { group: result.group, id: result.verse.reference, verse: result.verse };
+        case 'song':
+        case 'presentation':
+        case 'media': return { group: result.group, id: result.resource.id };
+        case 'theme': return { group: result.group, id: result.theme.id };
+        case 'collection': return { group: result.group, id: result.collection.id };
+        case 'plan': return { group: result.group, id: result.plan.id };
+    }
+};
+
+const loadRecent = (): RecentEntry[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        return JSON.parse(localStorage.getItem(RECENT_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+export const rememberRecent = (result: OmniResult) => {
+    const entry = entryFor(result);
+    const recent = loadRecent().filter(e => !(e.group === entry.group && e.id === entry.id));
+    localStorage.setItem(RECENT_KEY, JSON.stringify([entry, ...recent].slice(0, MAX_RECENT)));
+};
+
+/**
+ * Recently used results that still exist
+ */
+export async function getRecentResults(sources: OmniSources): Promise<OmniResult[]> {
+    const resolved = await Promise.all(loadRecent().map(async (entry): Promise<OmniResult | null> => {
+        switch (entry.group) {
+            case 'scripture':
+                return entry.verse ? verseResult(entry.verse) : null;
+            case 'song':
+            case 'presentation':
+            case 'media': {
+                const resource = await getResource(entry.id);
+                return resource ? resourceResult(resource, entry.group) : null;
+            }
+            case 'theme': {
+                const theme = sources.themes.find(t => t.id === entry.id);
+                return theme ? themeResult(theme) : null;
+            }
+            case 'collection': {
+                const collection = sources.collections.find(c => c.id === entry.id);
+                return collection ? collectionResult(collection) : null;
+            }
+            case 'plan': {
+                const plan = sources.plans.find(p => p.id === entry.id);
+                return plan ? planResult(plan) : null;
+            }
+        }
+    }));
+    return resolved.filter((result): result is OmniResult => result !== null);
+}
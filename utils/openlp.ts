@@ -0,0 +1,397 @@
+import JSZip from 'jszip';
+import { getSqlJs } from './easyworship';
+import { OLParsedSong, OLVerse, parseOpenLyrics, olSongToResourceItem, verseLabel } from './openlyrics';
+import { stripChords } from './chordpro';
+import { MAX_LINES_PER_SLIDE } from './lyricsParser';
+import { ResourceItem } from './resourceLibrary';
+import { ScheduleItem, ServiceSchedule, createBlankSchedule } from './scheduleManager';
+
+// OpenLP (https://openlp.org) imports:
+//
+//   songs.sqlite  The song database. Each song's lyrics column holds a small
+//                 XML document: <verse type="v" label="1"><![CDATA[...]]></verse>
+//   .osz          A service file: a zip holding service_data.osj (JSON) and,
+//                 unless saved as "lite", the images it uses.
+//
+// Verse text carries OpenLP formatting tags ({st}, {it}, {br}...), optional
+// split markers ([---]) and, since OpenLP 2.4, inline chords ([G]).
+
+export const OPENLP_SERVICE_FILE = /\.osz$/i;
+
+// ---------- Types ----------
+
+export interface OpenLPParsedSong {
+    songId: number;
+    song: OLParsedSong;
+}
+
+export interface OpenLPImportProgress {
+    phase: 'loading' | 'parsing';
+    current: number;
+    total: number;
+    currentTitle?: string;
+}
+
+export interface OpenLPUnsupportedItem {
+    title: string;
+    reason: string;
+}
+
+export interface OpenLPServiceResult {
+    schedule: ServiceSchedule;
+    unsupported: OpenLPUnsupportedItem[];
+}
+
+// service_data.osj entries (only the fields we read)
+type OSJSlide = {
+    raw_slide?: string;
+    verseTag?: string;
+    title?: string;
+    path?: string;
+    image?: string;
+    file_hash?: string;
+};
+
+type OSJItem = {
+    serviceitem?: {
+        header: {
+            name: string;
+            title?: string;
+            xml_version?: string | null;
+            footer?: string[];
+            notes?: string;
+        };
+        data: OSJSlide[];
+    };
+};
+
+// ---------- Text ----------
+
+const FORMATTING_TAGS: Record<string, string> = {
+    st: 'b',
+    it: 'i',
+    u: 'u'
+};
+
+/**
+ * OpenLP verse text to slide text: bold/italic/underline tags become HTML,
+ * other formatting tags and chords are dropped. Split markers stay for the caller.
+ */
+export function cleanOpenLPText(text: string): string {
+    return stripChords(text.replace(/\[---\]/g, '\u0000'))
+        .replace(/\r\n?/g, '\n')
+        .replace(/\{br\}|<br\s*\/?>/gi, '\n')
+        .replace(/\{su\}(.*?)\{\/su\}/g, '$1 ') // Bible verse numbers
+        .replace(/\{(\/?)(\w+)\}/g, (_, close, tag) => FORMATTING_TAGS[tag] ? `<${close}${FORMATTING_TAGS[tag]}>` : '')
+        .replace(/\u0000/g, '[---]')
+        .split('\n').map(line => line.trim()).join('\n')
+        .trim();
+}
+
+/**
+ * Slide-sized parts of a verse: split at [---] and wherever it's too long
+ */
+function verseParts(text: string): string[] {
+    const parts: string[] = [];
+    cleanOpenLPText(text).split('[---]').forEach(part => {
+        const lines = part.split('\n').filter(line => line.trim());
+        for (let start = 0; start < lines.length; start += MAX_LINES_PER_SLIDE) {
+            parts.push(lines.slice(start, start + MAX_LINES_PER_SLIDE).join('\n'));
+        }
+    });
+    return parts;
+}
+
+// ---------- Song database ----------
+
+/**
+ * The lyrics column of an OpenLP song. Verse types are letters ("v", "c") in
+ * OpenLP 2+ and words ("Verse", "Chorus") in older databases; the first letter
+ * is the same either way.
+ */
+function parseSongLyrics(lyrics: string): OLVerse[] {
+    const doc = new DOMParser().parseFromString(lyrics, 'application/xml');
+    const verses = doc.getElementsByTagName('parsererror').length > 0 ? [] : Array.from(doc.getElementsByTagName('verse'));
+    if (verses.length === 0) {
+        // Not OpenLP XML: plain text, one verse per blank-line-separated block
+        return lyrics.split(/\n\s*\n/).map((block, i) => ({ name: `v${i + 1}`, lines: verseParts(block) }))
+            .filter(verse => verse.lines.length > 0);
+    }
+
+    return verses.map(verse => ({
+        name: `${(verse.getAttribute('type') || 'v').charAt(0).toLowerCase()}${verse.getAttribute('label') || '1'}`,
+        lang: verse.getAttribute('lang') || undefined,
+        lines: verseParts(verse.textContent || '')
+    })).filter(verse => verse.lines.length > 0);
+}
+
+/**
+ * Reads an OpenLP songs.sqlite database and returns parsed songs.
+ */
+export async function parseOpenLPSongsDb(
+    buffer: ArrayBuffer,
+    onProgress?: (progress: OpenLPImportProgress) => void
+): Promise<OpenLPParsedSong[]> {
+    onProgress?.({ phase: 'loading', current: 0, total: 0 });
+
+    const SQL = await getSqlJs();
+    const db = new SQL.Database(new Uint8Array(buffer));
+
+    try {
+        const tables = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'songs'");
+        if (!tables.length) {
+            throw new Error('This is not an OpenLP songs database');
+        }
+
+        const songsResult = db.exec(
+            "SELECT id, title, lyrics, verse_order, copyright, ccli_number FROM songs"
+        );
+        if (!songsResult.length || !songsResult[0].values.length) {
+            return [];
+        }
+
+        // Author names per song id
+        const authorsMap = new Map<number, string[]>();
+        const authorsResult = db.exec(
+            "SELECT authors_songs.song_id, authors.display_name FROM authors_songs JOIN authors ON authors.id = authors_songs.author_id"
+        );
+        if (authorsResult.length) {
+            for (const row of authorsResult[0].values) {
+                const names = authorsMap.get(row[0] as number) || [];
+                if (row[1] && !names.includes(row[1] as string)) names.push(row[1] as string);
+                authorsMap.set(row[0] as number, names);
+            }
+        }
+
+        const rows: any[][] = songsResult[0].values;
+        const parsed: OpenLPParsedSong[] = [];
+
+        for (let i = 0; i < rows.length; i++) {
+            const [songId, title, lyrics, verseOrder, copyright, ccli] = rows[i];
+            onProgress?.({
+                phase: 'parsing',
+                current: i + 1,
+                total: rows.length,
+                currentTitle: title
+            });
+
+            const verses = parseSongLyrics((lyrics as string) || '');
+            const languages: string[] = [];
+            verses.forEach(verse => {
+                if (verse.lang && !languages.includes(verse.lang)) languages.push(verse.lang);
+            });
+
+            parsed.push({
+                songId: songId as number,
+                song: {
+                    fileName: '',
+                    title: (title as string) || 'Untitled',
+                    authors: authorsMap.get(songId as number) || [],
+                    copyright: (copyright as string) || '',
+                    ccli: (ccli as string) || '',
+                    key: '',
+                    verseOrder: ((verseOrder as string) || '').toLowerCase().split(/[\s,]+/).filter(Boolean),
+                    languages,
+                    verses
+                }
+            });
+
+            // Yield to main thread every 50 songs
+            if (i % 50 === 0) {
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+        }
+
+        return parsed;
+    } finally {
+        db.close();
+    }
+}
+
+/**
+ * Converts a song from an OpenLP database or service file to a Creenly ResourceItem.
+ */
+export function openLPSongToResourceItem(song: OLParsedSong, index = 0): ResourceItem {
+    const item = olSongToResourceItem(song, index);
+    return {
+        ...item,
+        meta: item.meta && {
+            ...item.meta,
+            arrangements: item.meta.arrangements?.map(a => ({ ...a, name: 'OpenLP Order' }))
+        },
+        tags: ['worship', 'openlp-import']
+    };
+}
+
+// ---------- Service files ----------
+
+const IMAGE_TYPES: Record<string, string> = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    bmp: 'image/bmp',
+    webp: 'image/webp',
+    svg: 'image/svg+xml'
+};
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() || path;
+
+/**
+ * An image stored in the service zip. OpenLP 2 keeps the original path,
+ * OpenLP 3 names the file after its hash.
+ */
+function findImageEntry(zip: JSZip, slide: OSJSlide): JSZip.JSZipObject | null {
+    const name = baseName(slide.path || slide.image || slide.title || '').toLowerCase();
+    const hash = slide.file_hash?.toLowerCase();
+    return zip.filter((path, entry) => {
+        if (entry.dir) return false;
+        const entryName = baseName(path).toLowerCase();
+        return (!!name && entryName === name) || (!!hash && entryName.startsWith(hash));
+    })[0] || null;
+}
+
+async function imageItem(zip: JSZip, id: string, title: string, data: OSJSlide[]): Promise<ScheduleItem | null> {
+    const slides: ScheduleItem['slides'] = [];
+    for (const slide of data) {
+        const entry = findImageEntry(zip, slide);
+        const mimeType = IMAGE_TYPES[baseName(entry?.name || '').split('.').pop()?.toLowerCase() || ''];
+        if (!entry || !mimeType) continue;
+        slides.push({
+            id: `${id}-${slides.length + 1}`,
+            content: `data:${mimeType};base64,${await entry.async('base64')}`,
+            label: slide.title
+        });
+    }
+    if (slides.length === 0) return null;
+    return { id, type: 'media', title, slides, activeSlideIndex: 0, meta: { imageMode: 'contain' } };
+}
+
+/**
+ * Song from a service item: the OpenLyrics copy OpenLP stores alongside it,
+ * or else the slides as shown
+ */
+function songItem(id: string, title: string, header: NonNullable<OSJItem['serviceitem']>['header'], data: OSJSlide[], index: number): ScheduleItem {
+    if (header.xml_version) {
+        try {
+            const { category, dateAdded, tags, ...song } = openLPSongToResourceItem(parseOpenLyrics(header.xml_version, title), index);
+            return { ...song, id };
+        } catch {
+            // Fall back to the rendered slides
+        }
+    }
+
+    let previousLabel = '';
+    return {
+        id,
+        type: 'song',
+        title,
+        slides: data.map((slide, i) => {
+            const label = slide.verseTag ? verseLabel(slide.verseTag) : `Slide ${i + 1}`;
+            const continued = label === previousLabel;
+            previousLabel = label;
+            return { id: `${id}-${i + 1}`, content: cleanOpenLPText(slide.raw_slide || '').replace(/\[---\]/g, ''), label: continued ? `${label} (cont.)` : label };
+        }),
+        activeSlideIndex: 0
+    };
+}
+
+const BIBLE_VERSION_SUFFIX = /\s*\(([^)]+)\)\s*$/;
+
+/**
+ * Reads an OpenLP .osz service file into a schedule. Items that can't be
+ * brought across (presentations, videos, missing images...) are reported.
+ */
+export async function readOpenLPService(file: File): Promise<OpenLPServiceResult> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error('This file is not a valid OpenLP service file');
+    }
+
+    const serviceData = zip.filter(path => /\.osj$/i.test(path))[0];
+    if (!serviceData) {
+        if (zip.filter(path => /\.osd$/i.test(path)).length > 0) {
+            throw new Error('This service file was saved by OpenLP 1.9 or 2.0. Open it in a newer OpenLP and save it again to import it.');
+        }
+        throw new Error('OpenLP service file is missing its service data');
+    }
+
+    let entries: OSJItem[];
+    try {
+        entries = JSON.parse(await serviceData.async('string'));
+    } catch {
+        throw new Error('OpenLP service data could not be read');
+    }
+
+    const schedule: ServiceSchedule = {
+        ...createBlankSchedule(),
+        name: file.name.replace(OPENLP_SERVICE_FILE, '') || 'OpenLP Service'
+    };
+    const unsupported: OpenLPUnsupportedItem[] = [];
+    const stamp = Date.now();
+
+    for (let i = 0; i < entries.length; i++) {
+        const serviceItem = entries[i]?.serviceitem;
+        if (!serviceItem) continue; // The openlp_core header
+
+        const { header, data = [] } = serviceItem;
+        if (!header) {
+            unsupported.push({ title: `Item ${i + 1}`, reason: 'Item has no header' });
+            continue;
+        }
+        const id = `olp-${stamp}-${i}`;
+        const title = header.title || header.name || `Item ${i + 1}`;
+        let item: ScheduleItem | null = null;
+
+        switch (header.name) {
+            case 'songs':
+                item = songItem(id, title, header, data, i);
+                break;
+            case 'bibles': {
+                // "John 3:16 (KJV)": the reference is the title, the version goes to meta
+                const version = title.match(BIBLE_VERSION_SUFFIX);
+                item = {
+                    id,
+                    type: 'scripture',
+                    title: version ? title.slice(0, version.index).trim() : title,
+                    slides: data.map((slide, n) => ({ id: `${id}-${n + 1}`, content: cleanOpenLPText(slide.raw_slide || ''), label: slide.title || 'Verse' })),
+                    activeSlideIndex: 0,
+                    meta: { version: version?.[1] }
+                };
+                break;
+            }
+            case 'custom':
+                item = {
+                    id,
+                    type: 'song',
+                    title,
+                    slides: data.map((slide, n) => ({ id: `${id}-${n + 1}`, content: cleanOpenLPText(slide.raw_slide || '').replace(/\[---\]/g, ''), label: `Slide ${n + 1}` })),
+                    activeSlideIndex: 0
+                };
+                break;
+            case 'images':
+                item = await imageItem(zip, id, title, data);
+                if (!item) unsupported.push({ title, reason: 'Images are not included in this service file (saved as "lite"?)' });
+                break;
+            case 'presentations':
+                unsupported.push({ title, reason: 'Presentations are not supported; import the file into the library instead' });
+                break;
+            case 'media':
+                unsupported.push({ title, reason: 'Video and audio items are not supported' });
+                break;
+            default:
+                unsupported.push({ title, reason: `Unsupported OpenLP item type "${header.name}"` });
+        }
+
+        if (!item) continue;
+        if (item.slides.length === 0) {
+            unsupported.push({ title, reason: 'Item has no slides' });
+            continue;
+        }
+        schedule.items.push(header.notes ? { ...item, notes: header.notes } : item);
+    }
+
+    return { schedule, unsupported };
+}
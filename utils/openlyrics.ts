@@ -0,0 +1,396 @@
+import JSZip from 'jszip';
+import { ResourceItem } from './resourceLibrary';
+import { LyricSlide } from './lyricsParser';
+import { SongArrangement, getSections, sourceSlides, writtenSequence } from './arrangements';
+
+// OpenLyrics 0.9 (https://docs.openlyrics.org), the XML song format used by
+// OpenLP and others. One <song> per file:
+//
+//   <properties> titles, authors, copyright, ccliNo, key, verseOrder
+//   <lyrics>     <verse name="v1" lang="en"><lines>line<br/>line</lines></verse>
+//
+// Each <lines> becomes a slide. A verse translated into several languages is
+// shown as one block per language on the same slide (meta.languages keeps the
+// order), and verseOrder becomes a song arrangement.
+
+export const OPENLYRICS_NAMESPACE = 'http://openlyrics.info/namespace/2009/song';
+export const OPENLYRICS_VERSION = '0.9';
+
+// ---------- Types ----------
+
+export interface OLVerse {
+    name: string;          // "v1", "c", "v2a"...
+    lang?: string;
+    lines: string[];       // One entry per <lines> element, "\n" between lines
+}
+
+export interface OLParsedSong {
+    fileName: string;
+    title: string;
+    authors: string[];
+    copyright: string;
+    ccli: string;
+    key: string;
+    verseOrder: string[];
+    languages: string[];   // In order of first appearance; empty when untagged
+    verses: OLVerse[];
+}
+
+export interface OLImportProgress {
+    phase: 'reading' | 'parsing';
+    current: number;
+    total: number;
+    currentTitle?: string;
+}
+
+export interface OLReadResult {
+    songs: OLParsedSong[];
+    failed: { fileName: string; error: string }[];
+}
+
+// ---------- Verse names ----------
+
+const VERSE_TYPES: Record<string, string> = {
+    v: 'Verse',
+    c: 'Chorus',
+    p: 'Pre-Chorus',
+    b: 'Bridge',
+    i: 'Intro',
+    e: 'Ending',
+    o: 'Other'
+};
+
+const VERSE_NAME = /^([a-z]+?)(\d*)([a-z]?)$/i;
+
+/**
+ * "v1" -> "Verse 1", "c" / "c1" -> "Chorus", "c2" -> "Chorus 2". Parts of a
+ * verse ("v1a", "v1b") share the verse's label.
+ */
+export function verseLabel(name: string): string {
+    const match = name.trim().match(VERSE_NAME);
+    if (!match) return name;
+    const type = VERSE_TYPES[match[1].toLowerCase()];
+    if (!type) return name;
+    const number = parseInt(match[2] || '1', 10);
+    return type === 'Verse' || number > 1 ? `${type} ${number}` : type;
+}
+
+const LABEL_TYPES: [RegExp, string][] = [
+    [/^verse/i, 'v'],
+    [/^pre-?chorus/i, 'p'],
+    [/^chorus/i, 'c'],
+    [/^bridge/i, 'b'],
+    [/^intro/i, 'i'],
+    [/^(ending|outro)/i, 'e']
+];
+
+/**
+ * The reverse of verseLabel: "Verse 2" -> "v2", "Chorus" -> "c1", "Tag" -> "o1"
+ */
+export function verseName(label: string): string {
+    const number = label.match(/(\d+)\s*$/)?.[1] || '1';
+    const entry = LABEL_TYPES.find(([pattern]) => pattern.test(label.trim()));
+    return `${entry ? entry[1] : 'o'}${number}`;
+}
+
+const isVersePart = (name: string) => !!name.trim().match(VERSE_NAME)?.[3];
+
+// ---------- Import ----------
+
+const childElements = (parent: Element | Document, localName: string): Element[] =>
+    Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const firstText = (parent: Element | Document, localName: string): string =>
+    childElements(parent, localName)[0]?.textContent?.trim() || '';
+
+/**
+ * Text of a <lines> element: <br/> is a line break, chords keep the words
+ * they wrap, comments are dropped.
+ */
+function linesText(node: Node): string {
+    let text = '';
+    Array.from(node.childNodes).forEach(child => {
+        if (child.nodeType === Node.TEXT_NODE) {
+            text += (child.textContent || '').replace(/\s*\n\s*/g, ' ');
+        } else if (child.nodeType === Node.ELEMENT_NODE) {
+            const name = (child as Element).localName;
+            if (name === 'br') text += '\n';
+            else if (name !== 'comment') text += linesText(child);
+        }
+    });
+    return text;
+}
+
+/**
+ * Parses one OpenLyrics document. Throws when the XML isn't an OpenLyrics song.
+ */
+export function parseOpenLyrics(xml: string, fileName = ''): OLParsedSong {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Not a valid XML file');
+    }
+    const root = doc.documentElement;
+    if (root.localName !== 'song') {
+        throw new Error('Not an OpenLyrics song');
+    }
+
+    const languages: string[] = [];
+    const verses: OLVerse[] = childElements(doc, 'verse').map(verse => {
+        const lang = verse.getAttribute('lang') || undefined;
+        if (lang && !languages.includes(lang)) languages.push(lang);
+        return {
+            name: verse.getAttribute('name') || 'v1',
+            lang,
+            lines: childElements(verse, 'lines')
+                .map(lines => linesText(lines).split('\n').map(line => line.trim()).join('\n').trim())
+                .filter(Boolean)
+        };
+    }).filter(verse => verse.lines.length > 0);
+
+    // Prefer the original-language title when several translations are listed
+    const titles = childElements(doc, 'title');
+    const title = (titles.find(t => t.getAttribute('original') === 'true') || titles[0])?.textContent?.trim();
+
+    const authors: string[] = [];
+    childElements(doc, 'author').forEach(author => {
+        const name = author.textContent?.trim();
+        if (name && !authors.includes(name)) authors.push(name);
+    });
+
+    return {
+        fileName,
+        title: title || fileName.replace(/\.xml$/i, '') || 'Untitled',
+        authors,
+        copyright: firstText(doc, 'copyright'),
+        ccli: firstText(doc, 'ccliNo'),
+        key: firstText(doc, 'key'),
+        verseOrder: firstText(doc, 'verseOrder').split(/\s+/).filter(Boolean),
+        languages,
+        verses
+    };
+}
+
+/**
+ * Converts a parsed OpenLyrics song to a Creenly ResourceItem.
+ */
+export function olSongToResourceItem(song: OLParsedSong, index = 0): ResourceItem {
+    const id = `ol-${index}-${Date.now()}`;
+
+    // Verse names in lyrics order, each with its lines per language
+    const names: string[] = [];
+    song.verses.forEach(verse => {
+        if (!names.includes(verse.name)) names.push(verse.name);
+    });
+
+    const slides: LyricSlide[] = [];
+    let previousLabel = '';
+    names.forEach(name => {
+        const translations = song.verses.filter(v => v.name === name);
+        const label = verseLabel(name);
+        const parts = Math.max(...translations.map(v => v.lines.length));
+        for (let part = 0; part < parts; part++) {
+            const content = translations.map(v => v.lines[part]).filter(Boolean).join('\n\n');
+            slides.push({
+                id: `${id}-${slides.length + 1}`,
+                content,
+                label: label === previousLabel ? `${label} (cont.)` : label
+            });
+            previousLabel = label;
+        }
+    });
+
+    // verseOrder -> arrangement, skipping names with no lyrics. Consecutive
+    // parts of one verse ("v1a v1b") play as that verse once.
+    const sequence: string[] = [];
+    song.verseOrder.filter(name => names.includes(name)).forEach((name, i, order) => {
+        const label = verseLabel(name);
+        const continuesPart = i > 0 && isVersePart(name) && verseLabel(order[i - 1]) === label;
+        if (!continuesPart) sequence.push(label);
+    });
+    const arrangements: SongArrangement[] | undefined = sequence.length > 0
+        ? [{ id: `${id}-order`, name: 'OpenLyrics Order', sequence }]
+        : undefined;
+
+    return {
+        id,
+        title: song.title,
+        type: 'song',
+        category: 'song',
+        activeSlideIndex: 0,
+        slides: slides.length > 0
+            ? slides
+            : [{ id: 'empty-1', content: '(No lyrics)', label: 'Slide 1' }],
+        meta: {
+            author: song.authors.join(', ') || undefined,
+            copyright: song.copyright || undefined,
+            ccli: song.ccli || undefined,
+            key: song.key || undefined,
+            languages: song.languages.length > 1 ? song.languages : undefined,
+            arrangements
+        },
+        tags: ['worship', 'openlyrics-import'],
+        dateAdded: Date.now(),
+    };
+}
+
+/**
+ * Reads OpenLyrics songs from .xml files and .zip archives (a picked folder
+ * arrives as its list of files). Files that fail to parse are reported, not thrown.
+ */
+export async function readOpenLyricsFiles(
+    files: File[],
+    onProgress?: (progress: OLImportProgress) => void
+): Promise<OLReadResult> {
+    const entries: { fileName: string; read: () => Promise<string> }[] = [];
+
+    for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        onProgress?.({ phase: 'reading', current: i + 1, total: files.length, currentTitle: file.name });
+        if (/\.zip$/i.test(file.name)) {
+            const zip = await JSZip.loadAsync(file);
+            zip.forEach((path, entry) => {
+                if (!entry.dir && /\.xml$/i.test(path)) {
+                    entries.push({ fileName: path.split('/').pop() || path, read: () => entry.async('string') });
+                }
+            });
+        } else if (/\.xml$/i.test(file.name)) {
+            entries.push({ fileName: file.name, read: () => file.text() });
+        }
+    }
+
+    const result: OLReadResult = { songs: [], failed: [] };
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        onProgress?.({ phase: 'parsing', current: i + 1, total: entries.length, currentTitle: entry.fileName });
+        try {
+            result.songs.push(parseOpenLyrics(await entry.read(), entry.fileName));
+        } catch (e: any) {
+            result.failed.push({ fileName: entry.fileName, error: e.message });
+        }
+
+        // Yield to main thread every 50 songs
+        if (i % 50 === 0) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+    return result;
+}
+
+// ---------- Export ----------
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Slide content as plain lines. Songs edited in the app hold the editor's
+ * HTML ("a<div>b</div><div><br></div>"); a blank line still separates the
+ * languages of a bilingual slide.
+ */
+const slideText = (content: string): string =>
+    content
+        .replace(/<div><br\s*\/?><\/div>/gi, '\n')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<(div|p)(\s[^>]*)?>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/^\n+|\n+$/g, '');
+
+const linesXml = (text: string) =>
+    `<lines>${text.split('\n').map(line => escapeXml(line.trim())).join('<br/>')}</lines>`;
+
+/**
+ * Serialises a library song as an OpenLyrics 0.9 document. Sections become
+ * verses, the applied (or first) arrangement becomes verseOrder.
+ */
+export function songToOpenLyrics(song: ResourceItem): string {
+    const sections = getSections(sourceSlides(song));
+    const languages = song.meta?.languages || [];
+
+    // Unique verse name per section label
+    const names = new Map<string, string>();
+    const used: string[] = [];
+    sections.forEach(section => {
+        let name = verseName(section.label);
+        while (used.includes(name)) name = `${name.replace(/\d+$/, '')}${parseInt(name.match(/\d+$/)?.[0] || '1', 10) + 1}`;
+        used.push(name);
+        names.set(section.label, name);
+    });
+
+    const verses: string[] = [];
+    sections.forEach(section => {
+        const name = names.get(section.label) as string;
+        if (languages.length < 2) {
+            const lang = languages.length === 1 ? ` lang="${escapeXml(languages[0])}"` : '';
+            verses.push(`    <verse name="${name}"${lang}>${section.slides.map(slide => linesXml(slideText(slide.content))).join('')}</verse>`);
+            return;
+        }
+        // Split bilingual slides back into one block per language; a slide
+        // without every translation stays whole under the first language
+        const blocks = section.slides.map(slide => {
+            const text = slideText(slide.content);
+            const parts = text.split(/\n\s*\n/);
+            return parts.length === languages.length ? parts : [text];
+        });
+        languages.forEach((lang, l) => {
+            const lines = blocks.filter(parts => parts[l]).map(parts => linesXml(parts[l]));
+            if (lines.length > 0) verses.push(`    <verse name="${name}" lang="${escapeXml(lang)}">${lines.join('')}</verse>`);
+        });
+    });
+
+    const arrangement = song.meta?.arrangements?.find(a => a.id === song.meta?.arrangementId) || song.meta?.arrangements?.[0];
+    const order = (arrangement?.sequence || writtenSequence(sourceSlides(song)))
+        .map(label => names.get(label))
+        .filter(Boolean);
+
+    const authors = (song.meta?.author || '').split(/\s*(?:,|&|\band\b)\s*/).filter(Boolean);
+    const now = new Date().toISOString().replace(/\.\d+Z$/, '');
+
+    const properties = [
+        `      <titles><title>${escapeXml(song.title)}</title></titles>`,
+        authors.length > 0 && `      <authors>${authors.map(a => `<author>${escapeXml(a)}</author>`).join('')}</authors>`,
+        song.meta?.copyright && `      <copyright>${escapeXml(song.meta.copyright)}</copyright>`,
+        song.meta?.ccli && `      <ccliNo>${escapeXml(song.meta.ccli)}</ccliNo>`,
+        song.meta?.key && `      <key>${escapeXml(song.meta.key)}</key>`,
+        order.length > 0 && `      <verseOrder>${order.join(' ')}</verseOrder>`
+    ].filter(Boolean);
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<song xmlns="${OPENLYRICS_NAMESPACE}" version="${OPENLYRICS_VERSION}" createdIn="Creenly" modifiedIn="Creenly" modifiedDate="${now}">`,
+        '  <properties>',
+        ...properties,
+        '  </properties>',
+        '  <lyrics>',
+        ...verses,
+        '  </lyrics>',
+        '</song>',
+        ''
+    ].join('\n');
+}
+
+export const openLyricsFilename = (song: ResourceItem): string => {
+    const slug = song.title.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'song';
+    return `${slug}.xml`;
+};
+
+/**
+ * Zips several songs as OpenLyrics files, one per song
+ */
+export async function exportOpenLyricsZip(songs: ResourceItem[]): Promise<Blob> {
+    const zip = new JSZip();
+    const used = new Set<string>();
+    songs.forEach(song => {
+        let fileName = openLyricsFilename(song);
+        for (let n = 2; used.has(fileName.toLowerCase()); n++) {
+            fileName = openLyricsFilename(song).replace(/\.xml$/, `-${n}.xml`);
+        }
+        used.add(fileName.toLowerCase());
+        zip.file(fileName, songToOpenLyrics(song));
+    });
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+}
@@ -0,0 +1,82 @@
+// Named projector outputs beyond the main projector (overflow room, side screens, ...).
+// Each output is a projector window bound to a display, with its own look and
+// a filter for what it shows. Saved in localStorage so output windows can read
+// their own entry and follow edits via the storage event.
+
+export type AspectRatio = 'fill' | '16:9' | '16:10' | '4:3';
+
+export type ContentFilter = 'all' | 'scripture_songs' | 'scripture' | 'songs' | 'no_media';
+
+export type OutputConfig = {
+    id: string;
+    name: string;
+    displayId: string | null;
+    themeId: string | null;          // null = follow the live theme
+    aspectRatio: AspectRatio;
+    contentFilter: ContentFilter;
+    textScale: number;               // Multiplies the theme's text scale
+    hideMotionBackground: boolean;   // Swap video backgrounds for solid black
+    playAudio?: boolean;             // Off: video plays muted, the main projector carries the sound
+};
+
+export const ASPECT_RATIOS: { id: AspectRatio; label: string }[] = [
+    { id: 'fill', label: 'Fill Screen' },
+    { id: '16:9', label: '16:9' },
+    { id: '16:10', label: '16:10' },
+    { id: '4:3', label: '4:3' }
+];
+
+export const CONTENT_FILTERS: { id: ContentFilter; label: string }[] = [
+    { id: 'all', label: 'Everything' },
+    { id: 'scripture_songs', label: 'Scripture & Songs Only' },
+    { id: 'scripture', label: 'Scripture Only' },
+    { id: 'songs', label: 'Songs Only' },
+    { id: 'no_media', label: 'No Media' }
+];
+
+export const OUTPUTS_STORAGE_KEY = 'projectorOutputs';
+
+export const createOutput = (name: string): OutputConfig => ({
+    id: `output-${Date.now().toString(36)}`,
+    name,
+    displayId: null,
+    themeId: null,
+    aspectRatio: 'fill',
+    contentFilter: 'all',
+    textScale: 1,
+    hideMotionBackground: false,
+    playAudio: false
+});
+
+export const loadOutputs = (): OutputConfig[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const saved = localStorage.getItem(OUTPUTS_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error('Failed to load outputs', e);
+        return [];
+    }
+};
+
+export const saveOutputs = (outputs: OutputConfig[]): void => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(OUTPUTS_STORAGE_KEY, JSON.stringify(outputs));
+};
+
+/**
+ * Whether an output shows a given content type ('verse' | 'song' | 'media' | 'live_feed')
+ */
+export const passesContentFilter = (type: string, filter: ContentFilter = 'all'): boolean => {
+    const isMedia = type === 'media' || type === 'live_feed';
+    switch (filter) {
+        case 'scripture_songs': return type === 'verse' || type === 'song';
+        case 'scripture': return type === 'verse';
+        case 'songs': return type === 'song';
+        case 'no_media': return !isMedia;
+        default: return true;
+    }
+};
+
+export const isMotionBackground = (background: string | null | undefined): boolean =>
+    !!background && /\.(mp4|webm|mov)(\?|$)/i.test(background);
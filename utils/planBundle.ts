@@ -0,0 +1,321 @@
+import JSZip from 'jszip';
+import { ScheduleItem, ServiceSchedule, SavedPlan, getPlans, savePlan } from '@/utils/scheduleManager';
+import { ResourceItem, ProjectorTheme, getResources, saveResource, getThemes, saveTheme } from '@/utils/resourceLibrary';
+
+// Portable service plan bundle (.creenly): a zip holding the plan, the library
+// songs/media it uses, the active custom theme and every embedded media file.
+//
+//   manifest.json
+//   plan.json
+//   resources/<n>.json
+//   themes/<n>.json
+//   media/<n>.<ext>
+//
+// Embedded data URLs are swapped for `creenly-media://` references on export
+// and restored on import, so the JSON stays small and the media stays binary.
+
+export const BUNDLE_FORMAT = 'creenly-plan';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.creenly';
+
+const MEDIA_PREFIX = 'creenly-media://';
+
+export type BundleManifest = {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: number;
+    plan: { id: string; name: string; date: string; itemCount: number };
+    resources: { id: string; title: string; category: ResourceItem['category']; file: string }[];
+    themes: { id: string; name: string; file: string }[];
+    media: { file: string; mimeType: string; size: number }[];
+};
+
+export type PlanBundle = {
+    manifest: BundleManifest;
+    plan: SavedPlan;
+    resources: ResourceItem[];
+    themes: ProjectorTheme[];
+};
+
+export type ConflictResolution = 'keep_both' | 'replace' | 'skip';
+
+export type BundleConflict = {
+    key: string;            // `${kind}:${incomingId}`, used to look up the resolution
+    kind: 'plan' | 'resource' | 'theme';
+    incomingId: string;
+    existingId: string;
+    title: string;
+};
+
+export type BundleImportResult = {
+    plan: ServiceSchedule | null;   // null when the plan itself was skipped
+    imported: number;
+    replaced: number;
+    skipped: number;
+};
+
+// Item types whose content lives in the library and travels with the plan
+const LIBRARY_TYPES: ScheduleItem['type'][] = ['song', 'media'];
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+const extensionFor = (mimeType: string): string => {
+    const subtype = mimeType.split('/')[1] || 'bin';
+    if (subtype === 'jpeg') return 'jpg';
+    if (subtype === 'svg+xml') return 'svg';
+    if (subtype === 'quicktime') return 'mov';
+    return subtype.replace(/[^a-z0-9]/gi, '') || 'bin';
+};
+
+const mapItemMedia = <T extends ScheduleItem>(item: T, map: (value: string) => string): T => {
+    const background = item.meta?.background;
+    return {
+        ...item,
+        slides: item.slides.map(slide => ({ ...slide, content: map(slide.content) })),
+        meta: item.meta && {
+            ...item.meta,
+            background: typeof background === 'string'
+                ? map(background)
+                : background ? { ...background, value: map(background.value) } : background
+        }
+    };
+};
+
+const mapThemeMedia = (theme: ProjectorTheme, map: (value: string) => string): ProjectorTheme => ({
+    ...theme,
+    background: { ...theme.background, value: map(theme.background.value) }
+});
+
+/**
+ * Collects base64 data URLs into media/ files, handing back a reference for each
+ */
+function createMediaPacker(zip: JSZip, manifest: BundleManifest) {
+    const packed = new Map<string, string>();
+
+    return (value: string): string => {
+        const match = value?.match(/^data:([^;,]+);base64,(.*)$/);
+        if (!match) return value;
+
+        let file = packed.get(value);
+        if (!file) {
+            const [, mimeType, data] = match;
+            file = `media/${manifest.media.length + 1}.${extensionFor(mimeType)}`;
+            zip.file(file, data, { base64: true });
+            manifest.media.push({ file, mimeType, size: Math.floor(data.length * 3 / 4) });
+            packed.set(value, file);
+        }
+        return `${MEDIA_PREFIX}${file}`;
+    };
+}
+
+/**
+ * Build a .creenly bundle for a plan
+ */
+export async function exportPlanBundle(schedule: ServiceSchedule): Promise<Blob> {
+    const zip = new JSZip();
+    const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: Date.now(),
+        plan: { id: schedule.id, name: schedule.name, date: schedule.date, itemCount: schedule.items.length },
+        resources: [],
+        themes: [],
+        media: []
+    };
+    const pack = createMediaPacker(zip, manifest);
+
+    // Schedule items are copies, so find their library originals by type and title
+    const library = await getResources();
+    const exportedIds = new Set<string>();
+    schedule.items.forEach(item => {
+        if (item.placeholder || !LIBRARY_TYPES.includes(item.type)) return;
+        const resource = library.find(r => r.type === item.type && normalizeTitle(r.title) === normalizeTitle(item.title));
+        if (!resource || exportedIds.has(resource.id)) return;
+        exportedIds.add(resource.id);
+
+        const file = `resources/${manifest.resources.length + 1}.json`;
+        zip.file(file, JSON.stringify(mapItemMedia(resource, pack)));
+        manifest.resources.push({ id: resource.id, title: resource.title, category: resource.category, file });
+    });
+
+    // Built-in themes exist everywhere; only a custom active theme needs to travel
+    const activeThemeId = typeof localStorage !== 'undefined' ? localStorage.getItem('activeThemeId') : null;
+    const activeTheme = activeThemeId ? (await getThemes()).find(t => t.id === activeThemeId) : undefined;
+    if (activeTheme) {
+        const file = 'themes/1.json';
+        zip.file(file, JSON.stringify(mapThemeMedia(activeTheme, pack)));
+        manifest.themes.push({ id: activeTheme.id, name: activeTheme.name, file });
+    }
+
+    const plan: SavedPlan = {
+        id: schedule.id,
+        name: schedule.name,
+        date: schedule.date,
+        updatedAt: Date.now(),
+        items: schedule.items.map(item => mapItemMedia(item, pack))
+    };
+    zip.file('plan.json', JSON.stringify(plan));
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+}
+
+export const planBundleFilename = (schedule: ServiceSchedule): string => {
+    const slug = schedule.name.trim().replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'service-plan';
+    return `${slug}-${schedule.date}${BUNDLE_EXTENSION}`;
+};
+
+/**
+ * Open a .creenly bundle and restore its media; nothing is written yet
+ */
+export async function readPlanBundle(file: Blob): Promise<PlanBundle> {
+    let zip: JSZip;
+    try {
+        zip = await JSZip.loadAsync(file);
+    } catch {
+        throw new Error('This file is not a valid plan bundle');
+    }
+
+    const readJson = async <T>(path: string): Promise<T> => {
+        const text = await zip.file(path)?.async('string');
+        if (!text) throw new Error(`Plan bundle is missing ${path}`);
+        return JSON.parse(text);
+    };
+
+    const manifest = await readJson<BundleManifest>('manifest.json');
+    if (manifest.format !== BUNDLE_FORMAT) {
+        throw new Error('This file is not a Creenly plan bundle');
+    }
+    if (manifest.version > BUNDLE_VERSION) {
+        throw new Error('This plan bundle was made by a newer version of Creenly. Please update to import it.');
+    }
+
+    const media = new Map<string, string>();
+    for (const entry of manifest.media) {
+        const data = await zip.file(entry.file)?.async('base64');
+        if (data) media.set(`${MEDIA_PREFIX}${entry.file}`, `data:${entry.mimeType};base64,${data}`);
+    }
+    const unpack = (value: string) => (value?.startsWith(MEDIA_PREFIX) ? media.get(value) ?? '' : value);
+
+    const plan = await readJson<SavedPlan>('plan.json');
+    const resources = await Promise.all(manifest.resources.map(r => readJson<ResourceItem>(r.file)));
+    const themes = await Promise.all(manifest.themes.map(t => readJson<ProjectorTheme>(t.file)));
+
+    return {
+        manifest,
+        plan: { ...plan, items: plan.items.map(item => mapItemMedia(item, unpack)) },
+        resources: resources.map(resource => mapItemMedia(resource, unpack)),
+        themes: themes.map(theme => mapThemeMedia(theme, unpack))
+    };
+}
+
+const sameContent = (a: ResourceItem, b: ResourceItem) =>
+    JSON.stringify(a.slides.map(s => s.content)) === JSON.stringify(b.slides.map(s => s.content));
+
+const findExistingResource = (library: ResourceItem[], resource: ResourceItem) =>
+    library.find(r => r.id === resource.id)
+    || library.find(r => r.type === resource.type && normalizeTitle(r.title) === normalizeTitle(resource.title));
+
+/**
+ * Library items and plans in the bundle that collide with what's already here.
+ * A library item matches on id or on type + title; exact duplicates are not conflicts.
+ */
+export async function findBundleConflicts(bundle: PlanBundle): Promise<BundleConflict[]> {
+    const [plans, library, themes] = await Promise.all([getPlans(), getResources(), getThemes()]);
+    const conflicts: BundleConflict[] = [];
+
+    const existingPlan = plans.find(p => p.id === bundle.plan.id);
+    if (existingPlan) {
+        conflicts.push({ key: `plan:${bundle.plan.id}`, kind: 'plan', incomingId: bundle.plan.id, existingId: existingPlan.id, title: bundle.plan.name });
+    }
+
+    bundle.resources.forEach(resource => {
+        const existing = findExistingResource(library, resource);
+        if (existing && !sameContent(existing, resource)) {
+            conflicts.push({ key: `resource:${resource.id}`, kind: 'resource', incomingId: resource.id, existingId: existing.id, title: resource.title });
+        }
+    });
+
+    bundle.themes.forEach(theme => {
+        const existing = themes.find(t => t.id === theme.id) || themes.find(t => normalizeTitle(t.name) === normalizeTitle(theme.name));
+        if (existing) {
+            conflicts.push({ key: `theme:${theme.id}`, kind: 'theme', incomingId: theme.id, existingId: existing.id, title: theme.name });
+        }
+    });
+
+    return conflicts;
+}
+
+/**
+ * Write a bundle into the library and saved plans.
+ * Conflicts without a resolution are kept side by side.
+ */
+export async function importPlanBundle(
+    bundle: PlanBundle,
+    conflicts: BundleConflict[],
+    resolutions: Record<string, ConflictResolution>
+): Promise<BundleImportResult> {
+    const result: BundleImportResult = { plan: null, imported: 0, replaced: 0, skipped: 0 };
+    const stamp = Date.now();
+    const library = await getResources();
+
+    // Returns the id to write under, or null to leave the existing copy alone
+    const resolveId = (kind: BundleConflict['kind'], incomingId: string, newId: string): string | null => {
+        const conflict = conflicts.find(c => c.key === `${kind}:${incomingId}`);
+        if (!conflict) {
+            result.imported++;
+            return incomingId;
+        }
+        const resolution = resolutions[conflict.key] || 'keep_both';
+        if (resolution === 'skip') {
+            result.skipped++;
+            return null;
+        }
+        if (resolution === 'replace') {
+            result.replaced++;
+            return conflict.existingId;
+        }
+        result.imported++;
+        return newId;
+    };
+
+    for (let i = 0; i < bundle.resources.length; i++) {
+        const resource = bundle.resources[i];
+        // Identical copies already in the library are left as they are
+        if (findExistingResource(library, resource) && !conflicts.some(c => c.key === `resource:${resource.id}`)) continue;
+
+        const newId = `res-${stamp}-${i}`;
+        const id = resolveId('resource', resource.id, newId);
+        if (!id) continue;
+        await saveResource({
+            ...resource,
+            id,
+            title: id === newId ? `${resource.title} (Imported)` : resource.title,
+            collectionId: undefined, // Collections are local to each machine
+            dateAdded: stamp
+        });
+    }
+
+    for (let i = 0; i < bundle.themes.length; i++) {
+        const theme = bundle.themes[i];
+        const newId = `custom-theme-${stamp}-${i}`;
+        const id = resolveId('theme', theme.id, newId);
+        if (!id) continue;
+        await saveTheme({ ...theme, id, name: id === newId ? `${theme.name} (Imported)` : theme.name, isCustom: true });
+    }
+
+    const newPlanId = stamp.toString();
+    const planId = resolveId('plan', bundle.plan.id, newPlanId);
+    if (planId) {
+        const schedule: ServiceSchedule = {
+            id: planId,
+            name: planId === newPlanId ? `${bundle.plan.name} (Imported)` : bundle.plan.name,
+            date: bundle.plan.date,
+            items: bundle.plan.items
+        };
+        await savePlan(schedule);
+        result.plan = schedule;
+    }
+
+    return result;
+}
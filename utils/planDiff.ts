@@ -0,0 +1,86 @@
+import type { ScheduleItem } from '@/utils/scheduleManager';
+
+// Differences between two versions of a plan. Items are matched by id, so an
+// item that was edited in place shows as changed rather than removed + added.
+
+export type SlideChange = {
+    index: number;
+    before?: string; // Absent = slide was added
+    after?: string;  // Absent = slide was removed
+};
+
+export type ItemChange = {
+    item: ScheduleItem;
+    titleBefore?: string;
+    slides: SlideChange[];
+};
+
+export type PlanDiff = {
+    added: ScheduleItem[];
+    removed: ScheduleItem[];
+    moved: { item: ScheduleItem; from: number; to: number }[];
+    changed: ItemChange[];
+};
+
+/**
+ * Indices (into `values`) of one longest increasing subsequence
+ */
+const longestIncreasing = (values: number[]): Set<number> => {
+    const lengths = values.map(() => 1);
+    const previous = values.map(() => -1);
+    let best = -1;
+    for (let i = 0; i < values.length; i++) {
+        for (let j = 0; j < i; j++) {
+            if (values[j] < values[i] && lengths[j] + 1 > lengths[i]) {
+                lengths[i] = lengths[j] + 1;
+                previous[i] = j;
+            }
+        }
+        if (best === -1 || lengths[i] > lengths[best]) best = i;
+    }
+    const keep = new Set<number>();
+    for (let i = best; i !== -1; i = previous[i]) keep.add(i);
+    return keep;
+};
+
+const diffSlides = (before: ScheduleItem, after: ScheduleItem): SlideChange[] => {
+    const changes: SlideChange[] = [];
+    const count = Math.max(before.slides.length, after.slides.length);
+    for (let i = 0; i < count; i++) {
+        const a = before.slides[i]?.content;
+        const b = after.slides[i]?.content;
+        if (a !== b) changes.push({ index: i, before: a, after: b });
+    }
+    return changes;
+};
+
+export const diffPlans = (before: ScheduleItem[], after: ScheduleItem[]): PlanDiff => {
+    const beforeIds = new Set(before.map(i => i.id));
+    const afterIds = new Set(after.map(i => i.id));
+
+    const added = after.filter(i => !beforeIds.has(i.id));
+    const removed = before.filter(i => !afterIds.has(i.id));
+
+    // Items kept in both, in their new order. The longest run that kept its
+    // relative order stayed put; everything else was moved.
+    const kept = after.filter(i => beforeIds.has(i.id));
+    const oldPositions = kept.map(item => before.findIndex(i => i.id === item.id));
+    const stayed = longestIncreasing(oldPositions);
+    const moved = kept
+        .map((item, i) => ({ item, from: oldPositions[i], to: after.indexOf(item) }))
+        .filter((_, i) => !stayed.has(i));
+
+    const changed: ItemChange[] = [];
+    kept.forEach((item, i) => {
+        const old = before[oldPositions[i]];
+        const slides = diffSlides(old, item);
+        if (slides.length > 0 || old.title !== item.title) {
+            changed.push({ item, titleBefore: old.title !== item.title ? old.title : undefined, slides });
+        }
+    });
+
+    return { added, removed, moved, changed };
+};
+
+export const isEmptyDiff = (diff: PlanDiff): boolean =>
+    diff.added.length + diff.removed.length + diff.moved.length + diff.changed.length === 0;
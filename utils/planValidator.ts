@@ -0,0 +1,254 @@
+import { ServiceSchedule, ScheduleItem, PLACEHOLDER_LABELS, PlaceholderType } from '@/utils/scheduleManager';
+import { ProjectorTheme, DEFAULT_LAYOUT, calculateFontScale } from '@/utils/themes';
+import { MAX_LINES_PER_SLIDE } from '@/utils/lyricsParser';
+import { lookupVerseOffline } from '@/utils/bible';
+import { loadOutputs } from '@/utils/outputs';
+import { plainText } from '@/utils/runSheet';
+
+// Pre-service checks over a plan: anything that would go wrong on screen once
+// the service starts. Quick checks run on every edit; media and scripture
+// lookups and the display list are async and run after the plan settles.
+
+export type PlanIssueKind = 'media' | 'empty' | 'credits' | 'scripture' | 'overflow' | 'display';
+
+export type PlanIssue = {
+    id: string;
+    kind: PlanIssueKind;
+    severity: 'error' | 'warning';
+    message: string;
+    itemId?: string;      // Absent for plan-wide issues (displays)
+    slideIndex?: number;
+};
+
+export type PlanReport = {
+    scheduleId: string;
+    checkedAt: number;
+    complete: boolean;    // False until the async checks have finished
+    issues: PlanIssue[];
+};
+
+export const ISSUE_KIND_LABELS: Record<PlanIssueKind, string> = {
+    media: 'Media',
+    empty: 'Empty',
+    credits: 'Credits',
+    scripture: 'Scripture',
+    overflow: 'Overflow',
+    display: 'Displays'
+};
+
+const MEDIA_TIMEOUT_MS = 8000;
+const VIDEO_PATTERN = /^data:video|\.(mp4|webm|mov|ogg|m4v)(\?|$)/i;
+const STREAM_PATTERN = /youtube\.com|youtu\.be/i;
+const REFERENCE_PATTERN = /^(.+?)\s+(\d+):(\d+)(?:\s*-\s*(\d+))?$/;
+
+// Overflow estimate on a 16:9 output: text area after padding, average glyph
+// width and the line height the projector renders with
+const SCREEN_HEIGHT_VW = 56.25;
+const TEXT_AREA = 0.85;
+const GLYPH_WIDTH_EM = 0.55;
+const LINE_HEIGHT = 1.25;
+const REFERENCE_WIDTH_PX = 1920;
+
+const issue = (kind: PlanIssueKind, severity: PlanIssue['severity'], message: string, item?: ScheduleItem, slideIndex?: number): PlanIssue => ({
+    id: `${kind}-${item?.id ?? 'plan'}-${slideIndex ?? ''}-${message}`,
+    kind,
+    severity,
+    message,
+    itemId: item?.id,
+    slideIndex
+});
+
+const slideName = (item: ScheduleItem, index: number) => {
+    const label = item.slides[index]?.label;
+    return `Slide ${index + 1}${label ? ` (${label})` : ''}`;
+};
+
+/**
+ * Theme font size in vw ("4.5vw", "4rem", "64px" or a bare px number)
+ */
+const fontSizeVw = (fontSize: string): number => {
+    const value = parseFloat(fontSize);
+    if (isNaN(value)) return 4.5;
+    if (fontSize.endsWith('vw')) return value;
+    if (fontSize.endsWith('vh')) return value * SCREEN_HEIGHT_VW / 100;
+    if (fontSize.endsWith('rem') || fontSize.endsWith('em')) return value * 16 / REFERENCE_WIDTH_PX * 100;
+    return value / REFERENCE_WIDTH_PX * 100;
+};
+
+/**
+ * Whether slide text would run past the screen in `theme`, using the same
+ * auto-shrink the projector applies
+ */
+export const slideOverflows = (content: string, theme: ProjectorTheme): boolean => {
+    const text = plainText(content);
+    if (!text) return false;
+    const layout = { ...DEFAULT_LAYOUT, ...theme.layout };
+    const fontVw = fontSizeVw(theme.styles.fontSize) * calculateFontScale(content, 1, layout.textScale);
+    const paddingVw = (layout.contentPadding || 0) * 2 / REFERENCE_WIDTH_PX * 100;
+    const charsPerLine = Math.max(1, Math.floor((100 - paddingVw) / (fontVw * GLYPH_WIDTH_EM)));
+    const lines = text.split('\n').reduce((sum, line) => sum + Math.max(1, Math.ceil(line.length / charsPerLine)), 0);
+    return lines * fontVw * LINE_HEIGHT > (SCREEN_HEIGHT_VW - paddingVw) * TEXT_AREA;
+};
+
+const mediaUrls = (item: ScheduleItem): { url: string; slideIndex?: number }[] => {
+    const urls: { url: string; slideIndex?: number }[] = [];
+    if (item.type === 'media') {
+        item.slides.forEach((slide, i) => {
+            if (slide.content) urls.push({ url: slide.content, slideIndex: i });
+        });
+    }
+    const background = item.meta?.background;
+    const backgroundUrl = typeof background === 'string' ? background : background && background.type !== 'color' ? background.value : undefined;
+    if (backgroundUrl && !backgroundUrl.startsWith('#') && !backgroundUrl.includes('gradient(')) {
+        urls.push({ url: backgroundUrl });
+    }
+    return urls.filter(({ url }) => !STREAM_PATTERN.test(url));
+};
+
+/**
+ * Try to load an image or video's metadata without showing it
+ */
+const probeMedia = (url: string): Promise<'ok' | 'failed' | 'timeout'> => new Promise(resolve => {
+    const isVideo = VIDEO_PATTERN.test(url);
+    const element = isVideo ? document.createElement('video') : new Image();
+    let settled = false;
+    const finish = (result: 'ok' | 'failed' | 'timeout') => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        element.onerror = null;
+        element.removeAttribute('src');
+        resolve(result);
+    };
+    const timer = setTimeout(() => finish('timeout'), MEDIA_TIMEOUT_MS);
+
+    element.onerror = () => finish('failed');
+    if (element instanceof HTMLVideoElement) {
+        element.preload = 'metadata';
+        element.muted = true;
+        element.onloadedmetadata = () => finish('ok');
+    } else {
+        element.onload = () => finish('ok');
+    }
+    element.src = url;
+});
+
+/**
+ * Checks that need nothing but the plan and the live theme
+ */
+export function checkPlan(schedule: ServiceSchedule, theme: ProjectorTheme): PlanIssue[] {
+    const issues: PlanIssue[] = [];
+
+    for (const item of schedule.items) {
+        if (item.placeholder) {
+            issues.push(issue('empty', 'error', `Empty ${PLACEHOLDER_LABELS[item.type as PlaceholderType] || item.type} slot`, item));
+            continue;
+        }
+        if (item.type === 'blank' || item.type === 'live_feed') continue;
+
+        if (item.slides.length === 0) {
+            issues.push(issue('empty', 'error', 'Has no slides', item));
+            continue;
+        }
+
+        item.slides.forEach((slide, i) => {
+            const isEmpty = item.type === 'media' ? !slide.content.trim() : !plainText(slide.content);
+            if (isEmpty) issues.push(issue('empty', item.type === 'media' ? 'error' : 'warning', `${slideName(item, i)} is empty`, item, i));
+        });
+
+        if (item.type === 'song') {
+            const missing = [!item.meta?.ccli && 'CCLI number', !item.meta?.copyright && 'copyright'].filter(Boolean);
+            if (missing.length > 0) issues.push(issue('credits', 'warning', `No ${missing.join(' or ')}`, item));
+        }
+
+        if (item.type === 'song' || item.type === 'scripture') {
+            item.slides.forEach((slide, i) => {
+                const lines = plainText(slide.content).split('\n').filter(l => l.trim()).length;
+                if (item.type === 'song' && lines > MAX_LINES_PER_SLIDE) {
+                    issues.push(issue('overflow', 'warning', `${slideName(item, i)} has ${lines} lines; it will be re-split at ${MAX_LINES_PER_SLIDE} when it goes live`, item, i));
+                } else if (slideOverflows(slide.content, theme)) {
+                    issues.push(issue('overflow', 'warning', `${slideName(item, i)} may not fit on screen with the "${theme.name}" theme`, item, i));
+                }
+            });
+        }
+    }
+
+    return issues;
+}
+
+const checkMedia = async (item: ScheduleItem): Promise<PlanIssue[]> => {
+    const results = await Promise.all(mediaUrls(item).map(async entry => ({ ...entry, result: await probeMedia(entry.url) })));
+    return results
+        .filter(({ result }) => result !== 'ok')
+        .map(({ slideIndex, result }) => {
+            const what = slideIndex === undefined ? 'Background' : item.type === 'media' && item.slides.length === 1 ? 'Media' : slideName(item, slideIndex);
+            return result === 'failed'
+                ? issue('media', 'error', `${what} can't be loaded`, item, slideIndex)
+                : issue('media', 'warning', `${what} is slow to load`, item, slideIndex);
+        });
+};
+
+const checkScripture = async (item: ScheduleItem): Promise<PlanIssue[]> => {
+    const version = item.meta?.version || 'KJV';
+    const match = item.title.trim().match(REFERENCE_PATTERN);
+    if (!match) return [issue('scripture', 'warning', `Couldn't read "${item.title.trim()}" as a reference`, item)];
+
+    const [, book, chapter, start, end] = match;
+    const missing: number[] = [];
+    for (let verse = parseInt(start); verse <= parseInt(end || start); verse++) {
+        if (!await lookupVerseOffline(book, chapter, verse, version)) missing.push(verse);
+    }
+    if (missing.length === 0) return [];
+    return [issue('scripture', 'error', missing.length === 1 && !end
+        ? `Not available offline in ${version}`
+        : `${missing.length === 1 ? 'Verse' : 'Verses'} ${missing.join(', ')} not available offline in ${version}`, item)];
+};
+
+const checkDisplays = async (): Promise<PlanIssue[]> => {
+    if (!window.electronAPI?.getDisplays) return [];
+    const displays = await window.electronAPI.getDisplays();
+    const connected = displays.map(d => String(d.id));
+    const issues: PlanIssue[] = [];
+
+    const projector = localStorage.getItem('projectorDisplayId');
+    if (!projector && displays.length > 1) issues.push(issue('display', 'error', 'No display assigned to the projector'));
+    if (projector && !connected.includes(projector)) issues.push(issue('display', 'error', "The projector's display isn't connected"));
+
+    const stage = localStorage.getItem('stageDisplayId');
+    if (!stage && displays.length > 2) issues.push(issue('display', 'warning', 'No display assigned to the stage monitor'));
+    if (stage && !connected.includes(stage)) issues.push(issue('display', 'warning', "The stage monitor's display isn't connected"));
+
+    for (const output of loadOutputs()) {
+        if (!output.displayId) issues.push(issue('display', 'warning', `Output "${output.name}" has no display assigned`));
+        else if (!connected.includes(output.displayId)) issues.push(issue('display', 'warning', `Output "${output.name}" is assigned to a display that isn't connected`));
+    }
+    return issues;
+};
+
+/**
+ * Checks that load media, look up verses or ask the desktop for its displays
+ */
+export async function probePlan(schedule: ServiceSchedule): Promise<PlanIssue[]> {
+    const perItem = await Promise.all(schedule.items.filter(i => !i.placeholder).map(async item => [
+        ...await checkMedia(item),
+        ...(item.type === 'scripture' ? await checkScripture(item) : [])
+    ]));
+    const displays = await checkDisplays().catch(() => []);
+    return [...displays, ...perItem.reduce((all, issues) => all.concat(issues), [] as PlanIssue[])];
+}
+
+/**
+ * Order issues like the plan: plan-wide first, then by item, errors before warnings
+ */
+export const sortIssues = (schedule: ServiceSchedule, issues: PlanIssue[]): PlanIssue[] => {
+    const position = (i: PlanIssue) => i.itemId ? schedule.items.findIndex(item => item.id === i.itemId) : -1;
+    return issues.slice().sort((a, b) =>
+        position(a) - position(b) ||
+        (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+        (a.slideIndex ?? -1) - (b.slideIndex ?? -1));
+};
+
+export async function validatePlan(schedule: ServiceSchedule, theme: ProjectorTheme): Promise<PlanReport> {
+    const issues = [...checkPlan(schedule, theme), ...await probePlan(schedule)];
+    return { scheduleId: schedule.id, checkedAt: Date.now(), complete: true, issues: sortIssues(schedule, issues) };
+}
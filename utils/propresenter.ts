@@ -0,0 +1,331 @@
+import JSZip from 'jszip';
+import { stripRtf } from './easyworship';
+import { ResourceItem } from './resourceLibrary';
+import { LyricSlide } from './lyricsParser';
+import { SongArrangement, applyArrangement } from './arrangements';
+import { ServiceSchedule, createBlankSchedule } from './scheduleManager';
+
+// ProPresenter 6 imports:
+//
+//   .pro6      One XML document per song (RVPresentationDocument): CCLI fields as
+//              attributes, slide groups (RVSlideGrouping > RVDisplaySlide >
+//              RVTextElement with base64 RTF) and arrangements listing group uuids.
+//   .pro6plx   An exported playlist: a zip holding data.pro6pl (the playlist
+//              XML, one RVDocumentCue per song) and the .pro6 documents it uses.
+//
+// ProPresenter 5 (.pro5) documents share the layout and are read the same way.
+
+export const PROPRESENTER_FILE = /\.(pro6|pro5)$/i;
+export const PROPRESENTER_PLAYLIST_FILE = /\.pro6plx$/i;
+
+// ---------- Types ----------
+
+export interface PP6Group {
+    id: string;            // Group uuid, referenced by arrangements
+    name: string;          // "Verse 1", "Chorus"...
+    slides: string[];      // Plain text, one entry per slide with text
+}
+
+export interface PP6ParsedSong {
+    fileName: string;
+    title: string;
+    author: string;
+    copyright: string;
+    ccli: string;
+    groups: PP6Group[];
+    arrangements: { id: string; name: string; groupIds: string[] }[];
+}
+
+export interface PP6Playlist {
+    name: string;
+    cues: { song: PP6ParsedSong; arrangementId?: string }[];
+    skipped: { title: string; reason: string }[];
+}
+
+export interface PP6ImportProgress {
+    phase: 'reading' | 'parsing';
+    current: number;
+    total: number;
+    currentTitle?: string;
+}
+
+export interface PP6ReadResult {
+    songs: PP6ParsedSong[];
+    playlists: PP6Playlist[];
+    failed: { fileName: string; error: string }[];
+}
+
+// ---------- Documents ----------
+
+const decodeBase64 = (data: string): string => {
+    const binary = atob(data.replace(/\s+/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new TextDecoder().decode(bytes);
+};
+
+const children = (parent: Element, tagName: string): Element[] =>
+    Array.from(parent.getElementsByTagName(tagName));
+
+/**
+ * Base64 field of a text element: an attribute in ProPresenter 5, an
+ * <NSString rvXMLIvarName="..."> child in ProPresenter 6
+ */
+const textField = (element: Element, name: string): string => {
+    const value = element.getAttribute(name)
+        || children(element, 'NSString').find(node => node.getAttribute('rvXMLIvarName') === name)?.textContent;
+    if (!value) return '';
+    try {
+        return decodeBase64(value);
+    } catch {
+        return '';
+    }
+};
+
+/**
+ * Text of one slide: every text element, RTF first (plain text when there is none)
+ */
+function slideText(slide: Element): string {
+    return children(slide, 'RVTextElement')
+        .map(element => {
+            const rtf = textField(element, 'RTFData');
+            return (rtf ? stripRtf(rtf) : textField(element, 'PlainText'))
+                .replace(/\r\n?/g, '\n')
+                .split('\n').map(line => line.trim()).join('\n')
+                .trim();
+        })
+        .filter(Boolean)
+        .join('\n');
+}
+
+/**
+ * Parses one .pro6 (or .pro5) document. Throws when it isn't a ProPresenter presentation.
+ */
+export function parseProPresenterDoc(xml: string, fileName = ''): PP6ParsedSong {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('Not a valid XML file');
+    }
+    const root = doc.documentElement;
+    if (root.tagName !== 'RVPresentationDocument') {
+        throw new Error('Not a ProPresenter document');
+    }
+
+    // Group names must be unique to be used as section labels
+    const usedNames: string[] = [];
+    const groups: PP6Group[] = children(root, 'RVSlideGrouping').map((group, i) => {
+        const base = group.getAttribute('name')?.trim() || `Group ${i + 1}`;
+        let name = base;
+        for (let n = 2; usedNames.includes(name); n++) name = `${base} ${n}`;
+        usedNames.push(name);
+        return {
+            id: group.getAttribute('uuid') || `group-${i}`,
+            name,
+            slides: children(group, 'RVDisplaySlide').map(slideText).filter(Boolean)
+        };
+    }).filter(group => group.slides.length > 0);
+
+    const arrangements = children(root, 'RVSongArrangement').map((arrangement, i) => ({
+        id: arrangement.getAttribute('uuid') || `arrangement-${i}`,
+        name: arrangement.getAttribute('name') || `Arrangement ${i + 1}`,
+        // Group uuids are listed as strings inside <array rvXMLIvarName="groupIDs">
+        groupIds: Array.from(arrangement.getElementsByTagName('*'))
+            .filter(node => node.getElementsByTagName('*').length === 0)
+            .map(node => node.textContent?.trim() || '')
+            .filter(id => groups.some(group => group.id === id))
+    })).filter(arrangement => arrangement.groupIds.length > 0);
+
+    const attr = (name: string) => root.getAttribute(name)?.trim() || '';
+
+    return {
+        fileName,
+        title: attr('CCLISongTitle') || fileName.replace(PROPRESENTER_FILE, '') || 'Untitled',
+        author: attr('CCLIAuthor') || attr('CCLIArtistCredits'),
+        copyright: [attr('CCLICopyrightYear') || attr('CCLICopyrightInfo'), attr('CCLIPublisher')].filter(Boolean).join(' '),
+        ccli: attr('CCLISongNumber'),
+        groups,
+        arrangements
+    };
+}
+
+/**
+ * Converts a parsed ProPresenter song to a Creenly ResourceItem. Each group is
+ * a section and each ProPresenter arrangement a song arrangement.
+ */
+export function pp6SongToResourceItem(song: PP6ParsedSong, index = 0): ResourceItem {
+    const id = `pp6-${index}-${Date.now()}`;
+
+    const slides: LyricSlide[] = [];
+    song.groups.forEach(group => {
+        group.slides.forEach((content, i) => {
+            slides.push({
+                id: `${id}-${slides.length + 1}`,
+                content,
+                label: i === 0 ? group.name : `${group.name} (cont.)`
+            });
+        });
+    });
+
+    const arrangements: SongArrangement[] = song.arrangements.map(arrangement => ({
+        id: arrangement.id,
+        name: arrangement.name,
+        sequence: arrangement.groupIds.map(groupId => song.groups.find(g => g.id === groupId)!.name)
+    }));
+
+    return {
+        id,
+        title: song.title,
+        type: 'song',
+        category: 'song',
+        activeSlideIndex: 0,
+        slides: slides.length > 0
+            ? slides
+            : [{ id: 'empty-1', content: '(No lyrics)', label: 'Slide 1' }],
+        meta: {
+            author: song.author || undefined,
+            copyright: song.copyright || undefined,
+            ccli: song.ccli || undefined,
+            arrangements: arrangements.length > 0 ? arrangements : undefined
+        },
+        tags: ['worship', 'propresenter-import'],
+        dateAdded: Date.now(),
+    };
+}
+
+// ---------- Playlists ----------
+
+const baseName = (path: string) => {
+    const name = path.split(/[\\/]/).pop() || path;
+    try {
+        return decodeURIComponent(name);
+    } catch {
+        return name;
+    }
+};
+
+// Cue elements that aren't songs, and why they're left out
+const SKIPPED_CUES: Record<string, string> = {
+    RVMediaCue: 'Video and image cues are not supported',
+    RVAudioCue: 'Audio cues are not supported',
+    RVLiveVideoCue: 'Live video cues are not supported',
+    RVClearCue: 'Clear cues are not supported',
+    RVMessageCue: 'Message cues are not supported',
+    RVTimerCue: 'Timer cues are not supported'
+};
+
+/**
+ * Reads data.pro6pl from an exported playlist. Each playlist node with cues
+ * becomes a playlist; songs are looked up in the documents shipped alongside.
+ */
+function parsePlaylistDoc(xml: string, documents: Map<string, PP6ParsedSong>): PP6Playlist[] {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'RVPlaylistDocument') {
+        throw new Error('Not a ProPresenter playlist');
+    }
+
+    const playlists: PP6Playlist[] = [];
+    children(doc.documentElement, 'RVPlaylistNode').forEach(node => {
+        // Only cues directly in this node's children array (nested playlists are their own nodes)
+        const cues = Array.from(node.getElementsByTagName('*'))
+            .filter(element => /Cue$/.test(element.tagName))
+            .filter(element => {
+                let parent = element.parentNode as Element | null;
+                while (parent && parent.tagName !== 'RVPlaylistNode') parent = parent.parentNode as Element | null;
+                return parent === node;
+            });
+        if (cues.length === 0) return;
+
+        const playlist: PP6Playlist = { name: node.getAttribute('displayName') || 'ProPresenter Playlist', cues: [], skipped: [] };
+        cues.forEach(cue => {
+            const title = cue.getAttribute('displayName') || cue.tagName;
+            if (cue.tagName === 'RVHeaderCue') return; // Playlist section headers have no content
+            if (cue.tagName !== 'RVDocumentCue') {
+                playlist.skipped.push({ title, reason: SKIPPED_CUES[cue.tagName] || `Unsupported cue (${cue.tagName})` });
+                return;
+            }
+            const song = documents.get(baseName(cue.getAttribute('filePath') || '').toLowerCase());
+            if (!song) {
+                playlist.skipped.push({ title, reason: 'The song document is not included in the playlist file' });
+                return;
+            }
+            playlist.cues.push({ song, arrangementId: cue.getAttribute('selectedArrangementID') || undefined });
+        });
+        playlists.push(playlist);
+    });
+    return playlists;
+}
+
+/**
+ * A playlist as a schedule, each song in the arrangement it was cued with
+ */
+export function pp6PlaylistToSchedule(playlist: PP6Playlist): ServiceSchedule {
+    const stamp = Date.now();
+    return {
+        ...createBlankSchedule(),
+        name: playlist.name,
+        items: playlist.cues.map(({ song, arrangementId }, i) => {
+            const { category, dateAdded, tags, ...item } = pp6SongToResourceItem(song, i);
+            return { ...applyArrangement(item, arrangementId || null), id: `pp6-item-${stamp}-${i}` };
+        })
+    };
+}
+
+/**
+ * Reads ProPresenter songs from .pro6 files, and songs plus playlists from
+ * .pro6plx exports (a picked folder arrives as its list of files). Documents
+ * that fail to parse are reported, not thrown.
+ */
+export async function readProPresenterFiles(
+    files: File[],
+    onProgress?: (progress: PP6ImportProgress) => void
+): Promise<PP6ReadResult> {
+    const entries: { fileName: string; read: () => Promise<string> }[] = [];
+    const playlistDocs: { fileName: string; read: () => Promise<string> }[] = [];
+
+    for (let i = 0; i < files.length; i++) {
+        const file = files[i];
+        onProgress?.({ phase: 'reading', current: i + 1, total: files.length, currentTitle: file.name });
+        if (PROPRESENTER_PLAYLIST_FILE.test(file.name) || /\.zip$/i.test(file.name)) {
+            const zip = await JSZip.loadAsync(file);
+            zip.forEach((path, entry) => {
+                if (entry.dir) return;
+                const fileName = path.split('/').pop() || path;
+                if (PROPRESENTER_FILE.test(path)) entries.push({ fileName, read: () => entry.async('string') });
+                else if (/\.pro6pl$/i.test(path)) playlistDocs.push({ fileName: file.name, read: () => entry.async('string') });
+            });
+        } else if (PROPRESENTER_FILE.test(file.name)) {
+            entries.push({ fileName: file.name, read: () => file.text() });
+        }
+    }
+
+    const result: PP6ReadResult = { songs: [], playlists: [], failed: [] };
+    const documents = new Map<string, PP6ParsedSong>();
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        onProgress?.({ phase: 'parsing', current: i + 1, total: entries.length, currentTitle: entry.fileName });
+        try {
+            const song = parseProPresenterDoc(await entry.read(), entry.fileName);
+            // A playlist export can hold the same document more than once
+            if (documents.has(entry.fileName.toLowerCase())) continue;
+            documents.set(entry.fileName.toLowerCase(), song);
+            result.songs.push(song);
+        } catch (e: any) {
+            result.failed.push({ fileName: entry.fileName, error: e.message });
+        }
+
+        // Yield to main thread every 50 songs
+        if (i % 50 === 0) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+
+    for (const playlistDoc of playlistDocs) {
+        try {
+            result.playlists.push(...parsePlaylistDoc(await playlistDoc.read(), documents));
+        } catch (e: any) {
+            result.failed.push({ fileName: playlistDoc.fileName, error: e.message });
+        }
+    }
+
+    return result;
+}
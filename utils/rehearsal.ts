@@ -0,0 +1,127 @@
+import type { ScheduleItem } from '@/utils/scheduleManager';
+import { searchResources, saveResource } from '@/utils/resourceLibrary';
+import { DEFAULT_AUTO_ADVANCE, MIN_SLIDE_DURATION, slideDurationMs } from '@/utils/autoAdvance';
+import { sourceSlides } from '@/utils/arrangements';
+
+// Rehearsal mode: the operator runs through a song once and the time spent on
+// each slide is kept on the song, for replay as auto-advance or as a cue on
+// the stage display.
+
+export type RehearsalTimings = {
+    recordedAt: number;
+    durations: number[]; // Seconds per slide index
+    slideIds?: string[]; // The slides they were recorded on (older rehearsals only have the count)
+};
+
+export type RehearsalMark = {
+    slideIndex: number;
+    at: number; // When the slide was entered (ms)
+};
+
+/**
+ * Turn slide entry timestamps into seconds per slide. Time spent on a slide
+ * is summed if the operator went back to it; slides never shown get 0.
+ */
+export const timingsFromMarks = (marks: RehearsalMark[], slides: ScheduleItem['slides'], stoppedAt: number): RehearsalTimings => {
+    const slideCount = slides.length;
+    const durations: number[] = new Array(slideCount).fill(0);
+    for (let i = 0; i < marks.length; i++) {
+        const end = i + 1 < marks.length ? marks[i + 1].at : stoppedAt;
+        const { slideIndex } = marks[i];
+        if (slideIndex < slideCount) durations[slideIndex] += (end - marks[i].at) / 1000;
+    }
+    return {
+        recordedAt: stoppedAt,
+        durations: durations.map(seconds => Math.round(seconds * 10) / 10),
+        slideIds: slides.map(slide => slide.id)
+    };
+};
+
+// Arranged slides are "<written slide id>~<position>"
+const writtenSlideId = (id: string) => id.replace(/~\d+$/, '');
+
+/**
+ * Seconds per slide of `item`, or null when the song no longer has the slides
+ * the rehearsal was recorded on. Slide ids carry timings between the written
+ * slides and any arrangement; a section played more than once gets the
+ * average of the times it was shown.
+ */
+export const rehearsalDurations = (item: ScheduleItem): number[] | null => {
+    const rehearsal = item.meta?.rehearsal;
+    if (!rehearsal) return null;
+    if (!rehearsal.slideIds) return rehearsal.durations.length === item.slides.length ? rehearsal.durations : null;
+
+    const exact: Record<string, number> = {};
+    const written: Record<string, number[]> = {};
+    rehearsal.slideIds.forEach((id, i) => {
+        exact[id] = rehearsal.durations[i];
+        const key = writtenSlideId(id);
+        written[key] = (written[key] || []).concat(rehearsal.durations[i]);
+    });
+
+    const durations: number[] = [];
+    for (const slide of item.slides) {
+        if (exact[slide.id] !== undefined) {
+            durations.push(exact[slide.id]);
+            continue;
+        }
+        const shown = written[writtenSlideId(slide.id)];
+        if (!shown) return null;
+        const played = shown.filter(seconds => seconds > 0);
+        durations.push(played.length > 0 ? Math.round(played.reduce((sum, seconds) => sum + seconds, 0) / played.length * 10) / 10 : 0);
+    }
+    return durations;
+};
+
+/**
+ * Timings only make sense while the song still has the slides they were recorded on
+ */
+export const hasUsableRehearsal = (item: ScheduleItem): boolean => rehearsalDurations(item) !== null;
+
+/**
+ * Copy the rehearsal timings onto the slides and switch auto-advance on
+ */
+export const applyRehearsalTimings = (item: ScheduleItem): ScheduleItem => {
+    const durations = rehearsalDurations(item);
+    if (!durations) return item;
+    return {
+        ...item,
+        slides: item.slides.map((slide, i) => ({ ...slide, duration: Math.max(MIN_SLIDE_DURATION, durations[i]) })),
+        // Songs end on their last slide unless the operator already chose otherwise
+        meta: { ...item.meta, autoAdvance: item.meta?.autoAdvance ?? { ...DEFAULT_AUTO_ADVANCE, endBehavior: 'stop' } }
+    };
+};
+
+/**
+ * Seconds until the next slide for the stage display: the auto-advance timer
+ * when the item is timed, otherwise the rehearsed pace.
+ */
+export const slideGuideSeconds = (item: ScheduleItem, index: number): number | undefined => {
+    const timed = slideDurationMs(item, index);
+    if (timed !== null) return timed / 1000;
+    const seconds = rehearsalDurations(item)?.[index];
+    return seconds ? seconds : undefined;
+};
+
+export type LibraryRehearsalResult = 'saved' | 'not_found' | 'slides_differ';
+
+/**
+ * Store the timings on the library copy of the song (matched by title, since
+ * schedule items don't link back to the library), against its written slides.
+ * Timings recorded on slides the library song doesn't have (re-split on go
+ * live, or edited since) are not saved there.
+ */
+export async function saveRehearsalToLibrary(item: ScheduleItem, timings: RehearsalTimings): Promise<LibraryRehearsalResult> {
+    const { items } = await searchResources(item.title, { categories: ['song'] });
+    const title = item.title.trim().toLowerCase();
+    const resource = items.find(r => r.type === 'song' && r.title.trim().toLowerCase() === title);
+    if (!resource) return 'not_found';
+
+    const slides = sourceSlides(resource);
+    const durations = rehearsalDurations({ ...resource, slides, meta: { ...resource.meta, rehearsal: timings } });
+    if (!durations) return 'slides_differ';
+
+    const written: RehearsalTimings = { recordedAt: timings.recordedAt, durations, slideIds: slides.map(slide => slide.id) };
+    await saveResource({ ...resource, meta: { ...resource.meta, rehearsal: written } });
+    return 'saved';
+}
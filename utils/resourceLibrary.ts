@@ -1,9 +1,14 @@
 import { ScheduleItem } from '@/utils/scheduleManager';
+import { LayerTransitions } from '@/utils/transitions';
+import { SEARCH_DOCS_STORE, SEARCH_TERMS_STORE, SEARCH_META_STORE, SEARCH_INDEX_VERSION, SearchFilter, buildSearchDoc, updateSearchIndex, querySearchIndex, filterSearchIndex } from '@/utils/searchIndex';
 
 const DB_NAME = 'church-projector-library';
 const STORE_NAME = 'resources';
 
-const DB_VERSION = 4;
+const DB_VERSION = 6;
+
+// Stores written together with every resource save or delete
+const INDEXED_STORES = [STORE_NAME, SEARCH_DOCS_STORE, SEARCH_TERMS_STORE];
 
 function openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
@@ -22,15 +27,36 @@ function openDB(): Promise<IDBDatabase> {
         };
         request.onupgradeneeded = (event) => {
             const db = (event.target as any).result;
+            const upgradeTx: IDBTransaction = (event.target as any).transaction;
             if (!db.objectStoreNames.contains(STORE_NAME)) {
                 db.createObjectStore(STORE_NAME, { keyPath: 'id' });
             }
+            const resources = upgradeTx.objectStore(STORE_NAME);
+            if (!resources.indexNames.contains('dateAdded')) {
+                resources.createIndex('dateAdded', 'dateAdded');
+            }
             if (!db.objectStoreNames.contains('collections')) {
                 db.createObjectStore('collections', { keyPath: 'id' });
             }
             if (!db.objectStoreNames.contains('themes')) {
                 db.createObjectStore('themes', { keyPath: 'id' });
             }
+            if (!db.objectStoreNames.contains(SEARCH_DOCS_STORE)) {
+                const docs = db.createObjectStore(SEARCH_DOCS_STORE, { keyPath: 'id' });
+                docs.createIndex('category', 'category');
+                docs.createIndex('collectionId', 'collectionId');
+            }
+            const docs = upgradeTx.objectStore(SEARCH_DOCS_STORE);
+            if (!docs.indexNames.contains('listedAs')) {
+                // Filled in when the index is rebuilt for SEARCH_INDEX_VERSION 2
+                docs.createIndex('listedAs', 'listedAs', { multiEntry: true });
+            }
+            if (!db.objectStoreNames.contains(SEARCH_TERMS_STORE)) {
+                db.createObjectStore(SEARCH_TERMS_STORE, { keyPath: 'term' });
+            }
+            if (!db.objectStoreNames.contains(SEARCH_META_STORE)) {
+                db.createObjectStore(SEARCH_META_STORE, { keyPath: 'id' });
+            }
         };
         request.onblocked = () => {
             console.warn("Database upgrade blocked. Please close other tabs.");
@@ -58,8 +84,9 @@ export async function saveResource(item: ResourceItem): Promise<void> {
     if (typeof window === 'undefined') return;
     try {
         const db = await openDB();
-        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const tx = db.transaction(INDEXED_STORES, 'readwrite');
         tx.objectStore(STORE_NAME).put(item);
+        updateSearchIndex(tx, [buildSearchDoc(item)]);
         return new Promise((resolve, reject) => {
             tx.oncomplete = () => resolve();
             tx.onerror = () => reject(tx.error);
@@ -81,12 +108,13 @@ export async function saveResourcesBatch(
     for (let i = 0; i < total; i += BATCH_SIZE) {
         const batch = items.slice(i, i + BATCH_SIZE);
         const db = await openDB();
-        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const tx = db.transaction(INDEXED_STORES, 'readwrite');
         const store = tx.objectStore(STORE_NAME);
 
         for (const item of batch) {
             store.put(item);
         }
+        updateSearchIndex(tx, batch.map(buildSearchDoc));
 
         await new Promise<void>((resolve, reject) => {
             tx.oncomplete = () => resolve();
@@ -114,16 +142,160 @@ export async function getResources(): Promise<ResourceItem[]> {
     }
 }
 
+export async function getResource(id: string): Promise<ResourceItem | undefined> {
+    if (typeof window === 'undefined') return undefined;
+    try {
+        const db = await openDB();
+        const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(id);
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error("Failed to get resource", e);
+        return undefined;
+    }
+}
+
 export async function deleteResource(id: string): Promise<void> {
     const db = await openDB();
-    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const tx = db.transaction(INDEXED_STORES, 'readwrite');
     tx.objectStore(STORE_NAME).delete(id);
+    updateSearchIndex(tx, [], [id]);
     return new Promise((resolve, reject) => {
         tx.oncomplete = () => resolve();
         tx.onerror = () => reject(tx.error);
     });
 }
 
+// Full-text search
+
+export type SearchOptions = SearchFilter & {
+    offset?: number;
+    limit?: number;
+};
+
+export type SearchPage = {
+    items: ResourceItem[];
+    total: number;
+};
+
+const REBUILD_BATCH_SIZE = 200;
+let searchIndexReady: Promise<void> | null = null;
+
+/**
+ * Index every resource from scratch (libraries saved before the index existed,
+ * or after SEARCH_INDEX_VERSION changes)
+ */
+async function rebuildSearchIndex(db: IDBDatabase): Promise<void> {
+    const clearTx = db.transaction([SEARCH_DOCS_STORE, SEARCH_TERMS_STORE], 'readwrite');
+    clearTx.objectStore(SEARCH_DOCS_STORE).clear();
+    clearTx.objectStore(SEARCH_TERMS_STORE).clear();
+    await new Promise<void>((resolve, reject) => {
+        clearTx.oncomplete = () => resolve();
+        clearTx.onerror = () => reject(clearTx.error);
+    });
+
+    const items = await getResources();
+    for (let i = 0; i < items.length; i += REBUILD_BATCH_SIZE) {
+        const tx = db.transaction([SEARCH_DOCS_STORE, SEARCH_TERMS_STORE], 'readwrite');
+        updateSearchIndex(tx, items.slice(i, i + REBUILD_BATCH_SIZE).map(buildSearchDoc));
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const metaTx = db.transaction(SEARCH_META_STORE, 'readwrite');
+    metaTx.objectStore(SEARCH_META_STORE).put({ id: 'index', version: SEARCH_INDEX_VERSION, builtAt: Date.now() });
+    await new Promise<void>((resolve, reject) => {
+        metaTx.oncomplete = () => resolve();
+        metaTx.onerror = () => reject(metaTx.error);
+    });
+}
+
+function ensureSearchIndex(db: IDBDatabase): Promise<void> {
+    if (!searchIndexReady) {
+        searchIndexReady = new Promise<{ version: number } | undefined>((resolve, reject) => {
+            const request = db.transaction(SEARCH_META_STORE, 'readonly').objectStore(SEARCH_META_STORE).get('index');
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        })
+            .then(meta => meta?.version === SEARCH_INDEX_VERSION ? undefined : rebuildSearchIndex(db))
+            .catch(e => {
+                searchIndexReady = null;
+                throw e;
+            });
+    }
+    return searchIndexReady;
+}
+
+const getEachResource = (db: IDBDatabase, ids: string[]): Promise<ResourceItem[]> => {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    return Promise.all(ids.map(id => new Promise<ResourceItem | undefined>((resolve, reject) => {
+        const request = store.get(id);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }))).then(items => items.filter((item): item is ResourceItem => !!item));
+};
+
+/**
+ * One page of the library, newest first. Walks the dateAdded index by key,
+ * so only the resources on the page are loaded.
+ */
+export async function listResources(options: SearchOptions = {}): Promise<SearchPage> {
+    if (typeof window === 'undefined') return { items: [], total: 0 };
+    try {
+        const db = await openDB();
+        await ensureSearchIndex(db);
+        const allowed = await filterSearchIndex(db, options);
+        const offset = options.offset || 0;
+        const limit = options.limit ?? Infinity;
+
+        const ids: string[] = [];
+        let total = 0;
+        await new Promise<void>((resolve, reject) => {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('dateAdded').openKeyCursor(null, 'prev');
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return resolve();
+                const id = String(cursor.primaryKey);
+                if (!allowed || allowed[id]) {
+                    if (total >= offset && ids.length < limit) ids.push(id);
+                    total++;
+                }
+                cursor.continue();
+            };
+            request.onerror = () => reject(request.error);
+        });
+
+        return { items: await getEachResource(db, ids), total };
+    } catch (e) {
+        console.error("Failed to list resources", e);
+        return { items: [], total: 0 };
+    }
+}
+
+/**
+ * Ranked, paged search over titles, authors, lyrics, tags and CCLI numbers.
+ * Supports prefixes ("amaz"), "quoted phrases" and small typos ("amzing").
+ */
+export async function searchResources(query: string, options: SearchOptions = {}): Promise<SearchPage> {
+    if (typeof window === 'undefined') return { items: [], total: 0 };
+    try {
+        const db = await openDB();
+        await ensureSearchIndex(db);
+        const hits = await querySearchIndex(db, query, options);
+        const offset = options.offset || 0;
+        const page = hits.slice(offset, offset + (options.limit || hits.length));
+        return { items: await getEachResource(db, page.map(hit => hit.id)), total: hits.length };
+    } catch (e) {
+        console.error("Failed to search resources", e);
+        return { items: [], total: 0 };
+    }
+}
+
 // Collection CRUD
 export async function saveCollection(collection: ResourceCollection): Promise<void> {
     if (typeof window === 'undefined') return;
@@ -202,6 +374,18 @@ export interface ProjectorTheme {
         contentPadding?: number;
         textScale?: number;
     };
+    lowerThird?: {
+        barPosition: 'bottom' | 'top';
+        maxLines: number;
+        referencePlacement: 'above' | 'left' | 'inline' | 'hidden';
+        barColor: string;
+        barOpacity: number;
+        textColor?: string;
+        referenceColor?: string;
+        fontSize: string;
+        margin: number;
+    };
+    transitions?: LayerTransitions;
 }
 
 export async function saveTheme(theme: ProjectorTheme): Promise<boolean> {
@@ -0,0 +1,116 @@
+import type { ScheduleItem } from '@/utils/scheduleManager';
+import { totalDurationMs } from '@/utils/autoAdvance';
+import { describeCue } from '@/utils/cues';
+import { lookupVerseAsync } from '@/utils/bible';
+
+// Printable order of service. Each preset picks what the reader needs: the
+// tech team wants cues and timings, the band wants keys and lyrics, the
+// congregation only wants titles and credits.
+
+export type RunSheetPreset = 'operator' | 'band' | 'pastor' | 'bulletin';
+
+export type RunSheetOptions = {
+    label: string;
+    description: string;
+    durations: boolean;
+    credits: boolean;   // Author, CCLI
+    songKey: boolean;
+    lyrics: 'full' | 'first_lines' | 'none';
+    scripture: boolean; // Full scripture text (otherwise just the reference)
+    notes: boolean;
+    cues: boolean;
+};
+
+export const RUN_SHEET_PRESETS: Record<RunSheetPreset, RunSheetOptions> = {
+    operator: {
+        label: 'Operator',
+        description: 'Timings, cues and notes for the tech desk',
+        durations: true, credits: false, songKey: false, lyrics: 'first_lines', scripture: false, notes: true, cues: true
+    },
+    band: {
+        label: 'Band',
+        description: 'Keys, authors and full lyrics',
+        durations: true, credits: true, songKey: true, lyrics: 'full', scripture: false, notes: true, cues: false
+    },
+    pastor: {
+        label: 'Pastor',
+        description: 'Order with scripture text and notes',
+        durations: true, credits: false, songKey: false, lyrics: 'first_lines', scripture: true, notes: true, cues: false
+    },
+    bulletin: {
+        label: 'Bulletin',
+        description: 'Congregation order of service',
+        durations: false, credits: true, songKey: false, lyrics: 'none', scripture: false, notes: false, cues: false
+    }
+};
+
+export const RUN_SHEET_ROUTE = '/runsheet';
+
+export const isRunSheetPreset = (value: string | null): value is RunSheetPreset =>
+    !!value && value in RUN_SHEET_PRESETS;
+
+/**
+ * Planned length of an item: its auto-advance timing, else the last rehearsal,
+ * else the length set by hand
+ */
+export const itemDurationMs = (item: ScheduleItem): number | null => {
+    if (item.meta?.autoAdvance) return totalDurationMs(item);
+    const rehearsal = item.meta?.rehearsal;
+    if (rehearsal) return rehearsal.durations.reduce((sum, seconds) => sum + seconds, 0) * 1000;
+    if (item.plannedDuration) return item.plannedDuration * 1000;
+    return null;
+};
+
+export const formatDuration = (ms: number): string => {
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const plainText = (content: string): string =>
+    content
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(div|p)>/gi, '\n')
+        .replace(/<[^>]*>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/\n{2,}/g, '\n')
+        .trim();
+
+export const firstLines = (item: ScheduleItem, count = 2): string =>
+    plainText(item.slides[0]?.content || '').split('\n').slice(0, count).join(' / ');
+
+export const cueLines = (item: ScheduleItem): string[] =>
+    (item.cues || []).map(cue => `${cue.slide === undefined ? 'Go-live' : `Slide ${cue.slide + 1}`}: ${describeCue(cue.action)}`);
+
+/**
+ * Scripture text in `version`. Uses the scheduled text when the version
+ * matches, otherwise looks each verse up again ("John 3:16-18").
+ */
+export async function scriptureText(item: ScheduleItem, version: string): Promise<string> {
+    const scheduled = item.slides.map(s => plainText(s.content)).join('\n');
+    if (!version || version === (item.meta?.version || 'KJV')) return scheduled;
+
+    const match = item.title.trim().match(/^(.+?)\s+(\d+):(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) return scheduled;
+    const [, book, chapter, start, end] = match;
+    const verses: string[] = [];
+    for (let verse = parseInt(start); verse <= parseInt(end || start); verse++) {
+        const text = await lookupVerseAsync(book, chapter, verse, version);
+        if (text) verses.push(`${verse} ${text}`);
+    }
+    return verses.length > 0 ? verses.join('\n') : scheduled;
+}
+
+/**
+ * Open the run sheet in its own window (desktop) or tab (browser)
+ */
+export const openRunSheet = (options: { planId?: string; preset?: RunSheetPreset } = {}) => {
+    if (window.electronAPI?.openRunSheetWindow) {
+        window.electronAPI.openRunSheetWindow(options);
+        return;
+    }
+    const query = new URLSearchParams();
+    if (options.planId) query.set('plan', options.planId);
+    if (options.preset) query.set('preset', options.preset);
+    const search = query.toString();
+    window.open(`${RUN_SHEET_ROUTE}${search ? `?${search}` : ''}`, '_blank');
+};
@@ -1,3 +1,10 @@
+import { LayerTransitions } from '@/utils/transitions';
+import type { AutoAdvanceSettings } from '@/utils/autoAdvance';
+import type { RehearsalTimings } from '@/utils/rehearsal';
+import type { SongArrangement } from '@/utils/arrangements';
+import type { ItemCue } from '@/utils/cues';
+import type { SlideChord } from '@/utils/chordpro';
+
 export type ScheduleItemType = 'song' | 'scripture' | 'media' | 'blank' | 'live_feed';
 
 export type ScheduleItem = {
@@ -11,17 +18,36 @@ export type ScheduleItem = {
         id: string;
         content: string;
         label?: string; // e.g., "Verse 1", "Chorus"
+        duration?: number; // Seconds on screen when auto-advancing (overrides the item default)
+        chords?: SlideChord[]; // Songs: chord positions in `content`, drawn on the stage display only
     }[];
     // Currently active slide index
     activeSlideIndex: number;
+    // Empty template slot waiting for content of `type`
+    placeholder?: boolean;
+    // Actions fired on go-live or on a given slide
+    cues?: ItemCue[];
+    // Free-text notes for the team (printed on run sheets)
+    notes?: string;
+    // Planned length in seconds, for items without slide timings (sermon, welcome, ...)
+    plannedDuration?: number;
     // Metadata
     meta?: {
         version?: string;      // For scriptures
         author?: string;       // For songs
         copyright?: string;    // For songs
         ccli?: string;         // For songs
+        key?: string;          // For songs: musical key, e.g. "G"
+        capo?: number;         // For songs: capo fret; the stage shows chord shapes relative to it
         background?: string | { type: string; value: string };   // Custom background for this item
         imageMode?: 'contain' | 'cover' | 'stretch'; // For media
+        transitions?: LayerTransitions; // Overrides theme/global transitions
+        autoAdvance?: AutoAdvanceSettings; // Timed slides; absent = manual
+        rehearsal?: RehearsalTimings;      // Songs: slide timings from the last rehearsal
+        arrangements?: SongArrangement[];  // Songs: named section orders
+        arrangementId?: string;            // Arrangement `slides` is laid out in; absent = as written
+        sections?: ScheduleItem['slides']; // Songs: the written slides while an arrangement is applied
+        languages?: string[];              // Songs: lyric languages, one block each per slide in this order
     };
 };
 
@@ -41,6 +67,34 @@ export type SavedPlan = {
     items: ScheduleItem[];
 };
 
+// Snapshot of a saved plan, kept every time the plan is saved
+export type PlanRevision = {
+    id: string;
+    planId: string;
+    savedAt: number;
+    author?: string;       // Editor name on the computer that saved it, if set
+    restoredFrom?: number; // savedAt of the revision this save restored
+    name: string;
+    date: string;
+    items: ScheduleItem[];
+};
+
+// Named order of service with fixed items and empty placeholder slots
+export type ScheduleTemplate = {
+    id: string;
+    name: string;
+    updatedAt: number;
+    items: ScheduleItem[];
+};
+
+export type PlaceholderType = 'song' | 'scripture' | 'media';
+
+export const PLACEHOLDER_LABELS: Record<PlaceholderType, string> = {
+    song: 'Song',
+    scripture: 'Scripture',
+    media: 'Media'
+};
+
 // Create a blank schedule
 export const createBlankSchedule = (): ServiceSchedule => ({
     id: Date.now().toString(),
@@ -54,10 +108,14 @@ const SCHEDULE_KEY = 'church-projector-schedule';
 const DB_NAME = 'church-projector-db';
 const STORE_NAME = 'schedules';     // Stores the CURRENT active schedule
 const PLANS_STORE = 'saved_plans';  // Stores named, saved plans
+const TEMPLATES_STORE = 'templates'; // Stores reusable orders of service
+const REVISIONS_STORE = 'plan_revisions'; // Stores past versions of saved plans
+const EDITOR_NAME_KEY = 'creenly-editor-name';
+const MAX_REVISIONS_PER_PLAN = 50;
 
 function openDB(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-        const request = indexedDB.open(DB_NAME, 2); // Increment version for new store
+        const request = indexedDB.open(DB_NAME, 4); // Increment version for new store
         request.onerror = () => reject(request.error);
         request.onsuccess = () => resolve(request.result);
         request.onupgradeneeded = (event) => {
@@ -69,6 +127,13 @@ function openDB(): Promise<IDBDatabase> {
                 const plansStore = db.createObjectStore(PLANS_STORE, { keyPath: 'id' });
                 plansStore.createIndex('updatedAt', 'updatedAt', { unique: false });
             }
+            if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+                db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(REVISIONS_STORE)) {
+                const revisionsStore = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+                revisionsStore.createIndex('planId', 'planId', { unique: false });
+            }
         };
     });
 }
@@ -124,12 +189,26 @@ export const loadSchedule = async (): Promise<ServiceSchedule | null> => {
 
 // --- SAVED PLANS MANAGEMENT ---
 
-// Save a named plan
-export const savePlan = async (schedule: ServiceSchedule): Promise<void> => {
+// Name recorded on revisions saved from this computer
+export const getEditorName = (): string => {
+    if (typeof window === 'undefined') return '';
+    return localStorage.getItem(EDITOR_NAME_KEY) || '';
+};
+
+export const setEditorName = (name: string) => {
+    if (name.trim()) localStorage.setItem(EDITOR_NAME_KEY, name.trim());
+    else localStorage.removeItem(EDITOR_NAME_KEY);
+};
+
+const sameContent = (a: { name: string; date: string; items: ScheduleItem[] }, b: { name: string; date: string; items: ScheduleItem[] }) =>
+    a.name === b.name && a.date === b.date && JSON.stringify(a.items) === JSON.stringify(b.items);
+
+// Save a named plan. Every save that changes something also keeps a revision.
+export const savePlan = async (schedule: ServiceSchedule, options: { restoredFrom?: number } = {}): Promise<void> => {
     if (typeof window === 'undefined') return;
     try {
         const db = await openDB();
-        const tx = db.transaction(PLANS_STORE, 'readwrite');
+        const tx = db.transaction([PLANS_STORE, REVISIONS_STORE], 'readwrite');
         const store = tx.objectStore(PLANS_STORE);
 
         const plan: SavedPlan = {
@@ -141,6 +220,35 @@ export const savePlan = async (schedule: ServiceSchedule): Promise<void> => {
         };
 
         store.put(plan);
+
+        const revisions = tx.objectStore(REVISIONS_STORE);
+        const request = revisions.index('planId').getAll(plan.id);
+        request.onsuccess = () => {
+            const existing = (request.result as PlanRevision[]).sort((a, b) => a.savedAt - b.savedAt);
+            const latest = existing[existing.length - 1];
+            if (latest && !options.restoredFrom && sameContent(latest, plan)) return;
+
+            const author = getEditorName();
+            revisions.put({
+                id: `rev-${plan.updatedAt}-${Math.random().toString(36).slice(2, 6)}`,
+                planId: plan.id,
+                savedAt: plan.updatedAt,
+                ...(author ? { author } : {}),
+                ...(options.restoredFrom ? { restoredFrom: options.restoredFrom } : {}),
+                name: plan.name,
+                date: plan.date,
+                items: plan.items
+            } as PlanRevision);
+
+            // Keep the newest revisions only
+            existing.slice(0, Math.max(0, existing.length + 1 - MAX_REVISIONS_PER_PLAN)).forEach(old => revisions.delete(old.id));
+        };
+
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
     } catch (e) {
         console.error('Failed to save plan', e);
         throw e;
@@ -203,16 +311,133 @@ export const loadPlan = async (id: string): Promise<ServiceSchedule | null> => {
     }
 };
 
-// Delete a plan
+// Revisions of a plan, newest first
+export const getPlanRevisions = async (planId: string): Promise<PlanRevision[]> => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(REVISIONS_STORE, 'readonly');
+            const request = tx.objectStore(REVISIONS_STORE).index('planId').getAll(planId);
+            request.onsuccess = () => resolve((request.result as PlanRevision[]).sort((a, b) => b.savedAt - a.savedAt));
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error('Failed to get plan revisions', e);
+        return [];
+    }
+};
+
+// Save an old revision as the plan's newest version
+export const restorePlanRevision = async (revision: PlanRevision): Promise<ServiceSchedule> => {
+    const schedule: ServiceSchedule = {
+        id: revision.planId,
+        name: revision.name,
+        date: revision.date,
+        items: revision.items
+    };
+    await savePlan(schedule, { restoredFrom: revision.savedAt });
+    return schedule;
+};
+
+// Delete a plan (and its revisions)
 export const deletePlan = async (id: string): Promise<void> => {
     if (typeof window === 'undefined') return;
     try {
         const db = await openDB();
-        const tx = db.transaction(PLANS_STORE, 'readwrite');
+        const tx = db.transaction([PLANS_STORE, REVISIONS_STORE], 'readwrite');
         const store = tx.objectStore(PLANS_STORE);
         store.delete(id);
+
+        const revisions = tx.objectStore(REVISIONS_STORE);
+        const request = revisions.index('planId').getAllKeys(id);
+        request.onsuccess = () => request.result.forEach(key => revisions.delete(key));
     } catch (e) {
         console.error('Failed to delete plan', e);
         throw e;
     }
 };
+
+// --- TEMPLATES & PLACEHOLDERS ---
+
+export const createPlaceholder = (type: PlaceholderType): ScheduleItem => ({
+    id: `slot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    title: PLACEHOLDER_LABELS[type],
+    slides: [],
+    activeSlideIndex: 0,
+    placeholder: true
+});
+
+export const getEmptyPlaceholders = (schedule: ServiceSchedule): ScheduleItem[] =>
+    schedule.items.filter(item => item.placeholder);
+
+/**
+ * Put `item` into the first empty slot of its type.
+ * Returns the slot that was filled, or null if there was none.
+ */
+export const fillPlaceholder = (items: ScheduleItem[], item: ScheduleItem): { items: ScheduleItem[]; slot: ScheduleItem | null } => {
+    const slot = items.find(i => i.placeholder && i.type === item.type) || null;
+    if (!slot) return { items, slot: null };
+    return { items: items.map(i => i === slot ? item : i), slot };
+};
+
+/**
+ * Turn a schedule into a template. With `slotTypes`, items of those types
+ * become empty slots so next week's plan starts with the same order.
+ */
+export const createTemplateFromSchedule = (schedule: ServiceSchedule, name: string, slotTypes: PlaceholderType[] = []): ScheduleTemplate => ({
+    id: `tpl-${Date.now()}`,
+    name,
+    updatedAt: Date.now(),
+    items: schedule.items.map(item =>
+        slotTypes.includes(item.type as PlaceholderType) ? createPlaceholder(item.type as PlaceholderType) : { ...item, activeSlideIndex: 0 }
+    )
+});
+
+// New plan for today with fresh ids, so two plans from one template never share items
+export const createScheduleFromTemplate = (template: ScheduleTemplate): ServiceSchedule => ({
+    ...createBlankSchedule(),
+    name: template.name,
+    items: template.items.map((item, i) => ({ ...item, id: `${item.placeholder ? 'slot' : 'tpl-item'}-${Date.now()}-${i}`, activeSlideIndex: 0 }))
+});
+
+export const saveTemplate = async (template: ScheduleTemplate): Promise<void> => {
+    if (typeof window === 'undefined') return;
+    try {
+        const db = await openDB();
+        const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+        tx.objectStore(TEMPLATES_STORE).put({ ...template, updatedAt: Date.now() });
+    } catch (e) {
+        console.error('Failed to save template', e);
+        throw e;
+    }
+};
+
+export const getTemplates = async (): Promise<ScheduleTemplate[]> => {
+    if (typeof window === 'undefined') return [];
+    try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(TEMPLATES_STORE, 'readonly');
+            const request = tx.objectStore(TEMPLATES_STORE).getAll();
+            request.onsuccess = () => resolve((request.result as ScheduleTemplate[]).sort((a, b) => a.name.localeCompare(b.name)));
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.error('Failed to get templates', e);
+        return [];
+    }
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+    if (typeof window === 'undefined') return;
+    try {
+        const db = await openDB();
+        const tx = db.transaction(TEMPLATES_STORE, 'readwrite');
+        tx.objectStore(TEMPLATES_STORE).delete(id);
+    } catch (e) {
+        console.error('Failed to delete template', e);
+        throw e;
+    }
+};
@@ -0,0 +1,335 @@
+import type { ResourceItem } from '@/utils/resourceLibrary';
+
+// Persistent inverted index over the resource library. Lives in the library
+// database next to the resources store and is updated in the same transaction
+// as every save or delete, so searching never has to load the whole library.
+//
+// search_terms: one record per term with the weighted score of each resource
+// search_docs:  per-resource normalized field text (for phrases) and its terms
+
+export const SEARCH_DOCS_STORE = 'search_docs';
+export const SEARCH_TERMS_STORE = 'search_terms';
+export const SEARCH_META_STORE = 'search_meta';
+
+// Bump when tokenizing or weighting changes; stale indexes are rebuilt on first search
+export const SEARCH_INDEX_VERSION = 2;
+
+type SearchField = 'title' | 'author' | 'lyrics' | 'tags' | 'ccli';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+    title: 10,
+    ccli: 8,
+    author: 5,
+    tags: 4,
+    lyrics: 1
+};
+
+// How much a query term counts when it matched an indexed term exactly, as a prefix or by typo
+const MATCH_WEIGHTS = { exact: 1, prefix: 0.6, fuzzy: 0.4 };
+const PHRASE_BONUS: Record<SearchField, number> = { title: 20, ccli: 0, author: 8, tags: 6, lyrics: 4 };
+const MIN_TERM_LENGTH = 2;
+const MIN_FUZZY_LENGTH = 4;
+
+export type SearchDoc = {
+    id: string;
+    category: ResourceItem['category'];
+    listedAs: ResourceItem['category'][];   // Library tabs the resource appears under
+    collectionId?: string;
+    text: Record<SearchField, string>;     // Normalized, space-separated tokens
+    terms: Record<string, number>;         // Term -> weighted frequency
+};
+
+type TermRecord = {
+    term: string;
+    postings: Record<string, number>;      // Resource id -> weighted frequency
+};
+
+export type SearchHit = { id: string; score: number };
+
+export type SearchFilter = {
+    categories?: ResourceItem['category'][];
+    collectionId?: string;
+};
+
+/**
+ * Lowercase, strip accents, markup and punctuation: "Don't <b>Stop</b>" -> "dont stop"
+ */
+export const normalizeSearchText = (text: string): string =>
+    text
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/['’]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+
+const tokenize = (text: string): string[] =>
+    text ? text.split(' ').filter(t => t.length >= MIN_TERM_LENGTH) : [];
+
+// Documents imported as songs (one slide per page) are listed with the presentations too
+const DOCUMENT_TITLE = /\.(pdf|docx|pptx)$/i;
+
+const listedAs = (item: ResourceItem): ResourceItem['category'][] =>
+    item.category === 'song' && DOCUMENT_TITLE.test(item.title) ? ['song', 'presentation'] : [item.category];
+
+/**
+ * The searchable view of a resource. Media slides hold file data, so only
+ * their titles and tags are indexed.
+ */
+export function buildSearchDoc(item: ResourceItem): SearchDoc {
+    const slides = item.meta?.sections ?? item.slides;
+    const lyrics = item.type === 'media' ? '' : slides
+        .map(s => s.content)
+        .filter(content => content && !content.startsWith('data:'))
+        .join('\n');
+
+    const text: Record<SearchField, string> = {
+        title: normalizeSearchText(item.title),
+        author: normalizeSearchText(item.meta?.author || ''),
+        lyrics: normalizeSearchText(lyrics),
+        tags: normalizeSearchText((item.tags || []).join(' ')),
+        ccli: normalizeSearchText(item.meta?.ccli || '')
+    };
+
+    const terms: Record<string, number> = {};
+    (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+        const counts: Record<string, number> = {};
+        tokenize(text[field]).forEach(token => { counts[token] = (counts[token] || 0) + 1; });
+        Object.keys(counts).forEach(token => {
+            terms[token] = (terms[token] || 0) + FIELD_WEIGHTS[field] * (1 + Math.log(counts[token]));
+        });
+    });
+
+    return { id: item.id, category: item.category, listedAs: listedAs(item), collectionId: item.collectionId, text, terms };
+}
+
+// --- Index maintenance (runs inside the caller's readwrite transaction) ---
+
+let termKeysCache: string[] | null = null;
+
+const getEach = <T>(store: IDBObjectStore, keys: string[], done: (values: (T | undefined)[]) => void) => {
+    if (keys.length === 0) {
+        done([]);
+        return;
+    }
+    const values: (T | undefined)[] = new Array(keys.length);
+    let pending = keys.length;
+    keys.forEach((key, i) => {
+        const request = store.get(key);
+        request.onsuccess = () => {
+            values[i] = request.result;
+            if (--pending === 0) done(values);
+        };
+    });
+};
+
+/**
+ * Replace the index entries of `docs` and drop `removedIds`. The transaction
+ * must cover the search docs and terms stores in readwrite mode.
+ */
+export function updateSearchIndex(tx: IDBTransaction, docs: SearchDoc[], removedIds: string[] = []): void {
+    const docStore = tx.objectStore(SEARCH_DOCS_STORE);
+    const termStore = tx.objectStore(SEARCH_TERMS_STORE);
+    const ids = docs.map(d => d.id).concat(removedIds);
+    termKeysCache = null;
+
+    getEach<SearchDoc>(docStore, ids, previous => {
+        // Term -> (resource id -> new score, or null to remove)
+        const changes: Record<string, Record<string, number | null>> = {};
+        const change = (term: string, id: string, score: number | null) => {
+            (changes[term] = changes[term] || {})[id] = score;
+        };
+
+        previous.forEach((doc, i) => {
+            if (doc) Object.keys(doc.terms).forEach(term => change(term, ids[i], null));
+        });
+        docs.forEach(doc => {
+            Object.keys(doc.terms).forEach(term => change(term, doc.id, doc.terms[term]));
+            docStore.put(doc);
+        });
+        removedIds.forEach(id => docStore.delete(id));
+
+        const terms = Object.keys(changes);
+        getEach<TermRecord>(termStore, terms, records => {
+            terms.forEach((term, i) => {
+                const postings = { ...records[i]?.postings };
+                Object.keys(changes[term]).forEach(id => {
+                    const score = changes[term][id];
+                    if (score === null) delete postings[id];
+                    else postings[id] = score;
+                });
+                if (Object.keys(postings).length === 0) termStore.delete(term);
+                else termStore.put({ term, postings });
+            });
+        });
+    });
+}
+
+// --- Querying ---
+
+type QueryTerm = { text: string; exactOnly: boolean };
+
+export type ParsedQuery = {
+    terms: QueryTerm[];
+    phrases: string[];    // Normalized, matched as whole-word sequences
+};
+
+/**
+ * Split a query into terms and "quoted phrases". Bare terms also match as
+ * prefixes and, when nothing else matches, by typo; phrase words must match exactly.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+    const phrases: string[] = [];
+    const bare = query.replace(/"([^"]*)"?/g, (_, phrase: string) => {
+        const normalized = normalizeSearchText(phrase);
+        if (normalized) phrases.push(normalized);
+        return ' ';
+    });
+
+    const terms: QueryTerm[] = [];
+    const seen: Record<string, boolean> = {};
+    const add = (text: string, exactOnly: boolean) => {
+        if (seen[text]) return;
+        seen[text] = true;
+        terms.push({ text, exactOnly });
+    };
+    phrases.forEach(phrase => tokenize(phrase).forEach(token => add(token, true)));
+    tokenize(normalizeSearchText(bare)).forEach(token => add(token, false));
+
+    return { terms, phrases };
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const readStore = (db: IDBDatabase, name: string) => db.transaction(name, 'readonly').objectStore(name);
+
+const editDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) return max + 1;
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/**
+ * Postings for one query term: exact, then prefix, then typo matches,
+ * each scaled by how loosely it matched
+ */
+async function lookupTerm(db: IDBDatabase, term: QueryTerm): Promise<Record<string, number>> {
+    const scores: Record<string, number> = {};
+    const merge = (record: TermRecord, weight: number) => {
+        Object.keys(record.postings).forEach(id => {
+            scores[id] = Math.max(scores[id] || 0, record.postings[id] * weight);
+        });
+    };
+
+    const exact = await promisify<TermRecord | undefined>(readStore(db, SEARCH_TERMS_STORE).get(term.text));
+    if (exact) merge(exact, MATCH_WEIGHTS.exact);
+    if (term.exactOnly) return scores;
+
+    const prefixed = await promisify<TermRecord[]>(readStore(db, SEARCH_TERMS_STORE).getAll(IDBKeyRange.bound(term.text, `${term.text}\uffff`, true, false)));
+    prefixed.forEach(record => merge(record, MATCH_WEIGHTS.prefix));
+    if (exact || prefixed.length > 0 || term.text.length < MIN_FUZZY_LENGTH) return scores;
+
+    if (!termKeysCache) {
+        termKeysCache = (await promisify(readStore(db, SEARCH_TERMS_STORE).getAllKeys())) as string[];
+    }
+    const maxDistance = term.text.length >= 7 ? 2 : 1;
+    const similar = termKeysCache.filter(key => editDistance(term.text, key, maxDistance) <= maxDistance);
+    const records = await Promise.all(similar.map(key => promisify<TermRecord | undefined>(readStore(db, SEARCH_TERMS_STORE).get(key))));
+    records.forEach(record => { if (record) merge(record, MATCH_WEIGHTS.fuzzy); });
+    return scores;
+}
+
+/**
+ * Ids of the resources listed under `filter`, or null when it allows everything
+ */
+export async function filterSearchIndex(db: IDBDatabase, filter: SearchFilter): Promise<Record<string, boolean> | null> {
+    if (!filter.categories && !filter.collectionId) return null;
+    const allowed: Record<string, boolean> = {};
+    const store = readStore(db, SEARCH_DOCS_STORE);
+
+    const categoryKeys = filter.categories
+        ? (await Promise.all(filter.categories.map(c => promisify(store.index('listedAs').getAllKeys(c))))).reduce((all, keys) => all.concat(keys), [] as IDBValidKey[])
+        : null;
+    const collectionKeys = filter.collectionId
+        ? await promisify(readStore(db, SEARCH_DOCS_STORE).index('collectionId').getAllKeys(filter.collectionId))
+        : null;
+
+    if (categoryKeys && collectionKeys) {
+        const inCollection: Record<string, boolean> = {};
+        collectionKeys.forEach(key => { inCollection[String(key)] = true; });
+        categoryKeys.forEach(key => { if (inCollection[String(key)]) allowed[String(key)] = true; });
+    } else {
+        (categoryKeys || collectionKeys || []).forEach(key => { allowed[String(key)] = true; });
+    }
+    return allowed;
+}
+
+/**
+ * Ranked resource ids for `query`. Every term has to match; phrases must
+ * appear word for word. Scores weigh the field a term was found in, how rare
+ * the term is across the library and how exactly it matched.
+ */
+export async function querySearchIndex(db: IDBDatabase, query: string, filter: SearchFilter = {}): Promise<SearchHit[]> {
+    const parsed = parseSearchQuery(query);
+    if (parsed.terms.length === 0 && parsed.phrases.length === 0) {
+        // Only words too short to index ("o", "a b"): match them as prefixes
+        const short = normalizeSearchText(query);
+        if (!short) return [];
+        parsed.terms = short.split(' ').map(text => ({ text, exactOnly: false }));
+    }
+
+    const docCount = await promisify(readStore(db, SEARCH_DOCS_STORE).count());
+    const allowed = await filterSearchIndex(db, filter);
+
+    let totals: Record<string, number> | null = null;
+    for (let i = 0; i < parsed.terms.length; i++) {
+        const postings = await lookupTerm(db, parsed.terms[i]);
+        const ids = Object.keys(postings);
+        const idf = Math.log(1 + docCount / Math.max(1, ids.length));
+        const next: Record<string, number> = {};
+        ids.forEach(id => {
+            if (allowed && !allowed[id]) return;
+            if (totals && totals[id] === undefined) return;
+            next[id] = (totals ? totals[id] : 0) + postings[id] * idf;
+        });
+        totals = next;
+        if (ids.length === 0 || Object.keys(totals).length === 0) return [];
+    }
+    if (!totals) return [];
+
+    let hits: SearchHit[] = Object.keys(totals).map(id => ({ id, score: totals![id] }));
+
+    if (parsed.phrases.length > 0) {
+        const docs = await Promise.all(hits.map(hit => promisify<SearchDoc | undefined>(readStore(db, SEARCH_DOCS_STORE).get(hit.id))));
+        hits = hits.filter((hit, i) => {
+            const doc = docs[i];
+            if (!doc) return false;
+            return parsed.phrases.every(phrase => {
+                const fields = (Object.keys(PHRASE_BONUS) as SearchField[]).filter(field => ` ${doc.text[field]} `.includes(` ${phrase} `));
+                fields.forEach(field => { hit.score += PHRASE_BONUS[field]; });
+                return fields.length > 0;
+            });
+        });
+    }
+
+    return hits.sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : 1));
+}
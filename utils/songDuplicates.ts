@@ -0,0 +1,270 @@
+import Fuse from 'fuse.js';
+import { ResourceItem } from '@/utils/resourceLibrary';
+import { ScheduleItem, SavedPlan } from '@/utils/scheduleManager';
+import { SongArrangement, applyArrangement, getSections, sourceSlides } from '@/utils/arrangements';
+
+// Duplicate songs in the library: the same song imported from EasyWorship,
+// found online and typed in by hand ends up as several entries with slightly
+// different lyrics. Candidates are found by CCLI number and fuzzy title, then
+// confirmed by comparing the lyrics line by line.
+
+/**
+ * Fuzzy string matching using Sørensen–Dice coefficient
+ * (Same as the helper in utils/bible, kept local like there)
+ */
+const dice = (s1: string, s2: string) => {
+    if (!s1 || !s2) return 0;
+    const a = s1.toLowerCase().replace(/[^a-z0-9]/g, ''), b = s2.toLowerCase().replace(/[^a-z0-9]/g, '');
+    if (a === b) return 1;
+    const getBigrams = (s: string) => {
+        const b = new Set<string>();
+        for (let i = 0; i < s.length - 1; i++) b.add(s.substring(i, i + 2));
+        return b;
+    };
+    const ba = getBigrams(a), bb = getBigrams(b);
+    if (!ba.size || !bb.size) return 0;
+    let i = 0; ba.forEach(x => { if (bb.has(x)) i++ });
+    return (2 * i) / (ba.size + bb.size);
+};
+
+const TITLE_THRESHOLD = 0.8;
+const LYRIC_THRESHOLD = 0.7;
+// A plan item is a copy of a library song when the lyrics are this close
+const PLAN_COPY_THRESHOLD = 0.9;
+
+export type DuplicateMatch = {
+    a: ResourceItem;
+    b: ResourceItem;
+    titleScore: number;  // 0..1
+    lyricScore: number;  // 0..1
+    sameCcli: boolean;
+};
+
+export type DuplicateGroup = {
+    id: string;
+    songs: ResourceItem[];
+    matches: DuplicateMatch[];
+};
+
+// Fields the merge takes from a chosen song. `lyrics` brings the slides,
+// arrangements and rehearsal timings along with it.
+export type MergeField = 'title' | 'lyrics' | 'author' | 'copyright' | 'ccli' | 'key' | 'collection';
+
+export type MergeChoices = Record<MergeField, string>; // Field -> id of the song to take it from
+
+export const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+    { field: 'title', label: 'Title' },
+    { field: 'author', label: 'Author' },
+    { field: 'copyright', label: 'Copyright' },
+    { field: 'ccli', label: 'CCLI #' },
+    { field: 'key', label: 'Key' },
+    { field: 'collection', label: 'Collection' },
+    { field: 'lyrics', label: 'Lyrics' }
+];
+
+/**
+ * "Amazing Grace (My Chains Are Gone)" and "amazing grace" compare equal
+ */
+export const normalizeSongTitle = (title: string) =>
+    title.toLowerCase().replace(/\([^)]*\)|\[[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
+
+const lyricLines = (slides: ScheduleItem['slides']): string[] =>
+    slides
+        .flatMap(slide => slide.content.replace(/<[^>]+>/g, '').split('\n'))
+        .map(line => line.trim())
+        .filter(Boolean);
+
+/**
+ * How much of each song's lyrics appears in the other, 0..1. Each line is
+ * matched to its closest line on the other side, so reordered verses and
+ * small wording differences still score high.
+ */
+export const lyricSimilarity = (a: ScheduleItem, b: ScheduleItem): number => {
+    const linesA = lyricLines(sourceSlides(a));
+    const linesB = lyricLines(sourceSlides(b));
+    if (linesA.length === 0 || linesB.length === 0) return 0;
+
+    const coverage = (from: string[], to: string[]) =>
+        from.reduce((sum, line) => sum + Math.max(...to.map(other => dice(line, other))), 0) / from.length;
+    return Math.min(coverage(linesA, linesB), coverage(linesB, linesA));
+};
+
+const compareSongs = (a: ResourceItem, b: ResourceItem): DuplicateMatch => ({
+    a,
+    b,
+    titleScore: dice(normalizeSongTitle(a.title), normalizeSongTitle(b.title)),
+    lyricScore: lyricSimilarity(a, b),
+    sameCcli: !!a.meta?.ccli && a.meta.ccli.trim() === b.meta?.ccli?.trim()
+});
+
+const isDuplicate = (match: DuplicateMatch) =>
+    match.sameCcli
+    || (match.titleScore >= TITLE_THRESHOLD && match.lyricScore >= LYRIC_THRESHOLD);
+
+/**
+ * Groups of library songs that look like the same song, largest first
+ */
+export function findDuplicateSongs(library: ResourceItem[]): DuplicateGroup[] {
+    const songs = library.filter(r => r.category === 'song' && r.type === 'song');
+    const fuse = new Fuse(songs, { keys: ['title'], threshold: 0.3, ignoreLocation: true });
+
+    // Candidate pairs: same CCLI number, or a close title
+    const candidates = new Map<string, [ResourceItem, ResourceItem]>();
+    const addCandidate = (a: ResourceItem, b: ResourceItem) => {
+        if (a.id === b.id) return;
+        const key = a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`;
+        if (!candidates.has(key)) candidates.set(key, a.id < b.id ? [a, b] : [b, a]);
+    };
+
+    const byCcli = new Map<string, ResourceItem[]>();
+    songs.forEach(song => {
+        const ccli = song.meta?.ccli?.trim();
+        if (ccli) byCcli.set(ccli, [...(byCcli.get(ccli) || []), song]);
+        fuse.search(normalizeSongTitle(song.title) || song.title).forEach(result => addCandidate(song, result.item));
+    });
+    byCcli.forEach(group => group.forEach(a => group.forEach(b => addCandidate(a, b))));
+
+    // Union the confirmed pairs into groups
+    const parent = new Map<string, string>();
+    const root = (id: string): string => {
+        const p = parent.get(id);
+        if (!p || p === id) return id;
+        const r = root(p);
+        parent.set(id, r);
+        return r;
+    };
+
+    const matches: DuplicateMatch[] = [];
+    candidates.forEach(([a, b]) => {
+        const match = compareSongs(a, b);
+        if (!isDuplicate(match)) return;
+        matches.push(match);
+        parent.set(root(a.id), root(b.id));
+    });
+
+    const groups = new Map<string, DuplicateGroup>();
+    matches.forEach(match => {
+        const id = root(match.a.id);
+        const group = groups.get(id) || { id, songs: [], matches: [] };
+        [match.a, match.b].forEach(song => {
+            if (!group.songs.includes(song)) group.songs.push(song);
+        });
+        group.matches.push(match);
+        groups.set(id, group);
+    });
+
+    const result: DuplicateGroup[] = [];
+    groups.forEach(group => {
+        // Oldest entry first: it is the usual choice to keep
+        group.songs.sort((a, b) => a.dateAdded - b.dateAdded);
+        result.push(group);
+    });
+    return result.sort((a, b) => b.songs.length - a.songs.length || a.songs[0].title.localeCompare(b.songs[0].title));
+}
+
+const hasField = (song: ResourceItem, field: MergeField): boolean => {
+    switch (field) {
+        case 'title': return !!song.title;
+        case 'lyrics': return song.slides.length > 0;
+        case 'collection': return !!song.collectionId;
+        default: return !!song.meta?.[field];
+    }
+};
+
+/**
+ * Default choices: the oldest song's lyrics and title, and each other field
+ * from the first song that has it
+ */
+export function defaultMergeChoices(songs: ResourceItem[]): MergeChoices {
+    const choices = {} as MergeChoices;
+    MERGE_FIELDS.forEach(({ field }) => {
+        choices[field] = (songs.find(song => hasField(song, field)) || songs[0]).id;
+    });
+    return choices;
+}
+
+/**
+ * One song from `songs` with the chosen metadata. It keeps the id of the song
+ * whose lyrics were chosen; tags are combined, and arrangements from the other
+ * songs are kept when their sections exist in the chosen lyrics.
+ */
+export function mergeSongs(songs: ResourceItem[], choices: MergeChoices): ResourceItem {
+    const from = (field: MergeField) => songs.find(song => song.id === choices[field]) || songs[0];
+    const lyrics = from('lyrics');
+
+    const labels = getSections(sourceSlides(lyrics)).map(section => section.label);
+    const arrangements: SongArrangement[] = [...(lyrics.meta?.arrangements || [])];
+    songs.filter(song => song !== lyrics).forEach(song => {
+        (song.meta?.arrangements || []).forEach(arrangement => {
+            if (arrangements.some(a => a.name === arrangement.name)) return;
+            if (arrangement.sequence.every(label => labels.includes(label))) arrangements.push(arrangement);
+        });
+    });
+
+    const tags: string[] = [];
+    songs.forEach(song => (song.tags || []).forEach(tag => { if (!tags.includes(tag)) tags.push(tag); }));
+
+    return {
+        ...lyrics,
+        title: from('title').title,
+        activeSlideIndex: 0,
+        meta: {
+            ...lyrics.meta,
+            author: from('author').meta?.author,
+            copyright: from('copyright').meta?.copyright,
+            ccli: from('ccli').meta?.ccli,
+            key: from('key').meta?.key,
+            capo: from('key').meta?.capo,
+            arrangements: arrangements.length > 0 ? arrangements : undefined
+        },
+        tags,
+        collectionId: from('collection').collectionId ?? songs.find(song => song.collectionId)?.collectionId,
+        dateAdded: Math.min(...songs.map(song => song.dateAdded))
+    };
+}
+
+const isCopyOf = (item: ScheduleItem, song: ResourceItem) =>
+    item.type === 'song'
+    && !item.placeholder
+    && normalizeSongTitle(item.title) === normalizeSongTitle(song.title)
+    && lyricSimilarity(item, song) >= PLAN_COPY_THRESHOLD;
+
+/**
+ * Saved plans hold copies of library songs, not references. Returns the plans
+ * that contain a copy of any of `songs`, with those items replaced by the
+ * merged song. The plan's own item id, notes, cues, planned length and
+ * arrangement choice are kept, as are per-item display settings.
+ */
+export function rewritePlansForMerge(plans: SavedPlan[], songs: ResourceItem[], merged: ResourceItem): SavedPlan[] {
+    const { category, dateAdded, tags, collectionId, ...song } = merged;
+
+    const changed: SavedPlan[] = [];
+    plans.forEach(plan => {
+        let touched = false;
+        const items = plan.items.map(item => {
+            if (!songs.some(s => isCopyOf(item, s))) return item;
+            touched = true;
+
+            const replacement: ScheduleItem = {
+                ...song,
+                id: item.id,
+                activeSlideIndex: 0,
+                notes: item.notes,
+                cues: item.cues,
+                plannedDuration: item.plannedDuration,
+                meta: {
+                    ...song.meta,
+                    background: item.meta?.background,
+                    transitions: item.meta?.transitions,
+                    autoAdvance: item.meta?.autoAdvance
+                }
+            };
+            const arrangementId = item.meta?.arrangementId;
+            return arrangementId && song.meta?.arrangements?.some(a => a.id === arrangementId)
+                ? applyArrangement(replacement, arrangementId)
+                : replacement;
+        });
+        if (touched) changed.push({ ...plan, items });
+    });
+    return changed;
+}
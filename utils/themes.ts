@@ -1,3 +1,5 @@
+import { LayerTransitions } from '@/utils/transitions';
+
 
 export interface ProjectorTheme {
     id: string;
@@ -35,6 +37,20 @@ export interface ProjectorTheme {
         contentPadding?: number; // px
         textScale?: number; // multiplier
     };
+    lowerThird?: LowerThirdLayout; // Livestream lower-third output (/lower-third)
+    transitions?: LayerTransitions; // Overrides global transitions
+}
+
+export interface LowerThirdLayout {
+    barPosition: 'bottom' | 'top';
+    maxLines: number; // Lines of lyrics/scripture shown before truncating
+    referencePlacement: 'above' | 'left' | 'inline' | 'hidden';
+    barColor: string;
+    barOpacity: number; // 0 to 1
+    textColor?: string; // Falls back to theme styles.color
+    referenceColor?: string; // Falls back to the text color
+    fontSize: string; // e.g. "2.6vw"
+    margin: number; // % of frame height kept clear from the edge
 }
 
 export const GOOGLE_FONTS = [
@@ -54,6 +70,57 @@ export const DEFAULT_LAYOUT: NonNullable<ProjectorTheme['layout']> = {
     textScale: 1
 };
 
+/**
+ * Calculate optimal font size based on text length and verse count
+ * Returns a multiplier to apply to the base font size
+ */
+export function calculateFontScale(text: string, verseCount: number = 1, textScale?: number): number {
+    const charCount = text.length;
+
+    // Base thresholds for single verse
+    // Short text (< 150 chars): full size
+    // Medium text (150-300 chars): scale down slightly
+    // Long text (300-500 chars): scale down more
+    // Very long text (500+ chars): scale down significantly
+
+    let scale = 1;
+
+    if (verseCount === 1) {
+        if (charCount < 150) scale = 1;
+        else if (charCount < 250) scale = 0.9;
+        else if (charCount < 350) scale = 0.8;
+        else if (charCount < 450) scale = 0.7;
+        else if (charCount < 600) scale = 0.6;
+        else if (charCount < 800) scale = 0.5;
+        else scale = 0.4;
+    } else if (verseCount === 2) {
+        if (charCount < 300) scale = 0.85;
+        else if (charCount < 450) scale = 0.75;
+        else if (charCount < 600) scale = 0.65;
+        else if (charCount < 800) scale = 0.55;
+        else scale = 0.45;
+    } else {
+        // 3+ verses
+        if (charCount < 400) scale = 0.7;
+        else if (charCount < 600) scale = 0.6;
+        else if (charCount < 800) scale = 0.5;
+        else if (charCount < 1000) scale = 0.45;
+        else scale = 0.38;
+    }
+
+    return scale * (textScale || 1);
+}
+
+export const DEFAULT_LOWER_THIRD: LowerThirdLayout = {
+    barPosition: 'bottom',
+    maxLines: 2,
+    referencePlacement: 'above',
+    barColor: '#000000',
+    barOpacity: 0.75,
+    fontSize: '2.6vw',
+    margin: 6
+};
+
 const createTheme = (id: string, name: string, bg: string, font: string, align: 'center' | 'left' = 'center', color = '#ffffff'): ProjectorTheme => ({
     id, name,
     styles: {
@@ -0,0 +1,91 @@
+import type { CSSProperties } from 'react';
+
+// Slide transitions for output windows.
+// Background and text layers animate independently, so a motion background can
+// keep running while lyrics dissolve. Settings cascade: item > theme > global.
+
+export type TransitionType = 'cut' | 'crossfade' | 'fade_black' | 'slide' | 'zoom';
+
+export type TransitionSpec = {
+    type: TransitionType;
+    duration: number; // ms
+};
+
+export type LayerTransitions = {
+    background?: TransitionSpec;
+    content?: TransitionSpec;
+};
+
+export const TRANSITION_TYPES: { id: TransitionType; label: string }[] = [
+    { id: 'cut', label: 'Cut' },
+    { id: 'crossfade', label: 'Crossfade' },
+    { id: 'fade_black', label: 'Fade Through Black' },
+    { id: 'slide', label: 'Slide' },
+    { id: 'zoom', label: 'Zoom' }
+];
+
+export const DEFAULT_TRANSITIONS: Required<LayerTransitions> = {
+    background: { type: 'crossfade', duration: 1000 },
+    content: { type: 'crossfade', duration: 500 }
+};
+
+const GLOBAL_TRANSITIONS_KEY = 'globalTransitions';
+
+export const loadGlobalTransitions = (): LayerTransitions => {
+    if (typeof window === 'undefined') return DEFAULT_TRANSITIONS;
+    try {
+        const saved = localStorage.getItem(GLOBAL_TRANSITIONS_KEY);
+        return saved ? { ...DEFAULT_TRANSITIONS, ...JSON.parse(saved) } : DEFAULT_TRANSITIONS;
+    } catch (e) {
+        console.error('Failed to load transitions', e);
+        return DEFAULT_TRANSITIONS;
+    }
+};
+
+export const saveGlobalTransitions = (transitions: LayerTransitions): void => {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(GLOBAL_TRANSITIONS_KEY, JSON.stringify(transitions));
+};
+
+// Later entries win, per layer (pass global, then theme, then item)
+export const resolveTransitions = (...levels: (LayerTransitions | undefined | null)[]): Required<LayerTransitions> => {
+    const resolved = { ...DEFAULT_TRANSITIONS };
+    for (const level of levels) {
+        if (!level) continue;
+        if (level.background) resolved.background = level.background;
+        if (level.content) resolved.content = level.content;
+    }
+    return resolved;
+};
+
+export type TransitionPhase = 'from' | 'in' | 'out';
+
+// Inline styles for a layer at each phase. 'from' is the pre-enter frame.
+export const getTransitionStyle = (spec: TransitionSpec, phase: TransitionPhase): CSSProperties => {
+    if (spec.type === 'cut' || spec.duration <= 0) {
+        return { opacity: phase === 'out' ? 0 : 1 };
+    }
+
+    // Fade-through-black: the outgoing layer takes the first half, the incoming one the second
+    const isHalf = spec.type === 'fade_black';
+    const duration = isHalf ? spec.duration / 2 : spec.duration;
+    const delay = isHalf && phase === 'in' ? duration : 0;
+    const transition = `opacity ${duration}ms ease-in-out ${delay}ms, transform ${duration}ms ease-in-out ${delay}ms`;
+
+    switch (spec.type) {
+        case 'slide':
+            return {
+                transition,
+                opacity: phase === 'in' ? 1 : 0,
+                transform: phase === 'from' ? 'translateX(100%)' : phase === 'out' ? 'translateX(-100%)' : 'translateX(0)'
+            };
+        case 'zoom':
+            return {
+                transition,
+                opacity: phase === 'in' ? 1 : 0,
+                transform: phase === 'from' ? 'scale(1.15)' : phase === 'out' ? 'scale(0.9)' : 'scale(1)'
+            };
+        default:
+            return { transition, opacity: phase === 'in' ? 1 : 0 };
+    }
+};